@@ -0,0 +1,193 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import * as db from '../functions/api/db';
+import * as login from '../functions/api/login';
+import { MATCH_ACTION_COLUMNS } from '../src/lib/database';
+import { createLocalEnv } from './localApi';
+import { createLocalSqlClient } from './localNeon';
+
+let sqlClient: unknown;
+
+beforeAll(async () => {
+  sqlClient = await createLocalSqlClient();
+}, 60_000);
+
+// The dev server's env with these shell variables
+function localEnv(shellEnv: Record<string, string> = {}) {
+  return createLocalEnv(sqlClient, { RATE_LIMIT_PER_MINUTE: '10000', ...shellEnv });
+}
+
+async function call(
+  handler: typeof db | typeof login,
+  env: Record<string, any>,
+  body: unknown,
+  token?: string
+): Promise<{ status: number; json: any }> {
+  const request = new Request('http://localhost/api', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  });
+  const response = await handler.onRequestPost({ request, env });
+  return { status: response.status, json: await response.json() };
+}
+
+async function signIn(env: Record<string, any>, username: string, password: string): Promise<string> {
+  const { status, json } = await call(login, env, { username, password });
+  expect(status).toBe(200);
+  return json.token;
+}
+
+const USERS = JSON.stringify({ coach: 'pw-coach', analyst: 'pw-analyst' });
+
+describe('login', () => {
+  it('issues a token for a configured user and refuses wrong passwords', async () => {
+    const env = localEnv({ DB_USERS: USERS });
+    const ok = await call(login, env, { username: 'coach', password: 'pw-coach' });
+    expect(ok.status).toBe(200);
+    expect(ok.json.user).toBe('coach');
+
+    const wrong = await call(login, env, { username: 'coach', password: 'nope' });
+    expect(wrong.status).toBe(401);
+    expect(wrong.json.code).toBe('INVALID_CREDENTIALS');
+  });
+
+  it('signs every shared-password login in as the team, whatever name is typed', async () => {
+    const env = localEnv({ DB_TEAM_PASSWORD: 'pw-team', INGEST_USERS: 'coach' });
+    const ok = await call(login, env, { username: 'coach', password: 'pw-team' });
+    expect(ok.status).toBe(200);
+    expect(ok.json.user).toBe('team');
+
+    const upload = await call(db, env, { action: 'ingest', params: { rows: [{ match_id: 'm1' }], dryRun: true } }, ok.json.token);
+    expect(upload.status).toBe(403);
+    expect(upload.json.code).toBe('INGEST_FORBIDDEN');
+  });
+
+  it('is required by default', async () => {
+    const { status, json } = await call(db, localEnv({ DB_USERS: USERS }), { action: 'query', params: { query: 'SELECT 1' } });
+    expect(status).toBe(401);
+    expect(json.code).toBe('AUTH_REQUIRED');
+  });
+
+  it('can be turned off with DB_AUTH_DISABLED=true', async () => {
+    const { status } = await call(db, localEnv({ DB_AUTH_DISABLED: 'true' }), {
+      action: 'query',
+      params: { query: 'SELECT COUNT(*) AS count FROM combined_dvw' },
+    });
+    expect(status).toBe(200);
+  });
+});
+
+describe('query', () => {
+  it('runs read-only SELECTs on the seeded table', async () => {
+    const env = localEnv({ DB_USERS: USERS });
+    const token = await signIn(env, 'coach', 'pw-coach');
+    const { status, json } = await call(db, env, {
+      action: 'query',
+      params: { query: 'SELECT team, COUNT(*) AS actions FROM combined_dvw WHERE team IS NOT NULL GROUP BY team ORDER BY team' },
+    }, token);
+    expect(status).toBe(200);
+    expect(json.rows).toHaveLength(2);
+    expect(json.rows.every((row: any) => Number(row.actions) > 0)).toBe(true);
+  });
+
+  it('rejects writes and tables outside ALLOWED_TABLES', async () => {
+    const env = localEnv({ DB_USERS: USERS });
+    const token = await signIn(env, 'coach', 'pw-coach');
+    const write = await call(db, env, { action: 'query', params: { query: 'DELETE FROM combined_dvw' } }, token);
+    expect(write.json.code).toBe('SQL_NOT_READ_ONLY');
+    const other = await call(db, env, { action: 'query', params: { query: 'SELECT * FROM information_schema.tables' } }, token);
+    expect(other.json.code).toBe('SQL_TABLE_NOT_ALLOWED');
+  });
+});
+
+describe('file access', () => {
+  it('cannot read server files through DuckDB table functions', async () => {
+    const env = localEnv({ DB_AUTH_DISABLED: 'true' });
+    for (const query of [
+      `SELECT * FROM read_text('/etc/hostname')`,
+      `SELECT * FROM read_csv('/etc/passwd')`,
+      `SELECT * FROM glob('/etc/*')`,
+    ]) {
+      const { status, json } = await call(db, env, { action: 'query', params: { query } });
+      expect(status, query).not.toBe(200);
+      expect(JSON.stringify(json)).not.toMatch(/root:|\/etc\/hosts/);
+    }
+  });
+});
+
+describe('ingest', () => {
+  it('appends a new match for users in INGEST_USERS only', async () => {
+    const env = localEnv({ DB_USERS: USERS, INGEST_USERS: 'coach' });
+    const coach = await signIn(env, 'coach', 'pw-coach');
+    const analyst = await signIn(env, 'analyst', 'pw-analyst');
+
+    const { json: matches } = await call(db, env, { action: 'matches', params: {} }, coach);
+    const { json: match } = await call(db, env, { action: 'matchData', params: { matchId: matches.matches[0].match_id } }, coach);
+    const rows = match.data.map((row: any) => ({ ...row, match_id: 'uploaded-test-match' }));
+
+    const forbidden = await call(db, env, { action: 'ingest', params: { rows } }, analyst);
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.json.code).toBe('INGEST_FORBIDDEN');
+
+    const dryRun = await call(db, env, { action: 'ingest', params: { rows, dryRun: true } }, coach);
+    expect(dryRun.json.matches[0].status).toBe('new');
+
+    const uploaded = await call(db, env, { action: 'ingest', params: { rows } }, coach);
+    expect(uploaded.status).toBe(200);
+    expect(uploaded.json.inserted).toBe(rows.length);
+
+    const { json: count } = await call(db, env, {
+      action: 'query',
+      params: { query: `SELECT COUNT(*) AS count FROM combined_dvw WHERE match_id = 'uploaded-test-match'` },
+    }, coach);
+    expect(Number(count.rows[0].count)).toBe(rows.length);
+
+    const again = await call(db, env, { action: 'ingest', params: { rows } }, coach);
+    expect(again.json.matches[0].status).toBe('skip');
+    expect(again.json.inserted).toBe(0);
+  });
+});
+
+describe('ingest on SQLite', () => {
+  it('looks up existing matches in batches within the parameter limit', async () => {
+    const bound: number[] = [];
+    const d1 = {
+      prepare: (text: string) => ({
+        bind: (...params: any[]) => ({
+          all: async () => {
+            bound.push(params.length);
+            if (text.startsWith('PRAGMA table_info')) {
+              return { results: MATCH_ACTION_COLUMNS.map(name => ({ name, type: 'TEXT', notnull: 0 })) };
+            }
+            return { results: [] };
+          },
+        }),
+      }),
+    };
+    const env = { ...localEnv({ DB_USERS: USERS, INGEST_USERS: 'coach' }), SQLITE_DB: d1 };
+    const coach = await signIn(env, 'coach', 'pw-coach');
+    const rows = Array.from({ length: 150 }, (_, i) => ({ match_id: `m${i}`, home_team: 'A', visiting_team: 'B' }));
+
+    const { status, json } = await call(db, env, { action: 'ingest', backend: 'sqlite', params: { rows, dryRun: true } }, coach);
+    expect(status).toBe(200);
+    expect(json.matches).toHaveLength(150);
+    expect(Math.max(...bound)).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('cachePurge', () => {
+  it('is allowed for users in INGEST_USERS only', async () => {
+    const env = localEnv({ DB_USERS: USERS, INGEST_USERS: 'coach' });
+    const coach = await signIn(env, 'coach', 'pw-coach');
+    const analyst = await signIn(env, 'analyst', 'pw-analyst');
+    await call(db, env, { action: 'matches', params: {} }, coach);
+
+    const forbidden = await call(db, env, { action: 'cachePurge', params: {} }, analyst);
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.json.code).toBe('CACHE_FORBIDDEN');
+
+    const purged = await call(db, env, { action: 'cachePurge', params: {} }, coach);
+    expect(purged.status).toBe(200);
+    expect(purged.json.purged).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,126 @@
+// Serves the Pages Functions under /api from the Vite dev server, so `npm run dev` works offline.
+// The handlers run unchanged; their env gets an in-memory R2 bucket and a DuckDB-backed stand-in for
+// Neon (dev/localNeon.ts) seeded from dev/sample-match.dvw. Sign-in works as deployed (the dev server listens on
+// the network): pass DB_USERS or DB_TEAM_PASSWORD, or opt out with DB_AUTH_DISABLED=true.
+// Set LOCAL_API=false to skip this and proxy /api to `wrangler pages dev` or a deployment instead.
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin, ViteDevServer } from 'vite';
+import { MemoryR2Bucket } from './memoryR2';
+
+// Route -> function module, mirroring the functions/ directory layout
+const FUNCTION_ROUTES: Record<string, string> = {
+  '/api/db': '/functions/api/db.ts',
+  '/api/login': '/functions/api/login.ts',
+};
+
+// Bindings the handlers read that can be set from the shell, e.g. DB_USERS='{"coach":"pw"}' npm run dev
+const PASSTHROUGH_ENV = [
+  'DB_AUTH_DISABLED',
+  'DB_AUTH_SECRET',
+  'DB_USERS',
+  'DB_TEAM_PASSWORD',
+  'DB_SESSION_HOURS',
+  'INGEST_USERS',
+  'ALLOWED_TABLES',
+  'QUERY_ROW_LIMIT',
+  'QUERY_TIMEOUT_MS',
+  'RATE_LIMIT_PER_MINUTE',
+  'DAILY_QUERY_QUOTA',
+];
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  return Buffer.concat(chunks);
+}
+
+function toRequest(req: IncomingMessage, body: Buffer): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+  return new Request(`http://${req.headers.host || 'localhost'}${req.url}`, {
+    method: req.method,
+    headers,
+    body: body.length > 0 ? body : undefined,
+  });
+}
+
+async function sendResponse(res: ServerResponse, response: Response) {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Bindings for the local handlers: in-memory R2, the SQL stand-in and the shell's PASSTHROUGH_ENV values.
+ * Tokens are signed with a per-process secret unless DB_AUTH_SECRET is passed, so they end with the dev server.
+ */
+export function createLocalEnv(sqlClient: unknown, shellEnv: Record<string, string | undefined> = process.env): Record<string, any> {
+  const env: Record<string, any> = {
+    DB_AUTH_SECRET: crypto.randomUUID(),
+    ALLOWED_TABLES: 'combined_dvw',
+    R2_BUCKET: new MemoryR2Bucket(),
+    SQL_CLIENT: sqlClient,
+  };
+  for (const name of PASSTHROUGH_ENV) {
+    if (shellEnv[name] !== undefined) env[name] = shellEnv[name];
+  }
+  return env;
+}
+
+export function localApi(): Plugin {
+  let envPromise: Promise<Record<string, any>> | null = null;
+
+  // DuckDB starts on the first request, not with the dev server
+  const getEnv = (server: ViteDevServer) => {
+    envPromise ||= (async () => {
+      const { createLocalSqlClient } = await server.ssrLoadModule('/dev/localNeon.ts');
+      const env = createLocalEnv(await createLocalSqlClient());
+      server.config.logger.info('Local /api ready: combined_dvw seeded from dev/sample-match.dvw');
+      if (String(env.DB_AUTH_DISABLED).toLowerCase() !== 'true' && !env.DB_USERS && !env.DB_TEAM_PASSWORD) {
+        server.config.logger.warn('Local /api has no users: set DB_USERS or DB_TEAM_PASSWORD to sign in (or DB_AUTH_DISABLED=true)');
+      }
+      return env;
+    })();
+    envPromise.catch(() => { envPromise = null; });
+    return envPromise;
+  };
+
+  return {
+    name: 'local-api',
+    apply: 'serve',
+    configureServer(server) {
+      if (String(process.env.LOCAL_API).toLowerCase() === 'false') return;
+
+      server.middlewares.use(async (req, res, next) => {
+        const modulePath = FUNCTION_ROUTES[(req.url || '').split('?')[0]];
+        if (!modulePath) return next();
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+
+        try {
+          const [env, handler, body] = await Promise.all([getEnv(server), server.ssrLoadModule(modulePath), readBody(req)]);
+          const pending: Promise<any>[] = [];
+          const response: Response = await handler.onRequestPost({
+            request: toRequest(req, body),
+            env,
+            waitUntil: (promise: Promise<any>) => { pending.push(promise); },
+          });
+          await sendResponse(res, response);
+          await Promise.allSettled(pending);
+        } catch (error: any) {
+          if (error instanceof Error) server.ssrFixStacktrace(error);
+          server.config.logger.error(`Local ${req.url} failed: ${error?.stack || error}`);
+          res.statusCode = 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: error?.message || 'Local API error', code: 'CONFIG' }));
+        }
+      });
+    },
+  };
+}
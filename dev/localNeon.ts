@@ -0,0 +1,214 @@
+// In-process stand-in for the Neon HTTP client of the neon backend (functions/_lib/backends.ts), backed by DuckDB (node blocking build).
+// It covers the surface the backend uses: sql.transaction(txn => [txn.query(text, params), ...], { readOnly }).
+// Statements keep Postgres syntax; the few differences (SET LOCAL, array parameters, type names, SQLSTATE codes)
+// are bridged here. The public schema is seeded with combined_dvw from a DataVolley file.
+
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createDuckDB, NODE_RUNTIME, VoidLogger, type DuckDBBindings, type DuckDBConnection } from '@duckdb/duckdb-wasm/blocking';
+import { decodeDvwBytes, parseDvw } from '../src/lib/dvwParser';
+import { MATCH_ACTION_COLUMNS } from '../src/lib/database';
+
+interface LocalQuery {
+  text: string;
+  params: any[];
+}
+
+// Postgres names for DuckDB types, as information_schema.columns.data_type reports them on Neon
+const POSTGRES_TYPE_NAMES: Record<string, string> = {
+  VARCHAR: 'text',
+  BOOLEAN: 'boolean',
+  SMALLINT: 'smallint',
+  INTEGER: 'integer',
+  BIGINT: 'bigint',
+  FLOAT: 'real',
+  DOUBLE: 'double precision',
+  DATE: 'date',
+  TIMESTAMP: 'timestamp without time zone',
+  'TIMESTAMP WITH TIME ZONE': 'timestamp with time zone',
+};
+
+// DuckDB error messages mapped to the SQLSTATE codes toSqlRequestError expects from Neon
+const SQLSTATE_PATTERNS: [RegExp, string][] = [
+  [/^Parser Error/, '42601'],
+  [/Referenced column .* not found|column .* does not exist/i, '42703'],
+  [/Table with name .* does not exist/i, '42P01'],
+  [/Function with name .* does not exist|No function matches/i, '42883'],
+  [/must appear in the GROUP BY clause/i, '42803'],
+  [/^Conversion Error|^Out of Range Error|Division by zero/i, '22P02'],
+];
+
+// First keyword of statements allowed in a readOnly transaction
+const READ_ONLY_STATEMENT = /^\s*(\(\s*)*(SELECT|WITH|SHOW|EXPLAIN|VALUES)\b/i;
+
+export class LocalSqlError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+  }
+}
+
+function toLocalSqlError(error: any): LocalSqlError {
+  if (error instanceof LocalSqlError) return error;
+  const message = String(error?.message || error);
+  const match = SQLSTATE_PATTERNS.find(([pattern]) => pattern.test(message));
+  return new LocalSqlError(message, match ? match[1] : 'XX000');
+}
+
+function sqlLiteral(value: any): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (Array.isArray(value)) return `[${value.map(sqlLiteral).join(', ')}]`;
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+// Array parameters ($1::text[] with a JS array) don't bind in DuckDB: inline them as list literals
+// and renumber the remaining placeholders
+function bindArrayParams(query: LocalQuery): LocalQuery {
+  if (!query.params.some(Array.isArray)) return query;
+  const params: any[] = [];
+  const renumbered = new Map<number, number>();
+  const text = query.text.replace(/\$(\d+)\b/g, (placeholder, index) => {
+    const value = query.params[Number(index) - 1];
+    if (Array.isArray(value)) return sqlLiteral(value);
+    if (value === undefined) return placeholder;
+    if (!renumbered.has(Number(index))) {
+      params.push(value);
+      renumbered.set(Number(index), params.length);
+    }
+    return `$${renumbered.get(Number(index))}`;
+  });
+  return { text, params };
+}
+
+// Arrow values to what the Neon driver returns: plain numbers, arrays and objects
+function toPlainValue(value: any): any {
+  if (typeof value === 'bigint') return Number(value);
+  if (value && typeof value === 'object') {
+    if (typeof value.toArray === 'function') return Array.from(value.toArray(), toPlainValue);
+    if (typeof value.toJSON === 'function') return toPlainValue(value.toJSON());
+    if (Array.isArray(value)) return value.map(toPlainValue);
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPlainValue(entry)]));
+  }
+  return value;
+}
+
+function toRows(result: { toArray(): any[] }): Record<string, any>[] {
+  return result.toArray().map(row => {
+    const plain = toPlainValue(row.toJSON());
+    if (typeof plain.data_type === 'string') {
+      const type = plain.data_type.toUpperCase();
+      plain.data_type = POSTGRES_TYPE_NAMES[type] || (type.startsWith('DECIMAL') ? 'numeric' : plain.data_type.toLowerCase());
+    }
+    return plain;
+  });
+}
+
+function runQuery(conn: DuckDBConnection, query: LocalQuery): Record<string, any>[] {
+  // statement_timeout and other session settings have no DuckDB equivalent
+  if (/^\s*SET\s+LOCAL\b/i.test(query.text)) return [];
+  const bound = bindArrayParams(query);
+  if (bound.params.length === 0) return toRows(conn.query(bound.text));
+  const statement = conn.prepare(bound.text);
+  try {
+    return toRows(statement.query(...bound.params));
+  } finally {
+    statement.close();
+  }
+}
+
+// Column types for the seed table, from the parsed values; columns with no values fall back by name
+function seedColumnType(rows: Record<string, any>[], column: string): string {
+  const values = rows.map(row => row[column]).filter(value => value !== null && value !== undefined);
+  if (values.length === 0) return /coordinate/.test(column) ? 'DOUBLE' : /cone/.test(column) ? 'INTEGER' : 'VARCHAR';
+  if (values.every(value => typeof value === 'number')) {
+    return values.every(value => Number.isInteger(value)) ? 'INTEGER' : 'DOUBLE';
+  }
+  return 'VARCHAR';
+}
+
+function seedMatchTable(conn: DuckDBConnection, tableName: string, files: string[]) {
+  const rows = files.flatMap(file => {
+    const buffer = readFileSync(file);
+    const text = decodeDvwBytes(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+    return parseDvw(text, path.basename(file)).rows;
+  });
+  const columns = MATCH_ACTION_COLUMNS.map(column => `"${column}" ${seedColumnType(rows, column)}`);
+  conn.query(`CREATE TABLE "${tableName}" (${columns.join(', ')})`);
+  for (let i = 0; i < rows.length; i += 500) {
+    const values = rows.slice(i, i + 500)
+      .map(row => `(${MATCH_ACTION_COLUMNS.map(column => sqlLiteral(row[column])).join(', ')})`);
+    conn.query(`INSERT INTO "${tableName}" VALUES ${values.join(', ')}`);
+  }
+}
+
+export interface LocalSqlClientOptions {
+  // DataVolley files loaded into the seed table (default: dev/sample-match.dvw)
+  seedFiles?: string[];
+  seedTable?: string;
+}
+
+export interface LocalSqlClient {
+  transaction(build: (txn: { query(text: string, params?: any[]): LocalQuery }) => LocalQuery[], options?: { readOnly?: boolean }): Promise<Record<string, any>[][]>;
+  close(): void;
+}
+
+/**
+ * Start an in-memory DuckDB and seed it. Transactions run one at a time; readOnly ones are
+ * rolled back and reject writes with SQLSTATE 25006, like a READ ONLY transaction on Neon.
+ */
+export async function createLocalSqlClient(options: LocalSqlClientOptions = {}): Promise<LocalSqlClient> {
+  const require = createRequire(import.meta.url);
+  const dist = path.dirname(require.resolve('@duckdb/duckdb-wasm/dist/duckdb-mvp.wasm'));
+  const db: DuckDBBindings = await createDuckDB({
+    mvp: { mainModule: path.join(dist, 'duckdb-mvp.wasm'), mainWorker: path.join(dist, 'duckdb-node-mvp.worker.cjs') },
+    eh: { mainModule: path.join(dist, 'duckdb-eh.wasm'), mainWorker: path.join(dist, 'duckdb-node-eh.worker.cjs') },
+  }, new VoidLogger(), NODE_RUNTIME);
+  await db.instantiate();
+  const conn = db.connect();
+  conn.query('CREATE SCHEMA public');
+  conn.query(`SET search_path = 'public'`);
+  seedMatchTable(
+    conn,
+    options.seedTable || 'combined_dvw',
+    options.seedFiles || [path.resolve(path.dirname(fileURLToPath(import.meta.url)), 'sample-match.dvw')]
+  );
+  // Seeding was the last file read: queries get no read_text/read_csv/glob access to the machine, and
+  // the lock keeps a query from turning it back on
+  conn.query('SET enable_external_access = false');
+  conn.query('SET lock_configuration = true');
+
+  let queue: Promise<unknown> = Promise.resolve();
+  const transaction: LocalSqlClient['transaction'] = (build, { readOnly = false } = {}) => {
+    const queries = build({ query: (text, params = []) => ({ text, params }) });
+    const run = async () => {
+      conn.query('BEGIN TRANSACTION');
+      try {
+        const results = queries.map(query => {
+          if (readOnly && !/^\s*SET\b/i.test(query.text) && !READ_ONLY_STATEMENT.test(query.text)) {
+            throw new LocalSqlError('cannot execute statement in a read-only transaction', '25006');
+          }
+          return runQuery(conn, query);
+        });
+        conn.query(readOnly ? 'ROLLBACK' : 'COMMIT');
+        return results;
+      } catch (error) {
+        conn.query('ROLLBACK');
+        throw toLocalSqlError(error);
+      }
+    };
+    const result = queue.then(run);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    transaction,
+    close: () => {
+      conn.close();
+      db.reset();
+    },
+  };
+}
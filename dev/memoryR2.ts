@@ -0,0 +1,72 @@
+// In-memory stand-in for the R2_BUCKET binding, covering the calls functions/ makes:
+// get (json/text), put (with customMetadata), delete (one key or many) and paged list.
+
+interface StoredObject {
+  body: string;
+  size: number;
+  uploaded: Date;
+  customMetadata: Record<string, string>;
+}
+
+export interface MemoryR2ListOptions {
+  prefix?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+export class MemoryR2Bucket {
+  private objects = new Map<string, StoredObject>();
+
+  async get(key: string) {
+    const object = this.objects.get(key);
+    if (!object) return null;
+    return {
+      key,
+      size: object.size,
+      uploaded: object.uploaded,
+      customMetadata: object.customMetadata,
+      text: async () => object.body,
+      json: async () => JSON.parse(object.body),
+    };
+  }
+
+  async put(key: string, value: string | ArrayBuffer | Uint8Array, options: { customMetadata?: Record<string, string> } = {}) {
+    const body = typeof value === 'string' ? value : new TextDecoder().decode(value);
+    const object: StoredObject = {
+      body,
+      size: new TextEncoder().encode(body).length,
+      uploaded: new Date(),
+      customMetadata: { ...(options.customMetadata || {}) },
+    };
+    this.objects.set(key, object);
+    return { key, size: object.size, uploaded: object.uploaded };
+  }
+
+  async delete(keys: string | string[]) {
+    for (const key of Array.isArray(keys) ? keys : [keys]) this.objects.delete(key);
+  }
+
+  // Keys in lexical order like R2; the cursor is the offset into the matching keys
+  async list(options: MemoryR2ListOptions = {}) {
+    const prefix = options.prefix || '';
+    const limit = options.limit && options.limit > 0 ? options.limit : DEFAULT_LIST_LIMIT;
+    const offset = Number(options.cursor) || 0;
+    const keys = [...this.objects.keys()].filter(key => key.startsWith(prefix)).sort();
+    const page = keys.slice(offset, offset + limit);
+    const truncated = offset + limit < keys.length;
+    return {
+      objects: page.map(key => {
+        const object = this.objects.get(key)!;
+        return { key, size: object.size, uploaded: object.uploaded, customMetadata: object.customMetadata };
+      }),
+      truncated,
+      cursor: truncated ? String(offset + limit) : undefined,
+    };
+  }
+
+  clear() {
+    this.objects.clear();
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryR2Bucket } from '../../dev/memoryR2';
+import { AuthError, consumeRateLimit, writeAuditLog } from './auth';
+
+const entry = { sub: 'coach', jti: 'token', action: 'query', status: 200, ip: '127.0.0.1', durationMs: 1 };
+
+describe('consumeRateLimit', () => {
+  it('counts in memory without writing to R2 when no KV is bound', async () => {
+    const env = { R2_BUCKET: new MemoryR2Bucket() };
+    await consumeRateLimit(env, 'test/memory', 2, 60);
+    await consumeRateLimit(env, 'test/memory', 2, 60);
+    await expect(consumeRateLimit(env, 'test/memory', 2, 60)).rejects.toBeInstanceOf(AuthError);
+    expect((await env.R2_BUCKET.list({ prefix: 'ratelimit/' })).objects).toHaveLength(0);
+  });
+
+  it('stores counters in KV with a TTL', async () => {
+    const puts: { key: string; ttl: number }[] = [];
+    const values = new Map<string, string>();
+    const kv = {
+      get: async (key: string) => values.get(key) ?? null,
+      put: async (key: string, value: string, options: { expirationTtl: number }) => {
+        values.set(key, value);
+        puts.push({ key, ttl: options.expirationTtl });
+      },
+    };
+    await consumeRateLimit({ RATE_LIMIT_KV: kv }, 'test/kv', 5, 60);
+    expect(puts).toHaveLength(1);
+    expect(puts[0].ttl).toBe(60);
+  });
+});
+
+describe('writeAuditLog', () => {
+  it('writes every entry when it is logged, as a JSON-lines object', async () => {
+    const env = { R2_BUCKET: new MemoryR2Bucket() };
+    await writeAuditLog(env, entry);
+    expect((await env.R2_BUCKET.list({ prefix: 'audit/' })).objects).toHaveLength(1);
+
+    await writeAuditLog(env, { ...entry, action: 'schema' });
+    const { objects } = await env.R2_BUCKET.list({ prefix: 'audit/' });
+    expect(objects).toHaveLength(2);
+    const actions = await Promise.all(objects.map(async object => JSON.parse(await (await env.R2_BUCKET.get(object.key))!.text()).action));
+    expect(actions.sort()).toEqual(['query', 'schema']);
+  });
+});
@@ -0,0 +1,250 @@
+// Authentication, rate limiting and audit logging shared by the /api Pages Functions
+// Session tokens are "<payload>.<signature>": base64url JSON { sub, jti, iat, exp } signed with
+// HMAC-SHA256 using DB_AUTH_SECRET. /api/login issues them; /api/db verifies them on every request.
+// Rate-limit counters live in the RATE_LIMIT_KV namespace when bound, otherwise in isolate memory.
+// Audit entries are batched per isolate into R2_BUCKET (or KV) objects under audit/.
+
+export type AuthErrorCode =
+  | 'AUTH_REQUIRED'
+  | 'AUTH_INVALID'
+  | 'AUTH_EXPIRED'
+  | 'INVALID_CREDENTIALS'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'CONFIG';
+
+export class AuthError extends Error {
+  constructor(public code: AuthErrorCode, message: string, public status: number = 401, public retryAfter?: number) {
+    super(message);
+  }
+}
+
+export interface Session {
+  sub: string; // User name
+  jti: string; // Token id, used for per-token rate limits and the audit log
+  iat: number;
+  exp: number;
+}
+
+const DEFAULT_SESSION_HOURS = 12;
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_DAILY_QUOTA = 5000;
+
+export function authErrorResponse(error: AuthError): Response {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (error.retryAfter) headers['Retry-After'] = String(error.retryAfter);
+  return new Response(JSON.stringify({ error: error.message, code: error.code }), { status: error.status, headers });
+}
+
+export function clientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For')?.split(',')[0].trim() || 'unknown';
+}
+
+// Local development can opt out with DB_AUTH_DISABLED=true; everywhere else a secret is required
+export function isAuthDisabled(env: any): boolean {
+  return String(env.DB_AUTH_DISABLED).toLowerCase() === 'true';
+}
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+// Compare two strings without leaking where they differ
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Sign a session token for `sub`, valid for DB_SESSION_HOURS (default 12)
+ */
+export async function issueSessionToken(env: any, sub: string): Promise<{ token: string; session: Session }> {
+  if (!env.DB_AUTH_SECRET) throw new AuthError('CONFIG', 'DB_AUTH_SECRET is not configured', 500);
+  const hours = Number(env.DB_SESSION_HOURS) > 0 ? Number(env.DB_SESSION_HOURS) : DEFAULT_SESSION_HOURS;
+  const now = Math.floor(Date.now() / 1000);
+  const session: Session = { sub, jti: crypto.randomUUID(), iat: now, exp: now + Math.round(hours * 3600) };
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(env.DB_AUTH_SECRET), encoder.encode(payload));
+  return { token: `${payload}.${base64UrlEncode(new Uint8Array(signature))}`, session };
+}
+
+export async function verifySessionToken(env: any, token: string): Promise<Session> {
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) throw new AuthError('AUTH_INVALID', 'Malformed session token');
+
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify('HMAC', await hmacKey(env.DB_AUTH_SECRET), base64UrlDecode(signature), encoder.encode(payload));
+  } catch {
+    valid = false;
+  }
+  if (!valid) throw new AuthError('AUTH_INVALID', 'Invalid session token');
+
+  const session = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as Session;
+  if (!session.sub || !session.exp || session.exp * 1000 < Date.now()) {
+    throw new AuthError('AUTH_EXPIRED', 'Session expired, please sign in again');
+  }
+  return session;
+}
+
+/**
+ * Session of the request's "Authorization: Bearer <token>" header.
+ * With DB_AUTH_DISABLED=true every request gets an anonymous per-IP session.
+ */
+export async function authenticateRequest(request: Request, env: any): Promise<Session> {
+  if (isAuthDisabled(env)) {
+    const ip = clientIp(request);
+    return { sub: 'anonymous', jti: `ip:${ip}`, iat: 0, exp: 0 };
+  }
+  if (!env.DB_AUTH_SECRET) {
+    throw new AuthError('CONFIG', 'Authentication is not configured (set DB_AUTH_SECRET, or DB_AUTH_DISABLED=true for local development)', 500);
+  }
+  const header = request.headers.get('Authorization') || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) throw new AuthError('AUTH_REQUIRED', 'Sign in to the team database first');
+  return verifySessionToken(env, match[1].trim());
+}
+
+// Identity of every DB_TEAM_PASSWORD sign-in: the typed name is not verified, so it cannot pick a user
+// (an INGEST_USERS entry, another user's daily quota). Ingest also needs DB_USERS, so this never uploads.
+export const SHARED_PASSWORD_USER = 'team';
+
+/**
+ * Check a login against DB_USERS (JSON { "name": "password" }) or the shared DB_TEAM_PASSWORD.
+ * Returns the user name to put in the token: the DB_USERS name, or SHARED_PASSWORD_USER.
+ */
+export function checkCredentials(env: any, username: string, password: string): string {
+  const name = String(username || '').trim();
+  if (!name || !password) throw new AuthError('INVALID_CREDENTIALS', 'User name and password are required');
+
+  if (env.DB_USERS) {
+    let users: Record<string, string> = {};
+    try {
+      users = JSON.parse(env.DB_USERS);
+    } catch {
+      throw new AuthError('CONFIG', 'DB_USERS must be a JSON object of user name to password', 500);
+    }
+    const stored = Object.entries(users).find(([user]) => user.toLowerCase() === name.toLowerCase());
+    // Compare against a dummy when the user is unknown so timing does not reveal valid names
+    if (timingSafeEqual(stored?.[1] ?? '\u0000', password) && stored) return stored[0];
+  } else if (env.DB_TEAM_PASSWORD) {
+    if (timingSafeEqual(env.DB_TEAM_PASSWORD, password)) return SHARED_PASSWORD_USER;
+  } else {
+    throw new AuthError('CONFIG', 'No users configured (set DB_USERS or DB_TEAM_PASSWORD)', 500);
+  }
+  throw new AuthError('INVALID_CREDENTIALS', 'Wrong user name or password');
+}
+
+// Counter storage: KV when bound (entries expire with their window), otherwise this isolate's memory.
+// Counters never go to R2: it has no TTL, so every window would leave an object behind.
+const memoryCounters = new Map<string, { value: number; expiresAt: number }>();
+const MAX_MEMORY_COUNTERS = 10000;
+
+async function readCounter(env: any, key: string): Promise<number> {
+  if (env.RATE_LIMIT_KV) return Number(await env.RATE_LIMIT_KV.get(key)) || 0;
+  const counter = memoryCounters.get(key);
+  return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+}
+
+async function writeCounter(env: any, key: string, value: number, ttlSeconds: number): Promise<void> {
+  if (env.RATE_LIMIT_KV) {
+    await env.RATE_LIMIT_KV.put(key, String(value), { expirationTtl: Math.max(60, ttlSeconds) });
+    return;
+  }
+  const now = Date.now();
+  if (memoryCounters.size >= MAX_MEMORY_COUNTERS) {
+    for (const [counterKey, counter] of memoryCounters) {
+      if (counter.expiresAt <= now) memoryCounters.delete(counterKey);
+    }
+  }
+  memoryCounters.set(key, { value, expiresAt: now + ttlSeconds * 1000 });
+}
+
+/**
+ * Fixed-window counter: throws RATE_LIMITED (or `code`) once `limit` requests were made in the window.
+ * KV is eventually consistent and memory counters are per isolate, so limits are approximate.
+ */
+export async function consumeRateLimit(
+  env: any,
+  scope: string,
+  limit: number,
+  windowSeconds: number,
+  code: 'RATE_LIMITED' | 'QUOTA_EXCEEDED' = 'RATE_LIMITED'
+): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const windowStart = now - (now % windowSeconds);
+  const key = `ratelimit/${scope}/${windowStart}`;
+  const used = await readCounter(env, key);
+  if (used >= limit) {
+    const retryAfter = windowStart + windowSeconds - now;
+    const message = code === 'QUOTA_EXCEEDED'
+      ? `Daily query quota of ${limit} reached`
+      : `Too many requests (limit ${limit} per ${windowSeconds}s)`;
+    throw new AuthError(code, message, 429, retryAfter);
+  }
+  await writeCounter(env, key, used + 1, windowSeconds);
+}
+
+/**
+ * Per-token requests per minute (RATE_LIMIT_PER_MINUTE, default 60) and
+ * per-user daily quota (DAILY_QUERY_QUOTA, default 5000)
+ */
+export async function enforceSessionLimits(env: any, session: Session): Promise<void> {
+  const perMinute = Number(env.RATE_LIMIT_PER_MINUTE) > 0 ? Number(env.RATE_LIMIT_PER_MINUTE) : DEFAULT_REQUESTS_PER_MINUTE;
+  const daily = Number(env.DAILY_QUERY_QUOTA) > 0 ? Number(env.DAILY_QUERY_QUOTA) : DEFAULT_DAILY_QUOTA;
+  await consumeRateLimit(env, `token/${session.jti}`, perMinute, 60);
+  await consumeRateLimit(env, `user/${session.sub}`, daily, 24 * 60 * 60, 'QUOTA_EXCEEDED');
+}
+
+export interface AuditEntry {
+  sub: string;
+  jti: string;
+  action: string;
+  status: number;
+  code?: string;
+  ip: string;
+  durationMs: number;
+  tableName?: string;
+  query?: string;
+}
+
+const AUDIT_KV_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/**
+ * Write an audit entry as its own JSON-lines object under audit/<yyyy-mm-dd>/. Nothing is buffered in the
+ * isolate, so an evicted isolate loses no entries; callers hand the promise to waitUntil or await it.
+ * R2 keeps entries until the bucket's lifecycle rule removes them; KV expires them after 90 days.
+ * Failures are logged and swallowed so auditing never breaks a request.
+ */
+export async function writeAuditLog(env: any, entry: AuditEntry): Promise<void> {
+  try {
+    const at = new Date();
+    const key = `audit/${at.toISOString().slice(0, 10)}/${at.getTime()}-${crypto.randomUUID().slice(0, 8)}.jsonl`;
+    const body = JSON.stringify({ ...entry, query: entry.query?.slice(0, 4000), at: at.toISOString() }) + '\n';
+    if (env.R2_BUCKET) {
+      await env.R2_BUCKET.put(key, body, { httpMetadata: { contentType: 'application/x-ndjson' } });
+    } else if (env.RATE_LIMIT_KV) {
+      await env.RATE_LIMIT_KV.put(key, body, { expirationTtl: AUDIT_KV_TTL_SECONDS });
+    }
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
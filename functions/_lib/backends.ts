@@ -0,0 +1,259 @@
+// SQL backends behind /api/db: Neon (HTTP driver), any Postgres server (wire protocol over a WebSocket proxy)
+// and SQLite (a Cloudflare D1 binding). Statements use $1, $2 placeholders everywhere, and adapters report
+// errors with Postgres SQLSTATE codes so db.ts maps them to the same client-facing codes for every backend.
+// Attached DuckDB files are the fourth backend, but they run in the browser (src/lib/attachedDuckDB.ts).
+
+import type { NeonQueryFunction } from '@neondatabase/serverless';
+
+export type BackendKind = 'neon' | 'postgres' | 'sqlite';
+
+export const BACKEND_LABELS: Record<BackendKind, string> = {
+  neon: 'Neon Postgres',
+  postgres: 'PostgreSQL',
+  sqlite: 'SQLite (D1)',
+};
+
+export interface SqlStatement {
+  text: string;
+  params: any[];
+}
+
+export interface TableEntry {
+  name: string;
+  view: boolean;
+}
+
+// Shaped like information_schema.columns; data_type uses Postgres names on every backend
+export interface ColumnEntry {
+  column_name: string;
+  data_type: string;
+  is_nullable: 'YES' | 'NO';
+}
+
+export interface SqlBackend {
+  kind: BackendKind;
+  label: string;
+  // Added to SQL_SYNTAX errors so the LLM fixes the dialect, not just the typo
+  syntaxHint: string;
+  // Bound parameters allowed in one statement (ingest sizes its INSERT batches with it)
+  maxParams: number;
+  // One statement in a read-only transaction with the statement timeout
+  query(text: string, params?: any[]): Promise<any[]>;
+  // Statements in one read-write transaction: all of them apply or none
+  write(statements: SqlStatement[]): Promise<void>;
+  listTables(): Promise<TableEntry[]>;
+  describeColumns(table: string): Promise<ColumnEntry[]>;
+  // Cheap row count estimate, or null when the backend has none
+  estimateRowCount(table: string): Promise<number | null>;
+  // Aggregate collecting `expression` into a list; parseList reads the aggregated value back
+  listAggregate(expression: string): string;
+  parseList(value: unknown): any[] | null;
+}
+
+// A backend that cannot run with the current env; db.ts reports it as a CONFIG error
+export class BackendConfigError extends Error {}
+
+// Backends with credentials in env, in the order used when neither the request nor DB_BACKEND picks one
+export function configuredBackends(env: any): BackendKind[] {
+  const kinds: BackendKind[] = [];
+  if (env.NEON_CONNECTION_STRING || env.SQL_CLIENT) kinds.push('neon');
+  if (env.POSTGRES_CONNECTION_STRING) kinds.push('postgres');
+  if (env.SQLITE_DB) kinds.push('sqlite');
+  return kinds;
+}
+
+// Neon over HTTP; `npm run dev` injects an in-process stand-in as env.SQL_CLIENT (see dev/localApi.ts)
+async function getSqlClient(env: any): Promise<NeonQueryFunction<false, false>> {
+  if (env.SQL_CLIENT) return env.SQL_CLIENT;
+  const { neon } = await import('@neondatabase/serverless');
+  return neon(env.NEON_CONNECTION_STRING);
+}
+
+type RunTransaction = (statements: SqlStatement[], readOnly: boolean) => Promise<any[][]>;
+
+// Neon and plain Postgres share the catalog queries; only how a transaction is sent differs
+function postgresBackend(kind: 'neon' | 'postgres', timeoutMs: number, run: RunTransaction): SqlBackend {
+  const timeout = { text: `SET LOCAL statement_timeout = ${Math.round(timeoutMs)}`, params: [] };
+  const query = async (text: string, params: any[] = []) => {
+    const results = await run([timeout, { text, params }], true);
+    const rows = results[results.length - 1];
+    return Array.isArray(rows) ? rows : [];
+  };
+
+  return {
+    kind,
+    label: BACKEND_LABELS[kind],
+    syntaxHint: 'This is a PostgreSQL database: check quoting (identifiers in double quotes, strings in single quotes)',
+    maxParams: 65535,
+    query,
+    write: async statements => {
+      await run([timeout, ...statements], false);
+    },
+    listTables: async () => {
+      const rows = await query(`SELECT table_name, table_type FROM information_schema.tables
+                        WHERE table_schema = 'public' AND table_type IN ('BASE TABLE', 'VIEW')
+                        ORDER BY table_name`);
+      return rows.map((row: any) => ({ name: String(row.table_name), view: row.table_type === 'VIEW' }));
+    },
+    describeColumns: async table => query(`SELECT column_name, data_type, is_nullable
+                        FROM information_schema.columns
+                        WHERE table_schema = 'public' AND table_name = $1
+                        ORDER BY ordinal_position`, [table]),
+    // Planner estimate; -1 (never analyzed) and views have none
+    estimateRowCount: async table => {
+      const rows = await query(`SELECT c.reltuples::bigint AS estimate
+                        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+                        WHERE n.nspname = 'public' AND c.relname = $1 AND c.relkind IN ('r', 'p', 'm')`, [table]);
+      const estimate = Number(rows[0]?.estimate);
+      return Number.isFinite(estimate) && estimate > 0 ? estimate : null;
+    },
+    listAggregate: expression => `array_agg(${expression} ORDER BY ${expression})`,
+    parseList: value => (Array.isArray(value) ? value : null),
+  };
+}
+
+function neonBackend(env: any, timeoutMs: number): SqlBackend {
+  return postgresBackend('neon', timeoutMs, async (statements, readOnly) => {
+    const sql = await getSqlClient(env);
+    return sql.transaction(txn => statements.map(statement => txn.query(statement.text, statement.params)), { readOnly });
+  });
+}
+
+/**
+ * Any Postgres server through the wire protocol. Workers can't open raw TCP from this driver, so the
+ * connection is tunnelled through a WebSocket proxy (e.g. Neon's wsproxy) at POSTGRES_WS_PROXY.
+ */
+function wirePostgresBackend(env: any, timeoutMs: number): SqlBackend {
+  return postgresBackend('postgres', timeoutMs, async (statements, readOnly) => {
+    const { Client } = await import('@neondatabase/serverless');
+    const client = new Client(env.POSTGRES_CONNECTION_STRING);
+    if (env.POSTGRES_WS_PROXY) {
+      const proxy = String(env.POSTGRES_WS_PROXY);
+      client.neonConfig.wsProxy = (host, port) => `${proxy.replace(/^wss?:\/\//, '')}?address=${host}:${port}`;
+      client.neonConfig.useSecureWebSocket = !proxy.startsWith('ws://');
+    }
+    // Password pipelining is a Neon extension
+    client.neonConfig.pipelineConnect = false;
+    await client.connect();
+    try {
+      await client.query(readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+      const results: any[][] = [];
+      try {
+        for (const statement of statements) {
+          results.push((await client.query(statement.text, statement.params)).rows);
+        }
+        await client.query(readOnly ? 'ROLLBACK' : 'COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+      return results;
+    } finally {
+      await client.end();
+    }
+  });
+}
+
+// D1 error messages mapped to the SQLSTATE codes a Postgres server would send
+const SQLITE_ERROR_STATES: [RegExp, string][] = [
+  [/no such table/i, '42P01'],
+  [/no such column/i, '42703'],
+  [/syntax error|incomplete input|unrecognized token/i, '42601'],
+  [/no such function|wrong number of arguments to function/i, '42883'],
+  [/misuse of aggregate/i, '42803'],
+  [/too many SQL variables/i, '08P01'],
+  [/readonly database|SQLITE_READONLY/i, '25006'],
+  [/datatype mismatch|SQLITE_MISMATCH/i, '22000'],
+  [/timed? ?out|exceeded its CPU time/i, '57014'],
+];
+
+function toSqliteError(error: any): Error {
+  const message = String(error?.message || error).replace(/^D1_ERROR:\s*/, '');
+  const match = SQLITE_ERROR_STATES.find(([pattern]) => pattern.test(message));
+  return Object.assign(new Error(message), { code: match ? match[1] : undefined });
+}
+
+// Declared SQLite types folded into the Postgres names the rest of db.ts checks, by SQLite's affinity rules
+function sqliteTypeToPostgres(declared: string): string {
+  const type = declared.toUpperCase();
+  if (type.includes('INT')) return 'integer';
+  if (type.includes('BOOL')) return 'boolean';
+  if (/CHAR|CLOB|TEXT/.test(type) || type === '') return 'text';
+  if (/REAL|FLOA|DOUB/.test(type)) return 'double precision';
+  if (type.includes('DATE') || type.includes('TIME')) return 'date';
+  return 'numeric';
+}
+
+/**
+ * SQLite through a D1 binding (SQLITE_DB). D1 has neither read-only transactions nor read-only connections,
+ * so validateReadOnlySql is the only guard against writes: the backend refuses to start without an
+ * ALLOWED_TABLES list for it to check. D1 binds ?NNN placeholders, so $1, $2 are rewritten.
+ */
+function sqliteBackend(env: any): SqlBackend {
+  if (!String(env.ALLOWED_TABLES || '').split(',').some(table => table.trim())) {
+    throw new BackendConfigError('The SQLite backend needs ALLOWED_TABLES: D1 cannot open a read-only connection');
+  }
+  const db = env.SQLITE_DB;
+  const prepare = (statement: SqlStatement) =>
+    db.prepare(statement.text.replace(/\$(\d+)/g, '?$1')).bind(...statement.params);
+  const query = async (text: string, params: any[] = []) => {
+    try {
+      const result = await prepare({ text, params }).all();
+      return result.results || [];
+    } catch (error) {
+      throw toSqliteError(error);
+    }
+  };
+
+  return {
+    kind: 'sqlite',
+    label: BACKEND_LABELS.sqlite,
+    syntaxHint: 'This is a SQLite database: no :: casts (use CAST(x AS REAL)), no ILIKE, dates are text (use strftime)',
+    maxParams: 100,
+    query,
+    // D1 runs a batch as one transaction
+    write: async statements => {
+      try {
+        await db.batch(statements.map(prepare));
+      } catch (error) {
+        throw toSqliteError(error);
+      }
+    },
+    listTables: async () => {
+      const rows = await query(`SELECT name, type FROM sqlite_master
+                        WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\' AND name NOT LIKE '\\_cf\\_%' ESCAPE '\\'
+                        ORDER BY name`);
+      return rows.map((row: any) => ({ name: String(row.name), view: row.type === 'view' }));
+    },
+    describeColumns: async table => {
+      const rows = await query(`PRAGMA table_info("${table.replace(/"/g, '""')}")`);
+      return rows.map((row: any) => ({
+        column_name: String(row.name),
+        data_type: sqliteTypeToPostgres(String(row.type || '')),
+        is_nullable: row.notnull ? 'NO' : 'YES',
+      }));
+    },
+    estimateRowCount: async () => null,
+    listAggregate: expression => `json_group_array(${expression})`,
+    parseList: value => {
+      if (typeof value !== 'string') return null;
+      try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+export function createBackend(env: any, kind: BackendKind, timeoutMs: number): SqlBackend {
+  switch (kind) {
+    case 'postgres':
+      return wirePostgresBackend(env, timeoutMs);
+    case 'sqlite':
+      return sqliteBackend(env);
+    default:
+      return neonBackend(env, timeoutMs);
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { SqlRequestError, validateReadOnlySql } from './readOnlySql';
+
+const ALLOWED = ['combined_dvw', 'rosters'];
+
+// The error code validateReadOnlySql throws for `query`, or null when it is accepted
+function rejection(query: string): string | null {
+  try {
+    validateReadOnlySql(query, ALLOWED);
+    return null;
+  } catch (error) {
+    if (error instanceof SqlRequestError) return error.code;
+    throw error;
+  }
+}
+
+describe('validateReadOnlySql', () => {
+  it('accepts read-only queries on allowed tables', () => {
+    const queries = [
+      'SELECT * FROM combined_dvw LIMIT 5',
+      'SELECT player_name, COUNT(*) FROM combined_dvw WHERE team = $1 GROUP BY player_name;',
+      'SELECT EXTRACT(YEAR FROM created_at), SUBSTRING(team FROM 1 FOR 3) FROM combined_dvw',
+      'SELECT * FROM combined_dvw a JOIN rosters r ON r.name = a.player_name',
+      'SELECT * FROM (combined_dvw a CROSS JOIN rosters r)',
+      'SELECT * FROM combined_dvw WHERE team IN (TABLE rosters)',
+      'SELECT * FROM (SELECT match_id FROM combined_dvw) t, generate_series(1, 3) g',
+      'SELECT * FROM combined_dvw WHERE team IS DISTINCT FROM visiting_team',
+      'WITH kills AS (SELECT * FROM combined_dvw) SELECT * FROM kills JOIN rosters USING (team)',
+      'WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n WHERE x < 5) SELECT * FROM n',
+      'SELECT "player_name" AS "Player" FROM "combined_dvw"',
+      'WITH d AS (SELECT match_id FROM combined_dvw) SELECT * FROM combined_dvw a JOIN d ON d.match_id = a.match_id WHERE a.match_id < (SELECT MAX(match_id) FROM d)',
+    ];
+    for (const query of queries) expect(rejection(query), query).toBeNull();
+  });
+
+  it('returns the statement without its semicolon and the tables read', () => {
+    expect(validateReadOnlySql('SELECT * FROM combined_dvw a JOIN rosters r ON true;', ALLOWED)).toEqual({
+      statement: 'SELECT * FROM combined_dvw a JOIN rosters r ON true',
+      tables: ['combined_dvw', 'rosters'],
+    });
+  });
+
+  it('rejects writes and multiple statements', () => {
+    expect(rejection('DELETE FROM combined_dvw')).toBe('SQL_NOT_READ_ONLY');
+    expect(rejection('SELECT * INTO copy FROM combined_dvw')).toBe('SQL_NOT_READ_ONLY');
+    expect(rejection('SELECT 1; DROP TABLE combined_dvw')).toBe('SQL_MULTIPLE_STATEMENTS');
+    expect(rejection('SELECT * FROM combined_dvw FOR UPDATE')).toBe('SQL_NOT_READ_ONLY');
+  });
+
+  it('rejects tables outside the allowlist', () => {
+    expect(rejection('SELECT * FROM users')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT * FROM combined_dvw, users')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT * FROM other.combined_dvw')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT * FROM (SELECT * FROM users) u')).toBe('SQL_TABLE_NOT_ALLOWED');
+  });
+
+  it('rejects system functions written as quoted identifiers', () => {
+    expect(rejection(`SELECT "query_to_xml"('select * from users', true, false, '')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT "pg_read_file"('/etc/passwd')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT "PG_READ_FILE"('/etc/passwd')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT "pg_catalog"."pg_read_file"('/etc/passwd')`)).not.toBeNull();
+    expect(rejection(`SELECT "admin"."export_users"()`)).toBe('SQL_FORBIDDEN_FUNCTION');
+  });
+
+  it('rejects every *_to_xml function', () => {
+    expect(rejection(`SELECT schema_to_xml('public', true, false, '')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT cursor_to_xml('c', 10, true, false, '')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT table_to_xmlschema('users', true, false, '')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT query_to_xml_and_xmlschema('select 1', true, false, '')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+  });
+
+  it('rejects functions that run a query string', () => {
+    expect(rejection(`SELECT * FROM ts_stat('select to_tsvector(password) from users')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT ts_rewrite(to_tsquery('a'), 'select target, sub from users')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT query_to_xml('select * from users', true, false, '')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT query_to_xmlschema('select * from users', true, false, '')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT cursor_to_xmlschema('c', true, false, '')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT * FROM query('select * from users')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+    expect(rejection(`SELECT * FROM query_table('users')`)).toBe('SQL_FORBIDDEN_FUNCTION');
+  });
+
+  it('reads backtick-quoted names and refuses bracket-quoted and string FROM items', () => {
+    expect(rejection('SELECT * FROM `combined_dvw`')).toBeNull();
+    expect(rejection('SELECT * FROM `users`')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT * FROM `user``s`')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection(`SELECT * FROM [users]`)).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection(`SELECT * FROM [combined_dvw]`)).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection(`SELECT * FROM combined_dvw JOIN [users] ON 1 = 1`)).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection(`SELECT * FROM main.[users]`)).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection(`SELECT * FROM 'file.csv'`)).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection(`SELECT * FROM rosters, 'users'`)).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection(`SELECT (ARRAY[1, 2])[1] FROM combined_dvw WHERE team = 'file.csv'`)).toBeNull();
+  });
+
+  it('reads tables inside parenthesized FROM and JOIN items', () => {
+    expect(rejection('SELECT * FROM (combined_dvw CROSS JOIN users)')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT * FROM (users CROSS JOIN combined_dvw)')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT * FROM combined_dvw JOIN (users) u ON true')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT * FROM ((combined_dvw JOIN rosters ON true) JOIN users ON true)')).toBe('SQL_TABLE_NOT_ALLOWED');
+  });
+
+  it('reads the table of a TABLE x subquery', () => {
+    expect(rejection('SELECT * FROM combined_dvw WHERE team IN (TABLE users)')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT team FROM combined_dvw UNION TABLE users')).toBe('SQL_TABLE_NOT_ALLOWED');
+  });
+
+  it('does not let a CTE name hide the table it shadows', () => {
+    expect(rejection('WITH users AS (SELECT * FROM users) SELECT * FROM users')).toBe('SQL_TABLE_NOT_ALLOWED');
+    expect(rejection('SELECT * FROM (WITH users AS (SELECT 1) SELECT * FROM users) x, users')).toBe('SQL_TABLE_NOT_ALLOWED');
+  });
+
+  it('rejects unicode-escaped names', () => {
+    expect(rejection(`SELECT U&"pg\\005fread_file"('/etc/passwd')`)).toBe('SQL_SYNTAX');
+  });
+});
@@ -0,0 +1,340 @@
+// Read-only SQL validation for the query and count actions of /api/db
+// SQL sent by the browser must be a single SELECT/WITH statement that reads only allowlisted tables and calls
+// no system functions. Backends also run it in a read-only transaction where they can; this is the check for the rest.
+
+// Keywords that never appear in a read-only SELECT
+const FORBIDDEN_KEYWORDS = new Set([
+  'insert', 'update', 'delete', 'merge', 'upsert', 'drop', 'create', 'alter', 'truncate',
+  'grant', 'revoke', 'copy', 'call', 'do', 'execute', 'prepare', 'deallocate', 'vacuum',
+  'analyze', 'cluster', 'reindex', 'lock', 'set', 'reset', 'listen', 'notify', 'unlisten',
+  'refresh', 'comment', 'into', 'discard', 'checkpoint', 'import', 'security',
+]);
+
+// Server-side functions that read files, settings, other tables or other databases. Names are matched
+// lowercased whether written as words or quoted identifiers; every *_to_xml / *_to_xmlschema function
+// (query_, table_, cursor_, schema_, database_) reads data the table allowlist cannot see, and so do the
+// functions that run a query string: ts_stat and ts_rewrite in Postgres, query and query_table in DuckDB.
+const FORBIDDEN_FUNCTION = /^(pg_|lo_|dblink|txid_|ts_stat$|ts_rewrite$|query$|query_table$|set_config$|current_setting$|load_extension$|readfile$|writefile$|fts3_tokenizer$)|_to_xml(schema|_and_xmlschema)?$/;
+
+// Words that end a FROM item (so they are not mistaken for a table alias)
+const FROM_CLAUSE_END = new Set([
+  'where', 'join', 'inner', 'left', 'right', 'full', 'cross', 'natural', 'on', 'using', 'group',
+  'order', 'limit', 'offset', 'having', 'union', 'except', 'intersect', 'window', 'fetch', 'for',
+  'lateral', 'tablesample', 'returning',
+]);
+
+export type SqlErrorCode =
+  | 'BAD_REQUEST'
+  | 'CONFIG'
+  | 'SQL_EMPTY'
+  | 'SQL_MULTIPLE_STATEMENTS'
+  | 'SQL_NOT_READ_ONLY'
+  | 'SQL_TABLE_NOT_ALLOWED'
+  | 'SQL_FORBIDDEN_FUNCTION'
+  | 'SQL_SYNTAX'
+  | 'SQL_UNKNOWN_COLUMN'
+  | 'SQL_UNKNOWN_TABLE'
+  | 'SQL_UNKNOWN_FUNCTION'
+  | 'SQL_GROUPING'
+  | 'SQL_PARAMETER'
+  | 'SQL_DATA'
+  | 'SQL_TIMEOUT'
+  | 'SQL_ERROR'
+  | 'CACHE_ERROR'
+  | 'CACHE_FORBIDDEN'
+  | 'PAGE_EXPIRED'
+  | 'INGEST_FORBIDDEN'
+  | 'INGEST_INVALID';
+
+export class SqlRequestError extends Error {
+  constructor(public code: SqlErrorCode, message: string, public hint?: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+interface SqlToken {
+  type: 'word' | 'ident' | 'string' | 'number' | 'param' | 'symbol';
+  value: string; // Lowercased for words, unescaped for quoted identifiers
+  start: number;
+}
+
+// Split SQL into tokens, dropping comments and whitespace
+function tokenizeSql(query: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const c = query[i];
+    const start = i;
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '-' && query[i + 1] === '-') {
+      while (i < query.length && query[i] !== '\n') i++;
+    } else if (c === '/' && query[i + 1] === '*') {
+      // Block comments nest in Postgres
+      let depth = 0;
+      do {
+        if (query.startsWith('/*', i)) { depth++; i += 2; }
+        else if (query.startsWith('*/', i)) { depth--; i += 2; }
+        else i++;
+      } while (depth > 0 && i < query.length);
+      if (depth > 0) throw new SqlRequestError('SQL_SYNTAX', 'Unterminated block comment');
+    } else if (c === "'") {
+      // E'...' strings allow backslash escapes
+      const previous = tokens[tokens.length - 1];
+      const escapes = previous?.type === 'word' && previous.value === 'e' && previous.start + 1 === i;
+      if (escapes) tokens.pop();
+      i++;
+      while (i < query.length) {
+        if (escapes && query[i] === '\\') { i += 2; continue; }
+        if (query[i] === "'") {
+          if (query[i + 1] === "'") { i += 2; continue; }
+          break;
+        }
+        i++;
+      }
+      if (i >= query.length) throw new SqlRequestError('SQL_SYNTAX', 'Unterminated string literal');
+      i++;
+      tokens.push({ type: 'string', value: query.slice(start, i), start: escapes ? start - 1 : start });
+    } else if ((c === 'U' || c === 'u') && query[i + 1] === '&' && (query[i + 2] === '"' || query[i + 2] === "'")) {
+      // U&"..." escapes would hide names from the function and table checks
+      throw new SqlRequestError('SQL_SYNTAX', 'Unicode-escaped identifiers and strings (U&"...") are not allowed', 'Write the name without escapes');
+    } else if (c === '"') {
+      i++;
+      let value = '';
+      while (i < query.length) {
+        if (query[i] === '"') {
+          if (query[i + 1] === '"') { value += '"'; i += 2; continue; }
+          break;
+        }
+        value += query[i++];
+      }
+      if (i >= query.length) throw new SqlRequestError('SQL_SYNTAX', 'Unterminated quoted identifier');
+      i++;
+      tokens.push({ type: 'ident', value, start });
+    } else if (c === '`') {
+      // SQLite (and DuckDB) read `name` as an identifier too
+      i++;
+      let value = '';
+      while (i < query.length) {
+        if (query[i] === '`') {
+          if (query[i + 1] === '`') { value += '`'; i += 2; continue; }
+          break;
+        }
+        value += query[i++];
+      }
+      if (i >= query.length) throw new SqlRequestError('SQL_SYNTAX', 'Unterminated quoted identifier');
+      i++;
+      tokens.push({ type: 'ident', value, start });
+    } else if (c === '$') {
+      const param = /^\$\d+/.exec(query.slice(i));
+      const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(query.slice(i));
+      if (param) {
+        i += param[0].length;
+        tokens.push({ type: 'param', value: param[0], start });
+      } else if (tag) {
+        const end = query.indexOf(tag[0], i + tag[0].length);
+        if (end < 0) throw new SqlRequestError('SQL_SYNTAX', 'Unterminated dollar-quoted string');
+        i = end + tag[0].length;
+        tokens.push({ type: 'string', value: query.slice(start, i), start });
+      } else {
+        i++;
+        tokens.push({ type: 'symbol', value: c, start });
+      }
+    } else if (/[A-Za-z_]/.test(c)) {
+      while (i < query.length && /[A-Za-z0-9_$]/.test(query[i])) i++;
+      tokens.push({ type: 'word', value: query.slice(start, i).toLowerCase(), start });
+    } else if (/[0-9]/.test(c) || (c === '.' && /[0-9]/.test(query[i + 1] || ''))) {
+      while (i < query.length && /[0-9.eE]/.test(query[i])) i++;
+      tokens.push({ type: 'number', value: query.slice(start, i), start });
+    } else {
+      i++;
+      tokens.push({ type: 'symbol', value: c, start });
+    }
+  }
+  return tokens;
+}
+
+const isName = (token?: SqlToken) => token?.type === 'word' || token?.type === 'ident';
+const isWord = (token: SqlToken | undefined, ...words: string[]) => token?.type === 'word' && words.includes(token.value);
+const isSymbol = (token: SqlToken | undefined, symbol: string) => token?.type === 'symbol' && token.value === symbol;
+
+/**
+ * Check that `query` is a single read-only SELECT/WITH statement that only reads tables in
+ * `allowedTables` (public schema). Returns the statement without its trailing semicolon.
+ */
+export function validateReadOnlySql(query: string, allowedTables: string[]): { statement: string; tables: string[] } {
+  const tokens = tokenizeSql(query);
+  const semicolon = tokens.findIndex(t => isSymbol(t, ';'));
+  const body = semicolon >= 0 ? tokens.slice(0, semicolon) : tokens;
+  if (body.length === 0) throw new SqlRequestError('SQL_EMPTY', 'Query is empty');
+  if (semicolon >= 0 && tokens.slice(semicolon + 1).some(t => !isSymbol(t, ';'))) {
+    throw new SqlRequestError('SQL_MULTIPLE_STATEMENTS', 'Only one SQL statement can be run per query', 'Remove the extra statements and run them one at a time');
+  }
+
+  const first = body.find(t => !isSymbol(t, '('));
+  if (!isWord(first, 'select', 'with')) {
+    throw new SqlRequestError('SQL_NOT_READ_ONLY', `Only SELECT and WITH queries are allowed (got ${first?.value.toUpperCase() || 'nothing'})`, 'The team database is read-only', 403);
+  }
+
+  const skipParens = (index: number): number => {
+    let depth = 0;
+    do {
+      if (isSymbol(body[index], '(')) depth++;
+      if (isSymbol(body[index], ')')) depth--;
+      index++;
+    } while (depth > 0 && index < body.length);
+    return index;
+  };
+
+  // Parenthesis depth of every token; a ')' counts at the depth outside it
+  const depths: number[] = [];
+  body.reduce((depth, token, index) => {
+    if (isSymbol(token, ')')) depth--;
+    depths[index] = depth;
+    return isSymbol(token, '(') ? depth + 1 : depth;
+  }, 0);
+
+  // CTE names can be read like tables within their scope: from the end of their definition (from the name with
+  // RECURSIVE) to the end of the query level their WITH belongs to. Elsewhere the name is the table.
+  const recursive = body.some(t => isWord(t, 'recursive'));
+  const cteScopes: { name: string; from: number; to: number }[] = [];
+  body.forEach((token, index) => {
+    if (!isName(token)) return;
+    let next = index + 1;
+    if (isSymbol(body[next], '(')) {
+      while (next < body.length && !isSymbol(body[next], ')')) next++;
+      next++;
+    }
+    if (isWord(body[next], 'as') && (isSymbol(body[next + 1], '(') || isWord(body[next + 1], 'materialized', 'not'))) {
+      let open = next + 1;
+      while (open < body.length && !isSymbol(body[open], '(')) open++;
+      let to = index;
+      while (to < body.length && !(isSymbol(body[to], ')') && depths[to] < depths[index])) to++;
+      cteScopes.push({ name: token.value.toLowerCase(), from: recursive ? index : skipParens(open), to });
+    }
+  });
+
+  const tables: { schema: string | null; name: string; index: number }[] = [];
+  // Whether each open parenthesis holds a subquery or FROM item (FROM inside EXTRACT(... FROM ...) is not a table)
+  const contexts: boolean[] = [true];
+  // Parentheses that open a FROM/JOIN item: (t1 CROSS JOIN t2), (users) u
+  const fromItemParens = new Set<number>();
+
+  // SQLite reads [name] and 'name' as table names and DuckDB reads 'file.csv' as a file; neither is checked as a name
+  const assertNamedItem = (token?: SqlToken) => {
+    if (isSymbol(token, '[') || token?.type === 'string') {
+      throw new SqlRequestError('SQL_TABLE_NOT_ALLOWED', 'Tables must be named plainly or in double quotes', 'Write "name" instead of [name] or \'name\'', 403);
+    }
+  };
+
+  const readFromItem = (index: number): number => {
+    while (isWord(body[index], 'lateral', 'only')) index++;
+    const token = body[index];
+    assertNamedItem(token);
+    if (isSymbol(token, '(')) {
+      fromItemParens.add(index);
+      return index;
+    }
+    if (!isName(token)) return index;
+    const start = index;
+    let schema: string | null = null;
+    let name = token.value;
+    index++;
+    if (isSymbol(body[index], '.')) assertNamedItem(body[index + 1]);
+    if (isSymbol(body[index], '.') && isName(body[index + 1])) {
+      schema = name;
+      name = body[index + 1].value;
+      index += 2;
+      if (isSymbol(body[index], '.')) {
+        throw new SqlRequestError('SQL_TABLE_NOT_ALLOWED', `Cross-database reference ${schema}.${name} is not allowed`, undefined, 403);
+      }
+    }
+    // Table functions such as generate_series(...) are checked as function calls
+    if (!isSymbol(body[index], '(')) tables.push({ schema, name, index: start });
+    return index;
+  };
+
+  // Skip an optional alias and column alias list after a FROM item
+  const skipAlias = (index: number): number => {
+    if (isSymbol(body[index], '(')) index = skipParens(index);
+    if (isWord(body[index], 'as')) index++;
+    if (isName(body[index]) && !(body[index].type === 'word' && FROM_CLAUSE_END.has(body[index].value))) index++;
+    if (isSymbol(body[index], '(')) index = skipParens(index);
+    return index;
+  };
+
+
+  // A FROM item list: items separated by commas, each with an optional alias
+  const readFromList = (index: number): void => {
+    let next = skipAlias(readFromItem(index));
+    while (isSymbol(body[next], ',')) {
+      next = skipAlias(readFromItem(next + 1));
+    }
+  };
+
+  body.forEach((token, index) => {
+    if (isSymbol(token, '(')) {
+      const subquery = isWord(body[index + 1], 'select', 'with', 'values', 'table');
+      contexts.push(subquery || fromItemParens.has(index));
+      // A parenthesized join or table inside FROM/JOIN; its first item is read here, its joins below
+      if (fromItemParens.has(index) && !subquery) readFromList(index + 1);
+      return;
+    }
+    if (isSymbol(token, ')')) {
+      if (contexts.length > 1) contexts.pop();
+      return;
+    }
+
+    // Function calls, quoted or not: name( or schema.name(
+    if (isName(token) && isSymbol(body[index + 1], '(')) {
+      const name = token.value.toLowerCase();
+      if (FORBIDDEN_FUNCTION.test(name)) {
+        throw new SqlRequestError('SQL_FORBIDDEN_FUNCTION', `Function ${name}() is not allowed`, 'System and administration functions cannot be called', 403);
+      }
+      const schema = isSymbol(body[index - 1], '.') && isName(body[index - 2]) ? body[index - 2].value.toLowerCase() : null;
+      if (schema && schema !== 'public') {
+        throw new SqlRequestError('SQL_FORBIDDEN_FUNCTION', `Function ${schema}.${name}() is not allowed`, 'Only functions of the public schema can be called by name', 403);
+      }
+    }
+    if (isName(token) && token.value.toLowerCase().startsWith('pg_') && isSymbol(body[index + 1], '.')) {
+      throw new SqlRequestError('SQL_TABLE_NOT_ALLOWED', `Schema ${token.value} is not allowed`, undefined, 403);
+    }
+    if (token.type !== 'word') return;
+
+    if (FORBIDDEN_KEYWORDS.has(token.value)) {
+      throw new SqlRequestError('SQL_NOT_READ_ONLY', `${token.value.toUpperCase()} is not allowed in a read-only query`, 'The team database is read-only; only SELECT queries run', 403);
+    }
+    if (token.value === 'for' && isWord(body[index + 1], 'share', 'key', 'no')) {
+      throw new SqlRequestError('SQL_NOT_READ_ONLY', 'Row locking clauses (FOR SHARE / FOR UPDATE) are not allowed', undefined, 403);
+    }
+    // TABLE name is shorthand for SELECT * FROM name, wherever a subquery can stand
+    if (token.value === 'table') {
+      readFromItem(index + 1);
+      return;
+    }
+
+    if (!contexts[contexts.length - 1]) return;
+    if (token.value === 'join') {
+      readFromItem(index + 1);
+    } else if (token.value === 'from' && !isWord(body[index - 1], 'distinct')) {
+      readFromList(index + 1);
+    }
+  });
+
+  const allowed = new Set(allowedTables.map(t => t.toLowerCase()));
+  const isCteReference = (table: { name: string; index: number }) =>
+    cteScopes.some(cte => cte.name === table.name.toLowerCase() && table.index >= cte.from && table.index < cte.to);
+  const readTables = tables.filter(table => table.schema || !isCteReference(table));
+  for (const table of readTables) {
+    const qualified = table.schema ? `${table.schema}.${table.name}` : table.name;
+    if (table.schema && table.schema.toLowerCase() !== 'public') {
+      throw new SqlRequestError('SQL_TABLE_NOT_ALLOWED', `Table ${qualified} is not allowed`, `Allowed tables: ${allowedTables.join(', ') || 'none'}`, 403);
+    }
+    if (!allowed.has(table.name.toLowerCase())) {
+      throw new SqlRequestError('SQL_TABLE_NOT_ALLOWED', `Table ${qualified} is not allowed`, `Allowed tables: ${allowedTables.join(', ') || 'none'}`, 403);
+    }
+  }
+
+  const statement = semicolon >= 0 ? query.slice(0, tokens[semicolon].start) : query;
+  return { statement: statement.trimEnd(), tables: [...new Set(readTables.map(t => t.name))] };
+}
@@ -0,0 +1,190 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createLocalSqlClient } from '../../dev/localNeon';
+import { MemoryR2Bucket } from '../../dev/memoryR2';
+import { buildPlayerHistorySql, buildPlayerReportCards, computePlayerStats } from '../../src/lib/playerReports';
+import { buildSeasonReport, buildSeasonSql } from '../../src/lib/seasonStats';
+import { onRequestPost } from './db';
+
+let env: Record<string, any>;
+
+async function post(body: unknown, envOverrides: Record<string, any> = {}): Promise<{ status: number; json: any }> {
+  const request = new Request('http://localhost/api/db', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const response = await onRequestPost({ request, env: { ...env, ...envOverrides } });
+  return { status: response.status, json: await response.json() };
+}
+
+beforeAll(async () => {
+  env = {
+    DB_AUTH_DISABLED: 'true',
+    ALLOWED_TABLES: 'combined_dvw',
+    RATE_LIMIT_PER_MINUTE: '10000',
+    R2_BUCKET: new MemoryR2Bucket(),
+    SQL_CLIENT: await createLocalSqlClient(),
+  };
+}, 60_000);
+
+describe('paged query and matchData', () => {
+  it('returns every row exactly once across pages', async () => {
+    const query = 'SELECT match_id, point_id, video_time FROM combined_dvw';
+    const { json: whole } = await post({ action: 'query', params: { query } });
+    expect(whole.rows.length).toBeGreaterThan(250);
+
+    const rows: any[] = [];
+    let cursor: string | null = null;
+    do {
+      const { status, json } = await post({ action: 'query', params: { query, pageSize: 100, ...(cursor ? { cursor } : {}) } });
+      expect(status).toBe(200);
+      rows.push(...json.rows);
+      cursor = json.nextCursor;
+    } while (cursor);
+    expect(rows).toEqual(whole.rows);
+  });
+
+  it('pages matchData from the cached match', async () => {
+    const { json: matches } = await post({ action: 'matches', params: {} });
+    const matchId = matches.matches[0].match_id;
+    const first = await post({ action: 'matchData', params: { matchId, pageSize: 100 } });
+    expect(first.json.data).toHaveLength(100);
+    const second = await post({ action: 'matchData', params: { matchId, pageSize: 100, cursor: first.json.nextCursor } });
+    expect(second.json.fromCache).toBe(true);
+    expect(second.json.data[0]).not.toEqual(first.json.data[0]);
+  });
+
+  it('reads only the requested page object for later pages', async () => {
+    const query = 'SELECT match_id, point_id, skill_type FROM combined_dvw ORDER BY point_id';
+    const first = await post({ action: 'query', params: { query, pageSize: 50 } });
+    const bucket = env.R2_BUCKET;
+    const read: string[] = [];
+    const counting = Object.create(bucket, {
+      get: { value: async (key: string) => { read.push(key); return bucket.get(key); } },
+    });
+    const second = await post({ action: 'query', params: { query, cursor: first.json.nextCursor } }, { R2_BUCKET: counting });
+    expect(second.json.rows).toHaveLength(50);
+    expect(read).toHaveLength(1);
+    expect(read[0]).toMatch(/\/page-1\.json$/);
+  });
+
+  it('reports a result that changed while paging', async () => {
+    const query = 'SELECT point_id FROM combined_dvw ORDER BY point_id';
+    const first = await post({ action: 'query', params: { query, pageSize: 100 } });
+    // What an admin's cachePurge does
+    const cached = await env.R2_BUCKET.list({ prefix: 'cache/' });
+    await env.R2_BUCKET.delete(cached.objects.map((object: any) => object.key));
+    const next = await post({ action: 'query', params: { query, pageSize: 100, cursor: first.json.nextCursor } });
+    expect(next.status).toBe(409);
+    expect(next.json.code).toBe('PAGE_EXPIRED');
+  });
+});
+
+describe('count', () => {
+  it('validates the SQL before answering from the cache', async () => {
+    const count = { action: 'count', params: { tableName: 'combined_dvw', whereConditions: ['set_number = 1'] } };
+    const first = await post(count);
+    expect(first.status).toBe(200);
+    expect((await post(count)).json.fromCache).toBe(true);
+
+    const { status, json } = await post(count, { ALLOWED_TABLES: 'rosters' });
+    expect(status).toBe(403);
+    expect(json.code).toBe('SQL_TABLE_NOT_ALLOWED');
+  });
+});
+
+describe('cachePurge', () => {
+  it('is refused for anonymous sessions', async () => {
+    const { status, json } = await post({ action: 'cachePurge', params: {} }, { INGEST_USERS: 'anonymous' });
+    expect(status).toBe(403);
+    expect(json.code).toBe('CACHE_FORBIDDEN');
+  });
+});
+
+describe('ingest', () => {
+  const ingest = { action: 'ingest', params: { tableName: 'combined_dvw', rows: [{ match_id: 'm1' }], dryRun: true } };
+
+  it('is refused when INGEST_USERS is not configured', async () => {
+    const { status, json } = await post(ingest);
+    expect(status).toBe(403);
+    expect(json.code).toBe('INGEST_FORBIDDEN');
+  });
+
+  it('is refused for anonymous sessions', async () => {
+    const { status, json } = await post(ingest, { INGEST_USERS: 'anonymous' });
+    expect(status).toBe(403);
+    expect(json.code).toBe('INGEST_FORBIDDEN');
+  });
+});
+
+describe('sqlite backend', () => {
+  it('refuses to start without ALLOWED_TABLES', async () => {
+    const prepared: string[] = [];
+    const d1 = { prepare: (text: string) => { prepared.push(text); throw new Error('unexpected statement'); } };
+    const { status, json } = await post(
+      { action: 'query', backend: 'sqlite', params: { query: 'SELECT 1' } },
+      { SQLITE_DB: d1, ALLOWED_TABLES: '' }
+    );
+    expect(status).toBe(500);
+    expect(json.code).toBe('CONFIG');
+    expect(json.error).toMatch(/SQLite/);
+    expect(prepared).toEqual([]);
+  });
+});
+
+describe('player history on combined_dvw', () => {
+  // The seeded match plus a copy under an id that sorts first but is dated later
+  const laterCopy = '2024-01-01_copy';
+  let matchId: string;
+  let team: string;
+
+  beforeAll(async () => {
+    const { json } = await post({ action: 'matches', params: {} });
+    ({ match_id: matchId, home_team: team } = json.matches[0]);
+    await env.SQL_CLIENT.transaction((txn: any) => [
+      txn.query(`INSERT INTO combined_dvw SELECT * REPLACE ('${laterCopy}' AS match_id) FROM combined_dvw`),
+    ]);
+  });
+
+  const history = async (dateColumn: string | null, before: string) => {
+    const { status, json } = await post({
+      action: 'query',
+      params: { query: buildPlayerHistorySql('combined_dvw', dateColumn), params: [team, before] },
+    });
+    expect(status).toBe(200);
+    return json.rows;
+  };
+
+  it('orders by match_id, labelled, when the table has no date column', async () => {
+    const rows = await history(null, matchId);
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.every((row: any) => row.match_id === laterCopy && row.match_date === undefined)).toBe(true);
+
+    const { json: match } = await post({ action: 'matchData', params: { matchId } });
+    const [card] = buildPlayerReportCards(
+      { match_id: matchId, home_team: team, visiting_team: match.data[0].visiting_team },
+      computePlayerStats(match.data).filter(player => player.team === team),
+      rows
+    );
+    expect(card.trend.orderedBy).toBe('match_id');
+  });
+
+  it('orders by the match date column when the table has one', async () => {
+    await env.SQL_CLIENT.transaction((txn: any) => [
+      txn.query('ALTER TABLE combined_dvw ADD COLUMN match_date VARCHAR'),
+      txn.query(`UPDATE combined_dvw SET match_date = CASE WHEN match_id = '${laterCopy}' THEN '2024-12-01' ELSE '2024-10-12' END`),
+    ]);
+    expect(await history('match_date', matchId)).toEqual([]);
+    const rows = await history('match_date', laterCopy);
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.every((row: any) => row.match_id === matchId && row.match_date === '2024-10-12')).toBe(true);
+  });
+
+  it('orders the season trend by match date', async () => {
+    const sql = buildSeasonSql('"combined_dvw"', 'match_date');
+    const { json } = await post({ action: 'query', params: { query: sql.playerMatches } });
+    const report = buildSeasonReport({ players: [], teams: [], playerMatches: json.rows });
+    expect(report.matchOrder).toBe('match_date');
+    expect(report.matches).toEqual([matchId, laterCopy]);
+  });
+});
@@ -1,167 +1,555 @@
-// Cloudflare Pages Function for database queries via R2 cache + Neon
-// Architecture: R2 stores cached JSON responses, Workers query Neon if cache miss
-// This acts as a query layer between the website and Neon Postgres
+// Cloudflare Pages Function for database queries via R2 cache + a SQL backend (functions/_lib/backends.ts)
+// Architecture: R2 stores cached JSON responses, Workers query the backend on a cache miss
+// This acts as a query layer between the website and Neon Postgres, another Postgres server or SQLite (D1).
+// The request's backend field (or DB_BACKEND) picks among the configured ones; listBackends reports them.
+// Requests need a session token from /api/login; each one is rate limited and written to the audit log.
+// Every statement runs in a READ ONLY transaction with a statement timeout (D1 has neither); SQL sent by the
+// browser (query action) must also pass validateReadOnlySql (functions/_lib/readOnlySql.ts) against the table
+// allowlist ALLOWED_TABLES, which has to be set: without it every table is refused.
+// query and matchData also page through large results: send pageSize, then each response's nextCursor as cursor.
+// Pages come from one cached snapshot stored as an R2 object per page, so they stay consistent while the table changes.
+// A query may join any of the tables it lists in params.tables (the chat's attached tables) that the allowlist permits.
+// The ingest action is the only writer: it appends validated match rows to combined_dvw in one transaction,
+// for signed-in users listed in INGEST_USERS only (without that list uploads are off).
 
-export async function onRequestPost({ request, env }: { request: Request; env: any }) {
+import {
+  AuthError,
+  authErrorResponse,
+  authenticateRequest,
+  clientIp,
+  enforceSessionLimits,
+  isAuthDisabled,
+  writeAuditLog,
+  type Session,
+} from '../_lib/auth';
+import {
+  BACKEND_LABELS,
+  BackendConfigError,
+  configuredBackends,
+  createBackend,
+  type SqlBackend,
+  type SqlStatement,
+} from '../_lib/backends';
+import { SqlRequestError, validateReadOnlySql } from '../_lib/readOnlySql';
+
+// Defaults, overridable with QUERY_ROW_LIMIT / QUERY_TIMEOUT_MS
+const DEFAULT_ROW_LIMIT = 50000;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// How long cached responses stay fresh per action; a request's cache.maxAge (seconds) overrides it
+const CACHE_TTL_MS: Record<string, number> = {
+  query: 6 * 60 * 60 * 1000,
+  count: 6 * 60 * 60 * 1000,
+  matches: 24 * 60 * 60 * 1000,
+  listTables: 24 * 60 * 60 * 1000,
+  describeTable: 24 * 60 * 60 * 1000,
+  matchData: 60 * 60 * 1000,
+};
+const MAX_CACHE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const CACHE_PREFIX = 'cache/';
+const LEGACY_CACHE_PREFIX = 'cache_'; // Keys written before content-hash keys
+
+// describeTable: distinct values are sampled from the first rows, and columns with more than this many are left out
+const DESCRIBE_SAMPLE_ROWS = 10000;
+const DESCRIBE_MAX_DISTINCT = 20;
+// Types worth sampling; timestamps, JSON, arrays and binary columns are never low-cardinality labels
+const DESCRIBE_SAMPLED_TYPES = /^(text|character varying|character|boolean|smallint|integer|bigint|numeric|real|double precision|date)$/;
+
+// Cursor pagination for query and matchData: pages default to this size and never exceed the row limit
+const DEFAULT_PAGE_SIZE = 5000;
+
+// Action-level columns of combined_dvw; matchData returns them and ingest requires the table to have them all.
+// Mirrors MATCH_ACTION_COLUMNS in src/lib/database.ts.
+const MATCH_COLUMNS = [
+  'match_id', 'point_id', 'video_time', 'team', 'player_number', 'player_name', 'player_id',
+  'skill_type', 'evaluation_code', 'evaluation', 'attack_code', 'attack_description',
+  'set_code', 'set_description', 'set_type', 'start_zone', 'end_zone', 'end_subzone', 'end_cone',
+  'skill_subtype', 'set_number', 'home_team_score', 'visiting_team_score',
+  'home_score', 'visiting_score', 'phase', 'home_team', 'visiting_team', 'point_won_by',
+  'point', 'winning_attack', 'serving_team', 'point_phase', 'attack_phase', 'reception_quality',
+  'timeout', 'end_of_set', 'substitution', 'num_players', 'num_players_numeric',
+  'special_code', 'custom_code', 'home_setter_position', 'visiting_setter_position',
+  'home_p1', 'home_p2', 'home_p3', 'home_p4', 'home_p5', 'home_p6',
+  'visiting_p1', 'visiting_p2', 'visiting_p3', 'visiting_p4', 'visiting_p5', 'visiting_p6',
+  'start_coordinate_x', 'start_coordinate_y', 'mid_coordinate_x', 'mid_coordinate_y',
+  'end_coordinate_x', 'end_coordinate_y', 'point_differential'
+];
+// Written by ingest when the table has them; parsed DataVolley files carry match_date (ISO yyyy-mm-dd)
+const OPTIONAL_MATCH_COLUMNS = ['match_date'];
+
+// Ingest limits: rows per request, rows per INSERT (fewer when the backend's parameter limit needs it) and errors reported
+const MAX_INGEST_ROWS = 20000;
+const INGEST_BATCH_ROWS = 500;
+const MAX_INGEST_ERRORS = 20;
+const NUMERIC_TYPES = new Set(['smallint', 'integer', 'bigint', 'numeric', 'real', 'double precision']);
+
+// Row cap (and page) wrapper; error positions are shifted back by its length
+const CAPPED_QUERY_PREFIX = 'SELECT * FROM (\n';
+
+// Map Postgres SQLSTATE codes to error codes the client (and the LLM writing the SQL) can act on.
+// Backends report SQLSTATE codes too; syntaxHint names their dialect.
+function toSqlRequestError(error: any, syntaxHint: string = 'This is a PostgreSQL database: check quoting (identifiers in double quotes, strings in single quotes)'): SqlRequestError {
+  if (error instanceof SqlRequestError) return error;
+  const sqlState: string = error?.code || '';
+  const message: string = error?.message || 'Query execution failed';
+  const pgHint: string | undefined = error?.hint;
+  const position = error?.position ? ` (at character ${error.position})` : '';
+  switch (true) {
+    case sqlState === '42601':
+      return new SqlRequestError('SQL_SYNTAX', message + position, pgHint || syntaxHint);
+    case sqlState === '42703':
+      return new SqlRequestError('SQL_UNKNOWN_COLUMN', message + position, pgHint || 'Check the column names of the table; column names are case-sensitive when double-quoted');
+    case sqlState === '42P01':
+      return new SqlRequestError('SQL_UNKNOWN_TABLE', message + position, pgHint);
+    case sqlState === '42883':
+      return new SqlRequestError('SQL_UNKNOWN_FUNCTION', message + position, pgHint || 'Check the function name and cast arguments explicitly (e.g. value::numeric)');
+    case sqlState === '42803':
+      return new SqlRequestError('SQL_GROUPING', message + position, pgHint || 'Every selected column must be aggregated or listed in GROUP BY');
+    case sqlState === '42P02' || sqlState === '08P01':
+      return new SqlRequestError('SQL_PARAMETER', message, 'Use $1, $2, ... placeholders and pass one value per placeholder');
+    case sqlState.startsWith('22'):
+      return new SqlRequestError('SQL_DATA', message + position, pgHint || 'Check casts and divisions (NULLIF(x, 0) avoids division by zero)');
+    case sqlState === '57014':
+      return new SqlRequestError('SQL_TIMEOUT', 'Query exceeded the statement timeout', 'Aggregate in SQL, filter with WHERE, or select fewer columns', 408);
+    case sqlState === '25006' || sqlState === '42501':
+      return new SqlRequestError('SQL_NOT_READ_ONLY', message, 'The team database is read-only', 403);
+    case sqlState.startsWith('42'):
+      return new SqlRequestError('SQL_ERROR', message + position, pgHint);
+    default:
+      return new SqlRequestError('SQL_ERROR', message, pgHint, 500);
+  }
+}
+
+const errorResponse = (error: SqlRequestError, details?: string) =>
+  new Response(JSON.stringify({ error: error.message, code: error.code, hint: error.hint, details }), {
+    status: error.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Cache key: cache/<action>/<sha256 of the request parts>.json
+async function getCacheKey(action: string, parts: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  const hash = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+  return `${CACHE_PREFIX}${action}/${hash}.json`;
+}
+
+// Cursors are opaque to the client: base64 JSON { offset, pageSize, snapshot } into the paged snapshot of the first page
+function encodeCursor(offset: number, pageSize: number, snapshot: number): string {
+  return btoa(JSON.stringify({ offset, pageSize, snapshot }));
+}
+
+function decodeCursor(cursor: unknown): { offset: number; pageSize: number; snapshot: number } {
+  try {
+    const { offset, pageSize, snapshot } = JSON.parse(atob(String(cursor)));
+    if (Number.isInteger(pageSize) && pageSize > 0 && Number.isInteger(offset) && offset >= 0 && offset % pageSize === 0 && Number.isInteger(snapshot)) {
+      return { offset, pageSize, snapshot };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new SqlRequestError('BAD_REQUEST', 'Invalid cursor', 'Pass back the nextCursor of the previous page unchanged');
+}
+
+interface PageRequest {
+  offset: number;
+  pageSize: number;
+  snapshot: number | null; // Timestamp of the paged snapshot later pages are read from; null on the first page
+}
+
+// A request is paginated when it sends pageSize or cursor; otherwise the whole (row-capped) result is returned.
+// Later pages keep the page size of the first one, which their cursor carries.
+function readPageRequest(params: any, rowLimit: number): PageRequest | null {
+  if (params.cursor != null) return decodeCursor(params.cursor);
+  if (params.pageSize == null) return null;
+  const requested = Number(params.pageSize);
+  const pageSize = Number.isFinite(requested) && requested > 0 ? Math.floor(requested) : DEFAULT_PAGE_SIZE;
+  return { offset: 0, pageSize: Math.min(pageSize, rowLimit), snapshot: null };
+}
+
+interface CacheEntry {
+  key: string;
+  size: number;
+  uploaded: Date;
+  action: string;
+  tables: string[];
+}
+
+// Every cached object under `prefix`, with the action and tables recorded when it was written
+async function listCacheEntries(bucket: any, prefix: string): Promise<CacheEntry[]> {
+  const entries: CacheEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix, cursor, include: ['customMetadata'] });
+    for (const object of page.objects) {
+      const metadata = object.customMetadata || {};
+      entries.push({
+        key: object.key,
+        size: object.size,
+        uploaded: new Date(object.uploaded),
+        action: metadata.action || (object.key.startsWith(CACHE_PREFIX) ? object.key.split('/')[1] : 'legacy'),
+        tables: metadata.tables ? String(metadata.tables).split(',').filter(Boolean) : [],
+      });
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return entries;
+}
+
+// Coerce upload rows to values in `columns` order typed for the target table; errors name row and column
+function validateIngestRows(rows: any[], columns: string[], columnTypes: Map<string, string>): { values: any[][]; errors: string[] } {
+  const errors: string[] = [];
+  const addError = (message: string) => {
+    if (errors.length < MAX_INGEST_ERRORS) errors.push(message);
+  };
+
+  const known = new Set([...MATCH_COLUMNS, ...OPTIONAL_MATCH_COLUMNS]);
+  const unknown = new Set<string>();
+  const values = rows.map((row, index) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      addError(`Row ${index + 1}: expected an object`);
+      return [];
+    }
+    Object.keys(row).forEach(key => {
+      if (!known.has(key)) unknown.add(key);
+    });
+    return columns.map(column => {
+      const value = row[column];
+      if (value === null || value === undefined || value === '') return null;
+      const type = columnTypes.get(column) || 'text';
+      if (NUMERIC_TYPES.has(type)) {
+        const number = typeof value === 'number' ? value : Number(String(value).trim());
+        const integer = type === 'smallint' || type === 'integer' || type === 'bigint';
+        if (!Number.isFinite(number) || (integer && !Number.isInteger(number))) {
+          addError(`Row ${index + 1}: ${column} expects ${type}, got "${String(value).slice(0, 40)}"`);
+          return null;
+        }
+        return number;
+      }
+      if (type === 'boolean') {
+        const text = String(value).toLowerCase();
+        if (['true', '1', 't', 'yes'].includes(text)) return true;
+        if (['false', '0', 'f', 'no'].includes(text)) return false;
+        addError(`Row ${index + 1}: ${column} expects boolean, got "${String(value).slice(0, 40)}"`);
+        return null;
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  });
+
+  if (unknown.size > 0) {
+    errors.unshift(`Unknown columns: ${[...unknown].slice(0, 10).join(', ')}${unknown.size > 10 ? '...' : ''}`);
+  }
+  const required = ['match_id', 'home_team', 'visiting_team'].map(column => MATCH_COLUMNS.indexOf(column));
+  values.forEach((rowValues, index) => {
+    if (rowValues.length === 0) return;
+    const missing = required.filter(i => rowValues[i] === null).map(i => MATCH_COLUMNS[i]);
+    if (missing.length > 0) addError(`Row ${index + 1}: ${missing.join(', ')} required`);
+  });
+  return { values, errors: errors.slice(0, MAX_INGEST_ERRORS) };
+}
+
+// Ingest and cache purges change what every user sees: they need INGEST_USERS and a DB_USERS sign-in
+// (anonymous sessions under DB_AUTH_DISABLED and shared-password sessions never qualify). Returns the refusal, or null when allowed.
+function checkIngestUser(env: any, session: Session, code: 'INGEST_FORBIDDEN' | 'CACHE_FORBIDDEN', what: string, verb: string): SqlRequestError | null {
+  const ingestUsers = String(env.INGEST_USERS || '').split(',').map((u: string) => u.trim().toLowerCase()).filter(Boolean);
+  if (ingestUsers.length === 0) {
+    return new SqlRequestError(code, `${what} is not enabled`, 'Set INGEST_USERS to the user names allowed to upload matches and purge the cache', 403);
+  }
+  if (isAuthDisabled(env)) {
+    return new SqlRequestError(code, `${what} needs sign-in`, 'Configure DB_AUTH_SECRET and DB_USERS instead of DB_AUTH_DISABLED', 403);
+  }
+  // A shared DB_TEAM_PASSWORD does not say who signed in
+  if (!env.DB_USERS) {
+    return new SqlRequestError(code, `${what} needs a personal sign-in`, 'Configure DB_USERS: the shared DB_TEAM_PASSWORD does not identify users', 403);
+  }
+  if (!ingestUsers.includes(session.sub.toLowerCase())) {
+    return new SqlRequestError(code, `${session.sub} may not ${verb}`, 'Ask an admin to add you to INGEST_USERS', 403);
+  }
+  return null;
+}
+
+// Delete cached responses for a table and/or action (neither = everything); returns the number deleted
+async function purgeCache(bucket: any, filter: { table?: string | null; cacheAction?: string | null }): Promise<number> {
+  const table = filter.table ? filter.table.toLowerCase() : null;
+  const cacheAction = filter.cacheAction || null;
+  const entries = await listCacheEntries(bucket, cacheAction ? `${CACHE_PREFIX}${cacheAction}/` : CACHE_PREFIX);
+  // Legacy keys carry no metadata, so they only go with a full purge
+  if (!table && !cacheAction) entries.push(...await listCacheEntries(bucket, LEGACY_CACHE_PREFIX));
+  const keys = entries
+    .filter(entry => !table || entry.tables.some(t => t.toLowerCase() === table))
+    .map(entry => entry.key);
+  for (let i = 0; i < keys.length; i += 1000) {
+    await bucket.delete(keys.slice(i, i + 1000));
+  }
+  return keys.length;
+}
+
+// Audit line for an ingest: which matches and how many rows, not the rows themselves
+function describeIngest(params: any): string {
+  const rows = Array.isArray(params?.rows) ? params.rows : [];
+  const matchIds = [...new Set(rows.map((row: any) => String(row?.match_id)))];
+  return `${params?.dryRun ? 'dry run: ' : ''}${rows.length} rows, matches ${matchIds.slice(0, 20).join(', ')}${params?.replace ? ' (replace)' : ''}`;
+}
+
+export async function onRequestPost(context: { request: Request; env: any; waitUntil?: (promise: Promise<any>) => void }) {
+  const { request, env } = context;
+  const startedAt = Date.now();
+  let session: Session;
+  try {
+    session = await authenticateRequest(request, env);
+    await enforceSessionLimits(env, session);
+  } catch (error: any) {
+    if (error instanceof AuthError) return authErrorResponse(error);
+    throw error;
+  }
+
+  // Parsed once here and shared with the handler and the audit entry
+  const body = await request.json().catch(() => null);
+  const response = body && typeof body === 'object' && !Array.isArray(body)
+    ? await handleDbRequest({ body, env, session })
+    : errorResponse(new SqlRequestError('BAD_REQUEST', 'Request body must be a JSON object'));
+
+  // Audit who ran what; error codes come from the response body
+  const errorBody = response.ok ? null : await response.clone().json().catch(() => null);
+  const audit = writeAuditLog(env, {
+    sub: session.sub,
+    jti: session.jti,
+    action: String(body?.action || 'unknown'),
+    status: response.status,
+    code: errorBody?.code,
+    ip: clientIp(request),
+    durationMs: Date.now() - startedAt,
+    tableName: body?.params?.tableName ?? body?.tableName,
+    query: body?.params?.query ?? body?.query ?? (body?.action === 'ingest' ? describeIngest(body.params) : undefined),
+  });
+  if (context.waitUntil) context.waitUntil(audit);
+  else await audit;
+
+  return response;
+}
+
+async function handleDbRequest({ body, env, session }: { body: any; env: any; session: Session }): Promise<Response> {
   try {
-    const body = await request.json();
-    const { action, query, params, tableName } = body;
+    const { action } = body;
+    const params = body.params && typeof body.params === 'object' && !Array.isArray(body.params) ? body.params : {};
+    // The client sends { action, params: { query, params, tableName } }; older callers put them at the top level
+    const query: string | undefined = params.query ?? body.query;
+    const queryParams: any[] = Array.isArray(params.params) ? params.params : Array.isArray(body.params) ? body.params : [];
+    const tableName: string | undefined = params.tableName ?? body.tableName;
+    // Per-request cache options: { noCache: true } skips cached reads, { maxAge: seconds } narrows freshness
+    const cacheOptions = body.cache && typeof body.cache === 'object' ? body.cache : {};
 
     // Check for R2 binding (required for caching)
     if (!env.R2_BUCKET) {
-      return new Response(JSON.stringify({ error: 'R2 bucket not configured' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return errorResponse(new SqlRequestError('CONFIG', 'R2 bucket not configured', undefined, 500));
+    }
+
+    // Pick the SQL backend: the request's choice, else DB_BACKEND, else the first configured one
+    const backends = configuredBackends(env);
+    if (backends.length === 0) {
+      return errorResponse(new SqlRequestError('CONFIG', 'No database configured (set NEON_CONNECTION_STRING, POSTGRES_CONNECTION_STRING or a SQLITE_DB binding)', undefined, 500));
+    }
+    const requestedBackend = body.backend ?? env.DB_BACKEND ?? backends[0];
+    if (action !== 'listBackends' && !backends.includes(requestedBackend)) {
+      return errorResponse(new SqlRequestError('CONFIG', `Backend ${requestedBackend} is not configured`, `Configured backends: ${backends.join(', ')}`));
     }
 
-    // Check for Neon connection string (required for queries)
-    if (!env.NEON_CONNECTION_STRING) {
-      return new Response(JSON.stringify({ error: 'Neon connection string not configured' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
+    const cacheMaxAge = (cacheAction: string): number => {
+      const maxAge = Number(cacheOptions.maxAge);
+      if (cacheOptions.maxAge != null && Number.isFinite(maxAge) && maxAge >= 0) {
+        return Math.min(maxAge * 1000, MAX_CACHE_AGE_MS);
+      }
+      return CACHE_TTL_MS[cacheAction];
+    };
+
+    // Cached data for `key` if it is fresh enough for this request; entries past the action TTL are deleted
+    const readCache = async (cacheAction: string, key: string): Promise<any | null> => {
+      if (cacheOptions.noCache) return null;
+      const cached = await env.R2_BUCKET.get(key);
+      if (!cached) return null;
+      const cachedData = await cached.json();
+      const cacheAge = Date.now() - (cachedData.timestamp || 0);
+      if (cacheAge < cacheMaxAge(cacheAction)) return cachedData;
+      if (cacheAge >= CACHE_TTL_MS[cacheAction]) await env.R2_BUCKET.delete(key);
+      return null;
+    };
+
+    // Store a response; action and tables go into metadata so purges can find it
+    const writeCache = async (cacheAction: string, key: string, tables: string[], data: Record<string, any>, timestamp: number = Date.now()): Promise<number> => {
+      await env.R2_BUCKET.put(key, JSON.stringify({ ...data, timestamp }), {
+        httpMetadata: { contentType: 'application/json' },
+        customMetadata: {
+          action: cacheAction,
+          tables: tables.join(','),
+          expiresAt: String(Date.now() + CACHE_TTL_MS[cacheAction]),
+        },
       });
+      return timestamp;
+    };
+
+    // Paged requests read a snapshot stored as one R2 object per page, keyed by the request and page size and
+    // stamped with one timestamp. The first page reuses a fresh snapshot or loads and stores a new one; later pages
+    // read only their own object, which must carry the timestamp their cursor names. Pages therefore never overlap
+    // or skip rows, whatever the row order, each costs one page-sized read, and a snapshot replaced mid-stream is reported.
+    const readPagedSnapshot = async (
+      cacheAction: string,
+      parts: Record<string, unknown>,
+      tables: string[],
+      page: PageRequest,
+      load: () => Promise<{ rows: any[]; truncated?: boolean }>
+    ): Promise<{ rows: any[]; nextCursor: string | null; truncated: boolean; cached: boolean; timestamp: number }> => {
+      const firstKey = await cacheKeyFor(cacheAction, { ...parts, pageSize: page.pageSize });
+      const pageKey = (index: number) => index === 0 ? firstKey : firstKey.replace(/\.json$/, `/page-${index}.json`);
+      const index = page.offset / page.pageSize;
+      const toPage = (stored: { rows: any[]; pages: number; truncated?: boolean; timestamp: number }, cached: boolean) => ({
+        rows: stored.rows || [],
+        nextCursor: index + 1 < stored.pages ? encodeCursor(page.offset + page.pageSize, page.pageSize, stored.timestamp) : null,
+        truncated: index + 1 >= stored.pages && !!stored.truncated,
+        cached,
+        timestamp: stored.timestamp,
+      });
+
+      if (page.snapshot === null) {
+        const cachedData = await readCache(cacheAction, firstKey);
+        if (cachedData) return toPage(cachedData, true);
+        const { rows, truncated } = await load();
+        const pages = Math.max(1, Math.ceil(rows.length / page.pageSize));
+        const timestamp = Date.now();
+        // The first page goes last, so a snapshot is only reused once every page of it is stored
+        for (let i = pages - 1; i >= 0; i--) {
+          const pageRows = rows.slice(i * page.pageSize, (i + 1) * page.pageSize);
+          await writeCache(cacheAction, pageKey(i), tables, { rows: pageRows, pages, truncated: !!truncated }, timestamp);
+        }
+        return toPage({ rows: rows.slice(0, page.pageSize), pages, truncated, timestamp }, false);
+      }
+      const stored = await env.R2_BUCKET.get(pageKey(index));
+      const cachedData = stored ? await stored.json() : null;
+      if (!cachedData || cachedData.timestamp !== page.snapshot) {
+        throw new SqlRequestError('PAGE_EXPIRED', 'The result changed while it was being paged', 'Load it again from the first page', 409);
+      }
+      return toPage(cachedData, true);
+    };
+
+    const rowLimit = Number(env.QUERY_ROW_LIMIT) > 0 ? Number(env.QUERY_ROW_LIMIT) : DEFAULT_ROW_LIMIT;
+    const timeoutMs = Number(env.QUERY_TIMEOUT_MS) > 0 ? Number(env.QUERY_TIMEOUT_MS) : DEFAULT_TIMEOUT_MS;
+
+    let backend: SqlBackend;
+    try {
+      backend = createBackend(env, backends.includes(requestedBackend) ? requestedBackend : backends[0], timeoutMs);
+    } catch (error: any) {
+      if (error instanceof BackendConfigError) {
+        return errorResponse(new SqlRequestError('CONFIG', error.message, 'Set ALLOWED_TABLES to the comma-separated tables the app may read', 500));
+      }
+      throw error;
     }
+    const toRequestError = (error: any) => toSqlRequestError(error, backend.syntaxHint);
+    // Neon keys stay as they were, so existing cache entries remain valid
+    const cacheKeyFor = (cacheAction: string, parts: Record<string, unknown>) =>
+      getCacheKey(cacheAction, backend.kind === 'neon' ? parts : { backend: backend.kind, ...parts });
 
-    // Helper function to generate cache key from query
-    const getCacheKey = (action: string, query?: string, params?: any, tableName?: string) => {
-      const key = `${action}_${tableName || 'default'}_${query || ''}_${JSON.stringify(params || {})}`;
-      // Create a hash for the key (simple approach)
-      return `cache_${btoa(key).replace(/[+/=]/g, '').substring(0, 200)}`;
+    // ALLOWED_TABLES (comma-separated) is required: without it no table can be read
+    const getAllowedTables = async (): Promise<string[]> => {
+      const tables = String(env.ALLOWED_TABLES || '').split(',').map((t: string) => t.trim()).filter(Boolean);
+      if (tables.length === 0) {
+        throw new SqlRequestError('CONFIG', 'ALLOWED_TABLES is not configured', 'Set ALLOWED_TABLES to the comma-separated tables the app may read (e.g. combined_dvw)', 500);
+      }
+      return tables;
     };
 
-    // Helper function to query Neon Postgres
-    const queryNeon = async (sqlQuery: string, queryParams?: any[]): Promise<any[]> => {
-      const { neon } = await import('@neondatabase/serverless');
-      const sql = neon(env.NEON_CONNECTION_STRING);
-      
-      if (queryParams && queryParams.length > 0) {
-        // Replace $1, $2 placeholders with actual values (sanitized)
-        // Note: This is a simple approach - for production, consider using a proper SQL builder
-        let processedQuery = sqlQuery;
-        queryParams.forEach((param, index) => {
-          const placeholder = `$${index + 1}`;
-          // Escape single quotes and wrap in quotes for strings
-          const escapedValue = typeof param === 'string' 
-            ? `'${param.replace(/'/g, "''")}'` 
-            : param;
-          processedQuery = processedQuery.replace(placeholder, String(escapedValue));
-        });
-        const result = await sql.unsafe(processedQuery);
-        return Array.isArray(result) ? result : [];
-      } else {
-        // For queries without parameters
-        const result = await sql.unsafe(sqlQuery);
-        return Array.isArray(result) ? result : [];
+    // The query action may read (and join) the tables the chat attached, when it sends them, within the allowlist
+    const getQueryTables = async (): Promise<string[]> => {
+      const allowedTables = await getAllowedTables();
+      if (!Array.isArray(params.tables) || params.tables.length === 0) return allowedTables;
+      const attached = new Set(params.tables.map((t: unknown) => String(t).toLowerCase()));
+      return allowedTables.filter(t => attached.has(t.toLowerCase()));
+    };
+
+    const assertTableAllowed = async (name: string) => {
+      const allowedTables = await getAllowedTables();
+      if (!allowedTables.some(t => t.toLowerCase() === name.toLowerCase())) {
+        throw new SqlRequestError('SQL_TABLE_NOT_ALLOWED', `Table ${name} is not allowed`, `Allowed tables: ${allowedTables.join(', ') || 'none'}`, 403);
       }
     };
 
     switch (action) {
       case 'query': {
         // Execute a SELECT query with R2 caching
-        if (!query) {
-          return new Response(JSON.stringify({ error: 'Query is required' }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
-          });
+        if (!query || typeof query !== 'string') {
+          return errorResponse(new SqlRequestError('SQL_EMPTY', 'Query is required'));
         }
 
         try {
+          const { statement, tables } = validateReadOnlySql(query, await getQueryTables());
+
+          // Capped like unpaged requests, fetching one row past the cap to detect truncation
+          const loadCapped = async () => {
+            const capped = await backend.query(`${CAPPED_QUERY_PREFIX}${statement}\n) AS capped_query LIMIT ${rowLimit + 1}`, queryParams);
+            const truncated = capped.length > rowLimit;
+            return { rows: truncated ? capped.slice(0, rowLimit) : capped, truncated };
+          };
+
+          const page = readPageRequest(params, rowLimit);
+          if (page) {
+            const { rows, nextCursor, truncated, cached, timestamp } = await readPagedSnapshot('query', { statement, queryParams, rowLimit }, tables, page, loadCapped);
+            return new Response(JSON.stringify({
+              success: true,
+              rows,
+              nextCursor,
+              truncated,
+              meta: { cached, cachedAt: cached ? timestamp : undefined, pageSize: page.pageSize, offset: page.offset, rowLimit },
+              ...(cached ? { fromCache: true } : {})
+            }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
+          }
+
           // Check R2 cache first
-          const cacheKey = getCacheKey('query', query, params, tableName);
-          const cached = await env.R2_BUCKET.get(cacheKey);
-          
-          if (cached) {
-            const cachedData = await cached.json();
-            // Check if cache is still valid (6 hours for queries - aggressive caching)
-            const cacheAge = Date.now() - (cachedData.timestamp || 0);
-            if (cacheAge < 6 * 60 * 60 * 1000) {
-              // Cache is still valid - return cached data (no database query!)
-              return new Response(JSON.stringify({ 
-                success: true, 
-                rows: cachedData.rows || [],
-                meta: { cached: true },
-                fromCache: true
-              }), {
-                status: 200,
-                headers: { 'Content-Type': 'application/json' },
-              });
-            }
-            // Cache expired - delete it and continue to query Neon
-            await env.R2_BUCKET.delete(cacheKey);
+          const cacheKey = await cacheKeyFor('query', { statement, queryParams, rowLimit });
+          const cachedData = await readCache('query', cacheKey);
+          if (cachedData) {
+            // Cache is still valid - return cached data (no database query!)
+            return new Response(JSON.stringify({ 
+              success: true, 
+              rows: cachedData.rows || [],
+              truncated: !!cachedData.truncated,
+              meta: { cached: true, cachedAt: cachedData.timestamp, rowLimit },
+              fromCache: true
+            }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
           }
 
-          // Cache miss - query Neon
-          const result = await queryNeon(query, params);
+          // Cache miss - query the backend
+          const { rows: result, truncated } = await loadCapped();
           
-          // Store in R2 cache (with 6 hour TTL - aggressive caching for team use)
-          const cacheData = {
-            rows: result,
-            timestamp: Date.now()
-          };
-          await env.R2_BUCKET.put(cacheKey, JSON.stringify(cacheData), {
-            httpMetadata: {
-              contentType: 'application/json',
-            },
-            // Cache for 6 hours (aggressive caching to reduce queries)
-            customMetadata: {
-              expiresAt: String(Date.now() + 6 * 60 * 60 * 1000)
-            }
-          });
+          // Store in R2 cache (6 hour TTL - aggressive caching for team use)
+          await writeCache('query', cacheKey, tables, { rows: result, truncated });
           
           return new Response(JSON.stringify({ 
             success: true, 
             rows: result || [],
-            meta: { cached: false }
+            truncated,
+            meta: { cached: false, rowLimit }
           }), {
             status: 200,
             headers: { 'Content-Type': 'application/json' },
           });
         } catch (error: any) {
-          return new Response(JSON.stringify({ 
-            error: error.message || 'Query execution failed',
-            details: error.toString()
-          }), {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' },
-          });
+          if (error?.position) error.position = String(Math.max(1, Number(error.position) - CAPPED_QUERY_PREFIX.length));
+          return errorResponse(toRequestError(error), error.toString());
         }
       }
 
       case 'count': {
         // Get row count for a table with optional WHERE conditions
         if (!tableName) {
-          return new Response(JSON.stringify({ error: 'Table name is required' }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
-          });
+          return errorResponse(new SqlRequestError('BAD_REQUEST', 'Table name is required'));
         }
 
         try {
-          // Check cache
-          const cacheKey = getCacheKey('count', undefined, params, tableName);
-          const cached = await env.R2_BUCKET.get(cacheKey);
-          
-          if (cached) {
-            const cachedData = await cached.json();
-            // Check if cache is still valid (6 hours for counts - aggressive caching)
-            const cacheAge = Date.now() - (cachedData.timestamp || 0);
-            if (cacheAge < 6 * 60 * 60 * 1000) {
-              // Cache is still valid - return cached data (no database query!)
-              return new Response(JSON.stringify({ 
-                success: true, 
-                count: cachedData.count || 0,
-                fromCache: true
-              }), {
-                status: 200,
-                headers: { 'Content-Type': 'application/json' },
-              });
-            }
-            // Cache expired - delete it and continue to query Neon
-            await env.R2_BUCKET.delete(cacheKey);
-          }
-
-          // Build query (PostgreSQL syntax, not SQLite)
+          // Build query (double-quoted identifiers work on every backend)
           let countQuery = `SELECT COUNT(*) as count FROM "${tableName.replace(/"/g, '""')}"`;
           
           // Add WHERE conditions if provided
@@ -169,14 +557,30 @@ export async function onRequestPost({ request, env }: { request: Request; env: a
             countQuery += ` WHERE ${params.whereConditions.join(' AND ')}`;
           }
           
-          const result = await queryNeon(countQuery);
-          const count = result[0]?.count || 0;
+          // WHERE conditions arrive as SQL fragments, so the whole statement goes through the validator,
+          // before the cache: a cached count is only returned for SQL this request may run
+          const { statement, tables } = validateReadOnlySql(countQuery, await getAllowedTables());
+
+          // Check cache
+          const cacheKey = await cacheKeyFor('count', { tableName, whereConditions: params.whereConditions || [] });
+          const cachedData = await readCache('count', cacheKey);
+          if (cachedData) {
+            // Cache is still valid - return cached data (no database query!)
+            return new Response(JSON.stringify({ 
+              success: true, 
+              count: cachedData.count || 0,
+              fromCache: true
+            }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
+          }
+
+          const result = await backend.query(statement);
+          const count = Number(result[0]?.count) || 0;
           
           // Cache the result (6 hours - aggressive caching for team use)
-          await env.R2_BUCKET.put(cacheKey, JSON.stringify({ count, timestamp: Date.now() }), {
-            httpMetadata: { contentType: 'application/json' },
-            customMetadata: { expiresAt: String(Date.now() + 6 * 60 * 60 * 1000) } // 6 hours
-          });
+          await writeCache('count', cacheKey, tables, { count });
           
           return new Response(JSON.stringify({ 
             success: true, 
@@ -186,45 +590,32 @@ export async function onRequestPost({ request, env }: { request: Request; env: a
             headers: { 'Content-Type': 'application/json' },
           });
         } catch (error: any) {
-          return new Response(JSON.stringify({ 
-            error: error.message || 'Count query failed',
-            details: error.toString()
-          }), {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' },
-          });
+          return errorResponse(toRequestError(error), error.toString());
         }
       }
 
       case 'matches': {
         // Get list of available matches
         try {
-          const tableName = params?.tableName || 'combined_dvw';
-          
-          // Check cache
-          const cacheKey = getCacheKey('matches', undefined, params, tableName);
-          const cached = await env.R2_BUCKET.get(cacheKey);
+          const tableName = params.tableName || 'combined_dvw';
+          await assertTableAllowed(tableName);
           
-          if (cached) {
-            const cachedData = await cached.json();
-            // Check if cache is still valid (24 hours for matches list - changes rarely)
-            const cacheAge = Date.now() - (cachedData.timestamp || 0);
-            if (cacheAge < 24 * 60 * 60 * 1000) {
-              // Cache is still valid - return cached data (no database query!)
-              return new Response(JSON.stringify({ 
-                success: true, 
-                matches: cachedData.matches || [],
-                fromCache: true
-              }), {
-                status: 200,
-                headers: { 'Content-Type': 'application/json' },
-              });
-            }
-            // Cache expired - delete it and continue to query Neon
-            await env.R2_BUCKET.delete(cacheKey);
+          // Check cache (24 hours for matches list - changes rarely)
+          const cacheKey = await cacheKeyFor('matches', { tableName });
+          const cachedData = await readCache('matches', cacheKey);
+          if (cachedData) {
+            // Cache is still valid - return cached data (no database query!)
+            return new Response(JSON.stringify({ 
+              success: true, 
+              matches: cachedData.matches || [],
+              fromCache: true
+            }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
           }
 
-          // Query Neon (PostgreSQL syntax - use double quotes)
+          // Query the backend (double-quoted identifiers work on every backend)
           const query = `SELECT DISTINCT match_id, home_team, visiting_team 
                         FROM "${tableName.replace(/"/g, '""')}" 
                         WHERE match_id IS NOT NULL 
@@ -232,16 +623,10 @@ export async function onRequestPost({ request, env }: { request: Request; env: a
                         AND visiting_team IS NOT NULL
                         ORDER BY match_id`;
           
-          const result = await queryNeon(query);
+          const result = await backend.query(query);
           
           // Cache the result for 24 hours (matches list changes rarely)
-          await env.R2_BUCKET.put(cacheKey, JSON.stringify({ 
-            matches: result, 
-            timestamp: Date.now() 
-          }), {
-            httpMetadata: { contentType: 'application/json' },
-            customMetadata: { expiresAt: String(Date.now() + 24 * 60 * 60 * 1000) }
-          });
+          await writeCache('matches', cacheKey, [tableName], { matches: result });
           
           return new Response(JSON.stringify({ 
             success: true, 
@@ -251,13 +636,7 @@ export async function onRequestPost({ request, env }: { request: Request; env: a
             headers: { 'Content-Type': 'application/json' },
           });
         } catch (error: any) {
-          return new Response(JSON.stringify({ 
-            error: error.message || 'Failed to fetch matches',
-            details: error.toString()
-          }), {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' },
-          });
+          return errorResponse(toRequestError(error), error.toString());
         }
       }
 
@@ -265,43 +644,27 @@ export async function onRequestPost({ request, env }: { request: Request; env: a
         // List all tables in the database
         try {
           // Check cache (tables list changes rarely, cache for 24 hours)
-          const cacheKey = getCacheKey('listTables');
-          const cached = await env.R2_BUCKET.get(cacheKey);
-          
-          if (cached) {
-            const cachedData = await cached.json();
-            // Check if cache is still valid (24 hours)
-            const cacheAge = Date.now() - (cachedData.timestamp || 0);
-            if (cacheAge < 24 * 60 * 60 * 1000) {
-              return new Response(JSON.stringify({ 
-                success: true, 
-                tables: cachedData.tables || [],
-                fromCache: true
-              }), {
-                status: 200,
-                headers: { 'Content-Type': 'application/json' },
-              });
-            }
+          const cacheKey = await cacheKeyFor('listTables', {});
+          const cachedData = await readCache('listTables', cacheKey);
+          if (cachedData) {
+            return new Response(JSON.stringify({ 
+              success: true, 
+              tables: cachedData.tables || [],
+              fromCache: true
+            }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
           }
 
-          // Query Neon to get all table names from public schema
-          const query = `SELECT table_name 
-                        FROM information_schema.tables 
-                        WHERE table_schema = 'public' 
-                        AND table_type = 'BASE TABLE'
-                        ORDER BY table_name`;
-          
-          const result = await queryNeon(query);
-          const tables = result.map((row: any) => row.table_name).filter(Boolean);
+          // Base tables of the backend (views stay queryable but aren't listed)
+          const result = await backend.listTables();
+          // Only list tables the query action will accept
+          const allowedTables = (await getAllowedTables()).map(t => t.toLowerCase());
+          const tables = result.filter(t => !t.view && allowedTables.includes(t.name.toLowerCase())).map(t => t.name);
           
           // Cache the result for 24 hours
-          await env.R2_BUCKET.put(cacheKey, JSON.stringify({ 
-            tables, 
-            timestamp: Date.now() 
-          }), {
-            httpMetadata: { contentType: 'application/json' },
-            customMetadata: { expiresAt: String(Date.now() + 24 * 60 * 60 * 1000) }
-          });
+          await writeCache('listTables', cacheKey, [], { tables });
           
           return new Response(JSON.stringify({ 
             success: true, 
@@ -311,110 +674,366 @@ export async function onRequestPost({ request, env }: { request: Request; env: a
             headers: { 'Content-Type': 'application/json' },
           });
         } catch (error: any) {
+          return errorResponse(toRequestError(error), error.toString());
+        }
+      }
+
+      case 'describeTable': {
+        // Columns (Postgres type names on every backend), approximate row count and distinct values of low-cardinality columns
+        if (!tableName) {
+          return errorResponse(new SqlRequestError('BAD_REQUEST', 'Table name is required'));
+        }
+
+        try {
+          await assertTableAllowed(tableName);
+
+          // Check cache (schemas change rarely, cache for 24 hours)
+          const cacheKey = await cacheKeyFor('describeTable', { tableName });
+          const cachedData = await readCache('describeTable', cacheKey);
+          if (cachedData) {
+            return new Response(JSON.stringify({ 
+              success: true, 
+              table: cachedData.table,
+              fromCache: true
+            }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
+          }
+
+          const columnRows = await backend.describeColumns(tableName);
+          if (columnRows.length === 0) {
+            return errorResponse(new SqlRequestError('SQL_UNKNOWN_TABLE', `Table ${tableName} has no columns or does not exist`, undefined, 404));
+          }
+
+          const quotedTable = `"${tableName.replace(/"/g, '""')}"`;
+
+          // Backend estimate (Postgres planner statistics); without one, an exact count
+          let rowCount = (await backend.estimateRowCount(tableName)) ?? 0;
+          let rowCountExact = false;
+          if (rowCount <= 0) {
+            const countRows = await backend.query(`SELECT COUNT(*) AS count FROM ${quotedTable}`);
+            rowCount = Number(countRows[0]?.count) || 0;
+            rowCountExact = true;
+          }
+
+          // One pass over a sample: DESCRIBE_MAX_DISTINCT + 1 distinct values tells low from high cardinality
+          const sampled = columnRows
+            .map((row: any, index: number) => ({ name: String(row.column_name), index, type: String(row.data_type).toLowerCase() }))
+            .filter(column => DESCRIBE_SAMPLED_TYPES.test(column.type));
+          const distinctValues: Record<string, any[]> = {};
+          const nullCounts: Record<string, number> = {};
+          let sampleSize = 0;
+          if (sampled.length > 0) {
+            const selects = sampled.map(column => {
+              const quoted = `"${column.name.replace(/"/g, '""')}"`;
+              return `(SELECT ${backend.listAggregate('v')} FROM (SELECT DISTINCT ${quoted} AS v FROM sample WHERE ${quoted} IS NOT NULL LIMIT ${DESCRIBE_MAX_DISTINCT + 1}) d) AS d${column.index},
+            (SELECT COUNT(*) FROM sample WHERE ${quoted} IS NULL) AS n${column.index}`;
+            });
+            const sampleRows = await backend.query(`WITH sample AS (SELECT * FROM ${quotedTable} LIMIT ${DESCRIBE_SAMPLE_ROWS})
+          SELECT (SELECT COUNT(*) FROM sample) AS sample_size,
+            ${selects.join(',\n            ')}`);
+            const sample = sampleRows[0] || {};
+            sampleSize = Number(sample.sample_size) || 0;
+            for (const column of sampled) {
+              const values = backend.parseList(sample[`d${column.index}`]);
+              if (values && values.length <= DESCRIBE_MAX_DISTINCT) distinctValues[column.name] = values;
+              nullCounts[column.name] = Number(sample[`n${column.index}`]) || 0;
+            }
+          }
+
+          const table = {
+            name: tableName,
+            rowCount,
+            rowCountExact,
+            sampleSize,
+            columns: columnRows.map((row: any) => ({
+              name: row.column_name,
+              dataType: row.data_type,
+              nullable: row.is_nullable === 'YES',
+              ...(row.column_name in nullCounts ? { sampleNullCount: nullCounts[row.column_name] } : {}),
+              ...(row.column_name in distinctValues ? { distinctValues: distinctValues[row.column_name] } : {}),
+            })),
+          };
+
+          // Cache the result for 24 hours
+          await writeCache('describeTable', cacheKey, [tableName], { table });
+
           return new Response(JSON.stringify({ 
-            error: error.message || 'Failed to list tables',
-            details: error.toString()
+            success: true, 
+            table
           }), {
-            status: 500,
+            status: 200,
             headers: { 'Content-Type': 'application/json' },
           });
+        } catch (error: any) {
+          return errorResponse(toRequestError(error), error.toString());
         }
       }
 
       case 'matchData': {
         // Get all data for a specific match
-        if (!params || !params.matchId) {
-          return new Response(JSON.stringify({ error: 'Match ID is required' }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
-          });
+        if (!params.matchId) {
+          return errorResponse(new SqlRequestError('BAD_REQUEST', 'Match ID is required'));
         }
 
         try {
           const tableName = params.tableName || 'combined_dvw';
           const matchId = params.matchId;
-          
-          // Check cache (match data is large, cache for 1 hour)
-          const cacheKey = getCacheKey('matchData', undefined, { matchId, tableName }, tableName);
-          const cached = await env.R2_BUCKET.get(cacheKey);
-          
-          if (cached) {
-            const cachedData = await cached.json();
-            // Check if cache is still valid (1 hour)
-            const cacheAge = Date.now() - (cachedData.timestamp || 0);
-            if (cacheAge < 60 * 60 * 1000) {
-              return new Response(JSON.stringify({ 
-                success: true, 
-                data: cachedData.data || [],
-                fromCache: true
-              }), {
-                status: 200,
-                headers: { 'Content-Type': 'application/json' },
-              });
-            }
-          }
+          await assertTableAllowed(tableName);
 
           // Build comprehensive SELECT query (PostgreSQL syntax)
           const query = `SELECT 
-            match_id, point_id, video_time, team, player_number, player_name, player_id,
-            skill_type, evaluation_code, evaluation, attack_code, attack_description,
-            set_code, set_description, set_type, start_zone, end_zone, end_subzone, end_cone,
-            skill_subtype, set_number, home_team_score, visiting_team_score,
-            home_score, visiting_score, phase, home_team, visiting_team, point_won_by,
-            point, winning_attack, serving_team, point_phase, attack_phase, reception_quality,
-            timeout, end_of_set, substitution, num_players, num_players_numeric,
-            special_code, custom_code, home_setter_position, visiting_setter_position,
-            home_p1, home_p2, home_p3, home_p4, home_p5, home_p6,
-            visiting_p1, visiting_p2, visiting_p3, visiting_p4, visiting_p5, visiting_p6,
-            start_coordinate_x, start_coordinate_y, mid_coordinate_x, mid_coordinate_y,
-            end_coordinate_x, end_coordinate_y, point_differential
+            ${MATCH_COLUMNS.join(', ')}
           FROM "${tableName.replace(/"/g, '""')}" 
           WHERE match_id = $1
           ORDER BY point_id, video_time`;
+
+          // Check cache (match data is large, cache for 1 hour); paged requests read the match's paged snapshot
+          const cacheKey = await cacheKeyFor('matchData', { matchId, tableName });
+          const page = readPageRequest(params, rowLimit);
+          if (page) {
+            const { rows, nextCursor, cached } = await readPagedSnapshot('matchData', { matchId, tableName }, [tableName], page, async () => ({
+              rows: await backend.query(query, [matchId]),
+            }));
+            return new Response(JSON.stringify({ 
+              success: true, 
+              data: rows,
+              nextCursor,
+              ...(cached ? { fromCache: true } : {})
+            }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
+          }
+
+          const cachedData = await readCache('matchData', cacheKey);
+          if (cachedData) {
+            return new Response(JSON.stringify({ 
+              success: true, 
+              data: cachedData.data || [],
+              fromCache: true
+            }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
+          }
+
+          const result = await backend.query(query, [matchId]);
           
-          const result = await queryNeon(query, [matchId]);
+          // Cache the result (fresh for 1 hour - match data changes when you update database)
+          await writeCache('matchData', cacheKey, [tableName], { data: result });
           
-          // Cache the result for 6 hours (aggressive caching - match data changes when you update database)
-          await env.R2_BUCKET.put(cacheKey, JSON.stringify({ 
-            data: result, 
-            timestamp: Date.now() 
+          return new Response(JSON.stringify({ 
+            success: true, 
+            data: result || []
           }), {
-            httpMetadata: { contentType: 'application/json' },
-            customMetadata: { expiresAt: String(Date.now() + 6 * 60 * 60 * 1000) } // 6 hours
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
           });
-          
+        } catch (error: any) {
+          return errorResponse(toRequestError(error), error.toString());
+        }
+      }
+
+      case 'ingest': {
+        // Append parsed match rows: params { tableName, rows, dryRun, replace }.
+        // Matches already in the table are skipped unless replace is set; dryRun only reports what would change.
+        try {
+          const targetTable = tableName || 'combined_dvw';
+          const forbidden = checkIngestUser(env, session, 'INGEST_FORBIDDEN', 'Uploading matches', 'upload matches');
+          if (forbidden) return errorResponse(forbidden);
+          await assertTableAllowed(targetTable);
+
+          const rows = params.rows;
+          if (!Array.isArray(rows) || rows.length === 0) {
+            return errorResponse(new SqlRequestError('BAD_REQUEST', 'rows must be a non-empty array'));
+          }
+          if (rows.length > MAX_INGEST_ROWS) {
+            return errorResponse(new SqlRequestError('BAD_REQUEST', `At most ${MAX_INGEST_ROWS} rows per request`, 'Upload the matches in smaller groups'));
+          }
+
+          const columnRows = await backend.describeColumns(targetTable);
+          const columnTypes = new Map<string, string>(columnRows.map((row: any) => [String(row.column_name), String(row.data_type).toLowerCase()]));
+          const missingColumns = MATCH_COLUMNS.filter(column => !columnTypes.has(column));
+          if (missingColumns.length > 0) {
+            return errorResponse(new SqlRequestError('INGEST_INVALID', `${targetTable} is not a match table`, `Missing columns: ${missingColumns.join(', ')}`));
+          }
+
+          const insertColumns = [...MATCH_COLUMNS, ...OPTIONAL_MATCH_COLUMNS.filter(column => columnTypes.has(column))];
+          const { values, errors } = validateIngestRows(rows, insertColumns, columnTypes);
+          if (errors.length > 0) {
+            return errorResponse(new SqlRequestError('INGEST_INVALID', 'The upload has invalid rows', errors.join('\n')));
+          }
+
+          // De-duplicate on match_id against what the table already holds
+          const matchIdIndex = MATCH_COLUMNS.indexOf('match_id');
+          const incoming = new Map<string, { home_team: string; visiting_team: string; rows: number }>();
+          for (const rowValues of values) {
+            const matchId = String(rowValues[matchIdIndex]);
+            const match = incoming.get(matchId) || {
+              home_team: String(rowValues[MATCH_COLUMNS.indexOf('home_team')]),
+              visiting_team: String(rowValues[MATCH_COLUMNS.indexOf('visiting_team')]),
+              rows: 0,
+            };
+            match.rows++;
+            incoming.set(matchId, match);
+          }
+          const quotedTable = `"${targetTable.replace(/"/g, '""')}"`;
+          // CAST(... AS text) and IN lists, unlike ::text and ANY(array), work on every backend
+          const matchIdList = (ids: string[]) => ids.map((_, i) => `$${i + 1}`).join(', ');
+          const incomingIds = [...incoming.keys()];
+          // One lookup per backend.maxParams match ids, like the INSERT batches below
+          const existing = new Map<string, number>();
+          for (let i = 0; i < incomingIds.length; i += backend.maxParams) {
+            const batchIds = incomingIds.slice(i, i + backend.maxParams);
+            const existingRows = await backend.query(`SELECT CAST(match_id AS text) AS match_id, COUNT(*) AS count
+                          FROM ${quotedTable}
+                          WHERE CAST(match_id AS text) IN (${matchIdList(batchIds)})
+                          GROUP BY match_id`, batchIds);
+            for (const row of existingRows) existing.set(String(row.match_id), Number(row.count) || 0);
+          }
+
+          const replace = params.replace === true;
+          const matches = [...incoming.entries()].map(([matchId, match]) => ({
+            match_id: matchId,
+            home_team: match.home_team,
+            visiting_team: match.visiting_team,
+            incomingRows: match.rows,
+            existingRows: existing.get(matchId) || 0,
+            status: !existing.has(matchId) ? 'new' : replace ? 'replace' : 'skip',
+          }));
+          const writeIds = new Set(matches.filter(m => m.status !== 'skip').map(m => m.match_id));
+          const replaceIds = matches.filter(m => m.status === 'replace').map(m => m.match_id);
+          const writeValues = values.filter(rowValues => writeIds.has(String(rowValues[matchIdIndex])));
+          const summary = {
+            tableName: targetTable,
+            matches,
+            rowsToInsert: writeValues.length,
+            rowsToDelete: matches.filter(m => m.status === 'replace').reduce((sum, m) => sum + m.existingRows, 0),
+          };
+
+          if (params.dryRun) {
+            return new Response(JSON.stringify({ success: true, dryRun: true, ...summary }), {
+              status: 200,
+              headers: { 'Content-Type': 'application/json' },
+            });
+          }
+
+          let purged = 0;
+          if (writeValues.length > 0) {
+            const columnList = insertColumns.map(column => `"${column}"`).join(', ');
+            const statements: SqlStatement[] = [];
+            for (let i = 0; i < replaceIds.length; i += backend.maxParams) {
+              const batchIds = replaceIds.slice(i, i + backend.maxParams);
+              statements.push({ text: `DELETE FROM ${quotedTable} WHERE CAST(match_id AS text) IN (${matchIdList(batchIds)})`, params: batchIds });
+            }
+            const batchRows = Math.max(1, Math.min(INGEST_BATCH_ROWS, Math.floor(backend.maxParams / insertColumns.length)));
+            for (let i = 0; i < writeValues.length; i += batchRows) {
+              const batch = writeValues.slice(i, i + batchRows);
+              const placeholders = batch.map((_, rowIndex) =>
+                `(${insertColumns.map((_, columnIndex) => `$${rowIndex * insertColumns.length + columnIndex + 1}`).join(', ')})`
+              );
+              statements.push({ text: `INSERT INTO ${quotedTable} (${columnList}) VALUES ${placeholders.join(', ')}`, params: batch.flat() });
+            }
+            await backend.write(statements);
+            // Cached matches, counts and queries over this table are stale now
+            purged = await purgeCache(env.R2_BUCKET, { table: targetTable });
+          }
+
+          return new Response(JSON.stringify({ success: true, dryRun: false, ...summary, inserted: writeValues.length, purged }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        } catch (error: any) {
+          return errorResponse(toRequestError(error), error.toString());
+        }
+      }
+
+      case 'listBackends': {
+        // Configured backends, for the client's backend picker; nothing to cache
+        return new Response(JSON.stringify({
+          success: true,
+          backends: backends.map(kind => ({ kind, label: BACKEND_LABELS[kind] })),
+          defaultBackend: backends.includes(env.DB_BACKEND) ? env.DB_BACKEND : backends[0],
+        }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      case 'cachePurge': {
+        // Delete cached responses: params.table and/or params.cacheAction narrow it, neither purges everything.
+        // The cache is shared by every user, so only INGEST_USERS may purge it
+        const forbidden = checkIngestUser(env, session, 'CACHE_FORBIDDEN', 'Purging the cache', 'purge the cache');
+        if (forbidden) return errorResponse(forbidden);
+        try {
+          const table = params.table ? String(params.table) : null;
+          const cacheAction = params.cacheAction ? String(params.cacheAction) : null;
+          if (cacheAction && !(cacheAction in CACHE_TTL_MS)) {
+            return errorResponse(new SqlRequestError('BAD_REQUEST', `Unknown cache action: ${cacheAction}`));
+          }
+
+          const purged = await purgeCache(env.R2_BUCKET, { table, cacheAction });
+
           return new Response(JSON.stringify({ 
             success: true, 
-            data: result || []
+            purged
           }), {
             status: 200,
             headers: { 'Content-Type': 'application/json' },
           });
         } catch (error: any) {
+          return errorResponse(new SqlRequestError('CACHE_ERROR', error.message || 'Failed to purge cache', undefined, 500), error.toString());
+        }
+      }
+
+      case 'cacheStats': {
+        // Entry counts and sizes per action and per table, plus the default TTLs
+        try {
+          const entries = [
+            ...await listCacheEntries(env.R2_BUCKET, CACHE_PREFIX),
+            ...await listCacheEntries(env.R2_BUCKET, LEGACY_CACHE_PREFIX),
+          ];
+          const byAction: Record<string, { entries: number; bytes: number; oldest: string | null; newest: string | null }> = {};
+          const byTable: Record<string, { entries: number; bytes: number }> = {};
+          for (const entry of entries) {
+            const stats = byAction[entry.action] ||= { entries: 0, bytes: 0, oldest: null, newest: null };
+            const uploaded = entry.uploaded.toISOString();
+            stats.entries++;
+            stats.bytes += entry.size;
+            if (!stats.oldest || uploaded < stats.oldest) stats.oldest = uploaded;
+            if (!stats.newest || uploaded > stats.newest) stats.newest = uploaded;
+            for (const table of entry.tables) {
+              const tableStats = byTable[table] ||= { entries: 0, bytes: 0 };
+              tableStats.entries++;
+              tableStats.bytes += entry.size;
+            }
+          }
+
           return new Response(JSON.stringify({ 
-            error: error.message || 'Failed to fetch match data',
-            details: error.toString()
+            success: true, 
+            stats: {
+              entries: entries.length,
+              bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+              byAction,
+              byTable,
+              ttlSeconds: Object.fromEntries(Object.entries(CACHE_TTL_MS).map(([key, ms]) => [key, ms / 1000])),
+            }
           }), {
-            status: 500,
+            status: 200,
             headers: { 'Content-Type': 'application/json' },
           });
+        } catch (error: any) {
+          return errorResponse(new SqlRequestError('CACHE_ERROR', error.message || 'Failed to read cache stats', undefined, 500), error.toString());
         }
       }
 
       default:
-        return new Response(JSON.stringify({ error: 'Invalid action' }), {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        });
+        return errorResponse(new SqlRequestError('BAD_REQUEST', `Invalid action: ${action}`));
     }
   } catch (error: any) {
-    return new Response(JSON.stringify({ 
-      error: error.message || 'Request processing failed',
-      details: error.toString()
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return errorResponse(new SqlRequestError('BAD_REQUEST', error.message || 'Request processing failed'), error.toString());
   }
 }
 
@@ -0,0 +1,51 @@
+// Cloudflare Pages Function issuing session tokens for /api/db
+// POST { username, password } -> { success, token, user, expiresAt }
+
+import {
+  AuthError,
+  authErrorResponse,
+  checkCredentials,
+  clientIp,
+  consumeRateLimit,
+  issueSessionToken,
+  writeAuditLog,
+} from '../_lib/auth';
+
+// Login attempts per IP per minute
+const LOGIN_ATTEMPTS_PER_MINUTE = 10;
+
+export async function onRequestPost({ request, env }: { request: Request; env: any }) {
+  const ip = clientIp(request);
+  const { username, password } = await request.json().catch(() => ({})) as { username?: string; password?: string };
+  try {
+    await consumeRateLimit(env, `login/${ip}`, LOGIN_ATTEMPTS_PER_MINUTE, 60);
+
+    const user = checkCredentials(env, username || '', password || '');
+    const { token, session } = await issueSessionToken(env, user);
+    await writeAuditLog(env, { sub: user, jti: session.jti, action: 'login', status: 200, ip, durationMs: 0 });
+
+    return new Response(JSON.stringify({
+      success: true,
+      token,
+      user,
+      expiresAt: session.exp * 1000
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      if (error.code === 'INVALID_CREDENTIALS') {
+        await writeAuditLog(env, { sub: String(username || 'unknown'), jti: '-', action: 'login', status: 401, code: error.code, ip, durationMs: 0 });
+      }
+      return authErrorResponse(error);
+    }
+    return new Response(JSON.stringify({
+      error: error.message || 'Login failed',
+      details: error.toString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
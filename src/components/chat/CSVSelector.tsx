@@ -1,12 +1,15 @@
 import { useState, useEffect, useRef, useCallback, memo } from "react";
 import { createPortal } from "react-dom";
 import { Button } from "@/components/ui/button";
-import { FileText, X, Upload, Check, Database } from "lucide-react";
+import { FileText, X, Upload, Check, Database, CloudUpload } from "lucide-react";
 import { getCsvFileData, getValueInfo } from "@/lib/chatApi";
 import { stringifyCsv } from "@/lib/csvUtils";
 import { migrateLegacyCsvFile, saveCsvDataText, saveCsvDataBlob, getUniqueValuesFromFile, initDB, saveCsvFileMetadata, getAllCsvFileMetadata, saveAllCsvFileMetadata } from "@/lib/csvStorage";
 import MultiSelectGroupBy from "./MultiSelectGroupBy";
-import { safeInitializeDuckDB, processCSVWithDuckDB, processParquetWithDuckDB, processExcelWithDuckDB, processJSONWithDuckDB, isDuckDBInitialized } from '@/lib/duckdb';
+import { UploadMatchDialog } from "./UploadMatchDialog";
+import { isDatabaseConnected } from "@/lib/database";
+import { isMatchActionTable } from "@/lib/seasonStats";
+import { safeInitializeDuckDB, processCSVWithDuckDB, processParquetWithDuckDB, processExcelWithDuckDB, processJSONWithDuckDB, processDVWWithDuckDB, isDuckDBInitialized } from '@/lib/duckdb';
 import { generatePrefixedId } from '@/lib/idGenerator';
 
 
@@ -120,24 +123,59 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
     onConfirm: (convert: boolean) => void;
   } | null>(null);
 
+  const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
+
+  // Tables already described (or being described) this session; cleared when the database is reloaded
+  const describedTablesRef = useRef<Set<string>>(new Set());
+
+  // Fetch column types, row counts and low-cardinality values for tables without a ValueInfo yet
+  const describeDatabaseTables = async (tableNames: string[], refresh: boolean) => {
+    const pending = tableNames.filter(tableName =>
+      !describedTablesRef.current.has(tableName) && (refresh || !getValueInfo(`db_table_${tableName}`, 'csv'))
+    );
+    if (pending.length === 0) return;
+    pending.forEach(tableName => describedTablesRef.current.add(tableName));
+
+    const { describeDatabaseTable, buildTableValueInfo, isDatabaseConnected } = await import("@/lib/database");
+    if (!isDatabaseConnected()) {
+      pending.forEach(tableName => describedTablesRef.current.delete(tableName));
+      return;
+    }
+    const { saveValueInfo } = await import("@/lib/chatApi");
+    let described = 0;
+    for (const tableName of pending) {
+      try {
+        saveValueInfo(buildTableValueInfo(await describeDatabaseTable(tableName)));
+        described++;
+      } catch (e) {
+        console.error(`Error describing database table ${tableName}:`, e);
+      }
+    }
+    if (described > 0) loadDatabaseTables();
+  };
+
   // Load connected database tables
-  const loadDatabaseTables = async () => {
+  const loadDatabaseTables = async (refreshDescriptions: boolean = false) => {
     try {
       const savedConnectedTables = localStorage.getItem("db_connected_tables");
       if (savedConnectedTables) {
         const tables = JSON.parse(savedConnectedTables);
         if (Array.isArray(tables) && tables.length > 0) {
-          // Create CSVFile objects for database tables
-          const tableFiles: CSVFile[] = tables.map((tableName: string) => ({
-            id: `db_table_${tableName}`,
-            name: tableName,
-            headers: [], // Will be loaded when needed
-            uploadedAt: Date.now(),
-            isDatabaseTable: true,
-            rowCount: 0, // Will be loaded when needed
-            data: [],
-          }));
+          // Create CSVFile objects for database tables; headers and row counts come from describeTable
+          const tableFiles: CSVFile[] = tables.map((tableName: string) => {
+            const valueInfo = getValueInfo(`db_table_${tableName}`, 'csv');
+            return {
+              id: `db_table_${tableName}`,
+              name: tableName,
+              headers: valueInfo?.columns?.map(c => c.name) || [],
+              uploadedAt: Date.now(),
+              isDatabaseTable: true,
+              rowCount: valueInfo?.totalRowCount || 0,
+              data: [],
+            };
+          });
           setDatabaseTables(tableFiles);
+          describeDatabaseTables(tables, refreshDescriptions);
           return;
         }
       }
@@ -286,7 +324,9 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
     };
 
     const handleDatabaseUpdate = () => {
-      loadDatabaseTables();
+      // Reloaded or purged: describe every table again
+      describedTablesRef.current.clear();
+      loadDatabaseTables(true);
     };
   
     window.addEventListener("storage", handleStorageChange);
@@ -366,7 +406,8 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
         const fileType = fileExtension === 'csv' ? 'CSV' :
                         fileExtension === 'parquet' ? 'Parquet' :
                         fileExtension === 'xlsx' || fileExtension === 'xls' ? 'Excel' :
-                        fileExtension === 'json' ? 'JSON' : 'CSV';
+                        fileExtension === 'json' ? 'JSON' :
+                        fileExtension === 'dvw' ? 'DataVolley' : 'CSV';
 
         console.log(`Using DuckDB for ${fileType} processing (${fileSizeMB.toFixed(1)}MB file)`);
 
@@ -436,6 +477,15 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
                 percent: progress.percent,
               });
             }, csvFileId, convertToParquet);
+          } else if (fileExtension === 'dvw') {
+            result = await processDVWWithDuckDB(file, (progress) => {
+              setUploadStatus({
+                status: 'parsing',
+                message: progress.message || `Processing ${progress.percent.toFixed(1)}%`,
+                fileName: progress.file,
+                percent: progress.percent,
+              });
+            }, csvFileId, convertToParquet);
           } else {
             // Default to CSV processing
             result = await processCSVWithDuckDB(file, (progress) => {
@@ -464,7 +514,9 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
           // Save the file to IndexedDB
           setUploadStatus({ status: 'saving', message: `Saving ${result.rowCount.toLocaleString()} rows...`, fileName: file.name });
           if (result.fileBlob) {
-            await saveCsvDataBlob(csvFile.id, file, result.data || [], csvFile.headers, result.rowCount, (progress) => {
+            // Converted formats (.dvw) hand back the CSV they loaded; store that, not the upload
+            const blobToSave = result.fileBlob instanceof File ? result.fileBlob : file;
+            await saveCsvDataBlob(csvFile.id, blobToSave, result.data || [], csvFile.headers, result.rowCount, (progress) => {
               setUploadStatus({ 
                 status: 'saving', 
                 message: progress.message || `Saving ${result.rowCount.toLocaleString()} rows... (${progress.percent}%)`, 
@@ -2535,10 +2587,24 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
   const isAnyLoading = isFinalizing || isInitializingDuckDB || loadingColumn !== null || 
     uploadStatus.status === 'reading' || uploadStatus.status === 'parsing' || 
     uploadStatus.status === 'saving' || uploadStatus.status === 'verifying';
+
+  // A single selected local file with match action columns can be uploaded to the team database
+  const selectedLocalFile = selectedCsvIds.length === 1 ? csvFiles.find(f => f.id === selectedCsvIds[0]) : undefined;
+  const uploadableMatchFile = selectedLocalFile && !selectedLocalFile.isDatabaseTable && isMatchActionTable(selectedLocalFile.headers) && isDatabaseConnected()
+    ? selectedLocalFile
+    : null;
   
   // Otherwise, render the file upload/selection UI with group by on the right
   return (
     <div className="relative w-full">
+      {uploadableMatchFile && (
+        <UploadMatchDialog
+          isOpen={isUploadDialogOpen}
+          onClose={() => setIsUploadDialogOpen(false)}
+          csvId={uploadableMatchFile.id}
+          fileName={uploadableMatchFile.name}
+        />
+      )}
       {(isAnyLoading || finalizeProgress) && (
         <div className="fixed bottom-4 right-4 z-50 animate-in slide-in-from-bottom-2 duration-300">
           <div className="bg-card/95 backdrop-blur-sm border border-border shadow-lg rounded-xl p-4 min-w-[280px] max-w-sm">
@@ -2593,7 +2659,7 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.parquet,.xlsx,.xls,.json"
+          accept=".csv,.parquet,.xlsx,.xls,.json,.dvw"
           multiple
           onChange={handleFileUpload}
           className="hidden"
@@ -2605,7 +2671,7 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
           onClick={() => fileInputRef.current?.click()}
             disabled={(uploadStatus.status !== 'idle' && uploadStatus.status !== 'success' && uploadStatus.status !== 'error') || isAnyLoading || disabled}
           className="flex-shrink-0"
-          title="Upload data file (CSV, Parquet, Excel, JSON)"
+          title="Upload data file (CSV, Parquet, Excel, JSON, DataVolley)"
         >
             {uploadStatus.status === 'reading' || uploadStatus.status === 'parsing' || uploadStatus.status === 'saving' || uploadStatus.status === 'verifying' ? (
               <div className="h-4 w-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
@@ -2615,6 +2681,17 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
           <Upload className="h-4 w-4" />
             )}
         </Button>
+          {uploadableMatchFile && (
+            <Button
+              {...({variant: "outline", size: "sm"} as any)}
+              onClick={() => setIsUploadDialogOpen(true)}
+              disabled={isAnyLoading || disabled}
+              className="flex-shrink-0"
+              title="Upload to team database"
+            >
+              <CloudUpload className="h-4 w-4" />
+            </Button>
+          )}
           {uploadStatus.status !== 'idle' && uploadStatus.message && (
             <div className="flex items-center gap-2">
               <div className={`text-xs whitespace-nowrap ${
@@ -2758,7 +2835,9 @@ const CSVSelector = ({ selectedCsvIds, selectedFilterColumns, selectedFilterValu
                             </div>
                             <span className="text-muted-foreground ml-2 flex-shrink-0" style={{ fontSize: '11px' }}>
                               {file.isDatabaseTable ? (
-                                '(Database Table)'
+                                file.rowCount
+                                  ? `(~${file.rowCount.toLocaleString()} rows, ${file.headers.length} cols • Database Table)`
+                                  : '(Database Table)'
                               ) : (
                                 `(${(file.rowCount ?? file.data?.length ?? 0).toLocaleString()} rows, ${file.headers.length} cols • ${file.isParquet ? 'Parquet' : (file.name.split('.').pop()?.toUpperCase() || 'Data')})`
                               )}
@@ -3,6 +3,28 @@ import { generatePrefixedId } from '@/lib/idGenerator';
 import type { EChartsOption } from 'echarts';
 import * as echarts from 'echarts';
 import { useAppStore } from '@/store/useAppStore';
+import { RotationReport } from './RotationReport';
+import { ReceptionDashboard } from './ReceptionDashboard';
+import {
+  buildCourtChartOption,
+  courtChartFilterOptions,
+  expandCourtRows,
+  isCourtChartOption,
+  type CourtChartMode,
+  type CourtChartSpec,
+} from '@/lib/courtChart';
+import {
+  SETTER_CONDITIONS,
+  buildSetterHeatmapOption,
+  type SetterCondition,
+  type SetterDistributionReport,
+} from '@/lib/setterDistribution';
+import { buildMomentumChartOption, type MomentumReport } from '@/lib/momentum';
+import { buildWinProbabilityChartOption, type WinProbabilityTimeline } from '@/lib/winProbability';
+import { buildRatingHistoryOption, type RatingReport } from '@/lib/teamRatings';
+import { ATTACK_SITUATIONS, buildAttackSituationChartOption, type AttackSituationReport } from '@/lib/attackSituations';
+import { TREND_METRICS, buildSeasonTrendOption, type SeasonReport } from '@/lib/seasonStats';
+import { buildVideoPlaylist, formatVideoTime, playMatchVideo, videoTimeOf } from '@/lib/matchVideo';
 
 interface ChartRendererProps {
   content: string;
@@ -43,6 +65,14 @@ function DirectECharts({
     };
     window.addEventListener('resize', handleResize);
 
+    // Points carrying video_time (e.g. court chart end markers) seek the match video
+    chartInstanceRef.current.on('click', (params: any) => {
+      const item = params?.data;
+      if (item && typeof item === 'object' && !Array.isArray(item) && videoTimeOf(item) !== null) {
+        playMatchVideo(item, item.name);
+      }
+    });
+
     return () => {
       window.removeEventListener('resize', handleResize);
       if (chartInstanceRef.current) {
@@ -72,7 +102,9 @@ function DirectECharts({
         ? (option.series[0] as any)?.type 
         : null;
       const isPie = firstSeriesType === 'pie';
-      const shouldHaveDataZoom = !isPie; // Enable zoom for scatter plots
+      const isCourt = isCourtChartOption(option); // Court charts keep a fixed scale
+      const isHeatmap = firstSeriesType === 'heatmap';
+      const shouldHaveDataZoom = !isPie && !isCourt && !isHeatmap; // Enable zoom for scatter plots
       
       // Fix markLine.data format if present (must be array of arrays/pairs)
       const fixMarkLineInSeries = (series: any) => {
@@ -429,7 +461,7 @@ function DirectECharts({
   // Only allow chart type switching for compatible types (bar, line, scatter, histogram)
   // Incompatible types: pie, heatmap, radar, graph, tree, sankey, funnel, gauge, etc.
   const compatibleChartTypes = ['bar', 'line', 'scatter', 'histogram'];
-  const canSwitchChartType = compatibleChartTypes.includes(chartType);
+  const canSwitchChartType = compatibleChartTypes.includes(chartType) && !isCourtChartOption(option);
 
   return (
     <div className="space-y-3">
@@ -505,6 +537,452 @@ function DirectECharts({
   );
 }
 
+// Court shot chart / heatmap with player, evaluation and view filters
+function CourtChart({ chart }: { chart: CourtChartSpec & { rows: any } }) {
+  const rows = useMemo(() => expandCourtRows(chart.rows), [chart.rows]);
+  const [player, setPlayer] = useState<string>(chart.player != null ? String(chart.player) : '');
+  const [evaluation, setEvaluation] = useState<string>(typeof chart.evaluation === 'string' ? chart.evaluation : '');
+  const [mode, setMode] = useState<CourtChartMode>(chart.mode || 'trajectory');
+
+  const filterOptions = useMemo(() => courtChartFilterOptions(rows, chart), [rows, chart]);
+  const option = useMemo(
+    () => sanitizeEChartsOption(buildCourtChartOption(rows, {
+      ...chart,
+      mode,
+      player: player || null,
+      evaluation: evaluation || (Array.isArray(chart.evaluation) ? chart.evaluation : null),
+    })),
+    [rows, chart, mode, player, evaluation]
+  );
+
+  const selectClass = 'bg-white/5 border border-white/20 rounded px-2 py-1 text-sm text-white';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 items-center">
+        <select value={mode} onChange={e => setMode(e.target.value as CourtChartMode)} className={selectClass}>
+          <option value="trajectory">Trajectories</option>
+          <option value="zones">Zone heatmap</option>
+          <option value="subzones">Subzone heatmap</option>
+          <option value="cones">Cones</option>
+        </select>
+        <select value={player} onChange={e => setPlayer(e.target.value)} className={selectClass}>
+          <option value="">All players</option>
+          {filterOptions.players.map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+        <select value={evaluation} onChange={e => setEvaluation(e.target.value)} className={selectClass}>
+          <option value="">All evaluations</option>
+          {filterOptions.evaluations.map(code => <option key={code} value={code}>{code}</option>)}
+        </select>
+      </div>
+      <DirectECharts option={option} title={option?.title?.text || 'Court chart'} style={{ height: '640px' }} />
+    </div>
+  );
+}
+
+// Setter distribution heatmap with team and condition switches
+function SetterDistributionChart({ report }: { report: SetterDistributionReport }) {
+  const [team, setTeam] = useState<string>(report.teams[0]?.team || '');
+  const [condition, setCondition] = useState<SetterCondition>('reception');
+
+  const distribution = report.teams.find(t => t.team === team) || report.teams[0];
+  const option = useMemo(
+    () => (distribution ? sanitizeEChartsOption(buildSetterHeatmapOption(distribution, condition, report.target)) : null),
+    [distribution, condition, report.target]
+  );
+
+  if (!distribution || !option) {
+    return <div className="text-sm text-muted-foreground">No attacks found for setter distribution.</div>;
+  }
+
+  const selectClass = 'bg-white/5 border border-white/20 rounded px-2 py-1 text-sm text-white';
+  const rowCount = (distribution.matrices.find(m => m.condition === condition)?.rows.length || 0) + 1;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 items-center">
+        {report.teams.length > 1 && (
+          <select value={distribution.team} onChange={e => setTeam(e.target.value)} className={selectClass}>
+            {report.teams.map(t => <option key={t.team} value={t.team}>{t.team}</option>)}
+          </select>
+        )}
+        <select value={condition} onChange={e => setCondition(e.target.value as SetterCondition)} className={selectClass}>
+          {SETTER_CONDITIONS.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+        </select>
+        <span className="text-xs text-muted-foreground">
+          Entropy {distribution.overall.entropy.toFixed(2)} bits · predictability {(distribution.overall.predictability * 100).toFixed(0)}%
+        </span>
+      </div>
+      <DirectECharts
+        option={option}
+        title={option?.title?.text || 'Setter distribution'}
+        style={{ height: `${Math.max(360, 200 + rowCount * 40)}px` }}
+      />
+    </div>
+  );
+}
+
+// Momentum timeline with a set switch and the run/timeout table underneath
+function MomentumChart({ report }: { report: MomentumReport }) {
+  const [setNumber, setSetNumber] = useState<number | null>(null);
+  const option = useMemo(() => sanitizeEChartsOption(buildMomentumChartOption(report, setNumber)), [report, setNumber]);
+  const events = report.events.filter(e => setNumber === null || e.set === setNumber);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1 bg-white/5 rounded p-1 w-fit">
+        {[null, ...report.sets.map(s => s.setNumber)].map(value => (
+          <button
+            key={value ?? 'all'}
+            onClick={() => setSetNumber(value)}
+            className={`px-3 py-1 rounded text-sm transition ${value === setNumber ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'}`}
+          >
+            {value === null ? 'Match' : `Set ${value} (${report.sets.find(s => s.setNumber === value)?.finalScore})`}
+          </button>
+        ))}
+      </div>
+      <DirectECharts option={option} title={option?.title?.text || 'Momentum'} style={{ height: '420px' }} />
+      {events.length > 0 && (
+        <table className="min-w-full border-collapse text-xs">
+          <thead>
+            <tr className="text-white/70 border-b border-white/20">
+              <th className="px-2 py-1 text-left">Set</th>
+              <th className="px-2 py-1 text-left">Type</th>
+              <th className="px-2 py-1 text-left">Team</th>
+              <th className="px-2 py-1 text-left">Detail</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event, idx) => (
+              <tr key={idx} className="border-b border-white/10">
+                <td className="px-2 py-1">{event.set}</td>
+                <td className="px-2 py-1 capitalize">{event.type}</td>
+                <td className="px-2 py-1">{event.team}</td>
+                <td className="px-2 py-1">{event.detail}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// Win-probability timeline with the largest single-action swings and player totals
+function WinProbabilityChart({ timeline }: { timeline: WinProbabilityTimeline }) {
+  const option = useMemo(() => sanitizeEChartsOption(buildWinProbabilityChartOption(timeline)), [timeline]);
+  const swings = (timeline.actions || []).slice(0, 10);
+  const players = timeline.players || [];
+  const signed = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className="space-y-3">
+      <DirectECharts option={option} title={option?.title?.text || 'Win probability'} style={{ height: '420px' }} />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+        <div>
+          <div className="font-semibold text-white mb-1">Biggest swings</div>
+          <table className="min-w-full border-collapse">
+            <tbody>
+              {swings.map((action, idx) => (
+                <tr key={idx} className="border-b border-white/10">
+                  <td className="px-2 py-1">S{action.set_number}</td>
+                  <td className="px-2 py-1">{action.player_name || action.team}</td>
+                  <td className="px-2 py-1">{action.skill_type} {action.evaluation_code}</td>
+                  <td className={`px-2 py-1 text-right ${action.wpAdded >= 0 ? 'text-green-400' : 'text-red-400'}`}>{signed(action.wpAdded)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div>
+          <div className="font-semibold text-white mb-1">WP added by player</div>
+          <table className="min-w-full border-collapse">
+            <tbody>
+              {[...players.slice(0, 5), ...players.slice(Math.max(5, players.length - 5))].map(p => (
+                <tr key={`${p.team}-${p.player}`} className="border-b border-white/10">
+                  <td className="px-2 py-1">{p.player}</td>
+                  <td className="px-2 py-1 text-white/60">{p.team}</td>
+                  <td className="px-2 py-1 text-right text-white/60">{p.actions}</td>
+                  <td className={`px-2 py-1 text-right ${p.wpAdded >= 0 ? 'text-green-400' : 'text-red-400'}`}>{signed(p.wpAdded)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Rating standings with a history chart; clicking a row toggles that team's line
+function TeamRatingsChart({ report }: { report: RatingReport }) {
+  const [selected, setSelected] = useState<string[]>(() => report.standings.slice(0, 5).map(s => s.team));
+  const option = useMemo(() => sanitizeEChartsOption(buildRatingHistoryOption(report, selected)), [report, selected]);
+  const toggle = (team: string) =>
+    setSelected(prev => (prev.includes(team) ? prev.filter(t => t !== team) : [...prev, team]));
+
+  return (
+    <div className="space-y-3">
+      {selected.length > 0 && (
+        <DirectECharts option={option} title={option?.title?.text || 'Rating history'} style={{ height: '420px' }} />
+      )}
+      <table className="min-w-full border-collapse text-xs">
+        <thead>
+          <tr className="text-white/70 border-b border-white/20">
+            <th className="px-2 py-1 text-left">#</th>
+            <th className="px-2 py-1 text-left">Team</th>
+            <th className="px-2 py-1 text-right">Rating</th>
+            <th className="px-2 py-1 text-right">Last</th>
+            <th className="px-2 py-1 text-right">W-L</th>
+            <th className="px-2 py-1 text-right">Sets</th>
+            <th className="px-2 py-1 text-right">Points</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.standings.map(s => (
+            <tr
+              key={s.team}
+              onClick={() => toggle(s.team)}
+              className={`border-b border-white/10 cursor-pointer hover:bg-white/5 ${selected.includes(s.team) ? 'text-white' : 'text-white/60'}`}
+            >
+              <td className="px-2 py-1">{s.rank}</td>
+              <td className="px-2 py-1">{s.team}</td>
+              <td className="px-2 py-1 text-right font-semibold">{s.rating.toFixed(0)}</td>
+              <td className={`px-2 py-1 text-right ${s.change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {s.change > 0 ? '+' : ''}{s.change.toFixed(1)}
+              </td>
+              <td className="px-2 py-1 text-right">{s.wins}-{s.losses}</td>
+              <td className="px-2 py-1 text-right">{s.setsWon}-{s.setsLost}</td>
+              <td className="px-2 py-1 text-right">{s.pointsFor}-{s.pointsAgainst}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Situational attack efficiency per team, switchable between hitters and attack codes
+function AttackSituationsChart({ report }: { report: AttackSituationReport }) {
+  const [teamName, setTeamName] = useState<string>(report.teams[0]?.team || '');
+  const [view, setView] = useState<'hitters' | 'attackCodes'>('hitters');
+  const team = report.teams.find(t => t.team === teamName) || report.teams[0];
+  const option = useMemo(() => (team ? sanitizeEChartsOption(buildAttackSituationChartOption(team, view)) : null), [team, view]);
+
+  if (!team || !option) return <div className="text-sm text-white/60">No attacks found</div>;
+
+  const entries = view === 'hitters' ? team.hitters : team.attackCodes;
+  const pct = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <div className="flex flex-wrap gap-1 bg-white/5 rounded p-1 w-fit">
+          {report.teams.map(t => (
+            <button
+              key={t.team}
+              onClick={() => setTeamName(t.team)}
+              className={`px-3 py-1 rounded text-sm transition ${t.team === team.team ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'}`}
+            >
+              {t.team}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1 bg-white/5 rounded p-1 w-fit">
+          {([['hitters', 'Hitters'], ['attackCodes', 'Attack codes']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`px-3 py-1 rounded text-sm transition ${id === view ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <DirectECharts option={option} title={option?.title?.text || 'Attack efficiency by situation'} style={{ height: '420px' }} />
+      <table className="min-w-full border-collapse text-xs">
+        <thead>
+          <tr className="text-white/70 border-b border-white/20">
+            <th className="px-2 py-1 text-left">{view === 'hitters' ? 'Hitter' : 'Code'}</th>
+            {ATTACK_SITUATIONS.map(s => <th key={s.id} className="px-2 py-1 text-right">{s.label}</th>)}
+            <th className="px-2 py-1 text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[{ key: 'team', label: 'Team', total: team.total, situations: team.situations }, ...entries.map(e => ({
+            key: 'player' in e ? e.player : e.code,
+            label: 'player' in e ? e.player : `${e.code}${e.description ? ` ${e.description}` : ''}`,
+            total: e.total,
+            situations: e.situations,
+          }))].map(entry => (
+            <tr key={entry.key} className={`border-b border-white/10 ${entry.key === 'team' ? 'font-semibold' : ''}`}>
+              <td className="px-2 py-1">{entry.label}</td>
+              {[...ATTACK_SITUATIONS.map(s => entry.situations[s.id]), entry.total].map((stats, idx) => (
+                <td key={idx} className="px-2 py-1 text-right" title={`Kill ${pct(stats.killPct)} · Error ${pct(stats.errorPct)}`}>
+                  {stats.attempts > 0 ? (
+                    <>
+                      <span className={stats.efficiency >= 0 ? 'text-green-400' : 'text-red-400'}>{stats.efficiency.toFixed(3)}</span>
+                      <span className="text-white/50"> {pct(stats.killPct)}/{pct(stats.errorPct)} ({stats.attempts})</span>
+                    </>
+                  ) : (
+                    <span className="text-white/30">–</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="text-xs text-white/50">Efficiency, then kill % / error % (errors + blocked) and attempts</div>
+    </div>
+  );
+}
+
+// Season leaderboards, per-match trend lines for leaders and team totals
+function SeasonStatsView({ report }: { report: SeasonReport }) {
+  const [metric, setMetric] = useState<typeof TREND_METRICS[number]['id']>('points');
+  const leaders = useMemo(() => {
+    const board = report.leaderboards.find(b => b.id === metric) || report.leaderboards[0];
+    return (board?.entries || []).slice(0, 5).map(e => `${e.team}::${e.player}`);
+  }, [report, metric]);
+  const [picked, setPicked] = useState<string[] | null>(null);
+  const playerKeys = picked ?? leaders;
+  const option = useMemo(() => sanitizeEChartsOption(buildSeasonTrendOption(report, metric, playerKeys)), [report, metric, playerKeys]);
+  const togglePlayer = (key: string) =>
+    setPicked(prev => {
+      const current = prev ?? leaders;
+      return current.includes(key) ? current.filter(k => k !== key) : [...current, key];
+    });
+  const format = (id: string, value: number) =>
+    id === 'attackEfficiency' ? value.toFixed(3) : id.endsWith('Pct') ? `${(value * 100).toFixed(1)}%` : String(value);
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="text-white/60">
+        {report.matches.length} matches · {report.players.length} players · {report.source} · rate leaderboards need {report.minAttempts}+ attempts
+      </div>
+
+      {/* Leaderboards (click a player to add or remove their trend line) */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {report.leaderboards.map(board => (
+          <div key={board.id} className="bg-white/5 rounded p-2">
+            <div className="font-semibold text-white mb-1">{board.label}</div>
+            <table className="min-w-full border-collapse">
+              <tbody>
+                {board.entries.map(entry => {
+                  const key = `${entry.team}::${entry.player}`;
+                  return (
+                    <tr
+                      key={key}
+                      onClick={() => togglePlayer(key)}
+                      className={`border-b border-white/10 cursor-pointer hover:bg-white/5 ${playerKeys.includes(key) ? 'text-white' : 'text-white/70'}`}
+                    >
+                      <td className="px-1 py-0.5">{entry.rank}</td>
+                      <td className="px-1 py-0.5">{entry.player}<span className="text-white/40"> {entry.team}</span></td>
+                      <td className="px-1 py-0.5 text-right font-semibold">{format(board.id, entry.value)}</td>
+                      <td className="px-1 py-0.5 text-right text-white/40">{entry.attempts ?? `${entry.matches}m`}</td>
+                    </tr>
+                  );
+                })}
+                {board.entries.length === 0 && (
+                  <tr><td className="px-1 py-0.5 text-white/40">No qualified players</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+
+      {/* Per-match trends */}
+      <div className="flex flex-wrap gap-1 bg-white/5 rounded p-1 w-fit">
+        {TREND_METRICS.map(m => (
+          <button
+            key={m.id}
+            onClick={() => { setMetric(m.id); setPicked(null); }}
+            className={`px-3 py-1 rounded text-sm transition ${m.id === metric ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {playerKeys.length > 0 && (
+        <DirectECharts option={option} title={option?.title?.text || 'Season trend'} style={{ height: '400px' }} />
+      )}
+
+      {/* Team totals */}
+      <div>
+        <div className="font-semibold text-white mb-1">Team totals</div>
+        <table className="min-w-full border-collapse">
+          <thead>
+            <tr className="text-white/70 border-b border-white/20">
+              <th className="px-2 py-1 text-left">Team</th>
+              <th className="px-2 py-1 text-right">Matches</th>
+              <th className="px-2 py-1 text-right">Kills</th>
+              <th className="px-2 py-1 text-right">Att eff</th>
+              <th className="px-2 py-1 text-right">Aces</th>
+              <th className="px-2 py-1 text-right">Serve err</th>
+              <th className="px-2 py-1 text-right">Blocks</th>
+              <th className="px-2 py-1 text-right">Pos pass</th>
+              <th className="px-2 py-1 text-right">Digs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.teams.map(team => (
+              <tr key={team.team} className="border-b border-white/10">
+                <td className="px-2 py-1">{team.team}</td>
+                <td className="px-2 py-1 text-right">{team.matches}</td>
+                <td className="px-2 py-1 text-right">{team.kills}</td>
+                <td className="px-2 py-1 text-right">{team.attackEfficiency.toFixed(3)}</td>
+                <td className="px-2 py-1 text-right">{team.aces}</td>
+                <td className="px-2 py-1 text-right">{team.serveErrors}</td>
+                <td className="px-2 py-1 text-right">{team.blocks}</td>
+                <td className="px-2 py-1 text-right">{(team.positivePassPct * 100).toFixed(1)}%</td>
+                <td className="px-2 py-1 text-right">{team.digs}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// Clickable action list for a video playlist returned by videoPlaylist()
+function VideoPlaylist({ playlist }: { playlist: { title?: string; rows: any[] } }) {
+  const clips = useMemo(() => buildVideoPlaylist(playlist.rows), [playlist.rows]);
+  const title = playlist.title || `${clips.length} actions`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-white">{title}</div>
+        <button
+          onClick={() => playMatchVideo(playlist.rows, title)}
+          disabled={clips.length === 0}
+          className="px-3 py-1 rounded text-sm bg-primary/20 hover:bg-primary/30 border border-primary/50 text-primary disabled:opacity-50"
+        >
+          ▶ Play all ({clips.length})
+        </button>
+      </div>
+      <div className="max-h-64 overflow-y-auto text-xs">
+        {clips.map((clip, idx) => (
+          <button
+            key={idx}
+            onClick={() => playMatchVideo(clip.row)}
+            className="w-full text-left px-2 py-1 flex gap-3 hover:bg-white/5 rounded"
+            title="Play this action in the match video"
+          >
+            <span className="font-mono text-muted-foreground">{formatVideoTime(clip.start)}</span>
+            <span className="text-white/80 truncate">{clip.label}</span>
+          </button>
+        ))}
+        {clips.length === 0 && <div className="text-muted-foreground">No rows with video_time.</div>}
+      </div>
+    </div>
+  );
+}
+
 // Sanitize ECharts option to ensure no React elements and remove problematic formatters
 function sanitizeEChartsOption(option: any): any {
   if (!option || typeof option !== 'object') return option;
@@ -867,6 +1345,139 @@ function processChartData(data: any, chartComponents: JSX.Element[], keyPrefix:
     // Don't return - continue to check for more charts in nested properties
   }
 
+  // Rotation analysis reports render as a rotation table plus court diagram
+  if (data.rotation_report && typeof data.rotation_report === 'object' && Array.isArray(data.rotation_report.rotations)) {
+    const reportId = `rotation-${JSON.stringify(data.rotation_report.rotations).substring(0, 100)}`;
+    if (!processedCharts || !processedCharts.has(reportId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('rotation')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <RotationReport report={data.rotation_report} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(reportId);
+    }
+  }
+
+  // Court charts carry their rows so the player/evaluation filters can rebuild the option
+  const courtChart = data.court_chart || data.courtChart;
+  if (courtChart && typeof courtChart === 'object' && courtChart.rows) {
+    const courtId = `court-${JSON.stringify(courtChart).substring(0, 200)}`;
+    if (!processedCharts || !processedCharts.has(courtId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('court')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <CourtChart chart={courtChart} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(courtId);
+    }
+  }
+
+  // Setter distribution reports render as a heatmap the user can pivot by condition
+  if (data.setter_distribution && typeof data.setter_distribution === 'object' && Array.isArray(data.setter_distribution.teams)) {
+    const setterId = `setter-${JSON.stringify(data.setter_distribution).substring(0, 200)}`;
+    if (!processedCharts || !processedCharts.has(setterId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('setter')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <SetterDistributionChart report={data.setter_distribution} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(setterId);
+    }
+  }
+
+  // Momentum reports render as a differential timeline plus run/timeout table
+  if (data.momentum && typeof data.momentum === 'object' && Array.isArray(data.momentum.points)) {
+    const momentumId = `momentum-${JSON.stringify(data.momentum.events || []).substring(0, 200)}`;
+    if (!processedCharts || !processedCharts.has(momentumId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('momentum')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <MomentumChart report={data.momentum} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(momentumId);
+    }
+  }
+
+  // Win-probability timelines render as a WP chart plus swing tables
+  if (data.win_probability && typeof data.win_probability === 'object' && Array.isArray(data.win_probability.points)) {
+    const wpId = `wp-${data.win_probability.matchId}-${data.win_probability.points.length}-${data.win_probability.model?.rallies}`;
+    if (!processedCharts || !processedCharts.has(wpId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('wp')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <WinProbabilityChart timeline={data.win_probability} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(wpId);
+    }
+  }
+
+  // Reception reports render as the passing dashboard (scale switch, passers, serve zones, rotations)
+  if (data.reception_report && typeof data.reception_report === 'object' && Array.isArray(data.reception_report.teams)) {
+    const receptionId = `reception-${data.reception_report.totalReceptions}-${data.reception_report.teams.map((t: any) => `${t.team}:${t.attempts}`).join(',')}`;
+    if (!processedCharts || !processedCharts.has(receptionId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('reception')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <ReceptionDashboard report={data.reception_report} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(receptionId);
+    }
+  }
+
+  // Situational attack reports render as efficiency bars plus a hitter/attack code table
+  if (data.attack_situations && typeof data.attack_situations === 'object' && Array.isArray(data.attack_situations.teams)) {
+    const situationsId = `attack-situations-${data.attack_situations.totalAttacks}-${data.attack_situations.teams.map((t: any) => t.team).join(',')}`;
+    if (!processedCharts || !processedCharts.has(situationsId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('attack-situations')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <AttackSituationsChart report={data.attack_situations} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(situationsId);
+    }
+  }
+
+  // Season reports render as leaderboards, trend lines and team totals
+  if (data.season_stats && typeof data.season_stats === 'object' && Array.isArray(data.season_stats.leaderboards)) {
+    const seasonId = `season-${data.season_stats.source}-${data.season_stats.minAttempts}-${data.season_stats.players?.length}-${data.season_stats.matches?.length}`;
+    if (!processedCharts || !processedCharts.has(seasonId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('season')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <SeasonStatsView report={data.season_stats} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(seasonId);
+    }
+  }
+
+  // Team ratings render as a standings table with rating history lines
+  if (data.team_ratings && typeof data.team_ratings === 'object' && Array.isArray(data.team_ratings.standings)) {
+    const ratingsId = `ratings-${data.team_ratings.variant}-${data.team_ratings.k}-${data.team_ratings.matches}-${data.team_ratings.standings.length}`;
+    if (!processedCharts || !processedCharts.has(ratingsId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('ratings')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <TeamRatingsChart report={data.team_ratings} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(ratingsId);
+    }
+  }
+
+  // Video playlists list their actions and play them in the match video player
+  const videoPlaylist = data.video_playlist || data.videoPlaylist;
+  if (videoPlaylist && typeof videoPlaylist === 'object' && Array.isArray(videoPlaylist.rows)) {
+    const playlistId = `playlist-${JSON.stringify(videoPlaylist).substring(0, 200)}`;
+    if (!processedCharts || !processedCharts.has(playlistId)) {
+      chartComponents.push(
+        <div key={generatePrefixedId('playlist')} className="my-4 p-4 bg-white/5 rounded-lg w-full border border-white/10">
+          <VideoPlaylist playlist={videoPlaylist} />
+        </div>
+      );
+      if (processedCharts) processedCharts.add(playlistId);
+    }
+    return; // Playlist rows are action rows, not chart data
+  }
+
   // Try to convert the data itself to a chart
   const converted = convertToECharts(data);
   if (converted) {
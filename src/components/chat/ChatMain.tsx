@@ -1,12 +1,12 @@
 import { useState, useRef, useEffect } from "react";
-import { Menu, Send, Image as ImageIcon, Brain, X, Target, Eye, Square, Code2 } from "lucide-react";
+import { Menu, Send, Image as ImageIcon, Brain, X, Target, Eye, Square, Code2, Film, CalendarRange } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Chat, Message, MatchData } from "@/types/chat";
 import { sendChatMessage, DEFAULT_MODEL, getValueInfo } from "@/lib/chatApi";
-import { loadMatchData, isDatabaseConnected } from "@/lib/database";
+import { loadMatchData, isDatabaseConnected, dropMaterializedQueries } from "@/lib/database";
 import MatchSelector from "./MatchSelector";
 import CSVSelector from "./CSVSelector";
 import ModelSelector from "./ModelSelector";
@@ -15,6 +15,13 @@ import { cn } from "@/lib/utils";
 import { VirtualizedMessages } from "./VirtualizedMessages";
 import { CodeExecutionDialog } from "./CodeExecutionDialog";
 import { CodePlayground } from "./CodePlayground";
+import { PlayerReportCards } from "./PlayerReportCards";
+import { ScoutingReportDialog } from "./ScoutingReportDialog";
+import { TeamRatingsDialog } from "./TeamRatingsDialog";
+import { MatchVideoPlayer } from "./MatchVideoPlayer";
+import { WinProbabilityDialog } from "./WinProbabilityDialog";
+import { ReceptionDialog } from "./ReceptionDialog";
+import { SeasonDialog } from "./SeasonDialog";
 import { CodeBlock } from "@/lib/codeExecutorV2";
 
 interface ChatMainProps {
@@ -112,6 +119,13 @@ const ChatMain = ({
   const [previewData, setPreviewData] = useState<{ data: any[]; fileName: string; headers: string[]; csvId?: string; totalRowCount?: number } | null>(null);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const [isPlaygroundOpen, setIsPlaygroundOpen] = useState(false);
+  const [isReportCardsOpen, setIsReportCardsOpen] = useState(false);
+  const [isScoutingOpen, setIsScoutingOpen] = useState(false);
+  const [isRatingsOpen, setIsRatingsOpen] = useState(false);
+  const [isVideoOpen, setIsVideoOpen] = useState(false);
+  const [isWinProbabilityOpen, setIsWinProbabilityOpen] = useState(false);
+  const [isReceptionOpen, setIsReceptionOpen] = useState(false);
+  const [isSeasonOpen, setIsSeasonOpen] = useState(false);
   const [csvFilterColumns, setCsvFilterColumns] = useState<string[]>([]);
   const [csvFilterValues, setCsvFilterValues] = useState<Record<string, string | string[] | null>>({});
   const [csvDisplayColumns, setCsvDisplayColumns] = useState<string[]>([]);
@@ -576,6 +590,13 @@ const ChatMain = ({
     }
   }, [chat?.messages]);
 
+  // remoteTable() results belong to the chat that loaded them: drop them when the chat changes or closes
+  useEffect(() => {
+    return () => {
+      dropMaterializedQueries().catch(error => console.error("Error dropping remote tables:", error));
+    };
+  }, [chat?.id]);
+
   // Load match data when match is selected
   useEffect(() => {
     if (chat?.selectedMatch) {
@@ -1142,6 +1163,27 @@ const ChatMain = ({
                     <span className="ml-1">ID:</span>
                     <span className="font-mono text-xs ml-1">{chat.selectedMatch}</span>
                   </span>
+                  <button
+                    onClick={() => setIsReportCardsOpen(true)}
+                    className="ml-2 text-xs text-primary hover:underline"
+                    title="Per-player report cards for this match"
+                  >
+                    Report cards
+                  </button>
+                  <button
+                    onClick={() => setIsWinProbabilityOpen(true)}
+                    className="ml-2 text-xs text-primary hover:underline"
+                    title="Win probability after every rally and the biggest swings"
+                  >
+                    Win probability
+                  </button>
+                  <button
+                    onClick={() => setIsReceptionOpen(true)}
+                    className="ml-2 text-xs text-primary hover:underline"
+                    title="Serve-receive grades by passer, serve zone and rotation"
+                  >
+                    Passing
+                  </button>
                 </>
               )}
               
@@ -1231,6 +1273,8 @@ const ChatMain = ({
                       selectedFilterValues={matchFilterValues}
                       chatId={chat.id}
                       disabled={csvFilterColumns.length > 0 && Object.keys(csvFilterValues).some(col => csvFilterValues[col] != null)}
+                      onScoutTeam={() => setIsScoutingOpen(true)}
+                      onShowRatings={() => setIsRatingsOpen(true)}
                       onSelectMatch={(matchId, filterColumns, filterValues, displayColumns, displayValues) => {
                     // If matchId is null, we're using grouped selection - clear match selection
                     if (matchId === null) {
@@ -1447,6 +1491,24 @@ const ChatMain = ({
                 >
                   <Code2 className="h-5 w-5" />
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsVideoOpen(!isVideoOpen)}
+                  className="md:h-[60px] md:w-[60px] h-[50px] w-[50px] flex-shrink-0"
+                  title="Match video"
+                >
+                  <Film className="h-5 w-5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsSeasonOpen(true)}
+                  className="md:h-[60px] md:w-[60px] h-[50px] w-[50px] flex-shrink-0"
+                  title="Season leaderboards"
+                >
+                  <CalendarRange className="h-5 w-5" />
+                </Button>
                 <div className="relative flex-1">
                   <Textarea
                     ref={textareaRef}
@@ -1761,6 +1823,24 @@ const ChatMain = ({
             >
               <Code2 className="h-5 w-5" />
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsVideoOpen(!isVideoOpen)}
+              className="md:h-[60px] md:w-[60px] h-[50px] w-[50px] flex-shrink-0"
+              title="Match video"
+            >
+              <Film className="h-5 w-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsSeasonOpen(true)}
+              className="md:h-[60px] md:w-[60px] h-[50px] w-[50px] flex-shrink-0"
+              title="Season leaderboards"
+            >
+              <CalendarRange className="h-5 w-5" />
+            </Button>
             <div className="relative flex-1">
               <Textarea
                 ref={textareaRef}
@@ -2040,6 +2120,75 @@ const ChatMain = ({
         />
       )}
 
+      {/* Player Report Cards */}
+      <PlayerReportCards
+        isOpen={isReportCardsOpen}
+        onClose={() => setIsReportCardsOpen(false)}
+        matchId={chat?.selectedMatch || null}
+      />
+
+      {/* Win Probability */}
+      <WinProbabilityDialog
+        isOpen={isWinProbabilityOpen}
+        onClose={() => setIsWinProbabilityOpen(false)}
+        matchId={chat?.selectedMatch || null}
+      />
+
+      {/* Serve Receive */}
+      <ReceptionDialog
+        isOpen={isReceptionOpen}
+        onClose={() => setIsReceptionOpen(false)}
+        matchId={chat?.selectedMatch || null}
+      />
+
+      {/* Season */}
+      <SeasonDialog
+        isOpen={isSeasonOpen}
+        onClose={() => setIsSeasonOpen(false)}
+      />
+
+      {/* Team Ratings */}
+      <TeamRatingsDialog
+        isOpen={isRatingsOpen}
+        onClose={() => setIsRatingsOpen(false)}
+      />
+
+      {/* Team Scouting Report */}
+      <ScoutingReportDialog
+        isOpen={isScoutingOpen}
+        onClose={() => setIsScoutingOpen(false)}
+        onUseAsContext={(sectionId) => {
+          setSelectedContextSectionId(sectionId);
+          if (onUpdateFilters && chat) {
+            onUpdateFilters(chat.id, {
+              matchFilterColumns,
+              matchFilterValues,
+              matchDisplayColumns,
+              matchDisplayValues,
+              csvFilterColumns,
+              csvFilterValues,
+              csvDisplayColumns,
+              csvDisplayValues,
+              selectedCsvIds,
+              selectedCsvFileNames,
+              selectedContextSectionId: sectionId,
+            });
+          }
+          setIsScoutingOpen(false);
+          toast({
+            title: "Scouting report added",
+            description: "The report is now the chat's context section.",
+          });
+        }}
+      />
+
+      {/* Local match video, seeks to actions by video_time */}
+      <MatchVideoPlayer
+        chatId={chat?.id || null}
+        isOpen={isVideoOpen}
+        onOpenChange={setIsVideoOpen}
+      />
+
       {/* Code Playground */}
       <CodePlayground
         isOpen={isPlaygroundOpen}
@@ -10,7 +10,8 @@ import { createPortal } from "react-dom";
 import "katex/dist/katex.min.css";
 import { ChartRenderer } from "./ChartRenderer";
 import { ErrorBoundary } from "@/components/ui/ErrorBoundary";
-import { ChevronDown, ChevronRight, Code2, BarChart3 } from "lucide-react";
+import { ChevronDown, ChevronRight, Code2, BarChart3, Film } from "lucide-react";
+import { findVideoRows, playMatchVideo } from "@/lib/matchVideo";
 // Removed framer-motion to prevent glitching during scroll virtualization
 // import { motion, AnimatePresence } from "framer-motion";
 
@@ -397,7 +398,7 @@ function EnhancedAIMessage({ message, modelName, sidebarOpen }: { message: Messa
             // Check if there's a chart in the result (check nested objects too)
             const hasChart = (obj: any): boolean => {
               if (!obj || typeof obj !== 'object') return false;
-              if (obj.echarts_chart || obj.echartsChart || obj.plotly_chart || obj.plotlyChart) return true;
+              if (obj.echarts_chart || obj.echartsChart || obj.plotly_chart || obj.plotlyChart || obj.rotation_report || obj.court_chart || obj.courtChart || obj.setter_distribution || obj.video_playlist || obj.momentum || obj.win_probability || obj.team_ratings || obj.reception_report || obj.attack_situations || obj.season_stats) return true;
               // Check nested objects
               for (const key in obj) {
                 if (obj[key] && typeof obj[key] === 'object') {
@@ -543,6 +544,7 @@ function EnhancedAIMessage({ message, modelName, sidebarOpen }: { message: Messa
                 const json = JSON.parse(part.content);
                 const preview = JSON.stringify(json, null, 2);
                 const isCollapsed = collapsedResults.has(idx);
+                const videoRows = findVideoRows(json);
                 
                 // Find the corresponding code block
                 const resultsBefore = parsedParts.slice(0, idx).filter(p => p.type === 'result').length;
@@ -587,6 +589,19 @@ function EnhancedAIMessage({ message, modelName, sidebarOpen }: { message: Messa
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                         </svg>
                       </div>
+                      {videoRows && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            playMatchVideo(videoRows, `Result ${resultsBefore + 1} (${videoRows.length} actions)`);
+                          }}
+                          className="flex items-center gap-1 px-2 py-0.5 mr-1 bg-primary/20 hover:bg-primary/30 rounded border border-primary/40 transition-all text-xs"
+                          title="Play these actions in the match video"
+                        >
+                          <Film className="w-3 h-3 text-primary" />
+                          <span className="text-primary font-medium">Video</span>
+                        </button>
+                      )}
                       {correspondingCodeIndex !== undefined && (
                         <button
                           onClick={(e) => {
@@ -217,6 +217,18 @@ const ChatSidebar = ({
                   {userInfo}
                 </div>
               )}
+              {onLogout && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start text-xs hover:bg-chat-hover rounded-lg"
+                  onClick={onLogout}
+                  title="Sign out of the team database"
+                >
+                  <LogOut className="h-3.5 w-3.5 mr-2" />
+                  Log out
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -1,7 +1,8 @@
 import { useState, useMemo, useEffect, useCallback, useRef } from "react";
-import { X, ChevronDown, ChevronUp, Search, Download, TrendingUp, Hash, Calendar, Type, ArrowUpDown, Loader2, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, RefreshCw } from "lucide-react";
+import { X, ChevronDown, ChevronUp, Search, Download, TrendingUp, Hash, Calendar, Type, ArrowUpDown, Loader2, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, RefreshCw, Film } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { playMatchVideo, videoTimeOf } from "@/lib/matchVideo";
 
 interface DataPreviewProps {
   isOpen: boolean;
@@ -307,6 +308,9 @@ export function DataPreview({ isOpen, onClose, data: initialData, fileName, head
   const endIndex = Math.min(startIndex + rowsPerPage, processedData.length);
   const displayedData = processedData.slice(startIndex, endIndex);
 
+  // Action rows with video_time can be played in the chat's match video
+  const hasVideoTimes = useMemo(() => visibleHeaders.includes('video_time') && processedData.some(row => videoTimeOf(row) !== null), [visibleHeaders, processedData]);
+
   // Check if we need to load more when changing pages
   const goToPage = useCallback(async (page: number) => {
     const targetPage = Math.max(1, Math.min(page, totalPages || 1));
@@ -452,6 +456,17 @@ export function DataPreview({ isOpen, onClose, data: initialData, fileName, head
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {hasVideoTimes && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => playMatchVideo(processedData, searchTerm ? `"${searchTerm}" (${processedData.length} rows)` : `${fileName} (${processedData.length} rows)`)}
+                title="Play the current (filtered) rows as a video playlist"
+              >
+                <Film className="w-4 h-4 mr-1" />
+                Playlist
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -671,7 +686,9 @@ export function DataPreview({ isOpen, onClose, data: initialData, fileName, head
                 {displayedData.map((row, rowIdx) => (
                   <tr
                     key={rowIdx}
-                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                    className={`border-b border-border hover:bg-muted/50 transition-colors ${hasVideoTimes ? 'cursor-pointer' : ''}`}
+                    onClick={hasVideoTimes ? () => playMatchVideo(row) : undefined}
+                    title={hasVideoTimes ? 'Play this action in the match video' : undefined}
                   >
                     <td className="p-2 text-xs text-muted-foreground font-mono">
                       {startIndex + rowIdx + 1}
@@ -2,6 +2,8 @@ import { useState } from "react";
 import { formatForFilename, formatForExport } from "@/lib/dateFormatter";
 import { X, Download, FileText, Image, Table, Code } from "lucide-react";
 import { useTheme } from "@/hooks/use-theme";
+import { loadPlayerReportCards } from "@/lib/database";
+import { renderPlayerReportCardsHtml } from "@/lib/playerReports";
 
 interface ExportDialogProps {
   isOpen: boolean;
@@ -9,14 +11,16 @@ interface ExportDialogProps {
   chatHistory: any[];
   charts: any[];
   chatTitle?: string;
+  selectedMatch?: string | null; // Enables player report cards for the chat's match
 }
 
 type ExportFormat = 'pdf' | 'html' | 'markdown' | 'json' | 'csv';
 
-export function ExportDialog({ isOpen, onClose, chatHistory, charts, chatTitle }: ExportDialogProps) {
+export function ExportDialog({ isOpen, onClose, chatHistory, charts, chatTitle, selectedMatch }: ExportDialogProps) {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('html');
   const [includeCharts, setIncludeCharts] = useState(true);
   const [includeCode, setIncludeCode] = useState(true);
+  const [includeReportCards, setIncludeReportCards] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const { theme } = useTheme();
 
@@ -228,6 +232,17 @@ export function ExportDialog({ isOpen, onClose, chatHistory, charts, chatTitle }
       }
     }
     
+    // Player report cards for the selected match (HTML/PDF only)
+    let reportCardsHtml = '';
+    if (includeReportCards && selectedMatch) {
+      try {
+        reportCardsHtml = renderPlayerReportCardsHtml(await loadPlayerReportCards(selectedMatch));
+      } catch (error) {
+        console.error('Failed to build player report cards:', error);
+        reportCardsHtml = '<p><em>Player report cards not available</em></p>';
+      }
+    }
+
     // Detect if dark mode is active
     const isDark = theme === 'dark' || (theme === 'system' && window.matchMedia('(prefers-color-scheme: dark)').matches);
     
@@ -307,6 +322,11 @@ export function ExportDialog({ isOpen, onClose, chatHistory, charts, chatTitle }
     </div>
   `).join('')}
 
+  ${reportCardsHtml ? `
+    <h2>Player Report Cards</h2>
+    ${reportCardsHtml}
+  ` : ''}
+
   ${includeCharts && charts.length > 0 ? `
     <h2>Visualizations</h2>
     ${charts.map((chart, idx) => {
@@ -469,6 +489,24 @@ export function ExportDialog({ isOpen, onClose, chatHistory, charts, chatTitle }
                   </div>
                 </div>
               </label>
+              {selectedMatch && (selectedFormat === 'html' || selectedFormat === 'pdf') && (
+                <label className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeReportCards}
+                    onChange={(e) => setIncludeReportCards(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  <div className="flex-1">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                      Player Report Cards
+                    </div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">
+                      One card per player for match {selectedMatch}
+                    </div>
+                  </div>
+                </label>
+              )}
             </div>
           </div>
 
@@ -479,6 +517,7 @@ export function ExportDialog({ isOpen, onClose, chatHistory, charts, chatTitle }
               <ul className="mt-2 space-y-1 ml-4 list-disc">
                 <li>{chatHistory.length} messages</li>
                 {includeCharts && <li>{charts.length} charts</li>}
+                {includeReportCards && selectedMatch && (selectedFormat === 'html' || selectedFormat === 'pdf') && <li>Player report cards</li>}
                 <li>Format: {formats.find(f => f.id === selectedFormat)?.name}</li>
               </ul>
             </div>
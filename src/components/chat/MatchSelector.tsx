@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback, memo } from "react";
 import { X, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Match } from "@/types/chat";
-import { getAvailableMatches, isDatabaseConnected, getDbConnection } from "@/lib/database";
+import { getAvailableMatches, isDatabaseConnected, getDbConnection, describeDatabaseTable } from "@/lib/database";
 // deleteValueInfo is imported dynamically when needed
 import MultiSelectGroupBy from "./MultiSelectGroupBy";
 
@@ -13,9 +13,11 @@ interface MatchSelectorProps {
   onSelectMatch: (matchId: string | null, filterColumns?: string[], filterValues?: Record<string, string | string[] | null>, displayColumns?: string[], displayValues?: Record<string, string | null>) => void;
   chatId?: string; // Chat ID for tracking Value Info associations
   disabled?: boolean; // Disable when CSV selection is active
+  onScoutTeam?: () => void; // Opens the multi-match team scouting report
+  onShowRatings?: () => void; // Opens the team ratings standings
 }
 
-const MatchSelector = ({ selectedMatch, selectedFilterColumns, selectedFilterValues, onSelectMatch, chatId, disabled = false }: MatchSelectorProps) => {
+const MatchSelector = ({ selectedMatch, selectedFilterColumns, selectedFilterValues, onSelectMatch, chatId, disabled = false, onScoutTeam, onShowRatings }: MatchSelectorProps) => {
   const [matches, setMatches] = useState<Match[]>([]);
   const [availableColumns, setAvailableColumns] = useState<{ value: string; label: string }[]>([]);
   const [columnModes, setColumnModes] = useState<Record<string, 'group' | 'display'>>({});
@@ -39,9 +41,6 @@ const MatchSelector = ({ selectedMatch, selectedFilterColumns, selectedFilterVal
       if (!isDatabaseConnected()) return;
       
       try {
-        const db = getDbConnection();
-        if (!db) return;
-        
         const tableName = getTableName();
         
         // Update tracked table name
@@ -51,27 +50,12 @@ const MatchSelector = ({ selectedMatch, selectedFilterColumns, selectedFilterVal
           setCurrentTableName(tableName);
         }
         
-        // Query to get column names from the configured table - universal approach
-        // Use information_schema to get all columns
-        const query = `SELECT column_name FROM information_schema.columns WHERE table_name = '${tableName.replace(/'/g, "''")}' ORDER BY ordinal_position`;
-        
-        // Execute dynamic SQL - use raw query method for security
-        const sql = db as any;
-        let result;
-        if (typeof sql.raw === 'function') {
-          result = await sql.raw(query);
-        } else {
-          // Fallback: properly escape query for template literal injection prevention
-          const safeQuery = query.replace(/\\/g, '\\\\').replace(/\$/g, '\\$').replace(/`/g, '\\`');
-          const executeQuery = new Function('sql', `return sql\`${safeQuery}\``);
-          result = await executeQuery(sql);
-        }
-        
-        const columnsResult = Array.isArray(result) ? result : (result?.rows || []);
+        // Column names come from the describeTable action - universal, works with any allowed table
+        const description = await describeDatabaseTable(tableName);
         
         // Universal: include ALL columns, no filtering - works with any table structure
-        const cols = columnsResult
-          .map((row: any) => row.column_name)
+        const cols = description.columns
+          .map(column => column.name)
           .map((col: string) => ({
             value: col,
             label: col.split('_').map(word => 
@@ -1158,6 +1142,28 @@ const MatchSelector = ({ selectedMatch, selectedFilterColumns, selectedFilterVal
             />
           </div>
         )}
+        {onScoutTeam && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onScoutTeam}
+            disabled={disabled}
+            title="Scouting report across all matches of a team"
+          >
+            Scout team
+          </Button>
+        )}
+        {onShowRatings && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onShowRatings}
+            disabled={disabled}
+            title="Elo standings and matchup predictions across all matches"
+          >
+            Ratings
+          </Button>
+        )}
       </div>
       
       {selectedMatchData && (
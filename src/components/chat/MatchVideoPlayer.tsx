@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Film, Trash2, Upload, X } from 'lucide-react';
+import {
+  DEFAULT_VIDEO_SETTINGS,
+  MATCH_VIDEO_PLAY_EVENT,
+  formatVideoTime,
+  getVideoSettings,
+  loadStoredMatchVideo,
+  removeMatchVideo,
+  saveVideoSettings,
+  storeMatchVideo,
+  type MatchVideoPlayRequest,
+  type MatchVideoSettings,
+} from '@/lib/matchVideo';
+
+interface MatchVideoPlayerProps {
+  chatId: string | null;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Floating player for the chat's local match video; plays single actions or playlists sent via playMatchVideo()
+export function MatchVideoPlayer({ chatId, isOpen, onOpenChange }: MatchVideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [settings, setSettings] = useState<MatchVideoSettings | null>(null);
+  const [playlist, setPlaylist] = useState<MatchVideoPlayRequest | null>(null);
+  const [clipIndex, setClipIndex] = useState(0);
+  const [status, setStatus] = useState<string>('');
+
+  // Restore the chat's video from OPFS
+  useEffect(() => {
+    setPlaylist(null);
+    setClipIndex(0);
+    setVideoUrl(null);
+    setSettings(chatId ? getVideoSettings(chatId) : null);
+    if (!chatId) return;
+
+    let cancelled = false;
+    loadStoredMatchVideo(chatId).then(file => {
+      if (!cancelled && file) setVideoUrl(URL.createObjectURL(file));
+    });
+    return () => { cancelled = true; };
+  }, [chatId]);
+
+  // Release the previous object URL whenever the video changes
+  useEffect(() => {
+    return () => {
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+    };
+  }, [videoUrl]);
+
+  // Seek/playlist requests from previews, charts and results
+  useEffect(() => {
+    const handlePlay = (event: Event) => {
+      const request = (event as CustomEvent<MatchVideoPlayRequest>).detail;
+      if (!request || request.clips.length === 0) return;
+      setPlaylist(request);
+      setClipIndex(0);
+      onOpenChange(true);
+    };
+    window.addEventListener(MATCH_VIDEO_PLAY_EVENT, handlePlay);
+    return () => window.removeEventListener(MATCH_VIDEO_PLAY_EVENT, handlePlay);
+  }, [onOpenChange]);
+
+  const current = playlist?.clips[clipIndex] || null;
+  const offset = settings?.offset ?? DEFAULT_VIDEO_SETTINGS.offset;
+  const lead = settings?.lead ?? DEFAULT_VIDEO_SETTINGS.lead;
+  const clipLength = settings?.clipLength ?? DEFAULT_VIDEO_SETTINGS.clipLength;
+
+  // Jump to the current clip whenever it changes
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !videoUrl || !current) return;
+    const seek = () => {
+      video.currentTime = Math.max(0, current.start + offset - lead);
+      video.play().catch(() => { /* Autoplay blocked - user can press play */ });
+    };
+    if (video.readyState >= 1) seek();
+    else video.addEventListener('loadedmetadata', seek, { once: true });
+    return () => video.removeEventListener('loadedmetadata', seek);
+  }, [current, videoUrl, offset, lead]);
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || !playlist || playlist.clips.length < 2 || !current) return;
+    if (video.currentTime >= current.start + offset - lead + clipLength) {
+      if (clipIndex < playlist.clips.length - 1) setClipIndex(clipIndex + 1);
+      else video.pause();
+    }
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file || !chatId) return;
+    setVideoUrl(URL.createObjectURL(file));
+    const next = { ...DEFAULT_VIDEO_SETTINGS, ...settings, fileName: file.name };
+    setSettings(next);
+    saveVideoSettings(chatId, next);
+    setStatus('Saving video locally...');
+    const stored = await storeMatchVideo(chatId, file);
+    setStatus(stored ? '' : 'Video will need to be reloaded after refresh');
+  };
+
+  const updateSetting = (key: 'offset' | 'lead' | 'clipLength', value: string) => {
+    if (!chatId) return;
+    const parsed = Number(value);
+    const next = { ...DEFAULT_VIDEO_SETTINGS, fileName: '', ...settings, [key]: Number.isFinite(parsed) ? parsed : 0 };
+    setSettings(next);
+    saveVideoSettings(chatId, next);
+  };
+
+  const handleRemove = async () => {
+    if (!chatId) return;
+    setVideoUrl(null);
+    setSettings(null);
+    await removeMatchVideo(chatId);
+  };
+
+  if (!isOpen || !chatId) return null;
+
+  const numberInputClass = 'w-14 bg-white/5 border border-white/20 rounded px-1 py-0.5 text-xs text-white';
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[10000] w-[480px] max-w-[calc(100vw-2rem)] bg-chat-bg rounded-lg shadow-2xl border border-border/50 flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-border/50 flex items-center justify-between bg-gradient-to-r from-primary/10 to-transparent">
+        <div className="flex items-center gap-2 min-w-0">
+          <Film className="w-4 h-4 text-primary flex-shrink-0" />
+          <span className="text-sm font-semibold text-white truncate">{settings?.fileName || 'Match video'}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+            title="Load match video (stays on this device)"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          {videoUrl && (
+            <button
+              onClick={handleRemove}
+              className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+              title="Remove video from this chat"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => onOpenChange(false)}
+            className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="video/*"
+          className="hidden"
+          onChange={(e) => {
+            handleFileSelected(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {videoUrl ? (
+        <video ref={videoRef} src={videoUrl} controls className="w-full bg-black max-h-[270px]" onTimeUpdate={handleTimeUpdate} />
+      ) : (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="m-3 p-6 border border-dashed border-white/20 rounded text-sm text-muted-foreground hover:text-white hover:border-white/40"
+        >
+          Load the match video to jump to actions by video_time. The file is not uploaded.
+        </button>
+      )}
+
+      <div className="px-3 py-2 flex flex-wrap items-center gap-3 text-xs text-muted-foreground border-t border-border/30">
+        <label className="flex items-center gap-1" title="Seconds added to video_time when the recording does not start with the scout clock">
+          Offset
+          <input type="number" value={offset} onChange={(e) => updateSetting('offset', e.target.value)} className={numberInputClass} />
+        </label>
+        <label className="flex items-center gap-1" title="Seconds shown before each action">
+          Lead
+          <input type="number" min={0} value={lead} onChange={(e) => updateSetting('lead', e.target.value)} className={numberInputClass} />
+        </label>
+        <label className="flex items-center gap-1" title="Seconds played per action in a playlist">
+          Clip
+          <input type="number" min={1} value={clipLength} onChange={(e) => updateSetting('clipLength', e.target.value)} className={numberInputClass} />
+        </label>
+        {status && <span>{status}</span>}
+      </div>
+
+      {playlist && (
+        <div className="border-t border-border/30">
+          <div className="px-3 py-1.5 flex items-center justify-between text-xs">
+            <span className="text-white truncate">{playlist.title}</span>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <button
+                onClick={() => setClipIndex(Math.max(0, clipIndex - 1))}
+                disabled={clipIndex === 0}
+                className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+              >
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <span className="text-muted-foreground">{clipIndex + 1}/{playlist.clips.length}</span>
+              <button
+                onClick={() => setClipIndex(Math.min(playlist.clips.length - 1, clipIndex + 1))}
+                disabled={clipIndex >= playlist.clips.length - 1}
+                className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+              >
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+          {playlist.clips.length > 1 && (
+            <div className="max-h-32 overflow-y-auto">
+              {playlist.clips.map((clip, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => setClipIndex(idx)}
+                  className={`w-full text-left px-3 py-1 text-xs flex gap-2 hover:bg-white/5 ${idx === clipIndex ? 'bg-primary/20 text-white' : 'text-white/70'}`}
+                >
+                  <span className="font-mono text-muted-foreground">{formatVideoTime(clip.start)}</span>
+                  <span className="truncate">{clip.label}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
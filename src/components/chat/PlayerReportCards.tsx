@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from 'react';
+import { IdCard, X } from 'lucide-react';
+import { loadPlayerReportCards } from '@/lib/database';
+import { RECEPTION_GRADES, trendOrderLabel, type PlayerReportCard } from '@/lib/playerReports';
+
+interface PlayerReportCardsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  matchId: string | null;
+}
+
+const pct = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+
+function TrendBadge({ value, asPct = false }: { value: number | null; asPct?: boolean }) {
+  if (value === null) return null;
+  const text = asPct ? `${(value * 100).toFixed(1)}pp` : value.toFixed(3);
+  return (
+    <span className={`ml-1 text-[11px] ${value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-white/50'}`}>
+      {value > 0 ? '▲' : value < 0 ? '▼' : '='} {value > 0 ? '+' : ''}{text}
+    </span>
+  );
+}
+
+function ReportCard({ card }: { card: PlayerReportCard }) {
+  const { stats, trend } = card;
+  const maxGrade = Math.max(1, ...RECEPTION_GRADES.map(code => stats.reception.grades[code] || 0));
+
+  return (
+    <div className="rounded-lg border border-white/10 bg-white/5 p-3 space-y-2">
+      <div className="flex items-baseline justify-between">
+        <div className="font-semibold text-white">
+          {stats.playerNumber !== null && <span className="text-primary mr-1">#{stats.playerNumber}</span>}
+          {stats.playerName}
+        </div>
+        <div className="text-xs text-white/60">{stats.pointsScored} pts</div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+        <div className="text-white/60">Attack</div>
+        <div>
+          {stats.attack.kills}K {stats.attack.errors + stats.attack.blocked}E / {stats.attack.attempts}
+        </div>
+        <div className="text-white/60">Efficiency</div>
+        <div>
+          {stats.attack.attempts > 0 ? stats.attack.efficiency.toFixed(3) : '–'}
+          <TrendBadge value={trend.attackEfficiencyDelta} />
+        </div>
+        <div className="text-white/60">Serve</div>
+        <div>
+          {stats.serve.aces} ace{stats.serve.aces === 1 ? '' : 's'} · {stats.serve.errors} SE
+          <TrendBadge value={trend.acesDelta} />
+        </div>
+        <div className="text-white/60">Digs / Blocks</div>
+        <div>{stats.digs} / {stats.blocks.points}</div>
+      </div>
+
+      {stats.reception.attempts > 0 && (
+        <div>
+          <div className="text-xs text-white/60 mb-1">
+            Reception {stats.reception.attempts} · pos {pct(stats.reception.positivePct)}
+            <TrendBadge value={trend.positivePassPctDelta} asPct />
+          </div>
+          <div className="flex items-end gap-1 h-10">
+            {RECEPTION_GRADES.map(code => {
+              const count = stats.reception.grades[code] || 0;
+              return (
+                <div key={code} className="flex-1 flex flex-col items-center justify-end h-full" title={`${code}: ${count}`}>
+                  <div className="w-full bg-blue-500/60 rounded-t" style={{ height: `${(count / maxGrade) * 100}%` }} />
+                  <span className="text-[10px] text-white/60">{code}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="text-[11px] text-white/50">
+        {trend.matches > 0
+          ? `vs previous ${trend.matches} match${trend.matches === 1 ? '' : 'es'}${trendOrderLabel(trend)} (eff ${trend.attackEfficiency === null ? '–' : trend.attackEfficiency.toFixed(3)}, pos pass ${pct(trend.positivePassPct)})`
+          : 'No previous matches'}
+      </div>
+    </div>
+  );
+}
+
+export function PlayerReportCards({ isOpen, onClose, matchId }: PlayerReportCardsProps) {
+  const [cards, setCards] = useState<PlayerReportCard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedTeam, setSelectedTeam] = useState<string>('');
+
+  useEffect(() => {
+    if (!isOpen || !matchId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadPlayerReportCards(matchId)
+      .then(result => {
+        if (cancelled) return;
+        setCards(result);
+        setSelectedTeam(result[0]?.stats.team || '');
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to build report cards');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, matchId]);
+
+  const teams = useMemo(() => [...new Set(cards.map(c => c.stats.team))], [cards]);
+  const teamCards = cards.filter(c => c.stats.team === selectedTeam);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-chat-bg rounded-lg shadow-2xl w-full max-w-5xl max-h-[85vh] overflow-hidden border border-border/50 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-border/50 flex items-center justify-between bg-gradient-to-r from-primary/10 to-transparent">
+          <div className="flex items-center gap-2">
+            <IdCard className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="text-base font-semibold text-white">Player Report Cards</h2>
+              <p className="text-xs text-muted-foreground">
+                {cards[0] ? `${cards[0].matchId} · export as HTML/PDF from Export Analysis` : 'Per-player match summary'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {isLoading && <div className="text-sm text-muted-foreground">Building report cards...</div>}
+          {error && <div className="text-sm text-red-400">{error}</div>}
+          {!isLoading && !error && cards.length === 0 && (
+            <div className="text-sm text-muted-foreground">No player actions found for this match.</div>
+          )}
+
+          {teams.length > 1 && (
+            <div className="flex flex-wrap gap-1 bg-white/5 rounded p-1 w-fit">
+              {teams.map(team => (
+                <button
+                  key={team}
+                  onClick={() => setSelectedTeam(team)}
+                  className={`px-3 py-1 rounded text-sm transition ${
+                    team === selectedTeam ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'
+                  }`}
+                >
+                  {team}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {teamCards.map(card => (
+              <ReportCard key={`${card.stats.team}-${card.stats.playerName}`} card={card} />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
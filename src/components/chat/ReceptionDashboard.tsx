@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import { RECEPTION_GRADES } from '@/lib/playerReports';
+import {
+  GRADING_PRESETS,
+  getTeamGradingScale,
+  regradeTeam,
+  saveTeamGradingScale,
+  type GradingScale,
+  type PassSummary,
+  type ReceptionReport,
+} from '@/lib/receptionGrading';
+
+interface ReceptionDashboardProps {
+  report: ReceptionReport;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Green for good passes, red for poor ones, scaled on the share of the scale's maximum
+function cellColor(summary: PassSummary): string {
+  if (summary.attempts === 0) return 'transparent';
+  const hue = Math.round(summary.averagePct * 120);
+  return `hsla(${hue}, 70%, 45%, ${Math.min(0.7, 0.2 + summary.attempts * 0.05)})`;
+}
+
+function CodeDistribution({ summary }: { summary: PassSummary }) {
+  return (
+    <span className="font-mono text-white/60">
+      {RECEPTION_GRADES.map(code => `${code}${summary.counts[code]}`).join(' ')}
+    </span>
+  );
+}
+
+export function ReceptionDashboard({ report }: ReceptionDashboardProps) {
+  const teams = report?.teams || [];
+  const [selectedTeam, setSelectedTeam] = useState<string>(teams[0]?.team || '');
+  const [scaleOverrides, setScaleOverrides] = useState<Record<string, GradingScale>>({});
+  const [savedTeam, setSavedTeam] = useState<string | null>(null);
+
+  const baseTeam = teams.find(t => t.team === selectedTeam) || teams[0];
+  const scale = (baseTeam && scaleOverrides[baseTeam.team]) || baseTeam?.scale;
+  const team = useMemo(() => (baseTeam && scale ? regradeTeam(baseTeam, scale) : null), [baseTeam, scale]);
+
+  // Saved custom scale for this team, offered next to the presets
+  const storedScale = baseTeam ? getTeamGradingScale(baseTeam.team) : null;
+  const scaleOptions = storedScale && !GRADING_PRESETS.some(p => p.id === storedScale.id)
+    ? [...GRADING_PRESETS, storedScale]
+    : GRADING_PRESETS;
+
+  if (!team || !scale) {
+    return <div className="text-sm text-white/60">No receptions found</div>;
+  }
+
+  const zones = [...new Set(team.zoneByPasser.map(c => c.zone))].sort((a, b) => a - b);
+  const zonePassers = team.passers.filter(p => team.zoneByPasser.some(c => c.player === p.player));
+  const format = (summary: PassSummary) => (scale.max === 1 ? pct(summary.average) : summary.average.toFixed(2));
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-wrap gap-1 bg-white/5 rounded p-1 w-fit">
+          {teams.map(t => (
+            <button
+              key={t.team}
+              onClick={() => setSelectedTeam(t.team)}
+              className={`px-3 py-1 rounded text-sm transition ${t.team === team.team ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'}`}
+            >
+              {t.team}
+            </button>
+          ))}
+        </div>
+        <select
+          value={scale.id}
+          onChange={(e) => {
+            const next = scaleOptions.find(s => s.id === e.target.value);
+            if (next) setScaleOverrides(prev => ({ ...prev, [team.team]: next }));
+            setSavedTeam(null);
+          }}
+          className="bg-background border border-border rounded px-2 py-1 text-sm"
+        >
+          {scaleOptions.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        <button
+          onClick={() => {
+            saveTeamGradingScale(team.team, scale);
+            setSavedTeam(team.team);
+          }}
+          className="px-2 py-1 rounded text-xs text-white/70 hover:text-white hover:bg-white/10"
+          title="Use this scale for the team in future reports (editable in Settings → Passing)"
+        >
+          {savedTeam === team.team ? 'Saved' : `Save for ${team.team}`}
+        </button>
+      </div>
+
+      {/* Team summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {[
+          { label: `Pass average (${scale.label})`, value: format(team) },
+          { label: 'Receptions', value: String(team.attempts) },
+          { label: 'Perfect (#)', value: pct(team.perfectPct) },
+          { label: 'Positive (#+)', value: pct(team.positivePct) },
+          { label: 'Errors (=)', value: pct(team.errorPct) },
+        ].map(item => (
+          <div key={item.label} className="bg-white/5 rounded p-2">
+            <div className="text-white/60">{item.label}</div>
+            <div className="text-base font-semibold text-white">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Passers */}
+      <div>
+        <div className="font-semibold text-white mb-1">Passers</div>
+        <table className="min-w-full border-collapse">
+          <thead>
+            <tr className="text-white/70 border-b border-white/20">
+              <th className="px-2 py-1 text-left">Player</th>
+              <th className="px-2 py-1 text-right">Att</th>
+              <th className="px-2 py-1 text-right">Avg</th>
+              <th className="px-2 py-1 text-right">#</th>
+              <th className="px-2 py-1 text-right">#+</th>
+              <th className="px-2 py-1 text-right">=</th>
+              <th className="px-2 py-1 text-left">Codes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {team.passers.map(p => (
+              <tr key={p.player} className="border-b border-white/10">
+                <td className="px-2 py-1">{p.playerNumber !== null && !p.player.startsWith('#') ? `#${p.playerNumber} ` : ''}{p.player}</td>
+                <td className="px-2 py-1 text-right">{p.attempts}</td>
+                <td className="px-2 py-1 text-right font-semibold" style={{ backgroundColor: cellColor(p) }}>{format(p)}</td>
+                <td className="px-2 py-1 text-right">{pct(p.perfectPct)}</td>
+                <td className="px-2 py-1 text-right">{pct(p.positivePct)}</td>
+                <td className="px-2 py-1 text-right">{pct(p.errorPct)}</td>
+                <td className="px-2 py-1"><CodeDistribution summary={p} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Serve zone x passer */}
+        <div>
+          <div className="font-semibold text-white mb-1">Pass average by serve zone</div>
+          {zones.length === 0 ? (
+            <div className="text-white/60">No serve zones coded</div>
+          ) : (
+            <table className="min-w-full border-collapse">
+              <thead>
+                <tr className="text-white/70 border-b border-white/20">
+                  <th className="px-2 py-1 text-left">Passer</th>
+                  {zones.map(zone => <th key={zone} className="px-2 py-1 text-center">Z{zone}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {zonePassers.map(p => (
+                  <tr key={p.player} className="border-b border-white/10">
+                    <td className="px-2 py-1">{p.player}</td>
+                    {zones.map(zone => {
+                      const cell = team.zoneByPasser.find(c => c.zone === zone && c.player === p.player);
+                      return (
+                        <td
+                          key={zone}
+                          className="px-2 py-1 text-center"
+                          style={{ backgroundColor: cell ? cellColor(cell) : 'transparent' }}
+                          title={cell ? `${cell.attempts} receptions` : undefined}
+                        >
+                          {cell ? format(cell) : '–'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="border-t border-white/20 font-semibold">
+                  <td className="px-2 py-1">Team</td>
+                  {zones.map(zone => {
+                    const summary = team.serveZones.find(z => z.zone === zone);
+                    return (
+                      <td key={zone} className="px-2 py-1 text-center" style={{ backgroundColor: summary ? cellColor(summary) : 'transparent' }}>
+                        {summary ? `${format(summary)} (${summary.attempts})` : '–'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Rotations */}
+        <div>
+          <div className="font-semibold text-white mb-1">Passing by rotation</div>
+          {team.rotations.length === 0 ? (
+            <div className="text-white/60">No setter positions coded</div>
+          ) : (
+            <table className="min-w-full border-collapse">
+              <thead>
+                <tr className="text-white/70 border-b border-white/20">
+                  <th className="px-2 py-1 text-left">Rotation</th>
+                  <th className="px-2 py-1 text-right">Att</th>
+                  <th className="px-2 py-1 text-right">Avg</th>
+                  <th className="px-2 py-1 text-right">#+</th>
+                  <th className="px-2 py-1 text-right">Side-out</th>
+                </tr>
+              </thead>
+              <tbody>
+                {team.rotations.map(r => (
+                  <tr key={r.rotation} className="border-b border-white/10">
+                    <td className="px-2 py-1">P{r.rotation}</td>
+                    <td className="px-2 py-1 text-right">{r.attempts}</td>
+                    <td className="px-2 py-1 text-right font-semibold" style={{ backgroundColor: cellColor(r) }}>{format(r)}</td>
+                    <td className="px-2 py-1 text-right">{pct(r.positivePct)}</td>
+                    <td className="px-2 py-1 text-right">{pct(r.sideOutPct)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
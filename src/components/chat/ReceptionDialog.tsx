@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { Target, X } from 'lucide-react';
+import { readMatchActions } from '@/lib/database';
+import { analyzeReception, type ReceptionReport } from '@/lib/receptionGrading';
+import { ChartRenderer } from './ChartRenderer';
+
+interface ReceptionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  matchId: string | null;
+}
+
+export function ReceptionDialog({ isOpen, onClose, matchId }: ReceptionDialogProps) {
+  const [report, setReport] = useState<ReceptionReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !matchId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    readMatchActions(matchId)
+      .then(data => {
+        if (!cancelled) setReport(analyzeReception(data));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load receptions');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, matchId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-chat-bg rounded-lg shadow-2xl w-full max-w-5xl max-h-[85vh] overflow-hidden border border-border/50 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-border/50 flex items-center justify-between bg-gradient-to-r from-primary/10 to-transparent">
+          <div className="flex items-center gap-2">
+            <Target className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="text-base font-semibold text-white">Serve Receive</h2>
+              <p className="text-xs text-muted-foreground">
+                Pass grades on each team's scale (Settings → Passing)
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading && <div className="text-sm text-muted-foreground">Grading receptions...</div>}
+          {error && <div className="text-sm text-red-400">{error}</div>}
+          {!isLoading && !error && report && report.teams.length === 0 && (
+            <div className="text-sm text-muted-foreground">No receptions found for this match.</div>
+          )}
+          {!isLoading && !error && report && report.teams.length > 0 && (
+            <ChartRenderer content="" executionResults={{ reception_report: report }} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react';
+import type { RotationReport as RotationReportData, RotationStats } from '@/lib/rotationAnalysis';
+
+interface RotationReportProps {
+  report: RotationReportData;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Court positions as seen from behind the team's own baseline: front row 4-3-2, back row 5-6-1
+const COURT_LAYOUT = [4, 3, 2, 5, 6, 1];
+
+function CourtDiagram({ stats }: { stats: RotationStats }) {
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="w-full max-w-[220px] border-t-4 border-white/60 text-center text-[10px] text-white/50 pt-0.5">NET</div>
+      <div className="grid grid-cols-3 gap-1 w-full max-w-[220px] aspect-square bg-orange-500/10 border border-white/20 p-1">
+        {COURT_LAYOUT.map(position => {
+          const player = stats.lineup[position - 1];
+          const isSetter = position === stats.rotation;
+          return (
+            <div
+              key={position}
+              className={`flex flex-col items-center justify-center rounded ${
+                isSetter ? 'bg-blue-500/40 border border-blue-400' : 'bg-white/5'
+              }`}
+            >
+              <span className="text-lg font-semibold text-white">{player ?? '–'}</span>
+              <span className="text-[10px] text-white/60">P{position}{isSetter ? ' · S' : ''}</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="text-xs text-white/70">
+        {stats.team} – Rotation {stats.rotation}
+      </div>
+    </div>
+  );
+}
+
+export function RotationReport({ report }: RotationReportProps) {
+  const teams = report?.teams || [];
+  const [selectedTeam, setSelectedTeam] = useState<string>(teams[0] || '');
+  const [selectedRotation, setSelectedRotation] = useState<number | null>(null);
+
+  const teamRotations = useMemo(
+    () => (report?.rotations || []).filter(r => r.team === selectedTeam),
+    [report, selectedTeam]
+  );
+  const selectedStats = teamRotations.find(r => r.rotation === selectedRotation) || teamRotations[0];
+
+  if (!report || teams.length === 0) {
+    return <div className="text-sm text-white/60">No rotation data (setter positions missing)</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1 bg-white/5 rounded p-1 w-fit">
+        {teams.map(team => (
+          <button
+            key={team}
+            onClick={() => { setSelectedTeam(team); setSelectedRotation(null); }}
+            className={`px-3 py-1 rounded text-sm transition ${
+              team === selectedTeam ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'
+            }`}
+          >
+            {team}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="overflow-x-auto flex-1">
+          <table className="min-w-full border-collapse text-sm">
+            <thead>
+              <tr className="text-white/70 border-b border-white/20">
+                <th className="px-2 py-1 text-left">Rot</th>
+                <th className="px-2 py-1 text-right">Rallies</th>
+                <th className="px-2 py-1 text-right">SO%</th>
+                <th className="px-2 py-1 text-right">BP%</th>
+                <th className="px-2 py-1 text-right">+/-</th>
+                <th className="px-2 py-1 text-right">Att Eff</th>
+                <th className="px-2 py-1 text-right">K%</th>
+                <th className="px-2 py-1 text-right">Aces</th>
+                <th className="px-2 py-1 text-right">SE</th>
+                <th className="px-2 py-1 text-right">Pos Pass%</th>
+              </tr>
+            </thead>
+            <tbody>
+              {teamRotations.map(r => (
+                <tr
+                  key={r.rotation}
+                  onClick={() => setSelectedRotation(r.rotation)}
+                  className={`border-b border-white/10 cursor-pointer hover:bg-white/5 ${
+                    selectedStats?.rotation === r.rotation ? 'bg-blue-500/10' : ''
+                  }`}
+                >
+                  <td className="px-2 py-1 font-medium">P{r.rotation}</td>
+                  <td className="px-2 py-1 text-right">{r.rallies}</td>
+                  <td className="px-2 py-1 text-right">{pct(r.sideOutPct)} <span className="text-white/40">({r.sideOuts}/{r.receiveRallies})</span></td>
+                  <td className="px-2 py-1 text-right">{pct(r.breakPointPct)} <span className="text-white/40">({r.breakPoints}/{r.serveRallies})</span></td>
+                  <td className={`px-2 py-1 text-right ${r.pointDifferential > 0 ? 'text-green-400' : r.pointDifferential < 0 ? 'text-red-400' : ''}`}>
+                    {r.pointDifferential > 0 ? `+${r.pointDifferential}` : r.pointDifferential}
+                  </td>
+                  <td className="px-2 py-1 text-right">{r.attack.efficiency.toFixed(3)}</td>
+                  <td className="px-2 py-1 text-right">{pct(r.attack.killPct)}</td>
+                  <td className="px-2 py-1 text-right">{r.serve.aces}</td>
+                  <td className="px-2 py-1 text-right">{r.serve.errors}</td>
+                  <td className="px-2 py-1 text-right">{pct(r.reception.positivePct)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {selectedStats && <CourtDiagram stats={selectedStats} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react';
+import { Binoculars, X } from 'lucide-react';
+import { getAvailableTeams, loadScoutingReport } from '@/lib/database';
+import { formatScoutingReport, formatZoneShares, type ScoutingReport } from '@/lib/scoutingReport';
+
+interface ScoutingReportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onUseAsContext?: (sectionId: string) => void; // Called after the report is saved as a context section
+}
+
+const QUALITY_COLUMNS = ['#', '+', '!', '-', 'Transition'];
+
+// Save the report as a context section (same storage as Settings → Context Sections)
+function saveReportAsContextSection(report: ScoutingReport): string {
+  const id = `scout_${report.team.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase()}`;
+  let sections: Array<{ id: string; title: string; content: string }> = [];
+  try {
+    const saved = localStorage.getItem("db_context_sections");
+    const parsed = saved ? JSON.parse(saved) : [];
+    sections = Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    sections = [];
+  }
+  const section = { id, title: `Scouting: ${report.team}`, content: formatScoutingReport(report) };
+  const existing = sections.findIndex(s => s.id === id);
+  if (existing >= 0) sections[existing] = section;
+  else sections.push(section);
+  localStorage.setItem("db_context_sections", JSON.stringify(sections));
+  window.dispatchEvent(new Event('contextSectionsUpdated'));
+  return id;
+}
+
+export function ScoutingReportDialog({ isOpen, onClose, onUseAsContext }: ScoutingReportDialogProps) {
+  const teams = useMemo(() => (isOpen ? getAvailableTeams() : []), [isOpen]);
+  const [team, setTeam] = useState<string>('');
+  const [report, setReport] = useState<ScoutingReport | null>(null);
+  const [progress, setProgress] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBuild = async () => {
+    if (!team) return;
+    setIsLoading(true);
+    setError(null);
+    setReport(null);
+    try {
+      const result = await loadScoutingReport(team, (loaded, total) => setProgress(`Loading matches ${loaded}/${total}...`));
+      setReport(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build scouting report');
+    } finally {
+      setIsLoading(false);
+      setProgress('');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-chat-bg rounded-lg shadow-2xl w-full max-w-5xl max-h-[85vh] overflow-hidden border border-border/50 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-border/50 flex items-center justify-between bg-gradient-to-r from-primary/10 to-transparent">
+          <div className="flex items-center gap-2">
+            <Binoculars className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="text-base font-semibold text-white">Scout Team</h2>
+              <p className="text-xs text-muted-foreground">
+                Tendencies across every match the team played
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-border/30 flex flex-wrap items-center gap-2">
+          <select
+            value={team}
+            onChange={(e) => setTeam(e.target.value)}
+            className="bg-white/5 border border-white/20 rounded px-2 py-1 text-sm text-white min-w-[220px]"
+          >
+            <option value="">Select team...</option>
+            {teams.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <button
+            onClick={handleBuild}
+            disabled={!team || isLoading}
+            className="px-3 py-1 rounded text-sm bg-primary/20 hover:bg-primary/30 border border-primary/50 text-primary disabled:opacity-50"
+          >
+            {isLoading ? 'Building...' : 'Build report'}
+          </button>
+          {report && onUseAsContext && (
+            <button
+              onClick={() => onUseAsContext(saveReportAsContextSection(report))}
+              className="px-3 py-1 rounded text-sm bg-white/5 hover:bg-white/10 border border-white/20 text-white"
+              title="Save as a context section and select it for this chat"
+            >
+              Use as chat context
+            </button>
+          )}
+          {progress && <span className="text-xs text-muted-foreground">{progress}</span>}
+          {error && <span className="text-xs text-red-400">{error}</span>}
+        </div>
+
+        {report && (
+          <div className="flex-1 overflow-y-auto p-4 space-y-5 text-sm">
+            <div className="text-xs text-muted-foreground">
+              {report.matches.length} matches · {report.totalRallies} rallies · vs {report.matches.map(m => m.opponent).join(', ')}
+            </div>
+
+            <section>
+              <h3 className="font-semibold text-white mb-2">Setter distribution by rotation &amp; reception quality</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full border-collapse text-xs">
+                  <thead>
+                    <tr className="text-white/70 border-b border-white/20">
+                      <th className="px-2 py-1 text-left">Rot</th>
+                      {QUALITY_COLUMNS.map(q => <th key={q} className="px-2 py-1 text-left">{q === 'Transition' ? 'Transition' : `Pass ${q}`}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[1, 2, 3, 4, 5, 6].map(rotation => (
+                      <tr key={rotation} className="border-b border-white/10 align-top">
+                        <td className="px-2 py-1 font-medium">P{rotation}</td>
+                        {QUALITY_COLUMNS.map(q => {
+                          const cell = report.setterDistribution.find(c => c.rotation === rotation && c.receptionQuality === q);
+                          return (
+                            <td key={q} className="px-2 py-1">
+                              {cell ? <><span className="text-white/40">n={cell.attempts} </span>{formatZoneShares(cell.zones)}</> : <span className="text-white/30">–</span>}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="font-semibold text-white mb-2">Attack tendencies by hitter</h3>
+              <table className="min-w-full border-collapse text-xs">
+                <thead>
+                  <tr className="text-white/70 border-b border-white/20">
+                    <th className="px-2 py-1 text-left">Hitter</th>
+                    <th className="px-2 py-1 text-right">Att</th>
+                    <th className="px-2 py-1 text-right">K%</th>
+                    <th className="px-2 py-1 text-right">Eff</th>
+                    <th className="px-2 py-1 text-left">From zone</th>
+                    <th className="px-2 py-1 text-left">To zone</th>
+                    <th className="px-2 py-1 text-left">Top combos</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.hitters.map(h => (
+                    <tr key={h.player} className="border-b border-white/10">
+                      <td className="px-2 py-1">{h.player}</td>
+                      <td className="px-2 py-1 text-right">{h.attack.attempts}</td>
+                      <td className="px-2 py-1 text-right">{(h.attack.killPct * 100).toFixed(0)}%</td>
+                      <td className="px-2 py-1 text-right">{h.attack.efficiency.toFixed(3)}</td>
+                      <td className="px-2 py-1">{formatZoneShares(h.startZones)}</td>
+                      <td className="px-2 py-1">{formatZoneShares(h.endZones)}</td>
+                      <td className="px-2 py-1">{h.topCombinations.map(c => `${c.code}×${c.attempts}`).join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section>
+              <h3 className="font-semibold text-white mb-2">Serve target zones</h3>
+              <div className="text-xs mb-2">Team: {formatZoneShares(report.serveTargets)}</div>
+              <table className="min-w-full border-collapse text-xs">
+                <thead>
+                  <tr className="text-white/70 border-b border-white/20">
+                    <th className="px-2 py-1 text-left">Server</th>
+                    <th className="px-2 py-1 text-right">Serves</th>
+                    <th className="px-2 py-1 text-right">Aces</th>
+                    <th className="px-2 py-1 text-right">Errors</th>
+                    <th className="px-2 py-1 text-left">Target zones</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.servers.map(s => (
+                    <tr key={s.player} className="border-b border-white/10">
+                      <td className="px-2 py-1">{s.player}</td>
+                      <td className="px-2 py-1 text-right">{s.attempts}</td>
+                      <td className="px-2 py-1 text-right">{s.aces}</td>
+                      <td className="px-2 py-1 text-right">{s.errors}</td>
+                      <td className="px-2 py-1">{formatZoneShares(s.endZones)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
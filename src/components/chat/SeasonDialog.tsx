@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarRange, X } from 'lucide-react';
+import { isDatabaseConnected, loadSeasonStats } from '@/lib/database';
+import { DEFAULT_MIN_ATTEMPTS, applyMinAttempts, getMatchActionFiles, type SeasonReport } from '@/lib/seasonStats';
+import { ChartRenderer } from './ChartRenderer';
+
+interface SeasonDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type SeasonSource = 'database' | 'files';
+
+export function SeasonDialog({ isOpen, onClose }: SeasonDialogProps) {
+  const [source, setSource] = useState<SeasonSource>(() => (isDatabaseConnected() ? 'database' : 'files'));
+  const [minAttempts, setMinAttempts] = useState(DEFAULT_MIN_ATTEMPTS);
+  const [report, setReport] = useState<SeasonReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const files = isOpen ? getMatchActionFiles() : [];
+
+  // The query runs once per source; the attempts threshold only re-ranks the loaded totals
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    const load = async () => {
+      if (source === 'database') return loadSeasonStats();
+      const { querySeasonStatsWithDuckDB } = await import('@/lib/duckdb');
+      return querySeasonStatsWithDuckDB(getMatchActionFiles().map(f => f.id));
+    };
+    load()
+      .then(result => {
+        if (!cancelled) setReport(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to aggregate the season');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, source]);
+
+  const rankedReport = useMemo(() => (report ? applyMinAttempts(report, minAttempts) : null), [report, minAttempts]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-chat-bg rounded-lg shadow-2xl w-full max-w-5xl max-h-[85vh] overflow-hidden border border-border/50 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-border/50 flex items-center justify-between bg-gradient-to-r from-primary/10 to-transparent">
+          <div className="flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="text-base font-semibold text-white">Season</h2>
+              <p className="text-xs text-muted-foreground">
+                Leaderboards and trends aggregated across every match
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b border-border/50 flex flex-wrap items-center gap-3 text-sm">
+          <div className="flex gap-1 bg-white/5 rounded p-1">
+            <button
+              onClick={() => setSource('database')}
+              disabled={!isDatabaseConnected()}
+              className={`px-3 py-1 rounded transition disabled:opacity-40 ${source === 'database' ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'}`}
+            >
+              Database
+            </button>
+            <button
+              onClick={() => setSource('files')}
+              className={`px-3 py-1 rounded transition ${source === 'files' ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'}`}
+            >
+              Local files ({files.length})
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Min attempts
+            <input
+              type="number"
+              min={1}
+              value={minAttempts}
+              onChange={(e) => setMinAttempts(Math.max(1, Number(e.target.value) || 1))}
+              className="w-16 bg-background border border-border rounded px-2 py-1 text-white"
+            />
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading && <div className="text-sm text-muted-foreground">Aggregating matches...</div>}
+          {error && <div className="text-sm text-red-400">{error}</div>}
+          {!isLoading && !error && rankedReport && rankedReport.players.length === 0 && (
+            <div className="text-sm text-muted-foreground">No player actions found.</div>
+          )}
+          {!isLoading && !error && rankedReport && rankedReport.players.length > 0 && (
+            <ChartRenderer content="" executionResults={{ season_stats: rankedReport }} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
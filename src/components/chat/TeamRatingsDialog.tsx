@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Trophy, X } from 'lucide-react';
+import { loadMatchResults } from '@/lib/database';
+import { computeRatings, predictMatchup, type MatchResult, type RatingVariant } from '@/lib/teamRatings';
+import { ChartRenderer } from './ChartRenderer';
+
+interface TeamRatingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const VARIANTS: { id: RatingVariant; label: string; description: string }[] = [
+  { id: 'match', label: 'Per match', description: 'One update per match on the result' },
+  { id: 'set', label: 'Per set', description: 'One update per set, in set order' },
+  { id: 'point', label: 'Per point', description: 'One update per match on the share of points won' },
+];
+
+export function TeamRatingsDialog({ isOpen, onClose }: TeamRatingsDialogProps) {
+  const [results, setResults] = useState<MatchResult[] | null>(null);
+  const [variant, setVariant] = useState<RatingVariant>('match');
+  const [teamA, setTeamA] = useState('');
+  const [teamB, setTeamB] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || results) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadMatchResults()
+      .then(loaded => {
+        if (!cancelled) setResults(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load match results');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, results]);
+
+  const report = useMemo(() => (results ? computeRatings(results, { variant }) : null), [results, variant]);
+
+  // Default the matchup to the two top-rated teams
+  useEffect(() => {
+    if (!report || report.standings.length < 2) return;
+    if (!teamA) setTeamA(report.standings[0].team);
+    if (!teamB) setTeamB(report.standings[1].team);
+  }, [report, teamA, teamB]);
+
+  const prediction = useMemo(
+    () => (report && teamA && teamB && teamA !== teamB ? predictMatchup(report, teamA, teamB) : null),
+    [report, teamA, teamB]
+  );
+
+  if (!isOpen) return null;
+
+  const teams = report ? report.standings.map(s => s.team).sort() : [];
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-chat-bg rounded-lg shadow-2xl w-full max-w-5xl max-h-[85vh] overflow-hidden border border-border/50 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-border/50 flex items-center justify-between bg-gradient-to-r from-primary/10 to-transparent">
+          <div className="flex items-center gap-2">
+            <Trophy className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="text-base font-semibold text-white">Team Ratings</h2>
+              <p className="text-xs text-muted-foreground">
+                Elo over every match in the database, in match_id order
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {isLoading && <div className="text-sm text-muted-foreground">Loading match results...</div>}
+          {error && <div className="text-sm text-red-400">{error}</div>}
+          {!isLoading && !error && report && report.standings.length === 0 && (
+            <div className="text-sm text-muted-foreground">No completed matches found.</div>
+          )}
+          {!isLoading && !error && report && report.standings.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex gap-1 bg-white/5 rounded p-1">
+                  {VARIANTS.map(v => (
+                    <button
+                      key={v.id}
+                      onClick={() => setVariant(v.id)}
+                      title={v.description}
+                      className={`px-3 py-1 rounded text-sm transition ${v.id === variant ? 'bg-blue-500 text-white' : 'text-white/70 hover:text-white'}`}
+                    >
+                      {v.label}
+                    </button>
+                  ))}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  K={report.k} · {report.matches} matches · {report.standings.length} teams
+                </span>
+              </div>
+
+              {/* Matchup predictor */}
+              <div className="p-3 bg-white/5 rounded-lg border border-white/10 space-y-2">
+                <div className="text-sm font-semibold text-white">Predict a matchup</div>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <select value={teamA} onChange={(e) => setTeamA(e.target.value)} className="bg-background border border-border rounded px-2 py-1">
+                    {teams.map(team => <option key={team} value={team}>{team}</option>)}
+                  </select>
+                  <span className="text-muted-foreground">vs</span>
+                  <select value={teamB} onChange={(e) => setTeamB(e.target.value)} className="bg-background border border-border rounded px-2 py-1">
+                    {teams.map(team => <option key={team} value={team}>{team}</option>)}
+                  </select>
+                </div>
+                {prediction ? (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                    <div>
+                      <div className="text-muted-foreground">Ratings</div>
+                      <div className="text-white">{prediction.ratingA.toFixed(0)} – {prediction.ratingB.toFixed(0)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">{teamA} wins match</div>
+                      <div className="text-white font-semibold">{percent(prediction.matchWinProbability)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">{teamA} wins a set</div>
+                      <div className="text-white">{percent(prediction.setWinProbability)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Likeliest score</div>
+                      <div className="text-white">{prediction.likeliestScore}</div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-xs text-muted-foreground">Pick two different teams.</div>
+                )}
+              </div>
+
+              <ChartRenderer content="" executionResults={{ team_ratings: report }} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
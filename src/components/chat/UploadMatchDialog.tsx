@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from 'react';
+import { CloudUpload, X } from 'lucide-react';
+import { formatDbError, ingestMatchRows, initVolleyballDB, type IngestResult } from '@/lib/database';
+
+interface UploadMatchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  csvId: string;
+  fileName: string;
+}
+
+const STATUS_LABELS: Record<IngestResult['matches'][number]['status'], { label: string; className: string }> = {
+  new: { label: 'New', className: 'text-green-400' },
+  replace: { label: 'Replace', className: 'text-amber-400' },
+  skip: { label: 'Already uploaded', className: 'text-muted-foreground' },
+};
+
+// Dry-run diff of a local match file against the team database, then the actual upload
+export function UploadMatchDialog({ isOpen, onClose, csvId, fileName }: UploadMatchDialogProps) {
+  const rowsRef = useRef<any[] | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [diff, setDiff] = useState<IngestResult | null>(null);
+  const [uploaded, setUploaded] = useState<IngestResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset when another file is picked
+  useEffect(() => {
+    rowsRef.current = null;
+    setDiff(null);
+    setUploaded(null);
+  }, [csvId]);
+
+  useEffect(() => {
+    if (!isOpen || uploaded) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    const load = async () => {
+      if (!rowsRef.current) {
+        // DuckDB-backed files keep their rows in the csvData table; others are read from storage
+        const { executeDuckDBSql } = await import('@/lib/duckdb');
+        let rows = await executeDuckDBSql(csvId, 'SELECT * FROM csvData').catch(() => null);
+        if (!rows || rows.length === 0) {
+          const { getCsvFileData } = await import('@/lib/chatApi');
+          rows = (await getCsvFileData(csvId)) || [];
+        }
+        if (rows.length === 0) throw new Error(`${fileName} has no rows to upload`);
+        rowsRef.current = rows;
+      }
+      return ingestMatchRows(rowsRef.current, { dryRun: true, replace });
+    };
+    load()
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(formatDbError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, csvId, fileName, replace, uploaded]);
+
+  const handleUpload = async () => {
+    if (!rowsRef.current) return;
+    setIsUploading(true);
+    setError(null);
+    try {
+      setUploaded(await ingestMatchRows(rowsRef.current, { replace }));
+      // Reload the match list so the new matches show up
+      if (await initVolleyballDB()) {
+        window.dispatchEvent(new Event('databaseUpdated'));
+      }
+    } catch (err) {
+      setError(formatDbError(err));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const shown = uploaded || diff;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-chat-bg rounded-lg shadow-2xl w-full max-w-3xl max-h-[85vh] overflow-hidden border border-border/50 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-border/50 flex items-center justify-between bg-gradient-to-r from-primary/10 to-transparent">
+          <div className="flex items-center gap-2">
+            <CloudUpload className="w-5 h-5 text-primary" />
+            <div>
+              <h2 className="text-base font-semibold text-white">Upload to team database</h2>
+              <p className="text-xs text-muted-foreground">
+                {fileName}{shown ? ` → ${shown.tableName}` : ''}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-white transition-colors p-1.5 hover:bg-white/10 rounded"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {isLoading && <div className="text-sm text-muted-foreground">Checking matches against the database...</div>}
+          {error && <div className="text-sm text-red-400 whitespace-pre-wrap">{error}</div>}
+          {uploaded && (
+            <div className="text-sm text-green-400">
+              Uploaded {uploaded.inserted.toLocaleString()} rows
+              {uploaded.rowsToDelete > 0 ? ` (replaced ${uploaded.rowsToDelete.toLocaleString()} old rows)` : ''}
+              , cleared {uploaded.purged} cached responses.
+            </div>
+          )}
+          {!isLoading && shown && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border/50">
+                  <th className="py-1 pr-2">Match</th>
+                  <th className="py-1 pr-2">Teams</th>
+                  <th className="py-1 pr-2 text-right">Rows in file</th>
+                  <th className="py-1 pr-2 text-right">Rows in database</th>
+                  <th className="py-1">{uploaded ? 'Result' : 'Will be'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.matches.map(match => (
+                  <tr key={match.match_id} className="border-b border-border/20">
+                    <td className="py-1 pr-2 text-white">{match.match_id}</td>
+                    <td className="py-1 pr-2">{match.home_team} vs {match.visiting_team}</td>
+                    <td className="py-1 pr-2 text-right">{match.incomingRows.toLocaleString()}</td>
+                    <td className="py-1 pr-2 text-right">{match.existingRows.toLocaleString()}</td>
+                    <td className={`py-1 ${STATUS_LABELS[match.status].className}`}>{STATUS_LABELS[match.status].label}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {!uploaded && (
+          <div className="px-4 py-3 border-t border-border/50 flex items-center justify-between gap-3 text-sm">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} disabled={isLoading || isUploading} />
+              Replace matches already in the database
+            </label>
+            <button
+              onClick={handleUpload}
+              disabled={isLoading || isUploading || !diff || diff.rowsToInsert === 0}
+              className="px-3 py-1.5 rounded bg-blue-500 text-white transition disabled:opacity-40"
+            >
+              {isUploading
+                ? 'Uploading...'
+                : diff && diff.rowsToInsert > 0
+                ? `Upload ${diff.rowsToInsert.toLocaleString()} rows`
+                : 'Nothing to upload'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
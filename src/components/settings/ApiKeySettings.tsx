@@ -13,6 +13,7 @@ import {
   setDefaultModelId as setStoredDefaultModelId,
   type OpenRouterModel 
 } from "@/lib/openRouterModels";
+import CustomProviderSettings from "./CustomProviderSettings";
 
 interface ApiKeySettingsProps {
   isOpen: boolean;
@@ -564,6 +565,23 @@ const ApiKeySettings = ({ isOpen, onClose, contentOnly = false }: ApiKeySettings
           </div>
         )}
 
+        {/* Custom OpenAI-compatible provider (self-hosted models) */}
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold">Custom Provider (OpenAI-compatible)</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleSetDefaultApiProvider('custom')}
+              className={`${defaultApiProviderId === 'custom' ? 'text-primary hover:text-primary' : 'text-muted-foreground hover:text-primary'} hover:bg-primary/10`}
+              title={defaultApiProviderId === 'custom' ? "This is the default API provider" : "Set as default API provider"}
+            >
+              <Star className={`h-4 w-4 ${defaultApiProviderId === 'custom' ? 'fill-current' : ''}`} />
+            </Button>
+          </div>
+          <CustomProviderSettings />
+        </div>
+
         {/* Image Generation APIs */}
         <div className="mb-6">
           <h3 className="text-lg font-semibold mb-3">Image Generation APIs</h3>
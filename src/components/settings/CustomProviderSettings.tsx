@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2 } from "lucide-react";
+import { getApiKey, setApiKey, removeApiKey } from "@/lib/apiKeys";
+import {
+  fetchCustomProviderModels,
+  getCustomProviderConfig,
+  setCustomProviderConfig,
+  type CustomModel,
+  type CustomProviderConfig,
+} from "@/lib/customProvider";
+
+const DEFAULT_CONTEXT_LIMIT = 32768;
+
+// "Name: value" per line <-> header map
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join("\n");
+
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+};
+
+// Server, headers and models of the custom OpenAI-compatible provider
+const CustomProviderSettings = () => {
+  const [config, setConfig] = useState<CustomProviderConfig>(() => getCustomProviderConfig());
+  const [headersText, setHeadersText] = useState(() => formatHeaders(getCustomProviderConfig().headers));
+  const [apiKey, setApiKeyState] = useState(() => getApiKey("custom") || "");
+  const [newModelId, setNewModelId] = useState("");
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = (updated: CustomProviderConfig) => {
+    setConfig(updated);
+    setCustomProviderConfig(updated);
+  };
+
+  const saveApiKey = (key: string) => {
+    if (key.trim()) setApiKey("custom", key.trim());
+    else removeApiKey("custom");
+  };
+
+  const addModels = (ids: string[]) => {
+    const existing = new Set(config.models.map(model => model.id));
+    const added: CustomModel[] = ids
+      .filter(id => id && !existing.has(id))
+      .map(id => ({ id, name: id, contextLimit: DEFAULT_CONTEXT_LIMIT }));
+    if (added.length > 0) save({ ...config, models: [...config.models, ...added] });
+  };
+
+  const updateModel = (id: string, updates: Partial<CustomModel>) => {
+    save({ ...config, models: config.models.map(model => (model.id === id ? { ...model, ...updates } : model)) });
+  };
+
+  const handleLoadModels = async () => {
+    setIsLoadingModels(true);
+    setError(null);
+    try {
+      const ids = await fetchCustomProviderModels(config, apiKey.trim() || null);
+      if (ids.length === 0) setError("The server did not report any models. Add them by name instead.");
+      addModels(ids);
+    } catch (err: any) {
+      setError(`${err?.message || "Could not reach the server"}. Check the URL, and that the server allows requests from this origin (CORS).`);
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 border border-border rounded-lg">
+      <p className="text-sm text-muted-foreground">
+        Any OpenAI-compatible chat-completions server, e.g. llama.cpp, vLLM or Ollama on this machine. Requests go straight from your browser to the server.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Base URL</label>
+          <Input
+            value={config.baseUrl}
+            onChange={(e) => setConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+            onBlur={(e) => save({ ...config, baseUrl: e.target.value.trim() })}
+            placeholder="http://localhost:11434/v1"
+            className="text-xs"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">API key (optional)</label>
+          <Input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKeyState(e.target.value)}
+            onBlur={(e) => saveApiKey(e.target.value)}
+            placeholder="Sent as Bearer token"
+            className="text-xs"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Extra headers (one "Name: value" per line)</label>
+        <Textarea
+          value={headersText}
+          onChange={(e) => setHeadersText(e.target.value)}
+          onBlur={(e) => save({ ...config, headers: parseHeaders(e.target.value) })}
+          placeholder="X-Team: volleyball"
+          className="text-xs min-h-[60px]"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-muted-foreground block">Models ({config.models.length})</label>
+        {config.models.map(model => (
+          <div key={model.id} className="flex items-center gap-2">
+            <span className="text-xs font-mono flex-1 truncate" title={model.id}>{model.id}</span>
+            <Input
+              value={model.name}
+              onChange={(e) => updateModel(model.id, { name: e.target.value })}
+              className="text-xs w-40"
+              title="Display name"
+            />
+            <Input
+              type="number"
+              value={model.contextLimit}
+              onChange={(e) => updateModel(model.id, { contextLimit: parseInt(e.target.value) || 0 })}
+              className="text-xs w-28"
+              title="Context limit (tokens)"
+              min="0"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => save({ ...config, models: config.models.filter(m => m.id !== model.id) })}
+              className="text-red-500 hover:text-red-700 hover:bg-red-500/10"
+              title="Remove model"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input
+            value={newModelId}
+            onChange={(e) => setNewModelId(e.target.value)}
+            placeholder="Model name on the server, e.g. llama3.1:8b"
+            className="text-xs"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!newModelId.trim()}
+            onClick={() => {
+              addModels([newModelId.trim()]);
+              setNewModelId("");
+            }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+          <Button size="sm" variant="outline" disabled={!config.baseUrl.trim() || isLoadingModels} onClick={handleLoadModels}>
+            {isLoadingModels ? "Loading..." : "Load from server"}
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+export default CustomProviderSettings;
@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { initVolleyballDB, listServerBackends } from "@/lib/database";
+import { DB_BACKENDS, getDbBackendId, setDbBackendId, type DbBackendKind } from "@/lib/dbBackends";
+import {
+  attachDuckDBFile,
+  attachDuckDBUrl,
+  detachDuckDBFile,
+  getAttachedDuckDBSource,
+  type AttachedDuckDBSource,
+} from "@/lib/attachedDuckDB";
+
+interface DatabaseBackendSelectProps {
+  // Called after a switch, once the new backend's table settings are in localStorage
+  onChange?: (backend: DbBackendKind) => void;
+}
+
+// Which team database callDbApi talks to; DuckDB files are attached here instead of on the server
+const DatabaseBackendSelect = ({ onChange }: DatabaseBackendSelectProps) => {
+  const [backendId, setBackendId] = useState<DbBackendKind>(() => getDbBackendId());
+  const [serverBackends, setServerBackends] = useState<DbBackendKind[] | null>(null);
+  const [duckdbSource, setDuckdbSource] = useState<AttachedDuckDBSource | null>(() => getAttachedDuckDBSource());
+  const [duckdbUrl, setDuckdbUrl] = useState("");
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Mark the server backends without credentials; needs a session, so failures just leave all enabled
+  useEffect(() => {
+    listServerBackends()
+      .then(result => setServerBackends(result.backends.map(backend => backend.kind)))
+      .catch(() => setServerBackends(null));
+  }, []);
+
+  const reconnect = async () => {
+    await initVolleyballDB();
+    window.dispatchEvent(new Event("databaseUpdated"));
+  };
+
+  const handleSelect = async (id: DbBackendKind) => {
+    setError(null);
+    setDbBackendId(id);
+    setBackendId(id);
+    onChange?.(id);
+    if (id !== "duckdb" || getAttachedDuckDBSource()) await reconnect();
+  };
+
+  const attach = async (run: () => Promise<void>) => {
+    setIsAttaching(true);
+    setError(null);
+    try {
+      await run();
+      setDuckdbSource(getAttachedDuckDBSource());
+      await reconnect();
+    } catch (err: any) {
+      setError(err?.message || "Could not attach the DuckDB file");
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
+  const handleDetach = async () => {
+    await detachDuckDBFile();
+    setDuckdbSource(null);
+    await reconnect();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {DB_BACKENDS.map(backend => {
+          const unavailable = backend.remote && serverBackends !== null && !serverBackends.includes(backend.id);
+          return (
+            <Button
+              key={backend.id}
+              size="sm"
+              variant={backendId === backend.id ? "default" : "outline"}
+              onClick={() => handleSelect(backend.id)}
+              title={unavailable ? `${backend.description} - not configured on the server` : backend.description}
+              className={unavailable ? "opacity-60" : ""}
+            >
+              {backend.name}
+            </Button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {DB_BACKENDS.find(backend => backend.id === backendId)?.description}
+        {serverBackends !== null && backendId !== "duckdb" && !serverBackends.includes(backendId) && " - not configured on the server"}
+      </p>
+
+      {backendId === "duckdb" && (
+        <div className="p-3 bg-accent/50 border border-border rounded-lg space-y-2">
+          {duckdbSource ? (
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                Attached: <span className="font-medium">{duckdbSource.name}</span>
+                {duckdbSource.kind === "file" && (
+                  <span className="text-xs text-muted-foreground ml-2">(pick it again after reloading the page)</span>
+                )}
+              </span>
+              <Button variant="outline" size="sm" onClick={handleDetach}>Detach</Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">No DuckDB file attached. It is opened read-only in your browser; nothing is uploaded.</p>
+          )}
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".duckdb,.db"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) attach(() => attachDuckDBFile(file));
+              }}
+            />
+            <Button size="sm" variant="outline" disabled={isAttaching} onClick={() => fileInputRef.current?.click()}>
+              Choose .duckdb file
+            </Button>
+            <Input
+              value={duckdbUrl}
+              onChange={(e) => setDuckdbUrl(e.target.value)}
+              placeholder="https://example.com/team.duckdb"
+            />
+            <Button size="sm" disabled={isAttaching || !duckdbUrl.trim()} onClick={() => attach(() => attachDuckDBUrl(duckdbUrl.trim()))}>
+              {isAttaching ? "Attaching..." : "Attach URL"}
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+export default DatabaseBackendSelect;
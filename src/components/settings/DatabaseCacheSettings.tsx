@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { RefreshCw, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  getDatabaseCacheStats,
+  getDbCacheOptions,
+  initVolleyballDB,
+  purgeDatabaseCache,
+  saveDbCacheOptions,
+  type CachedDbAction,
+  type DbCacheOptions,
+  type DbCacheStats,
+} from "@/lib/database";
+
+const ACTION_LABELS: Record<CachedDbAction, string> = {
+  query: "Queries",
+  count: "Row counts",
+  matches: "Match lists",
+  listTables: "Table lists",
+  describeTable: "Table descriptions",
+  matchData: "Match data",
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatTtl = (seconds: number) => (seconds >= 3600 ? `${seconds / 3600}h` : `${Math.round(seconds / 60)}m`);
+
+interface DatabaseCacheSettingsProps {
+  tables: string[];
+}
+
+// R2 query cache: stats, purges and per-browser freshness options
+const DatabaseCacheSettings = ({ tables }: DatabaseCacheSettingsProps) => {
+  const [stats, setStats] = useState<DbCacheStats | null>(null);
+  const [options, setOptions] = useState<DbCacheOptions>(() => getDbCacheOptions());
+  const [purgeTable, setPurgeTable] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadStats = async () => {
+    try {
+      setStats(await getDatabaseCacheStats());
+    } catch (error: any) {
+      setStatus(error?.message || "Could not load cache stats");
+    }
+  };
+
+  // Reload after signing in or out
+  useEffect(() => {
+    loadStats();
+    const handleAuthChanged = () => {
+      setStatus(null);
+      loadStats();
+    };
+    window.addEventListener("databaseAuthChanged", handleAuthChanged);
+    return () => window.removeEventListener("databaseAuthChanged", handleAuthChanged);
+  }, []);
+
+  const updateOptions = (next: DbCacheOptions) => {
+    setOptions(next);
+    saveDbCacheOptions(next);
+  };
+
+  const handlePurge = async (filter: { table?: string; cacheAction?: CachedDbAction }, label: string) => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const purged = await purgeDatabaseCache(filter);
+      setStatus(`Purged ${purged} cached ${purged === 1 ? "entry" : "entries"} (${label})`);
+      // Reload the match list so newly loaded matches show up
+      if (await initVolleyballDB()) {
+        window.dispatchEvent(new Event("databaseUpdated"));
+      }
+      await loadStats();
+    } catch (error: any) {
+      setStatus(error?.message || "Purge failed");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium">Query Cache</label>
+        <Button variant="ghost" size="sm" onClick={loadStats} title="Refresh cache stats">
+          <RefreshCw className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {stats && (
+        <div className="p-3 bg-accent/50 border border-border rounded-lg text-xs space-y-1">
+          <div className="text-muted-foreground">
+            {stats.entries} cached responses · {formatBytes(stats.bytes)}
+          </div>
+          {(Object.keys(ACTION_LABELS) as CachedDbAction[]).map(action => {
+            const entry = stats.byAction[action];
+            return (
+              <div key={action} className="flex items-center justify-between">
+                <span>
+                  {ACTION_LABELS[action]}
+                  <span className="text-muted-foreground ml-2">
+                    {entry ? `${entry.entries} · ${formatBytes(entry.bytes)}` : "empty"} · fresh for {formatTtl(stats.ttlSeconds[action])}
+                  </span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  disabled={isBusy || !entry}
+                  onClick={() => handlePurge({ cacheAction: action }, ACTION_LABELS[action].toLowerCase())}
+                >
+                  Purge
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={purgeTable}
+          onChange={(e) => setPurgeTable(e.target.value)}
+          placeholder="Table name"
+          list="cache-purge-tables"
+        />
+        <datalist id="cache-purge-tables">
+          {tables.map(t => <option key={t} value={t} />)}
+        </datalist>
+        <Button
+          variant="outline"
+          disabled={isBusy || !purgeTable.trim()}
+          onClick={() => handlePurge({ table: purgeTable.trim() }, purgeTable.trim())}
+        >
+          Purge table
+        </Button>
+        <Button variant="outline" disabled={isBusy} onClick={() => handlePurge({}, "everything")}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          Purge all
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!!options.noCache}
+            onChange={(e) => updateOptions({ ...options, noCache: e.target.checked })}
+          />
+          Bypass cache (always query Neon)
+        </label>
+        <label className="flex items-center gap-2">
+          Max cache age
+          <Input
+            type="number"
+            min="0"
+            className="w-24 h-8"
+            value={options.maxAge != null ? Math.round(options.maxAge / 60) : ""}
+            onChange={(e) => {
+              const minutes = e.target.value === "" ? null : Number(e.target.value);
+              updateOptions({ ...options, maxAge: minutes != null && Number.isFinite(minutes) && minutes >= 0 ? minutes * 60 : undefined });
+            }}
+            placeholder="default"
+            disabled={!!options.noCache}
+          />
+          minutes
+        </label>
+      </div>
+      {status && <p className="text-xs text-muted-foreground">{status}</p>}
+    </div>
+  );
+};
+
+export default DatabaseCacheSettings;
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  getDatabaseSession,
+  initVolleyballDB,
+  loginToDatabase,
+  logoutFromDatabase,
+  type DatabaseSession,
+} from "@/lib/database";
+
+// Team database sign-in; /api/db rejects requests without a session token
+const DatabaseLogin = () => {
+  const [session, setSession] = useState<DatabaseSession | null>(() => getDatabaseSession());
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  // Stay in sync with sign-outs from the sidebar or expired tokens
+  useEffect(() => {
+    const handleAuthChanged = () => setSession(getDatabaseSession());
+    window.addEventListener("databaseAuthChanged", handleAuthChanged);
+    return () => window.removeEventListener("databaseAuthChanged", handleAuthChanged);
+  }, []);
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      setSession(await loginToDatabase(username.trim(), password));
+      setPassword("");
+      if (await initVolleyballDB()) {
+        window.dispatchEvent(new Event("databaseUpdated"));
+      }
+    } catch (err: any) {
+      setError(err?.message || "Sign-in failed");
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  if (session) {
+    return (
+      <div className="flex items-center justify-between p-3 bg-accent/50 border border-border rounded-lg">
+        <div className="text-sm">
+          Signed in as <span className="font-medium">{session.user}</span>
+          <span className="text-xs text-muted-foreground ml-2">
+            until {new Date(session.expiresAt).toLocaleString()}
+          </span>
+        </div>
+        <Button variant="outline" size="sm" onClick={logoutFromDatabase}>Sign out</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="User name"
+          autoComplete="username"
+        />
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && username.trim() && password) handleSignIn();
+          }}
+          placeholder="Password"
+          autoComplete="current-password"
+        />
+        <Button onClick={handleSignIn} disabled={isSigningIn || !username.trim() || !password}>
+          {isSigningIn ? "Signing in..." : "Sign in"}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+export default DatabaseLogin;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { getAvailableTeams } from "@/lib/database";
+import { RECEPTION_GRADES } from "@/lib/playerReports";
+import {
+  DEFAULT_GRADING_SCALE,
+  GRADING_PRESETS,
+  getStoredGradingScales,
+  getTeamGradingScale,
+  resetTeamGradingScale,
+  saveTeamGradingScale,
+  type GradingScale,
+} from "@/lib/receptionGrading";
+
+const CODE_LABELS: Record<string, string> = {
+  "#": "Perfect",
+  "+": "Positive",
+  "!": "OK",
+  "-": "Poor",
+  "/": "Overpass",
+  "=": "Error",
+};
+
+// Per-team pass grading scales used by the reception dashboard and the receptionReport() helper
+const ReceptionGradingSettings = () => {
+  const [team, setTeam] = useState("");
+  const [scale, setScale] = useState<GradingScale>(DEFAULT_GRADING_SCALE);
+  const [storedScales, setStoredScales] = useState<Record<string, GradingScale>>(() => getStoredGradingScales());
+  const teams = getAvailableTeams();
+
+  // Load the team's saved scale when the team changes
+  useEffect(() => {
+    setScale(getTeamGradingScale(team));
+  }, [team]);
+
+  const updateScore = (code: string, value: string) => {
+    const score = Number(value);
+    if (!Number.isFinite(score)) return;
+    setScale(prev => ({ ...prev, id: "custom", label: "Custom", scores: { ...prev.scores, [code]: score } }));
+  };
+
+  const handleSave = () => {
+    if (!team.trim()) return;
+    saveTeamGradingScale(team.trim(), scale);
+    setStoredScales(getStoredGradingScales());
+  };
+
+  const handleReset = (teamName: string) => {
+    resetTeamGradingScale(teamName);
+    setStoredScales(getStoredGradingScales());
+    if (teamName === team) setScale(DEFAULT_GRADING_SCALE);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <label className="block text-sm font-medium mb-1">Pass grading scales</label>
+        <p className="text-xs text-muted-foreground">
+          Map DataVolley reception codes to your team's pass scores. Teams without a saved scale use the {DEFAULT_GRADING_SCALE.label} scale.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            value={team}
+            onChange={(e) => setTeam(e.target.value)}
+            placeholder="Team name"
+            list="reception-grading-teams"
+          />
+          <datalist id="reception-grading-teams">
+            {teams.map(t => <option key={t} value={t} />)}
+          </datalist>
+          <select
+            value={GRADING_PRESETS.some(p => p.id === scale.id) ? scale.id : "custom"}
+            onChange={(e) => {
+              const preset = GRADING_PRESETS.find(p => p.id === e.target.value);
+              if (preset) setScale(preset);
+            }}
+            className="bg-background border border-border rounded px-2 text-sm"
+          >
+            {GRADING_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            <option value="custom" disabled>Custom</option>
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 md:grid-cols-7 gap-2">
+          {RECEPTION_GRADES.map(code => (
+            <div key={code}>
+              <label className="block text-xs text-muted-foreground mb-1">
+                <span className="font-mono">{code}</span> {CODE_LABELS[code]}
+              </label>
+              <Input
+                type="number"
+                step="0.5"
+                value={scale.scores[code]}
+                onChange={(e) => updateScore(code, e.target.value)}
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Max</label>
+            <Input
+              type="number"
+              step="0.5"
+              min="0.5"
+              value={scale.max}
+              onChange={(e) => {
+                const max = Number(e.target.value);
+                if (Number.isFinite(max) && max > 0) setScale(prev => ({ ...prev, id: "custom", label: "Custom", max }));
+              }}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleSave} disabled={!team.trim()}>Save scale for team</Button>
+      </div>
+
+      {Object.keys(storedScales).length > 0 && (
+        <div>
+          <label className="block text-sm font-medium mb-2">Saved scales</label>
+          <div className="space-y-1">
+            {Object.entries(storedScales).map(([teamName, stored]) => (
+              <div key={teamName} className="flex items-center justify-between p-2 bg-accent/50 border border-border rounded text-sm">
+                <button className="text-left hover:underline" onClick={() => setTeam(teamName)}>
+                  <span className="font-medium">{teamName}</span>
+                  <span className="text-xs text-muted-foreground ml-2">
+                    {stored.label} · {RECEPTION_GRADES.map(code => `${code}${stored.scores[code]}`).join(" ")}
+                  </span>
+                </button>
+                <Button variant="ghost" size="sm" onClick={() => handleReset(teamName)}>Reset</Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceptionGradingSettings;
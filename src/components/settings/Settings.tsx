@@ -3,15 +3,16 @@ import { X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import ApiKeySettings from "./ApiKeySettings";
 import DatabaseSettings from "./DatabaseSettings";
+import ReceptionGradingSettings from "./ReceptionGradingSettings";
 
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
-  defaultTab?: 'api' | 'database';
+  defaultTab?: 'api' | 'database' | 'passing';
 }
 
 const Settings = ({ isOpen, onClose, defaultTab = 'api' }: SettingsProps) => {
-  const [activeTab, setActiveTab] = useState<'api' | 'database'>(defaultTab);
+  const [activeTab, setActiveTab] = useState<'api' | 'database' | 'passing'>(defaultTab);
 
   if (!isOpen) return null;
 
@@ -55,6 +56,16 @@ const Settings = ({ isOpen, onClose, defaultTab = 'api' }: SettingsProps) => {
             >
               Database
             </button>
+            <button
+              onClick={() => setActiveTab('passing')}
+              className={`px-4 py-2 text-sm font-medium transition-colors border-b-2 ${
+                activeTab === 'passing'
+                  ? 'border-primary text-primary'
+                  : 'border-transparent text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              Passing
+            </button>
           </div>
         </div>
 
@@ -62,8 +73,10 @@ const Settings = ({ isOpen, onClose, defaultTab = 'api' }: SettingsProps) => {
         <div className="flex-1 overflow-y-auto">
           {activeTab === 'api' ? (
             <ApiKeySettings isOpen={true} onClose={onClose} contentOnly={true} />
-          ) : (
+          ) : activeTab === 'database' ? (
             <DatabaseSettings isOpen={true} onClose={onClose} contentOnly={true} />
+          ) : (
+            <ReceptionGradingSettings />
           )}
         </div>
       </div>
@@ -1,5 +1,6 @@
 // API Provider definitions
 import { getOpenRouterModels } from './openRouterModels';
+import { getCustomModel, getCustomModelIds, isCustomProviderConfigured } from './customProvider';
 
 export interface ApiProvider {
   id: string;
@@ -114,6 +115,11 @@ export function getProviderForModel(modelId: string): ApiProvider | null {
   const staticProvider = API_PROVIDERS.find(provider => provider.models.includes(modelId));
   if (staticProvider) return staticProvider;
 
+  // Models of the custom OpenAI-compatible provider (configured in Settings)
+  if (getCustomModel(modelId)) {
+    return API_PROVIDERS.find(p => p.id === 'custom') || null;
+  }
+
   // If not found, check if it's a custom OpenRouter model
   try {
     const customModels = getOpenRouterModels();
@@ -128,19 +134,29 @@ export function getProviderForModel(modelId: string): ApiProvider | null {
   return null;
 }
 
+// The custom provider needs a server instead of a key (local servers usually take none)
+export function isProviderUsable(providerId: string): boolean {
+  if (providerId === 'custom') return isCustomProviderConfigured();
+  return hasApiKey(providerId);
+}
+
+function getProviderModels(provider: ApiProvider): string[] {
+  return provider.id === 'custom' ? getCustomModelIds() : provider.models;
+}
+
 // Check if model has API key
 export function modelHasApiKey(modelId: string): boolean {
   const provider = getProviderForModel(modelId);
   if (!provider) return false;
-  return hasApiKey(provider.id);
+  return isProviderUsable(provider.id);
 }
 
 // Get all available models (those with API keys)
 export function getAvailableModels(): string[] {
   const available: string[] = [];
   API_PROVIDERS.forEach(provider => {
-    if (hasApiKey(provider.id)) {
-      available.push(...provider.models);
+    if (isProviderUsable(provider.id)) {
+      available.push(...getProviderModels(provider));
     }
   });
   return available;
@@ -149,10 +165,10 @@ export function getAvailableModels(): string[] {
 // Get models from a specific provider
 export function getModelsFromProvider(providerId: string): string[] {
   const provider = API_PROVIDERS.find(p => p.id === providerId);
-  if (!provider || !hasApiKey(providerId)) {
+  if (!provider || !isProviderUsable(providerId)) {
     return [];
   }
-  return provider.models;
+  return getProviderModels(provider);
 }
 
 // Get the first available model from the default API provider
@@ -1,8 +1,11 @@
 import { getApiKey, getProviderForModel } from "./apiKeys";
+import { customEndpointUrl, getCustomModel, getCustomProviderConfig } from "./customProvider";
 import { Message } from "@/types/chat";
 
 // Default API timeout (2 minutes - APIs can be slow for complex queries)
 const API_TIMEOUT_MS = 120000;
+// Self-hosted models on a laptop stream much slower than hosted APIs
+const CUSTOM_API_TIMEOUT_MS = 600000;
 
 // Create an AbortSignal that times out after the specified duration
 // and optionally combines with an existing signal
@@ -698,6 +701,88 @@ async function callDeepSeekApi(options: ApiCallOptions) {
   }
 }
 
+// Custom OpenAI-compatible API (self-hosted llama.cpp / vLLM / Ollama, or any chat-completions endpoint)
+async function callCustomApi(options: ApiCallOptions) {
+  const { prompt, model, images, conversationHistory, signal, onDelta, onDone, onError } = options;
+  const customModel = getCustomModel(model);
+  if (!customModel) throw new Error('No custom provider model found');
+
+  const config = getCustomProviderConfig();
+  const apiKey = getApiKey('custom');
+
+  try {
+    const messages: any[] = (conversationHistory || []).map(msg => ({ role: msg.role, content: msg.content || '' }));
+    const imageUrls = (images || []).filter(url => url.startsWith('data:'));
+    messages.push({
+      role: 'user',
+      content: imageUrls.length > 0
+        ? [{ type: 'text', text: prompt }, ...imageUrls.map(url => ({ type: 'image_url', image_url: { url } }))]
+        : prompt
+    });
+
+    const response = await fetch(customEndpointUrl(config.baseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        ...config.headers
+      },
+      body: JSON.stringify({
+        model: customModel.id,
+        messages,
+        stream: true
+      }),
+      signal: createTimeoutSignal(CUSTOM_API_TIMEOUT_MS, signal)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const message = typeof errorData.error === 'string' ? errorData.error : errorData.error?.message;
+      throw new Error(message || `API error: ${response.status}`);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) throw new Error('Response body is not readable');
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        // Servers differ on the space after "data:"
+        if (line.startsWith('data:')) {
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') continue;
+
+          try {
+            const json = JSON.parse(data);
+            if (json.error) throw new Error(typeof json.error === 'string' ? json.error : json.error.message || 'Stream error');
+            const content = json.choices?.[0]?.delta?.content;
+            if (content) {
+              onDelta(content);
+            }
+          } catch (e) {
+            if (!(e instanceof SyntaxError)) throw e;
+            // Skip invalid JSON
+          }
+        }
+      }
+    }
+
+    onDone();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    onError(errorMessage);
+  }
+}
+
 // Main API router
 export async function callApi(options: ApiCallOptions) {
   const { model } = options;
@@ -708,6 +793,16 @@ export async function callApi(options: ApiCallOptions) {
     return;
   }
 
+  // The custom provider's key is optional; it needs its server settings instead
+  if (provider.id === 'custom') {
+    if (!getCustomProviderConfig().baseUrl.trim()) {
+      options.onError(`No server URL set for ${provider.name}. Please add it in Settings.`);
+      return;
+    }
+    await callCustomApi(options);
+    return;
+  }
+
   const apiKey = getApiKey(provider.id);
   if (!apiKey) {
     options.onError(`No API key found for ${provider.name}. Please add it in Settings.`);
@@ -0,0 +1,359 @@
+// The "DuckDB file" team database backend: a .duckdb file (picked locally or fetched over HTTP) attached
+// read-only to the in-browser DuckDB and queried there. callAttachedDuckDB answers the /api/db actions with
+// the same response shapes and error codes, so everything behind callDbApi works unchanged.
+
+import { convertBigIntToNumber, initDuckDB } from './duckdb';
+import { MATCH_ACTION_COLUMNS, type DbApiError } from './database';
+
+export interface AttachedDuckDBSource {
+  kind: 'file' | 'url';
+  name: string;
+  url?: string;
+}
+
+const SOURCE_STORAGE_KEY = 'db_duckdb_source';
+const ATTACHED_NAME = 'team_db';
+
+// Defaults and describeTable sampling, as in /api/db
+const ROW_LIMIT = 50000;
+const DEFAULT_PAGE_SIZE = 5000;
+const DESCRIBE_SAMPLE_ROWS = 10000;
+const DESCRIBE_MAX_DISTINCT = 20;
+const DESCRIBE_SAMPLED_TYPES = /^(text|boolean|smallint|integer|bigint|numeric|real|double precision|date)$/;
+
+// Postgres names for DuckDB types, so describeTable reads the same on every backend
+const POSTGRES_TYPE_NAMES: Record<string, string> = {
+  VARCHAR: 'text',
+  BOOLEAN: 'boolean',
+  TINYINT: 'smallint',
+  SMALLINT: 'smallint',
+  INTEGER: 'integer',
+  BIGINT: 'bigint',
+  HUGEINT: 'numeric',
+  FLOAT: 'real',
+  DOUBLE: 'double precision',
+  DATE: 'date',
+  TIMESTAMP: 'timestamp without time zone',
+  'TIMESTAMP WITH TIME ZONE': 'timestamp with time zone',
+};
+
+// DuckDB error messages mapped to the /api/db error codes
+const ERROR_CODES: [RegExp, string, string?][] = [
+  [/^Parser Error/, 'SQL_SYNTAX', 'This is a DuckDB database: check quoting (identifiers in double quotes, strings in single quotes)'],
+  [/Referenced column .* not found|column .* does not exist/i, 'SQL_UNKNOWN_COLUMN'],
+  [/Table with name .* does not exist|Catalog Error: Table/i, 'SQL_UNKNOWN_TABLE'],
+  [/Function with name .* does not exist|No function matches/i, 'SQL_UNKNOWN_FUNCTION'],
+  [/must appear in the GROUP BY clause/i, 'SQL_GROUPING'],
+  [/^Conversion Error|^Out of Range Error|Division by zero/i, 'SQL_DATA'],
+  [/read-only mode|read only/i, 'SQL_NOT_READ_ONLY'],
+];
+
+let attachedTo: { db: any; conn: any } | null = null;
+let attachedFile: File | null = null;
+
+function dbError(code: string, message: string, hint?: string, status = 400): DbApiError {
+  const error: DbApiError = new Error(message);
+  error.code = code;
+  error.hint = hint;
+  error.status = status;
+  return error;
+}
+
+function toDbError(error: any): DbApiError {
+  if (error?.code) return error;
+  const message = String(error?.message || error);
+  const match = ERROR_CODES.find(([pattern]) => pattern.test(message));
+  return dbError(match ? match[1] : 'SQL_ERROR', message, match?.[2]);
+}
+
+export function getAttachedDuckDBSource(): AttachedDuckDBSource | null {
+  try {
+    const saved = localStorage.getItem(SOURCE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Error loading DuckDB source:', error);
+    return null;
+  }
+}
+
+async function detach(): Promise<void> {
+  if (!attachedTo) return;
+  try {
+    await attachedTo.conn.query(`DETACH ${ATTACHED_NAME}`);
+    await attachedTo.conn.close();
+  } catch (error) {
+    console.warn('Detaching the DuckDB file failed:', error);
+  }
+  attachedTo = null;
+}
+
+// Register the source with DuckDB and attach it read-only on a connection of its own
+async function attach(source: AttachedDuckDBSource): Promise<void> {
+  await detach();
+  const db = await initDuckDB();
+  const duckdb = await import('@duckdb/duckdb-wasm');
+  const fileName = `${ATTACHED_NAME}_${source.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+  if (source.kind === 'file') {
+    if (!attachedFile) {
+      throw dbError('CONFIG', `${source.name} is no longer open`, 'Pick the .duckdb file again in Settings → Database', 503);
+    }
+    await db.registerFileHandle(fileName, attachedFile, duckdb.DuckDBDataProtocol.BROWSER_FILEREADER, true);
+  } else {
+    await db.registerFileURL(fileName, source.url, duckdb.DuckDBDataProtocol.HTTP, false);
+  }
+  const conn = await db.connect();
+  try {
+    await conn.query(`ATTACH '${fileName.replace(/'/g, "''")}' AS ${ATTACHED_NAME} (READ_ONLY)`);
+    // Unqualified table names resolve inside the attached file
+    await conn.query(`USE ${ATTACHED_NAME}`);
+  } catch (error) {
+    await conn.close();
+    throw dbError('CONFIG', `Could not open ${source.name} as a DuckDB database: ${(error as Error)?.message || error}`, undefined, 503);
+  }
+  attachedTo = { db, conn };
+}
+
+async function getConnection(): Promise<any> {
+  // A DuckDB reset drops the attachment along with the old instance
+  if (attachedTo && attachedTo.db === (await initDuckDB())) return attachedTo.conn;
+  const source = getAttachedDuckDBSource();
+  if (!source) {
+    throw dbError('CONFIG', 'No DuckDB file attached', 'Choose a .duckdb file or URL in Settings → Database', 503);
+  }
+  await attach(source);
+  return attachedTo!.conn;
+}
+
+// Attach a local .duckdb file; it stays readable until the page is reloaded
+export async function attachDuckDBFile(file: File): Promise<void> {
+  attachedFile = file;
+  const source: AttachedDuckDBSource = { kind: 'file', name: file.name };
+  await attach(source);
+  localStorage.setItem(SOURCE_STORAGE_KEY, JSON.stringify(source));
+}
+
+// Attach a .duckdb file served over HTTP (the server must allow range requests and CORS)
+export async function attachDuckDBUrl(url: string): Promise<void> {
+  const source: AttachedDuckDBSource = { kind: 'url', name: url.split('/').pop() || url, url };
+  await attach(source);
+  localStorage.setItem(SOURCE_STORAGE_KEY, JSON.stringify(source));
+}
+
+export async function detachDuckDBFile(): Promise<void> {
+  await detach();
+  attachedFile = null;
+  localStorage.removeItem(SOURCE_STORAGE_KEY);
+}
+
+async function runSql(sql: string, params: any[] = []): Promise<any[]> {
+  const conn = await getConnection();
+  try {
+    let result;
+    if (params.length > 0) {
+      const statement = await conn.prepare(sql);
+      try {
+        result = await statement.query(...params);
+      } finally {
+        await statement.close();
+      }
+    } else {
+      result = await conn.query(sql);
+    }
+    // List columns arrive as Arrow vectors
+    return convertBigIntToNumber(result.toArray().map((row: any) => Object.fromEntries(
+      Object.entries(row.toJSON ? row.toJSON() : row).map(([key, value]: [string, any]) =>
+        [key, value && typeof value.toArray === 'function' ? Array.from(value.toArray()) : value])
+    )));
+  } catch (error) {
+    throw toDbError(error);
+  }
+}
+
+// The query action only runs one SELECT (the file is attached read-only, but ATTACH, COPY or USE would still run)
+function validateSelect(query: string): string {
+  const statement = query.trim().replace(/;\s*$/, '');
+  if (!statement) throw dbError('SQL_EMPTY', 'Query is required');
+  const code = statement.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\//g, ' ');
+  if (code.includes(';')) {
+    throw dbError('SQL_MULTIPLE_STATEMENTS', 'Only one statement per query', 'Split the work into separate queries');
+  }
+  if (!/^\s*(\(\s*)*(SELECT|WITH)\b/i.test(code)) {
+    throw dbError('SQL_NOT_READ_ONLY', 'Only SELECT queries are allowed', 'Start the query with SELECT or WITH');
+  }
+  return statement;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${String(name).replace(/"/g, '""')}"`;
+}
+
+async function listTables(): Promise<string[]> {
+  const rows = await runSql(
+    `SELECT table_name FROM duckdb_tables() WHERE database_name = '${ATTACHED_NAME}' AND NOT internal ORDER BY table_name`
+  );
+  return rows.map(row => String(row.table_name));
+}
+
+async function assertTable(name: string): Promise<void> {
+  const tables = await listTables();
+  if (!tables.some(table => table.toLowerCase() === String(name).toLowerCase())) {
+    throw dbError('SQL_UNKNOWN_TABLE', `Table ${name} does not exist in the DuckDB file`, `Tables: ${tables.join(', ') || 'none'}`, 404);
+  }
+}
+
+function readPage(params: any): { offset: number; pageSize: number } | null {
+  if (params.cursor == null && params.pageSize == null) return null;
+  let offset = 0;
+  if (params.cursor != null) {
+    try {
+      offset = Number(JSON.parse(atob(String(params.cursor))).offset);
+    } catch {
+      offset = NaN;
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw dbError('BAD_REQUEST', 'Invalid cursor', 'Pass back the nextCursor of the previous page unchanged');
+    }
+  }
+  const requested = Number(params.pageSize);
+  const pageSize = Number.isFinite(requested) && requested > 0 ? Math.floor(requested) : DEFAULT_PAGE_SIZE;
+  return { offset, pageSize: Math.min(pageSize, ROW_LIMIT) };
+}
+
+function slicePage(rows: any[], page: { offset: number; pageSize: number }) {
+  const hasMore = rows.length > page.pageSize;
+  return {
+    rows: hasMore ? rows.slice(0, page.pageSize) : rows,
+    nextCursor: hasMore ? btoa(JSON.stringify({ offset: page.offset + page.pageSize })) : null,
+  };
+}
+
+async function describeTable(tableName: string) {
+  await assertTable(tableName);
+  const columnRows = await runSql(
+    `SELECT column_name, data_type, is_nullable FROM information_schema.columns
+     WHERE table_catalog = '${ATTACHED_NAME}' AND table_name = $1 ORDER BY ordinal_position`,
+    [tableName]
+  );
+  const columns = columnRows.map(row => {
+    const type = String(row.data_type).toUpperCase();
+    return {
+      name: String(row.column_name),
+      dataType: POSTGRES_TYPE_NAMES[type] || (type.startsWith('DECIMAL') ? 'numeric' : type.toLowerCase()),
+      nullable: row.is_nullable === 'YES',
+    };
+  });
+
+  const quotedTable = quoteIdentifier(tableName);
+  const rowCount = Number((await runSql(`SELECT COUNT(*) AS count FROM ${quotedTable}`))[0]?.count) || 0;
+
+  const sampled = columns.map((column, index) => ({ ...column, index })).filter(column => DESCRIBE_SAMPLED_TYPES.test(column.dataType));
+  const distinctValues: Record<string, any[]> = {};
+  const nullCounts: Record<string, number> = {};
+  let sampleSize = 0;
+  if (sampled.length > 0) {
+    const selects = sampled.map(column => {
+      const quoted = quoteIdentifier(column.name);
+      return `(SELECT list(v ORDER BY v) FROM (SELECT DISTINCT ${quoted} AS v FROM sample WHERE ${quoted} IS NOT NULL LIMIT ${DESCRIBE_MAX_DISTINCT + 1}) d) AS d${column.index},
+        (SELECT COUNT(*) FROM sample WHERE ${quoted} IS NULL) AS n${column.index}`;
+    });
+    const sample = (await runSql(`WITH sample AS (SELECT * FROM ${quotedTable} LIMIT ${DESCRIBE_SAMPLE_ROWS})
+      SELECT (SELECT COUNT(*) FROM sample) AS sample_size, ${selects.join(',\n')}`))[0] || {};
+    sampleSize = Number(sample.sample_size) || 0;
+    for (const column of sampled) {
+      const values = sample[`d${column.index}`];
+      if (Array.isArray(values) && values.length <= DESCRIBE_MAX_DISTINCT) distinctValues[column.name] = values;
+      nullCounts[column.name] = Number(sample[`n${column.index}`]) || 0;
+    }
+  }
+
+  return {
+    name: tableName,
+    rowCount,
+    rowCountExact: true,
+    sampleSize,
+    columns: columns.map(column => ({
+      ...column,
+      ...(column.name in nullCounts ? { sampleNullCount: nullCounts[column.name] } : {}),
+      ...(column.name in distinctValues ? { distinctValues: distinctValues[column.name] } : {}),
+    })),
+  };
+}
+
+/**
+ * Answer an /api/db action from the attached file. Nothing is cached (the file is local or already
+ * cached by the browser) and ingest is refused: the attachment is read-only.
+ */
+export async function callAttachedDuckDB(action: string, params: any = {}): Promise<any> {
+  switch (action) {
+    case 'query': {
+      const statement = validateSelect(String(params.query || ''));
+      const page = readPage(params);
+      if (page) {
+        const rows = await runSql(`SELECT * FROM (\n${statement}\n) AS paged_query LIMIT ${page.pageSize + 1} OFFSET ${page.offset}`, params.params || []);
+        return { success: true, ...slicePage(rows, page), truncated: false, meta: { cached: false, pageSize: page.pageSize, offset: page.offset } };
+      }
+      const capped = await runSql(`SELECT * FROM (\n${statement}\n) AS capped_query LIMIT ${ROW_LIMIT + 1}`, params.params || []);
+      const truncated = capped.length > ROW_LIMIT;
+      return { success: true, rows: truncated ? capped.slice(0, ROW_LIMIT) : capped, truncated, meta: { cached: false, rowLimit: ROW_LIMIT } };
+    }
+
+    case 'count': {
+      if (!params.tableName) throw dbError('BAD_REQUEST', 'Table name is required');
+      const where = Array.isArray(params.whereConditions) && params.whereConditions.length > 0
+        ? ` WHERE ${params.whereConditions.join(' AND ')}`
+        : '';
+      const statement = validateSelect(`SELECT COUNT(*) AS count FROM ${quoteIdentifier(params.tableName)}${where}`);
+      return { success: true, count: Number((await runSql(statement))[0]?.count) || 0 };
+    }
+
+    case 'matches': {
+      const tableName = params.tableName || 'combined_dvw';
+      await assertTable(tableName);
+      const matches = await runSql(`SELECT DISTINCT match_id, home_team, visiting_team FROM ${quoteIdentifier(tableName)}
+        WHERE match_id IS NOT NULL AND home_team IS NOT NULL AND visiting_team IS NOT NULL ORDER BY match_id`);
+      return { success: true, matches };
+    }
+
+    case 'listTables':
+      return { success: true, tables: await listTables() };
+
+    case 'describeTable':
+      if (!params.tableName) throw dbError('BAD_REQUEST', 'Table name is required');
+      return { success: true, table: await describeTable(params.tableName) };
+
+    case 'matchData': {
+      if (!params.matchId) throw dbError('BAD_REQUEST', 'Match ID is required');
+      const tableName = params.tableName || 'combined_dvw';
+      await assertTable(tableName);
+      const query = `SELECT ${MATCH_ACTION_COLUMNS.join(', ')} FROM ${quoteIdentifier(tableName)}
+        WHERE match_id = $1 ORDER BY point_id, video_time`;
+      const page = readPage(params);
+      if (page) {
+        const { rows, nextCursor } = slicePage(await runSql(`${query} LIMIT ${page.pageSize + 1} OFFSET ${page.offset}`, [params.matchId]), page);
+        return { success: true, data: rows, nextCursor };
+      }
+      return { success: true, data: await runSql(query, [params.matchId]) };
+    }
+
+    case 'cacheStats':
+      return {
+        success: true,
+        stats: {
+          entries: 0,
+          bytes: 0,
+          byAction: {},
+          byTable: {},
+          ttlSeconds: { query: 0, count: 0, matches: 0, listTables: 0, describeTable: 0, matchData: 0 },
+        },
+      };
+
+    case 'cachePurge':
+      return { success: true, purged: 0 };
+
+    case 'ingest':
+      throw dbError('INGEST_FORBIDDEN', 'DuckDB files are attached read-only', 'Upload to a team database served by /api/db instead', 403);
+
+    default:
+      throw dbError('BAD_REQUEST', `Unknown action: ${action}`);
+  }
+}
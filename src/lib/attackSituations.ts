@@ -0,0 +1,171 @@
+// Attack efficiency by situation
+// Situations of an attack:
+// - in_system: first ball after a perfect or positive reception (# or +)
+// - out_of_system: first ball after any other reception (!, -, /)
+// - transition: attacks after a dig or counter-attack
+// - freeball: attacks built from a free ball received
+// attack_phase comes from the DVW import; without it the first attack after the team's reception is first ball.
+
+import {
+  AttackStats,
+  groupRallies,
+  isSkill,
+  sameTeam,
+  summarizeAttacks,
+} from './volleyballStats';
+
+export type AttackSituation = 'in_system' | 'out_of_system' | 'transition' | 'freeball';
+
+export const ATTACK_SITUATIONS: { id: AttackSituation; label: string }[] = [
+  { id: 'in_system', label: 'First ball in system (#/+)' },
+  { id: 'out_of_system', label: 'First ball out of system' },
+  { id: 'transition', label: 'Transition' },
+  { id: 'freeball', label: 'Free ball' },
+];
+
+const IN_SYSTEM_PASSES = ['#', '+'];
+
+export interface SituationBreakdown {
+  total: AttackStats;
+  situations: Record<AttackSituation, AttackStats>;
+}
+
+export interface HitterSituations extends SituationBreakdown {
+  player: string;
+  playerNumber: number | string | null;
+}
+
+export interface AttackCodeSituations extends SituationBreakdown {
+  code: string;
+  description: string | null;
+}
+
+export interface TeamAttackSituations extends SituationBreakdown {
+  team: string;
+  hitters: HitterSituations[];
+  attackCodes: AttackCodeSituations[];
+}
+
+export interface AttackSituationReport {
+  teams: TeamAttackSituations[];
+  totalAttacks: number;
+}
+
+interface ClassifiedAttack {
+  team: string;
+  situation: AttackSituation;
+  row: any;
+}
+
+function classifyAttacks(rows: any[], teamFilter?: string): ClassifiedAttack[] {
+  const attacks: ClassifiedAttack[] = [];
+
+  for (const rally of groupRallies(rows)) {
+    for (const team of [rally.homeTeam, rally.visitingTeam]) {
+      if (!team || (teamFilter && !sameTeam(team, teamFilter))) continue;
+      const teamRows = rally.rows.filter(r => sameTeam(r.team, team));
+      const reception = teamRows.find(r => isSkill(r, 'reception'));
+      let firstBallTaken = false;
+
+      teamRows.forEach((row, index) => {
+        if (!isSkill(row, 'attack')) return;
+        const isFirstBall = row.attack_phase
+          ? row.attack_phase === 'Reception'
+          : !firstBallTaken && !!reception && index > teamRows.indexOf(reception);
+        if (isFirstBall) firstBallTaken = true;
+
+        let situation: AttackSituation;
+        if (isFirstBall) {
+          const passCode = reception?.evaluation_code || row.reception_quality;
+          situation = IN_SYSTEM_PASSES.includes(passCode) ? 'in_system' : 'out_of_system';
+        } else {
+          situation = row.attack_phase === 'Freeball' ? 'freeball' : 'transition';
+        }
+        attacks.push({ team, situation, row });
+      });
+    }
+  }
+
+  return attacks;
+}
+
+function breakdown(attacks: ClassifiedAttack[]): SituationBreakdown {
+  const situations = {} as Record<AttackSituation, AttackStats>;
+  ATTACK_SITUATIONS.forEach(({ id }) => {
+    situations[id] = summarizeAttacks(attacks.filter(a => a.situation === id).map(a => a.row));
+  });
+  return { total: summarizeAttacks(attacks.map(a => a.row)), situations };
+}
+
+// Group attacks by key, keeping groups in first-seen order
+function groupBy(attacks: ClassifiedAttack[], keyOf: (attack: ClassifiedAttack) => string | null): Map<string, ClassifiedAttack[]> {
+  const groups = new Map<string, ClassifiedAttack[]>();
+  for (const attack of attacks) {
+    const key = keyOf(attack);
+    if (key === null) continue;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(attack);
+  }
+  return groups;
+}
+
+/**
+ * Kill %, error % and efficiency per situation (in-system / out-of-system first ball,
+ * transition, free ball) for every team, hitter and attack code in the action rows.
+ */
+export function analyzeAttackSituations(rows: any[], options: { team?: string } = {}): AttackSituationReport {
+  const attacks = classifyAttacks(Array.isArray(rows) ? rows : [], options.team);
+  const byTeam = groupBy(attacks, a => a.team);
+
+  const teams = [...byTeam.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([team, teamAttacks]) => {
+      const hitters = [...groupBy(teamAttacks, a => a.row.player_name || (a.row.player_number != null ? `#${a.row.player_number}` : null)).entries()]
+        .map(([player, list]) => ({ player, playerNumber: list[0].row.player_number ?? null, ...breakdown(list) }))
+        .sort((a, b) => b.total.attempts - a.total.attempts);
+      const attackCodes = [...groupBy(teamAttacks, a => a.row.attack_code || null).entries()]
+        .map(([code, list]) => ({ code, description: list.find(a => a.row.attack_description)?.row.attack_description ?? null, ...breakdown(list) }))
+        .sort((a, b) => b.total.attempts - a.total.attempts);
+      return { team, ...breakdown(teamAttacks), hitters, attackCodes };
+    });
+
+  return { teams, totalAttacks: attacks.length };
+}
+
+/**
+ * Grouped bar chart of attack efficiency per situation for a team's hitters or attack codes
+ */
+export function buildAttackSituationChartOption(
+  team: TeamAttackSituations,
+  view: 'hitters' | 'attackCodes' = 'hitters',
+  limit: number = 10
+): any {
+  const entries: (HitterSituations | AttackCodeSituations)[] = (view === 'hitters' ? team.hitters : team.attackCodes).slice(0, limit);
+  const labels = entries.map(e => ('player' in e ? e.player : e.code));
+  const colors: Record<AttackSituation, string> = {
+    in_system: '#22c55e',
+    out_of_system: '#f59e0b',
+    transition: '#3b82f6',
+    freeball: '#a855f7',
+  };
+
+  return {
+    title: {
+      text: `${team.team} – attack efficiency by situation`,
+      subtext: `${view === 'hitters' ? 'Hitters' : 'Attack codes'} by attempts · efficiency = (kills − errors − blocked) / attempts`,
+      left: 'center',
+    },
+    tooltip: { trigger: 'axis', axisPointer: { type: 'shadow' } },
+    legend: { top: 55 },
+    grid: { left: 60, right: 30, top: 95, bottom: 60 },
+    xAxis: { type: 'category', data: labels, axisLabel: { color: '#fff', rotate: labels.length > 6 ? 30 : 0 } },
+    yAxis: { type: 'value', name: 'Efficiency', axisLabel: { color: '#fff' }, splitLine: { lineStyle: { color: 'rgba(255,255,255,0.1)' } } },
+    series: ATTACK_SITUATIONS.map(({ id, label }) => ({
+      name: label,
+      type: 'bar',
+      itemStyle: { color: colors[id] },
+      // Situations without attempts are left empty rather than drawn as 0
+      data: entries.map(e => (e.situations[id].attempts > 0 ? e.situations[id].efficiency : null)),
+    })),
+  };
+}
@@ -2,6 +2,8 @@ import { Message, MatchData } from "@/types/chat";
 import { ValueInfo, ColumnInfo, DataInfo, CsvFile } from "@/types/valueInfo";
 import { callApi } from "./apiProviders";
 import { modelHasApiKey } from "./apiKeys";
+import { getDialectHints } from "./dbBackends";
+import { findTableJoins, readMatchActions } from "./database";
 import { CodeExecutor, CodeBlock, ExecutionResult } from "./codeExecutorV2";
 import { getCsvDataRows } from "@/lib/csvStorage";
 import {
@@ -171,7 +173,7 @@ export const AVAILABLE_MODELS = getAvailableModelsFormat();
 
 // Helper function to load coding rules from localStorage
 function getCodingRules(): string {
-  const RULES_VERSION = "2.3"; // Increment this when rules change significantly
+  const RULES_VERSION = "2.5"; // Increment this when rules change significantly
   
   try {
     const saved = localStorage.getItem("db_coding_rules");
@@ -209,7 +211,9 @@ ${isDatabaseTable ? `🚨 DATABASE TABLE MODE: You are working with a database t
 - Use JavaScript array methods (filter, map, reduce, etc.) on the 'data' variable
 - The data is already in memory - no need to query the database
 - Example: const result = data.filter(row => row.team === 'UCSD');
-- This prevents excessive database queries` : ''}
+- This prevents excessive database queries
+- Only when a question needs rows that are not loaded, query the team database in its own dialect.
+${getDialectHints()}` : ''}
 
 1. VERIFY: Check if all steps completed & answer user's question (if not a followup ignore)
 2. PLAN: List all steps needed (e.g., "Step 1: Load data, Step 2: Calculate stats, Step 3: Create chart")
@@ -245,7 +249,7 @@ return { echarts_chart: { option: { xAxis: { type: 'category', data: players.map
 🚨 CRITICAL: JavaScript variables CANNOT be used in DuckDB queries!
 ❌ const players = await query("SELECT name FROM csvData"); return {players};
    await query("SELECT * FROM players"); // ERROR! players is JS variable, not a table
-✅ DuckDB can ONLY query "csvData" table - use JavaScript to filter or recreate the query logic
+✅ DuckDB can ONLY query "csvData" (and "ralliesData" for volleyball action tables) - use JavaScript to filter or recreate the query logic
 
 ═══ CODE SYNTAX ═══
 • \`\`\`execute blocks - JavaScript ONLY (no Python/pandas/imports)
@@ -263,6 +267,45 @@ Cannot redeclare: data, csvData, matchInfo, summary, query
 ✅ const matchData = await query(...); // Different name
 ✅ data = await query(...); // Or reassign (no const/let)
 
+═══ VOLLEYBALL HELPERS ═══
+Async helpers over the selected match/CSV rows (pass rows to analyze a subset):
+• await analyzeRotations(rows?, { team? }) → per team & rotation P1–P6: sideOutPct, breakPointPct, pointDifferential, attack/serve/reception stats, lineup
+Show rotation table + court diagram: return { rotation_report: await analyzeRotations() };
+• await courtChart(rows?, { skill?: 'attack'|'serve'|..., team?, player?, evaluation?, mode?: 'trajectory'|'zones'|'subzones'|'cones', title? })
+Show court shot chart / zone heatmap (user can filter player & evaluation): return { court_chart: await courtChart(undefined, { skill: 'attack' }) };
+• await reconstructRallies(rows?) → one row per rally (same columns as ralliesData below)
+• await setterDistribution(rows?, { team?, target?: 'zone'|'attack_code'|'set_type' }) → per team: target shares by reception quality, rotation, score situation and phase, with entropy (bits) and predictability (0-1)
+Show setter distribution heatmap (user can switch condition): return { setter_distribution: await setterDistribution(undefined, { team: 'X' }) };
+• await analyzeMomentum(rows?, { matchId?, minRun? }) → points (score + differential after each rally), runs (team, length, scoreBefore/After, swing = erased a deficit), timeouts (pointsToRecover, nextFiveDifferential), sets (leadChanges, ties, max leads), events (flat table of runs/swings/timeouts to cite when explaining a set)
+Show momentum timeline with runs highlighted: return { momentum: await analyzeMomentum() };
+• await winProbability(rows?, { matchId? }) → points (homeSetWP, homeMatchWP before/after each rally, wpAdded), actions (rally-ending action credited with WP its team gained; errors negative; sorted by |wpAdded|), players (total wpAdded). Calibrated on all database matches when connected.
+Show WP chart with biggest swings: return { win_probability: await winProbability() };
+• await attackSituations(rows?, { team? }) → per team: total + situations (in_system = first ball after #/+ pass, out_of_system = first ball after !/-//, transition, freeball), each with attempts, kills, errors, blocked, killPct, errorPct, efficiency; same breakdown per hitter (hitters) and per attack code (attackCodes)
+Show efficiency by situation chart + table: return { attack_situations: await attackSituations() };
+• await receptionReport(rows?, { team?, scale?: '3-point'|'4-point'|'perfect'|'positive' }) → per team: pass average on the team's saved grading scale (Settings → Passing), perfect/positive/error %, passers, serveZones (serve start_zone), zoneByPasser, rotations (with sideOutPct). Every entry keeps raw # + ! - / = counts.
+Show passing dashboard: return { reception_report: await receptionReport() };
+• await seasonStats({ source?: 'database'|'files', minAttempts? }) → aggregated in SQL across every match (database table, or all uploaded DVW/action files in DuckDB): players and teams (kills, attackEfficiency, aces, blocks, digs, positivePassPct...), leaderboards (rate boards only rank players with ≥ minAttempts, default 20), playerMatches (per-match totals for trends)
+Show leaderboards + trends + team totals: return { season_stats: await seasonStats() };
+• await teamRatings({ variant?: 'match'|'set'|'point', k?, homeAdvantage? }) → Elo over every database match in match_id order: standings (rating, change, W-L, sets, points), history (rating after each match per team)
+• await predictMatchup(teamA, teamB, { variant?, homeTeam? }) → ratings, setWinProbability, matchWinProbability, likeliestScore (team A first)
+Show standings + rating history: return { team_ratings: await teamRatings({ variant: 'set' }) };
+• await videoPlaylist(rows, title?) → clips ordered by video_time for the chat's local match video
+Show clickable playlist: const kills = await query("SELECT * FROM csvData WHERE player_number = 12 AND skill_type = 'Attack' AND evaluation_code = '#' AND set_number = 3");
+return { video_playlist: await videoPlaylist(kills, '#12 kills, set 3') };
+• await remoteTable(name, sql, { params?, refresh?, maxAge? }) → runs a SELECT on the team database (its SQL dialect, $1 params) and loads the result into DuckDB as table "remote_<name>" for this session: { tableName, rowCount, headers, reused }. Calling again with the same sql reuses the table; refresh: true reloads it (still served from the server cache unless older than maxAge seconds). Always end the sql with an ORDER BY so the rows load in a defined order
+Join remote match data with a local roster CSV in one query:
+await remoteTable('attacks', "SELECT player_name, COUNT(*) AS attempts FROM combined_dvw WHERE skill_type = 'Attack' GROUP BY player_name ORDER BY player_name");
+return await query("SELECT r.position, r.height, a.* FROM remote_attacks a JOIN csvData r ON r.name = a.player_name");
+Cannot redeclare helper names either.
+
+Volleyball action tables also have a derived rally table "ralliesData" (one row per rally, join on match_id + point_id):
+serving_team, receiving_team, server_name, serve_evaluation, reception_quality, reception_player, first_ball_attack_player,
+first_ball_attack_code, first_ball_attack_outcome, first_ball_kill, transitions, num_actions, point_won_by, point_phase,
+end_type ('winner'|'opponent_error'), winning_skill, winning_player, end_skill, end_player, rally_number,
+home_score_before, visiting_score_before, home_score_after, visiting_score_after
+✅ SELECT reception_quality, AVG(CASE WHEN point_phase = 'Sideout' THEN 1 ELSE 0 END) AS so_pct FROM ralliesData GROUP BY 1
+✅ SELECT a.* FROM csvData a JOIN ralliesData r ON a.match_id = r.match_id AND a.point_id = r.point_id WHERE r.transitions >= 2
+
 ═══ DuckDB SQL ═══
 🚨🚨🚨 CRITICAL: NEVER USE SQL COMMENTS (-- or /* */)! They cause FATAL parsing errors! 🚨🚨🚨
 ❌ WRONG: SELECT id FROM csvData -- get IDs
@@ -1145,7 +1188,13 @@ export function buildVolleyballContext(
   if (currentSelectionValueInfo?.summary) {
     summaryText = `\n\n📋 DATASET SUMMARY:\n${currentSelectionValueInfo.summary}`;
   } else if (csvId) {
-    const csvIds = Array.isArray(csvId) ? csvId : [csvId];
+    const selectedIds = Array.isArray(csvId) ? csvId : [csvId];
+    // Remote tables are described together with their join keys; the rest are files
+    const attachedTables = selectedIds.filter(id => id.startsWith('db_table_')).map(id => id.slice('db_table_'.length));
+    const csvIds = selectedIds.filter(id => !id.startsWith('db_table_'));
+    if (attachedTables.length > 0) {
+      summaryText += buildAttachedTablesSummary(attachedTables);
+    }
     let csvValueInfo = null;
 
     if (csvIds.length > 1) {
@@ -1158,7 +1207,7 @@ export function buildVolleyballContext(
     }
 
     if (csvValueInfo?.summary) {
-      summaryText = `\n\n📋 DATASET SUMMARY:\n${csvValueInfo.summary}`;
+      summaryText += `\n\n📋 DATASET SUMMARY:\n${csvValueInfo.summary}`;
     }
   } else if (matchData) {
     const matchValueInfo = getValueInfo(matchData.matchInfo.match_id, 'match');
@@ -1175,6 +1224,35 @@ export function buildVolleyballContext(
   return context;
 }
 
+/**
+ * Context for the remote tables attached to a chat: each table's description, then the columns
+ * each pair of tables shares, so the LLM can write joins across them.
+ */
+function buildAttachedTablesSummary(tableNames: string[]): string {
+  const described = tableNames.map(name => ({ name, valueInfo: getValueInfo(`db_table_${name}`, 'csv') }));
+  let text = `\n\n📋 ATTACHED DATABASE TABLES (${tableNames.length}): SQL may read and JOIN ${tableNames.map(name => `"${name}"`).join(', ')}`;
+  for (const { name, valueInfo } of described) {
+    text += `\n\n${valueInfo?.summary || `Database table ${name} (not described yet)`}`;
+  }
+
+  if (tableNames.length > 1) {
+    const joins = findTableJoins(described.map(({ name, valueInfo }) => ({
+      name,
+      columns: (valueInfo?.columns || []).map((column: ColumnInfo) => ({ name: column.name, type: column.type })),
+    })));
+    text += '\n\n🔗 JOIN KEYS (shared columns, most key-like first):';
+    if (joins.length === 0) {
+      text += '\nNo shared columns found - ask which columns relate the tables before joining them.';
+    }
+    for (const join of joins) {
+      const keys = join.columns.slice(0, 5);
+      text += `\n• "${join.left}" ↔ "${join.right}": ${keys.join(', ')}`
+        + ` (e.g. JOIN "${join.right}" b ON ${keys.slice(0, 2).map(column => `a."${column}" = b."${column}"`).join(' AND ')})`;
+    }
+  }
+  return text;
+}
+
 // Get CSV file data by ID(s) with optional filtering
 // csvId can be a single string, array of strings, or null
 // onProgress: optional callback to report loading progress
@@ -2520,8 +2598,8 @@ export async function sendChatMessage(
       }
       
         // Fallback to matchData if no current_selection
-      if (!dataForExecution && matchData && matchData.data && Array.isArray(matchData.data) && matchData.data.length > 0) {
-        dataForExecution = matchData.data;
+      if (!dataForExecution && matchData && matchData.rowCount > 0) {
+        dataForExecution = await readMatchActions(matchData.matchInfo.match_id);
       }
       
       // Pass data directly to CodeExecutor - it can work with just the data array
@@ -2643,7 +2721,7 @@ export async function sendChatMessage(
       
       // Log what data is being used for execution
       if (useCurrentSelection && dataForExecution) {
-      } else if (matchData && matchData.data) {
+      } else if (matchData) {
       } else if (csvData && Array.isArray(csvData) && csvData.length > 0) {
       } else if (csvIdForExecutor) {
         // Data is available via DuckDB even if not in memory
@@ -2655,7 +2733,7 @@ export async function sendChatMessage(
       // IMPORTANT: Include executionData in the check, and also check csvData
       const hasActualData = (executionData && Array.isArray(executionData) && executionData.length > 0) ||
                            (dataForExecution && Array.isArray(dataForExecution) && dataForExecution.length > 0) || 
-                           (matchData && matchData.data && Array.isArray(matchData.data) && matchData.data.length > 0) ||
+                           (matchData && matchData.rowCount > 0) ||
                            (csvData && Array.isArray(csvData) && csvData.length > 0);
       
       // Prioritize CSV data when CSV filters are set, then current_selection, then matchData
@@ -3460,7 +3538,7 @@ Do NOT include Block 1 again!`;
               }
               
               const hasActualData = (dataForExecution && Array.isArray(dataForExecution) && dataForExecution.length > 0) || 
-                                   (matchData && matchData.data && Array.isArray(matchData.data) && matchData.data.length > 0) ||
+                                   (matchData && matchData.rowCount > 0) ||
                                    (errorFixData && Array.isArray(errorFixData) && errorFixData.length > 0);
               
               // Check followup depth
@@ -3973,7 +4051,7 @@ The results above contain real data. Use them to answer: "${originalUserMessage}
               }
               
               const hasActualData = (dataForExecution && Array.isArray(dataForExecution) && dataForExecution.length > 0) || 
-                                   (matchData && matchData.data && Array.isArray(matchData.data) && matchData.data.length > 0) ||
+                                   (matchData && matchData.rowCount > 0) ||
                                    (followUpData && Array.isArray(followUpData) && followUpData.length > 0);
               
               // Build context for follow-up message (reuse same logic as original)
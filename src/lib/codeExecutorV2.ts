@@ -98,8 +98,8 @@ export class CodeExecutor {
 
   constructor(matchData: MatchData | null, data?: any[] | null, filterColumns?: string[] | null, filterValues?: Record<string, any> | null, allowSql: boolean = false, csvId?: string | string[] | null) {
     this.matchData = matchData;
-    // If data is provided directly, use it; otherwise use matchData.data
-    this.data = data !== undefined ? data : (matchData?.data || null);
+    // If data is provided directly, use it; otherwise executeCode reads the match's rows from DuckDB
+    this.data = data !== undefined ? data : null;
     this.filterColumns = filterColumns || null;
     this.filterValues = filterValues || null;
     this.allowSql = allowSql; // True for database data (remote Neon DB), false for CSV data
@@ -460,7 +460,7 @@ export class CodeExecutor {
     try {
       // SQL queries are ONLY for the remote database (Neon via Cloudflare Workers)
       // NOT for CSV files - CSV files use JavaScript code execution with DuckDB data retrieval
-      const { isDatabaseConnected, executeDbQuery } = await import("@/lib/database");
+      const { isDatabaseConnected, executeDbQuery, databaseTableNames, getConnectedTables } = await import("@/lib/database");
       if (!isDatabaseConnected()) {
         return {
           success: false,
@@ -489,7 +489,7 @@ export class CodeExecutor {
 
               if (hasNull && nonNullValues.length > 0) {
                 // Include both NULL and specific values
-                const placeholders = nonNullValues.map(() => '?').join(', ');
+                const placeholders = nonNullValues.map((_, i) => `$${queryParams.length + i + 1}`).join(', ');
                 whereConditions.push(`(${quotedCol} IN (${placeholders}) OR ${quotedCol} IS NULL)`);
                 queryParams.push(...nonNullValues);
               } else if (hasNull) {
@@ -497,7 +497,7 @@ export class CodeExecutor {
                 whereConditions.push(`${quotedCol} IS NULL`);
               } else {
                 // Only non-NULL values
-                const placeholders = filterValue.map(() => '?').join(', ');
+                const placeholders = filterValue.map((_, i) => `$${queryParams.length + i + 1}`).join(', ');
                 whereConditions.push(`${quotedCol} IN (${placeholders})`);
                 queryParams.push(...filterValue);
               }
@@ -506,7 +506,7 @@ export class CodeExecutor {
               if (String(filterValue) === '(null)') {
                 whereConditions.push(`${quotedCol} IS NULL`);
               } else {
-                whereConditions.push(`${quotedCol} = ?`);
+                whereConditions.push(`${quotedCol} = $${queryParams.length + 1}`);
                 queryParams.push(filterValue);
               }
             }
@@ -537,7 +537,9 @@ export class CodeExecutor {
       }
 
       // Execute query via API
-      const rows = await executeDbQuery(finalQuery, queryParams.length > 0 ? queryParams : undefined);
+      // The chat's attached tables can be joined; without any, the connected tables
+      const attachedTables = databaseTableNames(Array.isArray(this.csvId) ? this.csvId : this.csvId ? [this.csvId] : []);
+      const rows = await executeDbQuery(finalQuery, queryParams.length > 0 ? queryParams : undefined, attachedTables.length > 0 ? attachedTables : getConnectedTables());
       
       return {
         success: true,
@@ -545,9 +547,13 @@ export class CodeExecutor {
         executionTime: Date.now() - startTime
       };
     } catch (error: any) {
+      // Structured server errors carry a code and hint so the query can be corrected
+      const { formatDbError } = await import("@/lib/database");
+      const { getDbBackend, getDialectHints } = await import("@/lib/dbBackends");
+      const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
       return {
         success: false,
-        error: `SQL Query Error: ${error?.message || 'Unknown SQL error'}\n\nQuery: ${finalQuery}\n\nTip: Check column names, table name (use 'csvData'), and SQL syntax (DuckDB dialect)`,
+        error: `SQL Query Error: ${formatDbError(error)}\n\nQuery: ${finalQuery}\n\nTip: The team database is ${getDbBackend().dialect} and read-only - write a single SELECT (or WITH) statement on "${tableName}", quote identifiers with double quotes, and use $1, $2 for parameters\n${getDialectHints()}`,
         executionTime: Date.now() - startTime
       };
     }
@@ -571,6 +577,12 @@ export class CodeExecutor {
       };
     }
 
+    // Match rows live in DuckDB; read them for this execution only
+    if (!this.data && this.matchData && this.matchData.rowCount > 0) {
+      const { readMatchActions } = await import('./database');
+      this.data = await readMatchActions(this.matchData.matchInfo.match_id);
+    }
+
     // For large CSV files, data might be null (using DuckDB on-demand)
     // Try to load from DuckDB if csvId is available
     if ((!this.data || !Array.isArray(this.data) || this.data.length === 0)) {
@@ -716,7 +728,15 @@ export class CodeExecutor {
 
       // Create DuckDB query function for AI to use
       const queryFunction = async (sql: string): Promise<any[]> => {
-        if (!this.csvId) {
+        // Remote tables attached to the chat are not DuckDB files; only local CSV ids can back csvData
+        const localCsvIds = (Array.isArray(this.csvId) ? this.csvId : this.csvId ? [this.csvId] : []).filter(id => !id.startsWith('db_table_'));
+        if (localCsvIds.length === 0) {
+          // SQL over tables materialized by remoteTable() runs without a CSV file
+          if (/\bremote_\w+/i.test(sql) && !/\bcsvData\b/i.test(sql)) {
+            const { runQuery, convertBigIntToNumber } = await import('./duckdb');
+            const result = await runQuery(sql);
+            return convertBigIntToNumber(result.toArray().map((row: any) => row.toJSON()));
+          }
           // Check if data is available - if so, guide towards using data directly
           if (this.data && Array.isArray(this.data) && this.data.length > 0) {
             throw new Error(`query() is for CSV/DuckDB data, but you have in-memory data (${this.data.length} rows). Use JavaScript array methods instead:\n\n// Example:\nconst result = data.filter(row => row.column === 'value');\nreturn result;`);
@@ -732,7 +752,7 @@ export class CodeExecutor {
             await initDuckDB();
           }
           
-          const csvIds = Array.isArray(this.csvId) ? this.csvId : [this.csvId];
+          const csvIds = localCsvIds;
           
           // CRITICAL FIX: Replace 'csvData' with actual DuckDB table name
           // The AI is instructed to always use 'csvData' as the table name, but the actual
@@ -762,6 +782,9 @@ export class CodeExecutor {
         }
       };
 
+      // Volleyball analysis helpers (rotation analysis, ...) callable from sandboxed code
+      const analysisHelpers = this.buildAnalysisHelpers(data, queryFunction);
+
       // Wrap code in IIFE for isolation
       // IMPORTANT: The return statement in cleanCode must be at the top level of the function
       // If cleanCode has a return, it will return from the IIFE
@@ -771,7 +794,7 @@ export class CodeExecutor {
       // Use string concatenation instead for safety
       
       // Build available variables list including state variables
-      const baseVars = ['data', 'csvData', 'summary', 'query()'];
+      const baseVars = ['data', 'csvData', 'summary', 'query()', ...Object.keys(analysisHelpers).map(name => `${name}()`)];
       const stateVars = Object.keys(this.executionState);
       const availableVars = [...baseVars, ...stateVars].join(', ');
       
@@ -800,14 +823,14 @@ export class CodeExecutor {
       // CRITICAL: Filter out state keys that are already in base parameters to avoid duplicates
       // Note: matchInfo is NOT a base param - it should ONLY come from execution state
       // Never pass matchInfo as a hardcoded parameter to avoid "already declared" errors
-      const baseParams = ['data', 'csvData', 'summary', 'query'];
+      const baseParams = ['data', 'csvData', 'summary', 'query', ...Object.keys(analysisHelpers)];
       const filteredStateKeys = stateKeys.filter(key => !baseParams.includes(key));
       const filteredStateValues = filteredStateKeys.map(key => this.executionState[key]);
       
       // DON'T add matchInfo from context - let code declare it if needed
       // If matchInfo exists in execution state, it will be in filteredStateKeys
       const allParams = [...baseParams, ...filteredStateKeys];
-      const allValues = [data, csvData, summary, queryFunction, ...filteredStateValues];
+      const allValues = [data, csvData, summary, queryFunction, ...Object.values(analysisHelpers), ...filteredStateValues];
 
       // CRITICAL FIX: Auto-handle variable redeclarations
       // If AI tries to redeclare a variable with const/let that already exists in scope,
@@ -1044,6 +1067,106 @@ export class CodeExecutor {
     }
   }
 
+  /**
+   * Build the volleyball analysis helpers exposed to sandboxed code.
+   * Each helper accepts optional rows; without them it analyzes the in-memory data,
+   * or loads the selected DuckDB table through query() when data lives in DuckDB.
+   */
+  private buildAnalysisHelpers(data: any[] | null, queryFunction: (sql: string) => Promise<any[]>): Record<string, (...args: any[]) => Promise<any>> {
+    const resolveRows = async (rows?: any[]): Promise<any[]> => {
+      if (Array.isArray(rows)) return rows;
+      if (Array.isArray(data) && data.length > 0) return data;
+      if (this.csvId) return await queryFunction('SELECT * FROM csvData');
+      throw new Error('No match data available for analysis. Pass rows explicitly or select a match/CSV first.');
+    };
+
+    return {
+      analyzeRotations: async (rows?: any[], options?: { team?: string }) => {
+        const { analyzeRotations } = await import('./rotationAnalysis');
+        return analyzeRotations(await resolveRows(rows), options);
+      },
+      reconstructRallies: async (rows?: any[]) => {
+        const { reconstructRallies } = await import('./rallyReconstruction');
+        return reconstructRallies(await resolveRows(rows));
+      },
+      courtChart: async (rows?: any[], spec: Record<string, any> = {}) => {
+        const { compactCourtRows, filterCourtRows } = await import('./courtChart');
+        // Keep only the requested skill/team so the row cap applies to relevant actions
+        const skillRows = filterCourtRows(await resolveRows(rows), { skill: spec.skill, team: spec.team });
+        return { ...spec, rows: compactCourtRows(skillRows) };
+      },
+      setterDistribution: async (rows?: any[], options?: { team?: string; target?: 'zone' | 'attack_code' | 'set_type' }) => {
+        const { analyzeSetterDistribution } = await import('./setterDistribution');
+        return analyzeSetterDistribution(await resolveRows(rows), options);
+      },
+      analyzeMomentum: async (rows?: any[], options?: { matchId?: string; minRun?: number }) => {
+        const { analyzeMomentum } = await import('./momentum');
+        return analyzeMomentum(await resolveRows(rows), options);
+      },
+      winProbability: async (rows?: any[], options?: { matchId?: string }) => {
+        const { calibrateWinProbability, computeWinProbability } = await import('./winProbability');
+        const matchRows = await resolveRows(rows);
+        // Prefer the model calibrated on every match in the database, fall back to these rows
+        let model = null;
+        const { isDatabaseConnected, loadWinProbabilityModel } = await import('./database');
+        if (isDatabaseConnected()) {
+          try {
+            model = await loadWinProbabilityModel();
+          } catch (error) {
+            console.warn('Win probability history unavailable, calibrating on current rows:', error);
+          }
+        }
+        return computeWinProbability(matchRows, model || calibrateWinProbability(matchRows), options);
+      },
+      attackSituations: async (rows?: any[], options?: { team?: string }) => {
+        const { analyzeAttackSituations } = await import('./attackSituations');
+        return analyzeAttackSituations(await resolveRows(rows), options);
+      },
+      receptionReport: async (rows?: any[], options?: { team?: string; scale?: string }) => {
+        const { analyzeReception, GRADING_PRESETS } = await import('./receptionGrading');
+        const scale = options?.scale ? GRADING_PRESETS.find(p => p.id === options.scale) : undefined;
+        if (options?.scale && !scale) {
+          throw new Error(`Unknown grading scale "${options.scale}". Use one of: ${GRADING_PRESETS.map(p => p.id).join(', ')}`);
+        }
+        return analyzeReception(await resolveRows(rows), { team: options?.team, scale });
+      },
+      seasonStats: async (options?: { source?: 'database' | 'files'; minAttempts?: number }) => {
+        const { isDatabaseConnected, loadSeasonStats } = await import('./database');
+        const source = options?.source || (isDatabaseConnected() ? 'database' : 'files');
+        if (source === 'database') return loadSeasonStats(options);
+        const { getMatchActionFiles } = await import('./seasonStats');
+        const { querySeasonStatsWithDuckDB } = await import('./duckdb');
+        return querySeasonStatsWithDuckDB(getMatchActionFiles().map(f => f.id), options);
+      },
+      teamRatings: async (options?: { variant?: 'match' | 'set' | 'point'; k?: number; homeAdvantage?: number }) => {
+        const { isDatabaseConnected, loadTeamRatings } = await import('./database');
+        if (!isDatabaseConnected()) throw new Error('Team ratings need the database connection (they cover every match in the table).');
+        return loadTeamRatings(options);
+      },
+      predictMatchup: async (teamA: string, teamB: string, options?: { variant?: 'match' | 'set' | 'point'; k?: number; homeAdvantage?: number; homeTeam?: string }) => {
+        const { isDatabaseConnected, loadTeamRatings } = await import('./database');
+        const { predictMatchup } = await import('./teamRatings');
+        if (!isDatabaseConnected()) throw new Error('Matchup predictions need the database connection (they cover every match in the table).');
+        return predictMatchup(await loadTeamRatings(options), teamA, teamB, { homeTeam: options?.homeTeam });
+      },
+      videoPlaylist: async (rows?: any[], title?: string) => {
+        const { toVideoPlaylist } = await import('./matchVideo');
+        return toVideoPlaylist(await resolveRows(rows), title);
+      },
+      // Team database SELECT as the DuckDB table remote_<name>, joinable with csvData in query()
+      remoteTable: async (name: string, sql: string, options?: { params?: any[]; refresh?: boolean; maxAge?: number }) => {
+        const { isDatabaseConnected, materializeRemoteQuery, databaseTableNames } = await import('./database');
+        if (!isDatabaseConnected()) throw new Error('remoteTable() needs the database connection. Log in under Settings > Database first.');
+        const attachedTables = databaseTableNames(Array.isArray(this.csvId) ? this.csvId : this.csvId ? [this.csvId] : []);
+        const { tableName, rowCount, headers, reused } = await materializeRemoteQuery(name, sql, {
+          ...options,
+          ...(attachedTables.length > 0 ? { tables: attachedTables } : {}),
+        });
+        return { tableName, rowCount, headers, reused };
+      },
+    };
+  }
+
   /**
    * Validate code doesn't contain dangerous patterns
    */
@@ -0,0 +1,328 @@
+// Volleyball court chart: attack/serve trajectories and landing density on a scaled court
+// Court coordinates follow the datavolley convention used by the *_coordinate_x/y columns:
+// the court spans x 0.5-3.5 and y 0.5-6.5 (1 unit = 3m), with the net at y = 3.5.
+// Charts are always drawn from the contacting team's side (bottom half), landing on the top half.
+
+import type { EChartsOption } from 'echarts';
+import { isSkill, SkillName, toNumber } from './volleyballStats';
+
+export type CourtChartMode = 'trajectory' | 'zones' | 'subzones' | 'cones';
+
+export interface CourtChartSpec {
+  mode?: CourtChartMode;
+  skill?: SkillName;
+  team?: string;
+  player?: string | number | null;
+  evaluation?: string | string[] | null;
+  title?: string;
+}
+
+// Compact row storage so chart payloads stay small inside chat messages
+export interface CourtChartRows {
+  columns: string[];
+  values: any[][];
+}
+
+export const COURT_CHART_COLUMNS = [
+  'team', 'player_number', 'player_name', 'skill_type', 'evaluation_code',
+  'start_zone', 'end_zone', 'end_subzone', 'end_cone',
+  'start_coordinate_x', 'start_coordinate_y', 'mid_coordinate_x', 'mid_coordinate_y',
+  'end_coordinate_x', 'end_coordinate_y', 'match_id', 'set_number', 'video_time',
+];
+
+export const MAX_COURT_CHART_ROWS = 1500;
+
+export const EVALUATION_COLORS: Record<string, string> = {
+  '#': '#22c55e',
+  '+': '#86efac',
+  '!': '#facc15',
+  '-': '#fb923c',
+  '/': '#a855f7',
+  '=': '#ef4444',
+};
+
+// Zone rectangles on the landing (top) half, seen from the contacting team's side.
+// [x0, y0] is the corner nearest the contacting team's left/net.
+const LANDING_ZONES: Record<number, [number, number]> = {
+  2: [0.5, 3.5], 3: [1.5, 3.5], 4: [2.5, 3.5],
+  9: [0.5, 4.5], 8: [1.5, 4.5], 7: [2.5, 4.5],
+  1: [0.5, 5.5], 6: [1.5, 5.5], 5: [2.5, 5.5],
+};
+
+// Zone rectangles on the contacting team's own (bottom) half
+const OWN_ZONES: Record<number, [number, number]> = {
+  4: [0.5, 2.5], 3: [1.5, 2.5], 2: [2.5, 2.5],
+  7: [0.5, 1.5], 8: [1.5, 1.5], 9: [2.5, 1.5],
+  5: [0.5, 0.5], 6: [1.5, 0.5], 1: [2.5, 0.5],
+};
+
+// Subzone quadrants within a landing zone, as drawn (A/B nearest the net, clockwise from the left)
+const SUBZONE_OFFSETS: Record<string, [number, number]> = {
+  A: [0, 0], B: [0.5, 0], C: [0.5, 0.5], D: [0, 0.5],
+};
+
+const COURT_LINE_STYLE = { color: '#ffffff', width: 2, type: 'solid' as const };
+
+/**
+ * Reduce action rows to the columns the court chart needs
+ */
+export function compactCourtRows(rows: any[]): CourtChartRows {
+  return {
+    columns: COURT_CHART_COLUMNS,
+    values: rows.slice(0, MAX_COURT_CHART_ROWS).map(row => COURT_CHART_COLUMNS.map(col => row?.[col] ?? null)),
+  };
+}
+
+/**
+ * Accept either plain row objects or the compact { columns, values } form
+ */
+export function expandCourtRows(rows: any[] | CourtChartRows | null | undefined): any[] {
+  if (!rows) return [];
+  if (Array.isArray(rows)) return rows;
+  if (Array.isArray(rows.columns) && Array.isArray(rows.values)) {
+    return rows.values.map(values => {
+      const row: Record<string, any> = {};
+      rows.columns.forEach((col, i) => { row[col] = values[i]; });
+      return row;
+    });
+  }
+  return [];
+}
+
+export function filterCourtRows(rows: any[], spec: CourtChartSpec): any[] {
+  const skill = spec.skill || 'attack';
+  const evaluations = spec.evaluation == null ? null : (Array.isArray(spec.evaluation) ? spec.evaluation : [spec.evaluation]);
+  return rows.filter(row => {
+    if (!isSkill(row, skill)) return false;
+    if (spec.team && String(row.team ?? '').trim().toLowerCase() !== spec.team.trim().toLowerCase()) return false;
+    if (spec.player != null && spec.player !== '') {
+      const player = String(spec.player);
+      if (String(row.player_number ?? '') !== player && String(row.player_name ?? '') !== player) return false;
+    }
+    if (evaluations && evaluations.length > 0 && !evaluations.includes(row.evaluation_code)) return false;
+    return true;
+  });
+}
+
+// Player and evaluation choices for the chart filters
+export function courtChartFilterOptions(rows: any[], spec: CourtChartSpec): { players: string[]; evaluations: string[] } {
+  const skillRows = filterCourtRows(rows, { ...spec, player: null, evaluation: null });
+  const players = [...new Set(skillRows.map(r => r.player_name || (r.player_number != null ? String(r.player_number) : null)).filter(Boolean))] as string[];
+  const evaluations = [...new Set(skillRows.map(r => r.evaluation_code).filter(Boolean))] as string[];
+  return { players: players.sort(), evaluations: evaluations.sort() };
+}
+
+// Flip a point so every action is drawn from the bottom half towards the top half
+function orient(row: any): { start: [number, number] | null; mid: [number, number] | null; end: [number, number] | null } {
+  const point = (x: unknown, y: unknown): [number, number] | null => {
+    const px = toNumber(x);
+    const py = toNumber(y);
+    return px === null || py === null ? null : [px, py];
+  };
+  let start = point(row.start_coordinate_x, row.start_coordinate_y);
+  let mid = point(row.mid_coordinate_x, row.mid_coordinate_y);
+  let end = point(row.end_coordinate_x, row.end_coordinate_y);
+  const flip = (start && start[1] > 3.5) || (!start && end && end[1] < 3.5);
+  if (flip) {
+    const mirror = (p: [number, number] | null): [number, number] | null => (p ? [4 - p[0], 7 - p[1]] : null);
+    start = mirror(start);
+    mid = mirror(mid);
+    end = mirror(end);
+  }
+  return { start, mid, end };
+}
+
+function heatColor(share: number): string {
+  // Blue (cold) to red (hot)
+  const alpha = 0.15 + 0.7 * share;
+  const red = Math.round(59 + (239 - 59) * share);
+  const green = Math.round(130 - 62 * share);
+  const blue = Math.round(246 - 178 * share);
+  return `rgba(${red}, ${green}, ${blue}, ${alpha.toFixed(2)})`;
+}
+
+function courtSeries(): any {
+  const line = (x1: number, y1: number, x2: number, y2: number, style: any = COURT_LINE_STYLE) =>
+    [{ coord: [x1, y1], lineStyle: style }, { coord: [x2, y2] }];
+  return {
+    id: 'volleyball-court',
+    name: 'Court',
+    type: 'scatter',
+    data: [],
+    silent: true,
+    markArea: {
+      silent: true,
+      itemStyle: { color: 'rgba(234, 88, 12, 0.18)' },
+      data: [[{ coord: [0.5, 0.5] }, { coord: [3.5, 6.5] }]],
+    },
+    markLine: {
+      silent: true,
+      symbol: ['none', 'none'],
+      label: { show: false },
+      data: [
+        line(0.5, 0.5, 3.5, 0.5),
+        line(0.5, 6.5, 3.5, 6.5),
+        line(0.5, 0.5, 0.5, 6.5),
+        line(3.5, 0.5, 3.5, 6.5),
+        line(0.2, 3.5, 3.8, 3.5, { color: '#e5e7eb', width: 4, type: 'solid' }),
+        line(0.5, 2.5, 3.5, 2.5, { color: '#ffffff', width: 1, type: 'dashed' }),
+        line(0.5, 4.5, 3.5, 4.5, { color: '#ffffff', width: 1, type: 'dashed' }),
+      ],
+    },
+  };
+}
+
+function trajectorySeries(rows: any[]): any[] {
+  const byEvaluation = new Map<string, { lines: any[]; ends: any[] }>();
+  rows.forEach(row => {
+    const { start, mid, end } = orient(row);
+    if (!start || !end) return;
+    const code = row.evaluation_code || '?';
+    const bucket = byEvaluation.get(code) || { lines: [], ends: [] };
+    bucket.lines.push({ coords: mid ? [start, mid, end] : [start, end] });
+    bucket.ends.push({ value: end, name: `${row.player_name || row.player_number || ''} ${code}`.trim(), video_time: row.video_time ?? null, match_id: row.match_id ?? null });
+    byEvaluation.set(code, bucket);
+  });
+
+  return [...byEvaluation.entries()].flatMap(([code, bucket]) => {
+    const color = EVALUATION_COLORS[code] || '#94a3b8';
+    return [
+      {
+        name: code,
+        type: 'lines',
+        coordinateSystem: 'cartesian2d',
+        polyline: true,
+        data: bucket.lines,
+        lineStyle: { color, width: 1.5, opacity: 0.6 },
+      },
+      {
+        name: code,
+        type: 'scatter',
+        data: bucket.ends,
+        symbolSize: 7,
+        itemStyle: { color, opacity: 0.9 },
+      },
+    ];
+  });
+}
+
+function zoneSeries(rows: any[], useSubzones: boolean): any {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const zone = toNumber(row.end_zone);
+    if (zone === null || !LANDING_ZONES[zone]) return;
+    const subzone = String(row.end_subzone ?? '').toUpperCase();
+    const key = useSubzones && SUBZONE_OFFSETS[subzone] ? `${zone}${subzone}` : `${zone}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  const total = [...counts.values()].reduce((a, b) => a + b, 0);
+  const max = Math.max(1, ...counts.values());
+
+  const areas = [...counts.entries()].map(([key, count]) => {
+    const zone = parseInt(key, 10);
+    const [zx, zy] = LANDING_ZONES[zone];
+    const offset = SUBZONE_OFFSETS[key.replace(/^\d+/, '')];
+    const size = offset ? 0.5 : 1;
+    const x0 = zx + (offset ? offset[0] : 0);
+    const y0 = zy + (offset ? offset[1] : 0);
+    return [
+      {
+        name: `${key}: ${count} (${((count / total) * 100).toFixed(0)}%)`,
+        coord: [x0, y0],
+        itemStyle: { color: heatColor(count / max) },
+      },
+      { coord: [x0 + size, y0 + size] },
+    ];
+  });
+
+  return {
+    name: useSubzones ? 'Subzones' : 'Zones',
+    type: 'scatter',
+    data: [],
+    markArea: {
+      label: { show: true, color: '#fff', fontSize: useSubzones ? 10 : 12, position: 'inside' },
+      data: areas,
+    },
+  };
+}
+
+function coneSeries(rows: any[]): any[] {
+  const groups = new Map<number, Map<number, number>>();
+  rows.forEach(row => {
+    const startZone = toNumber(row.start_zone);
+    const cone = toNumber(row.end_cone);
+    if (startZone === null || cone === null || !OWN_ZONES[startZone]) return;
+    const cones = groups.get(startZone) || new Map<number, number>();
+    cones.set(cone, (cones.get(cone) || 0) + 1);
+    groups.set(startZone, cones);
+  });
+
+  // Cone targets are spread along the landing court perimeter (approximate DataVolley cone directions)
+  const perimeter = (t: number, fromLeft: boolean): [number, number] => {
+    // Path: sideline at the net -> baseline -> other sideline at the net (total length 3 + 3 + 3)
+    const d = t * 9;
+    let point: [number, number];
+    if (d <= 3) point = [0.5, 3.5 + d];
+    else if (d <= 6) point = [0.5 + (d - 3), 6.5];
+    else point = [3.5, 6.5 - (d - 6)];
+    return fromLeft ? point : [4 - point[0], point[1]];
+  };
+
+  const maxCount = Math.max(1, ...[...groups.values()].flatMap(cones => [...cones.values()]));
+  return [...groups.entries()].map(([startZone, cones]) => {
+    const [zx, zy] = OWN_ZONES[startZone];
+    const origin: [number, number] = [zx + 0.5, zy + 0.5];
+    const coneCount = Math.max(startZone === 3 || startZone === 6 ? 8 : 7, ...cones.keys());
+    const fromLeft = origin[0] >= 2; // Attacks from the right side start their cones on the left sideline
+    return {
+      name: `Zone ${startZone} cones`,
+      type: 'lines',
+      coordinateSystem: 'cartesian2d',
+      data: [...cones.entries()].map(([cone, count]) => ({
+        name: `Cone ${cone}: ${count}`,
+        coords: [origin, perimeter(Math.min(1, Math.max(0, (cone - 0.5) / coneCount)), fromLeft)],
+        lineStyle: { width: 1 + 8 * (count / maxCount), opacity: 0.75 },
+      })),
+      lineStyle: { color: '#38bdf8' },
+    };
+  });
+}
+
+/**
+ * Build an ECharts option drawing the filtered actions on a scaled volleyball court
+ */
+export function buildCourtChartOption(rows: any[], spec: CourtChartSpec = {}): EChartsOption {
+  const mode = spec.mode || 'trajectory';
+  const filtered = filterCourtRows(rows, spec);
+  const skillLabel = (spec.skill || 'attack').replace(/^./, c => c.toUpperCase());
+  const filters = [
+    spec.team,
+    spec.player != null && spec.player !== '' ? `Player ${spec.player}` : null,
+    spec.evaluation ? `Eval ${Array.isArray(spec.evaluation) ? spec.evaluation.join(' ') : spec.evaluation}` : null,
+  ].filter(Boolean).join(' · ');
+
+  const dataSeries = mode === 'trajectory'
+    ? trajectorySeries(filtered)
+    : mode === 'cones'
+      ? coneSeries(filtered)
+      : [zoneSeries(filtered, mode === 'subzones')];
+
+  return {
+    title: {
+      text: spec.title || `${skillLabel} ${mode === 'trajectory' ? 'trajectories' : `${mode} density`}`,
+      subtext: `${filtered.length} actions${filters ? ` · ${filters}` : ''}`,
+      left: 'center',
+    },
+    tooltip: { trigger: 'item' },
+    legend: mode === 'trajectory' ? { bottom: 0 } : undefined,
+    grid: { top: 70, bottom: 40, left: 'center', width: 320, height: 480 },
+    xAxis: { type: 'value', min: 0, max: 4, show: false },
+    yAxis: { type: 'value', min: 0, max: 7, show: false },
+    series: [courtSeries(), ...dataSeries],
+  } as EChartsOption;
+}
+
+// Court charts are recognised by their court-lines series so renderers can skip zoom and type switching
+export function isCourtChartOption(option: any): boolean {
+  return Array.isArray(option?.series) && option.series.some((s: any) => s?.id === 'volleyball-court');
+}
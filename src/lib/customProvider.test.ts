@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getProviderForModel } from './apiKeys';
+import { customEndpointUrl, fetchCustomProviderModels, getCustomProviderConfig } from './customProvider';
+
+// Tests run in Node, which has no localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+});
+
+function storeConfig(config: unknown) {
+  storage.set('custom_provider_config', JSON.stringify(config));
+}
+
+beforeEach(() => {
+  storage.clear();
+});
+
+describe('customEndpointUrl', () => {
+  it('accepts the API root or the full chat-completions URL', () => {
+    expect(customEndpointUrl('http://localhost:11434/v1', 'models')).toBe('http://localhost:11434/v1/models');
+    expect(customEndpointUrl(' http://localhost:11434/v1/ ', 'chat/completions')).toBe('http://localhost:11434/v1/chat/completions');
+    expect(customEndpointUrl('https://gateway.example/v1/chat/completions', 'models')).toBe('https://gateway.example/v1/models');
+    expect(customEndpointUrl('https://gateway.example/v1/chat/completions//', 'chat/completions')).toBe('https://gateway.example/v1/chat/completions');
+  });
+});
+
+describe('getCustomProviderConfig', () => {
+  it('keeps only string header values', () => {
+    storeConfig({ baseUrl: 'http://localhost:8080/v1', headers: { 'X-Team': 'volley', 'X-Retries': 3, 'X-Extra': { a: 1 } }, models: [] });
+    expect(getCustomProviderConfig().headers).toEqual({ 'X-Team': 'volley' });
+
+    storeConfig({ baseUrl: 'http://localhost:8080/v1', headers: ['X-Team'], models: [] });
+    expect(getCustomProviderConfig().headers).toEqual({});
+  });
+});
+
+describe('fetchCustomProviderModels', () => {
+  it('reads model names from OpenAI-style and Ollama-style lists', async () => {
+    const config = { baseUrl: 'http://localhost:11434/v1', headers: {}, models: [] };
+    const respond = (body: unknown) => vi.fn(async () => new Response(JSON.stringify(body)));
+
+    vi.stubGlobal('fetch', respond({ data: [{ id: 'llama3.1:8b' }, { id: '' }, { id: 7 }, null, 'qwen'] }));
+    expect(await fetchCustomProviderModels(config)).toEqual(['llama3.1:8b']);
+
+    vi.stubGlobal('fetch', respond({ models: [{ name: 'mistral' }, { id: '', name: 'phi3' }] }));
+    expect(await fetchCustomProviderModels(config)).toEqual(['mistral', 'phi3']);
+
+    vi.stubGlobal('fetch', respond({ error: 'not supported' }));
+    expect(await fetchCustomProviderModels(config)).toEqual([]);
+  });
+});
+
+describe('getProviderForModel with custom: ids', () => {
+  it('returns the custom provider for configured models only', () => {
+    storeConfig({ baseUrl: 'http://localhost:11434/v1', headers: {}, models: [{ id: 'llama3.1:8b', name: 'Llama', contextLimit: 8192 }] });
+    expect(getProviderForModel('custom:llama3.1:8b')?.id).toBe('custom');
+    expect(getProviderForModel('custom:mistral')).toBeNull();
+    expect(getProviderForModel('llama3.1:8b')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+// Custom OpenAI-compatible provider
+// Any server speaking the chat-completions protocol: self-hosted llama.cpp, vLLM or Ollama, or a hosted gateway.
+// The API key (Settings, provider 'custom') is optional; local servers usually need none.
+
+export interface CustomModel {
+  id: string; // Model name the server expects (e.g. "llama3.1:8b")
+  name: string;
+  contextLimit: number; // Total context window in tokens
+}
+
+export interface CustomProviderConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  headers: Record<string, string>; // Extra request headers
+  models: CustomModel[];
+}
+
+// GET /models: OpenAI-style servers list { data: [{ id }] }, Ollama's native API { models: [{ name }] }
+interface CustomModelsResponse {
+  data?: unknown;
+  models?: unknown;
+}
+
+interface ListedModel {
+  id?: unknown;
+  name?: unknown;
+}
+
+const STORAGE_KEY = 'custom_provider_config';
+
+// App model ids are prefixed so they never collide with OpenRouter ids
+export const CUSTOM_MODEL_PREFIX = 'custom:';
+
+// Only string values become request headers; anything else in storage is dropped
+function readHeaders(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
+export function getCustomProviderConfig(): CustomProviderConfig {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      baseUrl: typeof stored.baseUrl === 'string' ? stored.baseUrl : '',
+      headers: readHeaders(stored.headers),
+      models: Array.isArray(stored.models) ? stored.models : [],
+    };
+  } catch (error) {
+    console.error('Error loading custom provider config:', error);
+    return { baseUrl: '', headers: {}, models: [] };
+  }
+}
+
+export function setCustomProviderConfig(config: CustomProviderConfig): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  // ModelSelector refreshes its list on this event
+  window.dispatchEvent(new CustomEvent('openrouter-models-updated'));
+}
+
+// Usable once a server and at least one model are set
+export function isCustomProviderConfigured(): boolean {
+  const config = getCustomProviderConfig();
+  return config.baseUrl.trim() !== '' && config.models.length > 0;
+}
+
+export function getCustomModelIds(): string[] {
+  return getCustomProviderConfig().models.map(model => CUSTOM_MODEL_PREFIX + model.id);
+}
+
+// The configured model behind an app model id, or null for other providers' ids
+export function getCustomModel(modelId: string): CustomModel | null {
+  if (!modelId.startsWith(CUSTOM_MODEL_PREFIX)) return null;
+  const id = modelId.slice(CUSTOM_MODEL_PREFIX.length);
+  return getCustomProviderConfig().models.find(model => model.id === id) || null;
+}
+
+// Same shape as getAvailableModelsFormat; self-hosted models count as free
+export function getCustomModelsFormat() {
+  return getCustomProviderConfig().models.map(model => ({
+    id: CUSTOM_MODEL_PREFIX + model.id,
+    name: model.contextLimit >= 1000 ? `${model.name} (${(model.contextLimit / 1000).toFixed(0)}K)` : model.name,
+    free: true,
+    disabled: false,
+  }));
+}
+
+// Accepts the API root (.../v1) or the full chat-completions URL
+export function customEndpointUrl(baseUrl: string, path: 'chat/completions' | 'models'): string {
+  const root = baseUrl.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+  return `${root}/${path}`;
+}
+
+// Model names the server reports on GET /models (llama.cpp, vLLM and Ollama all serve it)
+export async function fetchCustomProviderModels(config: CustomProviderConfig, apiKey?: string | null): Promise<string[]> {
+  const response = await fetch(customEndpointUrl(config.baseUrl, 'models'), {
+    headers: { ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}), ...config.headers },
+  });
+  if (!response.ok) throw new Error(`Model list request failed: ${response.status}`);
+  const json: CustomModelsResponse = await response.json();
+  const models: unknown[] = Array.isArray(json.data) ? json.data : Array.isArray(json.models) ? json.models : [];
+  return models
+    .map(model => {
+      if (!model || typeof model !== 'object') return null;
+      const { id, name } = model as ListedModel;
+      return typeof id === 'string' && id !== '' ? id : name;
+    })
+    .filter((id): id is string => typeof id === 'string' && id !== '');
+}
@@ -1,5 +1,26 @@
 // Database utilities for Cloudflare R2 + Workers query layer
-// Architecture: R2 caches JSON responses, Workers query Neon Postgres if cache miss
+// Architecture: R2 caches JSON responses, Workers query the selected backend (see dbBackends.ts) if cache miss
+
+import {
+  buildPlayerHistorySql,
+  buildPlayerReportCards,
+  computePlayerStats,
+  type PlayerHistoryRow,
+  type PlayerMatchStats,
+  type PlayerReportCard,
+} from './playerReports';
+import { buildScoutingReport, type ScoutingReport } from './scoutingReport';
+import { buildSeasonReport, buildSeasonSql, type SeasonReport } from './seasonStats';
+import { getDbBackend, type DbBackendKind } from './dbBackends';
+import { computeRatings, type MatchResult, type RatingOptions, type RatingReport } from './teamRatings';
+import {
+  calibrateFromRallyCounts,
+  computeWinProbability,
+  type RallyOutcomeCount,
+  type WinProbabilityModel,
+  type WinProbabilityTimeline,
+} from './winProbability';
+import { type ColumnInfo, type ValueInfo } from '@/types/valueInfo';
 
 export interface Match {
   match_id: string;
@@ -9,6 +30,26 @@ export interface Match {
   sets_played?: number;
 }
 
+// Action-level columns of the combined_dvw table, in the order loadMatchData builds them.
+// Local match sources (e.g. parsed .dvw files) produce rows with these columns and MATCH_DATE_COLUMN.
+export const MATCH_ACTION_COLUMNS = [
+  'match_id', 'point_id', 'video_time', 'team', 'player_number', 'player_name', 'player_id',
+  'skill_type', 'evaluation_code', 'evaluation', 'attack_code', 'attack_description',
+  'set_code', 'set_description', 'set_type', 'start_zone', 'end_zone', 'end_subzone', 'end_cone',
+  'skill_subtype', 'set_number', 'home_team_score', 'visiting_team_score',
+  'home_score', 'visiting_score', 'phase', 'home_team', 'visiting_team', 'point_won_by',
+  'point', 'winning_attack', 'serving_team', 'point_phase', 'attack_phase', 'reception_quality',
+  'timeout', 'end_of_set', 'substitution', 'num_players', 'num_players_numeric',
+  'special_code', 'custom_code', 'home_setter_position', 'visiting_setter_position',
+  'home_p1', 'home_p2', 'home_p3', 'home_p4', 'home_p5', 'home_p6',
+  'visiting_p1', 'visiting_p2', 'visiting_p3', 'visiting_p4', 'visiting_p5', 'visiting_p6',
+  'start_coordinate_x', 'start_coordinate_y', 'mid_coordinate_x', 'mid_coordinate_y',
+  'end_coordinate_x', 'end_coordinate_y', 'point_differential'
+] as const;
+
+// ISO (yyyy-mm-dd) match date: parsed .dvw files carry it and ingest stores it when the table has the column
+export const MATCH_DATE_COLUMN = 'match_date';
+
 let dbConnection: any = null; // Store connection status (true = connected, null = not connected)
 let availableMatches: Match[] = [];
 
@@ -19,20 +60,129 @@ function getApiBaseUrl(): string {
   return '/api';
 }
 
-// Make API call to Cloudflare Pages Function
-async function callDbApi(action: string, params?: any): Promise<any> {
+// Session token from /api/login, sent as a Bearer token with every /api/db call
+const AUTH_SESSION_KEY = 'db_auth_session';
+
+export interface DatabaseSession {
+  user: string;
+  token: string;
+  expiresAt: number;
+}
+
+export function getDatabaseSession(): DatabaseSession | null {
   try {
+    const saved = localStorage.getItem(AUTH_SESSION_KEY);
+    const session: DatabaseSession | null = saved ? JSON.parse(saved) : null;
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch (error) {
+    console.error('Error reading database session:', error);
+    return null;
+  }
+}
+
+// Sign in to the team database; throws DbApiError (INVALID_CREDENTIALS, RATE_LIMITED...) on failure
+export async function loginToDatabase(username: string, password: string): Promise<DatabaseSession> {
+  const response = await fetch(`${getApiBaseUrl()}/login`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+  if (!response.ok || !data.success) {
+    const loginError: DbApiError = new Error(data.error || `Login failed: ${response.status}`);
+    loginError.code = data.code;
+    loginError.status = response.status;
+    throw loginError;
+  }
+
+  const session: DatabaseSession = { user: data.user, token: data.token, expiresAt: data.expiresAt };
+  localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(session));
+  window.dispatchEvent(new Event('databaseAuthChanged'));
+  return session;
+}
+
+export function logoutFromDatabase(): void {
+  localStorage.removeItem(AUTH_SESSION_KEY);
+  dbConnection = null;
+  window.dispatchEvent(new Event('databaseAuthChanged'));
+}
+
+// R2 cache options sent with every /api/db call, set in Database settings
+const CACHE_OPTIONS_KEY = 'db_cache_options';
+
+export type CachedDbAction = 'query' | 'count' | 'matches' | 'listTables' | 'describeTable' | 'matchData';
+
+export interface DbCacheOptions {
+  noCache?: boolean; // Always query Neon (fresh results are still cached for others)
+  maxAge?: number; // Seconds; cached responses older than this are refetched
+}
+
+export interface DbCacheStats {
+  entries: number;
+  bytes: number;
+  byAction: Record<string, { entries: number; bytes: number; oldest: string | null; newest: string | null }>;
+  byTable: Record<string, { entries: number; bytes: number }>;
+  ttlSeconds: Record<CachedDbAction, number>;
+}
+
+export function getDbCacheOptions(): DbCacheOptions {
+  try {
+    const saved = localStorage.getItem(CACHE_OPTIONS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error reading cache options:', error);
+    return {};
+  }
+}
+
+export function saveDbCacheOptions(options: DbCacheOptions): void {
+  localStorage.setItem(CACHE_OPTIONS_KEY, JSON.stringify(options));
+}
+
+// Error from /api/db. code is the server's structured code (SQL_SYNTAX, SQL_TABLE_NOT_ALLOWED, SQL_TIMEOUT...)
+export interface DbApiError extends Error {
+  code?: string;
+  hint?: string;
+  status?: number;
+}
+
+// "[SQL_UNKNOWN_COLUMN] column "x" does not exist" plus the server hint, for showing to the LLM
+export function formatDbError(error: any): string {
+  const message = error?.message || 'Unknown database error';
+  const code = error?.code ? `[${error.code}] ` : '';
+  return `${code}${message}${error?.hint ? `\nHint: ${error.hint}` : ''}`;
+}
+
+// Make API call to Cloudflare Pages Function, or to the attached DuckDB file when that backend is selected
+async function callDbApi(action: string, params?: any, cache: DbCacheOptions = getDbCacheOptions()): Promise<any> {
+  try {
+    const backend = getDbBackend();
+    if (!backend.remote && action !== 'listBackends') {
+      const { callAttachedDuckDB } = await import('./attachedDuckDB');
+      return await callAttachedDuckDB(action, params || {});
+    }
+
+    const session = getDatabaseSession();
     const response = await fetch(`${getApiBaseUrl()}/db`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
       },
-      body: JSON.stringify({ action, params }),
+      body: JSON.stringify({ action, params, cache, backend: backend.id }),
     });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(errorData.error || `API request failed: ${response.status}`);
+      const apiError: DbApiError = new Error(errorData.error || `API request failed: ${response.status}`);
+      apiError.code = errorData.code;
+      apiError.hint = errorData.hint;
+      apiError.status = response.status;
+      // Expired or rejected token: drop it so the UI asks to sign in again
+      if (response.status === 401 && session) logoutFromDatabase();
+      throw apiError;
   }
   
     const data = await response.json();
@@ -47,11 +197,68 @@ async function callDbApi(action: string, params?: any): Promise<any> {
   }
 }
 
-// Execute a SQL query via API
-export async function executeDbQuery(query: string, params?: any[]): Promise<any[]> {
+// CSVSelector lists connected remote tables as db_table_<name> next to the CSV files
+const DATABASE_TABLE_ID_PREFIX = 'db_table_';
+
+// Remote table names among selected CSV ids (what a chat records as attachedTables)
+export function databaseTableNames(csvIds: string[]): string[] {
+  return csvIds.filter(id => id.startsWith(DATABASE_TABLE_ID_PREFIX)).map(id => id.slice(DATABASE_TABLE_ID_PREFIX.length));
+}
+
+// Tables connected in Settings, plus the default db_table_name
+export function getConnectedTables(): string[] {
+  const tables: string[] = [];
   try {
-    const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
-    const result = await callDbApi('query', { query, params, tableName });
+    const saved = JSON.parse(localStorage.getItem("db_connected_tables") || "[]");
+    if (Array.isArray(saved)) tables.push(...saved.filter((table: unknown) => typeof table === 'string' && table));
+  } catch (error) {
+    console.error('Error reading connected tables:', error);
+  }
+  const tableName = localStorage.getItem("db_table_name");
+  if (tableName && !tables.includes(tableName)) tables.push(tableName);
+  return tables;
+}
+
+export interface TableJoin {
+  left: string;
+  right: string;
+  columns: string[]; // Shared columns, key-like names (match_id, team, player_number...) first
+}
+
+const KEY_LIKE_COLUMN = /(^id$|_id$|_key$|_code$|number$|^team$|_team$|^season$|^name$|_name$)/i;
+
+/**
+ * Join keys between each pair of tables: columns with the same name and, when both are known, the same type
+ */
+export function findTableJoins(tables: { name: string; columns: { name: string; type?: string }[] }[]): TableJoin[] {
+  const joins: TableJoin[] = [];
+  for (let i = 0; i < tables.length; i++) {
+    for (let j = i + 1; j < tables.length; j++) {
+      const rightColumns = new Map(tables[j].columns.map(column => [column.name.toLowerCase(), column]));
+      const shared = tables[i].columns
+        .filter(column => {
+          const other = rightColumns.get(column.name.toLowerCase());
+          return other && (!column.type || !other.type || column.type === other.type);
+        })
+        .map(column => column.name)
+        .sort((a, b) => Number(KEY_LIKE_COLUMN.test(b)) - Number(KEY_LIKE_COLUMN.test(a)));
+      if (shared.length > 0) joins.push({ left: tables[i].name, right: tables[j].name, columns: shared });
+    }
+  }
+  return joins;
+}
+
+/**
+ * Execute a SQL query via API. `tables` is the set the query may read (and join); by default the
+ * connected tables, and with none connected every table the server allows.
+ */
+export async function executeDbQuery(query: string, params?: any[], tables: string[] = getConnectedTables()): Promise<any[]> {
+  try {
+    const tableName = localStorage.getItem("db_table_name") || tables[0] || "combined_dvw";
+    const result = await callDbApi('query', { query, params, tableName, ...(tables.length > 0 ? { tables } : {}) });
+    if (result.truncated) {
+      console.warn(`Query result truncated to the server row limit (${result.meta?.rowLimit ?? result.rows?.length} rows)`);
+    }
     return result.rows || [];
   } catch (error) {
     console.error('Query execution failed:', error);
@@ -59,6 +266,235 @@ export async function executeDbQuery(query: string, params?: any[]): Promise<any
   }
 }
 
+// Rows per /api/db page when streaming; the server caps it at its row limit
+const STREAM_PAGE_SIZE = 5000;
+
+// Follow nextCursor until the last page; each page is requested only after the previous one was consumed
+async function* streamDbPages(
+  action: 'query' | 'matchData',
+  params: Record<string, any>,
+  pageSize: number,
+  rowsKey: 'rows' | 'data',
+  cache: DbCacheOptions = getDbCacheOptions()
+): AsyncGenerator<any[]> {
+  let cursor: string | null = null;
+  do {
+    const result = await callDbApi(action, { ...params, pageSize, ...(cursor ? { cursor } : {}) }, cache);
+    yield result[rowsKey] || [];
+    cursor = result.nextCursor ?? null;
+  } while (cursor);
+}
+
+/**
+ * Page through a SELECT. The server reads every page from one stored snapshot of the result, so pages never
+ * overlap or skip rows; add an ORDER BY when the row order matters.
+ */
+export function streamDbQuery(
+  query: string,
+  params?: any[],
+  pageSize: number = STREAM_PAGE_SIZE,
+  tables: string[] = getConnectedTables(),
+  cache: DbCacheOptions = getDbCacheOptions()
+): AsyncGenerator<any[]> {
+  const tableName = localStorage.getItem("db_table_name") || tables[0] || "combined_dvw";
+  return streamDbPages('query', { query, params, tableName, ...(tables.length > 0 ? { tables } : {}) }, pageSize, 'rows', cache);
+}
+
+// Page through every action of a match, in point_id/video_time order
+export function streamMatchData(matchId: string, pageSize: number = STREAM_PAGE_SIZE): AsyncGenerator<any[]> {
+  const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
+  return streamDbPages('matchData', { matchId, tableName }, pageSize, 'data');
+}
+
+// DuckDB table name for remote results, kept apart from the csv_* tables of uploaded files
+export function remoteDuckDBTableName(name: string): string {
+  return `remote_${name.replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Stream a remote SELECT into a DuckDB table page by page, so it can be joined with local files in DuckDB
+ */
+export async function loadRemoteQueryIntoDuckDB(
+  query: string,
+  name: string,
+  options: {
+    params?: any[];
+    pageSize?: number;
+    tables?: string[];
+    cache?: DbCacheOptions;
+    onProgress?: (progress: { rows: number; pages: number }) => void;
+  } = {}
+): Promise<{ tableName: string; rowCount: number; headers: string[] }> {
+  const { loadRowPagesIntoDuckDB } = await import('./duckdb');
+  return loadRowPagesIntoDuckDB(
+    remoteDuckDBTableName(name),
+    streamDbQuery(query, options.params, options.pageSize, options.tables, options.cache),
+    options.onProgress
+  );
+}
+
+export interface MaterializedQuery {
+  tableName: string;
+  rowCount: number;
+  headers: string[];
+  loadedAt: number;
+  reused: boolean; // true when the table from an earlier call was kept (no request made)
+}
+
+// Remote results materialized this session, by DuckDB table; the key says which query the table holds
+const materializedQueries = new Map<string, { key: string; result: MaterializedQuery }>();
+
+/**
+ * Materialize a remote SELECT as the DuckDB table remote_<name> for this session, so one DuckDB statement
+ * can join it with local files. Calling again with the same query reuses the table; refresh reloads it
+ * through /api/db, which still answers from the R2 cache while the entry is fresh (maxAge narrows that).
+ */
+export async function materializeRemoteQuery(
+  name: string,
+  query: string,
+  options: { params?: any[]; tables?: string[]; refresh?: boolean; maxAge?: number } = {}
+): Promise<MaterializedQuery> {
+  const tableName = remoteDuckDBTableName(name);
+  const tables = options.tables || getConnectedTables();
+  const key = JSON.stringify({ query, params: options.params || [], tables, backend: getDbBackend().id });
+  const existing = materializedQueries.get(tableName);
+  if (existing && existing.key === key && !options.refresh) {
+    const { verifyTableExists } = await import('./duckdb');
+    if (await verifyTableExists(tableName)) return { ...existing.result, reused: true };
+  }
+
+  const cache: DbCacheOptions = { ...getDbCacheOptions(), ...(options.maxAge != null ? { maxAge: options.maxAge } : {}) };
+  const loaded = await loadRemoteQueryIntoDuckDB(query, name, { params: options.params, tables, cache });
+  const result: MaterializedQuery = { ...loaded, loadedAt: Date.now(), reused: false };
+  materializedQueries.set(tableName, { key, result });
+  return result;
+}
+
+// remote_match_<id> tables loaded this session (loadMatchData, loadTeamMatches, win probability)
+const loadedMatchTables = new Set<string>();
+
+// Drop every table materializeRemoteQuery and the match loaders created this session
+// (ChatMain calls it when the chat changes or closes); readMatchActions reloads a dropped match on demand
+export async function dropMaterializedQueries(): Promise<void> {
+  if (materializedQueries.size === 0 && loadedMatchTables.size === 0) return;
+  const { runQuery } = await import('./duckdb');
+  for (const tableName of [...materializedQueries.keys(), ...loadedMatchTables]) {
+    await runQuery(`DROP TABLE IF EXISTS "${tableName.replace(/"/g, '""')}"`);
+  }
+  materializedQueries.clear();
+  loadedMatchTables.clear();
+}
+
+// Every action of a match as the DuckDB table remote_match_<id>; onPage sees each page before it is loaded
+export async function loadMatchDataIntoDuckDB(
+  matchId: string,
+  options: { onPage?: (rows: any[]) => void; onProgress?: (progress: { rows: number; pages: number }) => void } = {}
+): Promise<{ tableName: string; rowCount: number; headers: string[] }> {
+  const { loadRowPagesIntoDuckDB } = await import('./duckdb');
+  async function* pages() {
+    for await (const rows of streamMatchData(matchId)) {
+      options.onPage?.(rows);
+      yield rows;
+    }
+  }
+  const tableName = remoteDuckDBTableName(`match_${matchId}`);
+  loadedMatchTables.add(tableName);
+  return loadRowPagesIntoDuckDB(tableName, pages(), options.onProgress);
+}
+
+/**
+ * A match's actions as rows, read from its DuckDB table (loaded again if the table was dropped).
+ * Nothing keeps them: callers that need the rows in JS read them when they need them.
+ */
+export async function readMatchActions(matchId: string): Promise<any[]> {
+  const { convertBigIntToNumber, runQuery, verifyTableExists } = await import('./duckdb');
+  const tableName = remoteDuckDBTableName(`match_${matchId}`);
+  if (!(await verifyTableExists(tableName))) await loadMatchDataIntoDuckDB(matchId);
+  const result = await runQuery(`SELECT * FROM "${tableName}" ORDER BY point_id, video_time`);
+  return result.toArray().map((row: any) => toMatchAction(convertBigIntToNumber(row.toJSON ? row.toJSON() : row)));
+}
+
+// Delete cached responses for a table and/or action (neither = everything), returns the number purged
+export async function purgeDatabaseCache(filter: { table?: string; cacheAction?: CachedDbAction } = {}): Promise<number> {
+  const result = await callDbApi('cachePurge', filter);
+  // Session-level models were built from the old responses
+  matchResults = null;
+  winProbabilityModel = null;
+  return result.purged || 0;
+}
+
+export interface IngestMatchDiff {
+  match_id: string;
+  home_team: string;
+  visiting_team: string;
+  incomingRows: number;
+  existingRows: number;
+  status: 'new' | 'replace' | 'skip';
+}
+
+export interface IngestResult {
+  dryRun: boolean;
+  tableName: string;
+  matches: IngestMatchDiff[];
+  rowsToInsert: number;
+  rowsToDelete: number;
+  inserted: number;
+  purged: number;
+}
+
+// The ingest action accepts at most this many rows per request
+const INGEST_CHUNK_ROWS = 20000;
+
+/**
+ * Upload parsed match rows (CSV or DVW) to the team database table.
+ * Rows are trimmed to MATCH_ACTION_COLUMNS plus match_date and sent in whole-match chunks, so each match is written atomically.
+ * With dryRun nothing is written and the result is the per-match diff; existing matches are skipped unless replace is set.
+ */
+export async function ingestMatchRows(rows: any[], options: { dryRun?: boolean; replace?: boolean } = {}): Promise<IngestResult> {
+  const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
+  const byMatch = new Map<string, any[]>();
+  for (const row of rows) {
+    const trimmed: Record<string, any> = {};
+    for (const column of [...MATCH_ACTION_COLUMNS, MATCH_DATE_COLUMN]) trimmed[column] = row[column] ?? null;
+    const matchId = String(row.match_id ?? '');
+    if (!byMatch.has(matchId)) byMatch.set(matchId, []);
+    byMatch.get(matchId)!.push(trimmed);
+  }
+
+  const chunks: any[][] = [];
+  let chunk: any[] = [];
+  for (const matchRows of byMatch.values()) {
+    if (chunk.length > 0 && chunk.length + matchRows.length > INGEST_CHUNK_ROWS) {
+      chunks.push(chunk);
+      chunk = [];
+    }
+    chunk = chunk.concat(matchRows);
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+
+  const total: IngestResult = { dryRun: !!options.dryRun, tableName, matches: [], rowsToInsert: 0, rowsToDelete: 0, inserted: 0, purged: 0 };
+  for (const chunkRows of chunks) {
+    const result = await callDbApi('ingest', { tableName, rows: chunkRows, dryRun: !!options.dryRun, replace: !!options.replace });
+    total.matches.push(...(result.matches || []));
+    total.rowsToInsert += result.rowsToInsert || 0;
+    total.rowsToDelete += result.rowsToDelete || 0;
+    total.inserted += result.inserted || 0;
+    total.purged += result.purged || 0;
+  }
+
+  if (!options.dryRun && total.inserted > 0) {
+    // Session-level models were built without the new matches
+    matchResults = null;
+    winProbabilityModel = null;
+  }
+  return total;
+}
+
+export async function getDatabaseCacheStats(): Promise<DbCacheStats> {
+  const result = await callDbApi('cacheStats');
+  return result.stats;
+}
+
 // Get row count for a table with optional WHERE conditions
 export async function getRowCount(tableName: string, whereConditions?: string[]): Promise<number> {
   try {
@@ -73,10 +509,10 @@ export async function getRowCount(tableName: string, whereConditions?: string[])
   }
 }
 
-// Initialize database connection via R2 + Workers (queries Neon Postgres)
+// Initialize database connection via R2 + Workers, or the attached DuckDB file
 export async function initVolleyballDB(): Promise<boolean> {
   try {
-    console.log('Connecting to database via R2 + Workers (Neon Postgres)...');
+    console.log(`Connecting to database (${getDbBackend().name})...`);
     
     // Test connection by fetching matches
     const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
@@ -123,6 +559,82 @@ export async function listDatabaseTables(): Promise<string[]> {
   }
 }
 
+// Backends /api/db has credentials for, and the one it uses when a request names none
+export async function listServerBackends(): Promise<{ backends: { kind: DbBackendKind; label: string }[]; defaultBackend: DbBackendKind }> {
+  const result = await callDbApi('listBackends');
+  return { backends: result.backends || [], defaultBackend: result.defaultBackend };
+}
+
+export interface TableColumnDescription {
+  name: string;
+  dataType: string; // Postgres information_schema data_type (other backends map their types to these names)
+  nullable: boolean;
+  sampleNullCount?: number; // Nulls within the sampled rows
+  distinctValues?: any[]; // Only for low-cardinality columns (at most 20 values)
+}
+
+export interface TableDescription {
+  name: string;
+  rowCount: number;
+  rowCountExact: boolean; // false when rowCount is the planner estimate
+  sampleSize: number;
+  columns: TableColumnDescription[];
+}
+
+// Columns, types, approximate row count and low-cardinality values of a remote table
+export async function describeDatabaseTable(tableName: string): Promise<TableDescription> {
+  const result = await callDbApi('describeTable', { tableName });
+  return result.table;
+}
+
+// Postgres types folded into the ColumnInfo types generateValueInfoFromData infers for CSVs
+function columnTypeFromPostgres(dataType: string): string {
+  const type = dataType.toLowerCase();
+  if (/^(smallint|integer|bigint|numeric|decimal|real|double precision)$/.test(type)) return 'number';
+  if (type === 'boolean') return 'boolean';
+  if (type === 'date' || type.startsWith('timestamp') || type.startsWith('time')) return 'date';
+  if (type === 'array') return 'array';
+  if (type === 'json' || type === 'jsonb') return 'object';
+  return 'string';
+}
+
+/**
+ * ValueInfo for a remote table, keyed like CSVSelector's database entries (db_table_<name>),
+ * so the chat gets the same column context as for uploaded CSVs
+ */
+export function buildTableValueInfo(table: TableDescription): ValueInfo {
+  const columns: ColumnInfo[] = table.columns.map(column => {
+    const type = columnTypeFromPostgres(column.dataType);
+    // bigint and numeric arrive as strings
+    const uniqueValues = column.distinctValues?.map(value => (type === 'number' && value !== null ? Number(value) : value));
+    // Scale sampled nulls up to the whole table, as generateValueInfoFromData does
+    const nullCount = column.sampleNullCount != null && table.sampleSize > 0
+      ? Math.round((column.sampleNullCount / table.sampleSize) * Math.max(table.rowCount, table.sampleSize))
+      : undefined;
+    return { name: column.name, type, dbType: column.dataType, nullable: column.nullable, uniqueValues, nullCount };
+  });
+
+  const rows = `${table.rowCountExact ? '' : '~'}${table.rowCount.toLocaleString()}`;
+  const summary = `Database table ${table.name}: ${rows} rows${table.rowCountExact ? '' : ' (Postgres estimate)'}, ${columns.length} columns.\n`
+    + `Unique values are listed for columns with at most 20 distinct values in the first ${table.sampleSize.toLocaleString()} rows.\n\n`
+    + columns.map(c => {
+      const values = c.uniqueValues?.length ? `: ${c.uniqueValues.join(', ')}` : '';
+      const nullPart = c.nullCount ? `, ${c.nullCount} null` : '';
+      return `${c.name} (${c.type}, ${c.dbType}${c.nullable ? '' : ', not null'}${nullPart})${values}`;
+    }).join('\n');
+
+  return {
+    id: `db_table_${table.name}`,
+    type: 'csv',
+    name: table.name,
+    description: `Remote database table (${rows} rows)`,
+    columns,
+    summary,
+    totalRowCount: table.rowCount,
+    generatedAt: Date.now(),
+  };
+}
+
 // Get database connection status (for compatibility)
 export function getDbConnection(): any {
   // Return a proxy object that mimics the old Neon API for compatibility
@@ -140,8 +652,8 @@ export function getDbConnection(): any {
       for (let i = 0; i < strings.length; i++) {
         query += strings[i];
         if (i < values.length) {
-          // For SQLite, use ? placeholders instead of ${} interpolation
-          query += '?';
+          // Postgres bound parameters ($1, $2...) instead of ${} interpolation
+          query += `$${i + 1}`;
         }
       }
       
@@ -156,6 +668,67 @@ export function getDbConnection(): any {
   };
 }
 
+// A matchData row in the app's action format - preserving all relevant fields, cleaning booleans
+function toMatchAction(row: any) {
+  return {
+    match_id: row.match_id,
+    point_id: row.point_id,
+    video_time: row.video_time || 0,
+    team: row.team,
+    player_number: row.player_number,
+    player_name: row.player_name || `Player ${row.player_number || ''}`,
+    skill_type: row.skill_type,
+    evaluation_code: row.evaluation_code,
+    evaluation: row.evaluation,
+    attack_code: row.attack_code,
+    attack_description: row.attack_description,
+    set_code: row.set_code,
+    set_description: row.set_description,
+    set_type: row.set_type,
+    start_zone: row.start_zone,
+    end_zone: row.end_zone,
+    end_subzone: row.end_subzone,
+    end_cone: row.end_cone,
+    skill_subtype: row.skill_subtype,
+    set_number: row.set_number,
+    home_team_score: row.home_team_score,
+    visiting_team_score: row.visiting_team_score,
+    home_score: row.home_score,
+    visiting_score: row.visiting_score,
+    phase: row.phase,
+    home_team: row.home_team,
+    visiting_team: row.visiting_team,
+    point_won_by: row.point_won_by,
+    point: row.point ?? 0,
+    winning_attack: row.winning_attack ?? 0,
+    serving_team: row.serving_team,
+    point_phase: row.point_phase,
+    attack_phase: row.attack_phase,
+    reception_quality: row.reception_quality,
+    timeout: row.timeout ?? 0,
+    end_of_set: row.end_of_set ?? 0,
+    substitution: row.substitution ?? 0,
+    num_players: row.num_players,
+    num_players_numeric: row.num_players_numeric,
+    special_code: row.special_code,
+    custom_code: row.custom_code,
+    home_setter_position: row.home_setter_position,
+    visiting_setter_position: row.visiting_setter_position,
+    home_p1: row.home_p1, home_p2: row.home_p2, home_p3: row.home_p3,
+    home_p4: row.home_p4, home_p5: row.home_p5, home_p6: row.home_p6,
+    visiting_p1: row.visiting_p1, visiting_p2: row.visiting_p2, visiting_p3: row.visiting_p3,
+    visiting_p4: row.visiting_p4, visiting_p5: row.visiting_p5, visiting_p6: row.visiting_p6,
+    start_coordinate_x: row.start_coordinate_x,
+    start_coordinate_y: row.start_coordinate_y,
+    mid_coordinate_x: row.mid_coordinate_x,
+    mid_coordinate_y: row.mid_coordinate_y,
+    end_coordinate_x: row.end_coordinate_x,
+    end_coordinate_y: row.end_coordinate_y,
+    point_differential: row.point_differential,
+    video_timestamp: row.video_time // Keep for backward compatibility
+  };
+}
+
 // Load match data
 export async function loadMatchData(matchId: string): Promise<any> {
   try {
@@ -170,85 +743,20 @@ export async function loadMatchData(matchId: string): Promise<any> {
       throw new Error(`Match ${matchId} not found in available matches`);
     }
     
-    // Fetch all actions for this match via API
-    const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
-    const result = await callDbApi('matchData', { matchId, tableName });
-    
-    if (!result || !result.data) {
-      throw new Error('Failed to fetch match data from database');
-    }
-    
-    const dataResult = result.data;
-    
-    // Convert database rows to our format - preserving all relevant fields, cleaning booleans
-    const data = dataResult.map((row: any) => ({
-      match_id: row.match_id,
-      point_id: row.point_id,
-      video_time: row.video_time || 0,
-      team: row.team,
-      player_number: row.player_number,
-      player_name: row.player_name || `Player ${row.player_number || ''}`,
-      skill_type: row.skill_type,
-      evaluation_code: row.evaluation_code,
-      evaluation: row.evaluation,
-      attack_code: row.attack_code,
-      attack_description: row.attack_description,
-      set_code: row.set_code,
-      set_description: row.set_description,
-      set_type: row.set_type,
-      start_zone: row.start_zone,
-      end_zone: row.end_zone,
-      end_subzone: row.end_subzone,
-      end_cone: row.end_cone,
-      skill_subtype: row.skill_subtype,
-      set_number: row.set_number,
-      home_team_score: row.home_team_score,
-      visiting_team_score: row.visiting_team_score,
-      home_score: row.home_score,
-      visiting_score: row.visiting_score,
-      phase: row.phase,
-      home_team: row.home_team,
-      visiting_team: row.visiting_team,
-      point_won_by: row.point_won_by,
-      point: row.point ?? 0,
-      winning_attack: row.winning_attack ?? 0,
-      serving_team: row.serving_team,
-      point_phase: row.point_phase,
-      attack_phase: row.attack_phase,
-      reception_quality: row.reception_quality,
-      timeout: row.timeout ?? 0,
-      end_of_set: row.end_of_set ?? 0,
-      substitution: row.substitution ?? 0,
-      num_players: row.num_players,
-      num_players_numeric: row.num_players_numeric,
-      special_code: row.special_code,
-      custom_code: row.custom_code,
-      home_setter_position: row.home_setter_position,
-      visiting_setter_position: row.visiting_setter_position,
-      home_p1: row.home_p1, home_p2: row.home_p2, home_p3: row.home_p3,
-      home_p4: row.home_p4, home_p5: row.home_p5, home_p6: row.home_p6,
-      visiting_p1: row.visiting_p1, visiting_p2: row.visiting_p2, visiting_p3: row.visiting_p3,
-      visiting_p4: row.visiting_p4, visiting_p5: row.visiting_p5, visiting_p6: row.visiting_p6,
-      start_coordinate_x: row.start_coordinate_x,
-      start_coordinate_y: row.start_coordinate_y,
-      mid_coordinate_x: row.mid_coordinate_x,
-      mid_coordinate_y: row.mid_coordinate_y,
-      end_coordinate_x: row.end_coordinate_x,
-      end_coordinate_y: row.end_coordinate_y,
-      point_differential: row.point_differential,
-      video_timestamp: row.video_time // Keep for backward compatibility
-    }));
+    // Stream the match into DuckDB (remote_match_<id>) a page at a time; the rows stay there
+    const { tableName, rowCount } = await loadMatchDataIntoDuckDB(matchId);
     
-    console.log('✅ Match data loaded:', data.length, 'actions');
+    console.log('✅ Match data loaded:', rowCount, 'actions');
     
-    // Generate summary
-    const summary = generateMatchSummary(data, matchInfo);
+    // Generate summary from one read of the table; the rows are not kept
+    const summary = generateMatchSummary(await readMatchActions(matchId), matchInfo);
     
     return {
       matchId: matchId, // Include matchId for compatibility
       matchInfo,
-      data,
-      summary
+      rowCount,
+      summary,
+      tableName // DuckDB table with the match's raw rows: readMatchActions for JS rows, SQL joins with local files
     };
   } catch (error) {
     console.error('❌ Error loading match data:', error);
@@ -294,6 +802,7 @@ function generateMatchSummary(data: any[], matchInfo: Match): {
   totalDigs: number;
   totalSetSkills: number;
   setScores: Record<string, { home: number; visiting: number }>;
+  players: PlayerMatchStats[];
 } {
   // Filter by skill_type - match case-insensitive and allow partial matches
   const attacks = data.filter(d => d.skill_type && d.skill_type.toLowerCase().includes('attack'));
@@ -492,10 +1001,172 @@ function generateMatchSummary(data: any[], matchInfo: Match): {
     totalBlocks: blocks.length,
     totalDigs: digs.length,
     totalSetSkills: setSkills.length,
-    setScores
+    setScores,
+    players: computePlayerStats(data)
   };
 }
 
+// Columns a team table may date its matches with, in preference order
+const MATCH_DATE_COLUMNS = ['match_date', 'date', 'game_date', 'played_at', 'played_on'];
+
+// The table's match date column: a date/timestamp typed one first, else an ISO text one named match_date
+async function findMatchDateColumn(tableName: string): Promise<string | null> {
+  const { columns } = await describeDatabaseTable(tableName);
+  const byName = new Map(columns.map(column => [column.name.toLowerCase(), column]));
+  const candidates = MATCH_DATE_COLUMNS.map(name => byName.get(name)).filter(Boolean) as TableColumnDescription[];
+  const typed = candidates.find(column => columnTypeFromPostgres(column.dataType) === 'date');
+  if (typed) return typed.name;
+  return byName.get('match_date')?.name || null;
+}
+
+/**
+ * Per-match totals for every player of a team in matches played before the given match.
+ * Match ids are not chronological in general (ingested files keep their own ids), so this orders by the
+ * table's match date column; without one it falls back to match_id order, which the rows report by
+ * carrying no match_date (parsed .dvw ids start with the ISO date, so that order is still by date for them).
+ */
+export async function loadPlayerHistory(team: string, beforeMatchId: string): Promise<PlayerHistoryRow[]> {
+  const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
+  const dateColumn = await findMatchDateColumn(tableName);
+  if (!dateColumn) {
+    console.warn(`No match date column in ${tableName} (one of ${MATCH_DATE_COLUMNS.join(', ')}); ordering player history by match_id`);
+  }
+  return executeDbQuery(buildPlayerHistorySql(tableName, dateColumn), [team, beforeMatchId]);
+}
+
+// Build report cards for every player in a match, with trends against their previous matches
+export async function loadPlayerReportCards(matchId: string): Promise<PlayerReportCard[]> {
+  const { matchInfo, summary } = await loadMatchData(matchId);
+  const history: PlayerHistoryRow[] = [];
+  for (const team of [matchInfo.home_team, matchInfo.visiting_team].filter(Boolean)) {
+    try {
+      history.push(...await loadPlayerHistory(team, matchId));
+    } catch (error) {
+      // Cards still render without trends if the history query fails
+      console.warn(`Player history unavailable for ${team}:`, error);
+    }
+  }
+  return buildPlayerReportCards(matchInfo, summary.players, history);
+}
+
+// Teams appearing in the available matches, sorted by name
+export function getAvailableTeams(): string[] {
+  const teams = new Set<string>();
+  availableMatches.forEach(m => {
+    if (m.home_team) teams.add(m.home_team);
+    if (m.visiting_team) teams.add(m.visiting_team);
+  });
+  return [...teams].sort((a, b) => a.localeCompare(b));
+}
+
+// Load every match a team played (home or away), one matchData call per match so each stays cached
+export async function loadTeamMatches(
+  teamName: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<Array<{ matchInfo: Match; data: any[] }>> {
+  const normalized = teamName.trim().toLowerCase();
+  const teamMatches = availableMatches.filter(m =>
+    (m.home_team || '').trim().toLowerCase() === normalized ||
+    (m.visiting_team || '').trim().toLowerCase() === normalized
+  );
+  if (teamMatches.length === 0) {
+    throw new Error(`No matches found for team ${teamName}`);
+  }
+
+  // The report needs every match's rows in JS, so they are streamed straight from /api/db without a DuckDB table
+  const loaded: Array<{ matchInfo: Match; data: any[] }> = [];
+  for (const match of teamMatches) {
+    const data: any[] = [];
+    for await (const rows of streamMatchData(match.match_id)) {
+      for (const row of rows) data.push(toMatchAction(row));
+    }
+    loaded.push({ matchInfo: match, data });
+    onProgress?.(loaded.length, teamMatches.length);
+  }
+  return loaded;
+}
+
+// Build a scouting report for a team across all of its matches
+export async function loadScoutingReport(
+  teamName: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<ScoutingReport> {
+  const matches = await loadTeamMatches(teamName, onProgress);
+  return buildScoutingReport(teamName, matches);
+}
+
+let winProbabilityModel: WinProbabilityModel | null = null;
+
+// Calibrate the win-probability model on rally outcomes across every match in the table (cached per session)
+export async function loadWinProbabilityModel(forceRefresh: boolean = false): Promise<WinProbabilityModel> {
+  if (winProbabilityModel && !forceRefresh) return winProbabilityModel;
+  const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
+  const query = `SELECT home_team, visiting_team, serving_team, point_won_by, COUNT(*) AS rallies
+    FROM (
+      SELECT DISTINCT match_id, point_id, home_team, visiting_team, serving_team, point_won_by
+      FROM "${tableName.replace(/"/g, '""')}"
+      WHERE serving_team IS NOT NULL AND point_won_by IS NOT NULL
+    ) r
+    GROUP BY home_team, visiting_team, serving_team, point_won_by`;
+  const counts: RallyOutcomeCount[] = await executeDbQuery(query);
+  winProbabilityModel = calibrateFromRallyCounts(counts);
+  return winProbabilityModel;
+}
+
+// Win probability timeline for one match, using the model calibrated on all matches
+export async function loadWinProbability(matchId: string): Promise<WinProbabilityTimeline> {
+  const [model, data] = await Promise.all([loadWinProbabilityModel(), readMatchActions(matchId)]);
+  return computeWinProbability(data, model, { matchId });
+}
+
+let matchResults: MatchResult[] | null = null;
+
+// Final set scores of every match in the table (cached per session)
+export async function loadMatchResults(forceRefresh: boolean = false): Promise<MatchResult[]> {
+  if (matchResults && !forceRefresh) return matchResults;
+  const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
+  const query = `SELECT match_id, set_number, MAX(home_score) AS home, MAX(visiting_score) AS visiting
+    FROM "${tableName.replace(/"/g, '""')}"
+    WHERE set_number IS NOT NULL
+    GROUP BY match_id, set_number
+    ORDER BY match_id, set_number`;
+  const rows = await executeDbQuery(query);
+
+  const byMatch = new Map<string, MatchResult>();
+  for (const row of rows) {
+    const matchId = String(row.match_id);
+    const info = availableMatches.find(m => String(m.match_id) === matchId);
+    if (!info) continue;
+    if (!byMatch.has(matchId)) {
+      byMatch.set(matchId, { match_id: matchId, home_team: info.home_team, visiting_team: info.visiting_team, sets: [] });
+    }
+    byMatch.get(matchId)!.sets.push({
+      set_number: Number(row.set_number),
+      home: Number(row.home) || 0,
+      visiting: Number(row.visiting) || 0,
+    });
+  }
+  matchResults = [...byMatch.values()];
+  return matchResults;
+}
+
+// Elo ratings over every match in the table
+export async function loadTeamRatings(options: RatingOptions = {}): Promise<RatingReport> {
+  return computeRatings(await loadMatchResults(), options);
+}
+
+// Season totals and leaderboards over every match in the table, aggregated in Postgres; the trend follows its match dates
+export async function loadSeasonStats(options: { minAttempts?: number } = {}): Promise<SeasonReport> {
+  const tableName = localStorage.getItem("db_table_name") || "combined_dvw";
+  const sql = buildSeasonSql(`"${tableName.replace(/"/g, '""')}"`, await findMatchDateColumn(tableName));
+  const [players, teams, playerMatches] = await Promise.all([
+    executeDbQuery(sql.players),
+    executeDbQuery(sql.teams),
+    executeDbQuery(sql.playerMatches),
+  ]);
+  return buildSeasonReport({ players, teams, playerMatches }, { source: tableName, minAttempts: options.minAttempts });
+}
+
 // Check if database is connected
 export function isDatabaseConnected(): boolean {
   return dbConnection !== null;
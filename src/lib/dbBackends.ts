@@ -0,0 +1,123 @@
+// Team database backends behind callDbApi.
+// Neon, Postgres and SQLite are served by /api/db (functions/_lib/backends.ts); attached DuckDB files are
+// queried in the browser (attachedDuckDB.ts). Each backend brings the SQL dialect hints the LLM gets.
+
+export type DbBackendKind = 'neon' | 'postgres' | 'sqlite' | 'duckdb';
+
+export interface DbBackend {
+  id: DbBackendKind;
+  name: string;
+  remote: boolean; // Served by /api/db (false: runs in the browser)
+  description: string;
+  dialect: string; // Short dialect name for error tips
+  dialectHints: string[];
+}
+
+const POSTGRES_HINTS = [
+  'Identifiers in double quotes ("Player Name"), strings in single quotes',
+  'Casts: value::numeric or CAST(value AS numeric); integer / integer truncates, so cast one side first',
+  'Case-insensitive match: ILIKE; text concatenation: ||',
+  'Median/percentiles: PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY col); MEDIAN() does not exist',
+  'Conditional aggregates: COUNT(*) FILTER (WHERE ...); dates: date_trunc(\'day\', ts), EXTRACT(YEAR FROM ts)',
+];
+
+export const DB_BACKENDS: DbBackend[] = [
+  {
+    id: 'neon',
+    name: 'Neon Postgres',
+    remote: true,
+    description: 'Neon serverless Postgres over HTTP (NEON_CONNECTION_STRING)',
+    dialect: 'PostgreSQL',
+    dialectHints: POSTGRES_HINTS,
+  },
+  {
+    id: 'postgres',
+    name: 'PostgreSQL',
+    remote: true,
+    description: 'Any Postgres server over the wire protocol (POSTGRES_CONNECTION_STRING, via POSTGRES_WS_PROXY)',
+    dialect: 'PostgreSQL',
+    dialectHints: POSTGRES_HINTS,
+  },
+  {
+    id: 'sqlite',
+    name: 'SQLite (D1)',
+    remote: true,
+    description: 'SQLite through a Cloudflare D1 binding (SQLITE_DB)',
+    dialect: 'SQLite',
+    dialectHints: [
+      'Identifiers in double quotes, strings in single quotes',
+      'No :: casts - use CAST(value AS REAL); integer / integer truncates, so multiply by 1.0 first',
+      'No ILIKE (LIKE is already case-insensitive for ASCII); no MEDIAN or PERCENTILE_CONT - sort and pick with LIMIT/OFFSET',
+      'Dates are stored as text: use date(), strftime(\'%Y-%m\', col); booleans are 0/1',
+      'No FULL OUTER JOIN before SQLite 3.39; use LEFT JOIN ... UNION',
+    ],
+  },
+  {
+    id: 'duckdb',
+    name: 'DuckDB file',
+    remote: false,
+    description: 'A .duckdb database file attached read-only in your browser',
+    dialect: 'DuckDB',
+    dialectHints: [
+      'Identifiers in double quotes, strings in single quotes; :: casts work',
+      'Median/percentiles: MEDIAN(col), QUANTILE_CONT(col, 0.5) - no WITHIN GROUP syntax',
+      'ILIKE, COUNT(*) FILTER (WHERE ...), date_trunc(\'day\', ts) and strftime(ts, \'%Y-%m\') all work',
+      'Integer / integer returns a double; use // for integer division',
+    ],
+  },
+];
+
+const BACKEND_STORAGE_KEY = 'db_backend';
+// db_table_name and db_connected_tables of the backends not currently selected
+const BACKEND_TABLES_STORAGE_KEY = 'db_backend_tables';
+const TABLE_SETTING_KEYS = ['db_table_name', 'db_connected_tables'];
+
+export function getDbBackendInfo(id: DbBackendKind): DbBackend {
+  return DB_BACKENDS.find(backend => backend.id === id) || DB_BACKENDS[0];
+}
+
+export function getDbBackendId(): DbBackendKind {
+  try {
+    const saved = localStorage.getItem(BACKEND_STORAGE_KEY);
+    return DB_BACKENDS.some(backend => backend.id === saved) ? (saved as DbBackendKind) : 'neon';
+  } catch (error) {
+    console.error('Error loading database backend:', error);
+    return 'neon';
+  }
+}
+
+export function getDbBackend(): DbBackend {
+  return getDbBackendInfo(getDbBackendId());
+}
+
+/**
+ * Switch backends. Table settings are kept per backend: the current ones are put aside
+ * and the new backend's are restored, so every db_table_name reader follows the switch.
+ */
+export function setDbBackendId(id: DbBackendKind): void {
+  const current = getDbBackendId();
+  if (current === id) return;
+  let stored: Record<string, Record<string, string>> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(BACKEND_TABLES_STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('Error reading per-backend table settings:', error);
+  }
+  stored[current] = {};
+  for (const key of TABLE_SETTING_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value !== null) stored[current][key] = value;
+    localStorage.removeItem(key);
+  }
+  for (const [key, value] of Object.entries(stored[id] || {})) {
+    localStorage.setItem(key, value);
+  }
+  delete stored[id];
+  localStorage.setItem(BACKEND_TABLES_STORAGE_KEY, JSON.stringify(stored));
+  localStorage.setItem(BACKEND_STORAGE_KEY, id);
+}
+
+// Dialect section for the coding rules of database tables
+export function getDialectHints(backend: DbBackend = getDbBackend()): string {
+  return `SQL dialect of the team database (${backend.name}):\n${backend.dialectHints.map(hint => `• ${hint}`).join('\n')}`;
+}
@@ -270,7 +270,7 @@ function markFileAccessed(fileId: string): void {
 
 // Helper function to convert BigInt values to numbers/strings for JSON serialization
 // Uses iterative approach for large arrays to prevent stack overflow
-function convertBigIntToNumber(obj: any, visited: WeakSet<any> = new WeakSet()): any {
+export function convertBigIntToNumber(obj: any, visited: WeakSet<any> = new WeakSet()): any {
   if (obj === null || obj === undefined) {
     return obj;
   }
@@ -1838,6 +1838,12 @@ export async function executeDuckDBSql(
       // Use word boundaries to avoid replacing column names that contain these words
       // Match case-insensitive, but preserve the rest of the query
       // CRITICAL: Replace in all SQL contexts, not just FROM/JOIN
+      // ralliesData refers to the derived rally table of this file (created on first use)
+      if (/\bralliesData\b/i.test(finalQuery)) {
+        const rallyTable = await ensureRallyTable(tableName);
+        finalQuery = finalQuery.replace(/\bralliesData\b/gi, `"${rallyTable.replace(/"/g, '""')}"`);
+      }
+
       finalQuery = finalQuery.replace(/\bFROM\s+(csvData|csvdata|CSVDATA|csv_data|CSV_DATA|data|DATA)\b/gi, `FROM ${escapedTableName}`);
       finalQuery = finalQuery.replace(/\bJOIN\s+(csvData|csvdata|CSVDATA|csv_data|CSV_DATA|data|DATA)\b/gi, `JOIN ${escapedTableName}`);
       finalQuery = finalQuery.replace(/\bDESCRIBE\s+(csvData|csvdata|CSVDATA|csv_data|CSV_DATA|data|DATA)\b/gi, `DESCRIBE ${escapedTableName}`);
@@ -2368,6 +2374,279 @@ export async function processJSONWithDuckDB(
   }
 }
 
+// Process DataVolley scouting files (.dvw) by parsing them into match action rows and loading into DuckDB
+export async function processDVWWithDuckDB(
+  file: File,
+  onProgress?: (progress: { file: string; percent: number; rows?: number; message?: string }) => void,
+  existingFileId?: string,
+  convertToParquet: boolean = true
+): Promise<{
+  headers: string[];
+  rowCount: number;
+  data?: any[];
+  fileBlob?: Blob;
+  hasDuckDB: boolean;
+  tableName?: string;
+  fileId?: string;
+  matchInfo?: import('./dvwParser').DvwMatchInfo;
+}> {
+  try {
+    const db = await initDuckDB();
+    if (!db) {
+      throw new Error('DuckDB instance is not available');
+    }
+
+    const fileName = file.name || 'unknown.dvw';
+    const fileId = existingFileId || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    onProgress?.({ file: fileName, percent: 0, message: 'Reading DataVolley file...' });
+
+    const { parseDvwFile } = await import('./dvwParser');
+    const parsed = await parseDvwFile(file);
+
+    if (parsed.rows.length === 0) {
+      throw new Error('DataVolley file contains no scouted actions');
+    }
+
+    onProgress?.({
+      file: fileName,
+      percent: 40,
+      message: `Parsed ${parsed.matchInfo.home_team} vs ${parsed.matchInfo.visiting_team} (${parsed.rows.length.toLocaleString()} rows)...`
+    });
+
+    // Convert to CSV and load through the regular CSV path so the table matches combined_dvw columns
+    const { stringifyCsv } = await import('./csvUtils');
+    const csvText = stringifyCsv(parsed.headers, parsed.rows);
+    const csvBlob = new Blob([csvText], { type: 'text/csv' });
+    const csvFile = new File([csvBlob], fileName.replace(/\.dvw$/i, '.csv'), { type: 'text/csv' });
+
+    onProgress?.({ file: fileName, percent: 60, message: 'Loading into DuckDB...' });
+
+    const result = await processCSVWithDuckDB(csvFile, (progress) => {
+      const adjustedPercent = 60 + (progress.percent * 0.4);
+      onProgress?.({
+        file: fileName,
+        percent: adjustedPercent,
+        rows: progress.rows,
+        message: progress.message
+      });
+    }, fileId, convertToParquet);
+
+    // Derive the rally table right away; queries recreate it on demand if this fails
+    if (result.tableName) {
+      try {
+        await createRallyTable(result.tableName);
+      } catch (rallyError) {
+        console.warn('Rally table creation failed:', rallyError);
+      }
+    }
+
+    return {
+      ...result,
+      fileBlob: csvFile, // The generated CSV: reloads re-register the table with read_csv
+      matchInfo: parsed.matchInfo,
+    };
+  } catch (error: any) {
+    console.error('DataVolley processing failed:', error);
+    throw new Error(`DataVolley processing failed: ${error.message || 'Unknown error'}`);
+  }
+}
+
+const INTEGER_TYPES = ['TINYINT', 'SMALLINT', 'INTEGER', 'BIGINT', 'HUGEINT'];
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|FLOAT|DOUBLE|DECIMAL\(.*\))$/;
+
+// Narrowest type holding values of both auto-detected types; anything ambiguous becomes VARCHAR
+function widerColumnType(a: string, b: string): string {
+  if (a === b) return a;
+  if (INTEGER_TYPES.includes(a) && INTEGER_TYPES.includes(b)) {
+    return INTEGER_TYPES[Math.max(INTEGER_TYPES.indexOf(a), INTEGER_TYPES.indexOf(b))];
+  }
+  if (NUMERIC_TYPE.test(a) && NUMERIC_TYPE.test(b)) return 'DOUBLE';
+  if ((a === 'DATE' && b === 'TIMESTAMP') || (a === 'TIMESTAMP' && b === 'DATE')) return 'TIMESTAMP';
+  return 'VARCHAR';
+}
+
+// Load pages of rows (paginated /api/db results) into a DuckDB table as they arrive, so they never sit in one JS array.
+// Each page's types are auto-detected; when a page disagrees with the table, the column is widened
+// (integers to a larger integer, mixed numbers to DOUBLE, anything else to VARCHAR) before the page is appended.
+export async function loadRowPagesIntoDuckDB(
+  tableName: string,
+  pages: AsyncIterable<any[]>,
+  onProgress?: (progress: { rows: number; pages: number }) => void
+): Promise<{ tableName: string; rowCount: number; headers: string[] }> {
+  const database = await initDuckDB();
+  const { stringifyCsv } = await import('./csvUtils');
+  const escapedTable = tableName.replace(/"/g, '""');
+  const pageTable = `${escapedTable}_page`;
+  let headers: string[] = [];
+  // Table column types; columns that were empty on every page so far take the type of the first page with values
+  const columnTypes = new Map<string, string>();
+  const emptyColumns = new Set<string>();
+  let rowCount = 0;
+  let pageCount = 0;
+
+  const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+  const conn = await database.connect();
+  try {
+    for await (const rows of pages) {
+      if (rows.length === 0) continue;
+      if (headers.length === 0) headers = Object.keys(rows[0]);
+
+      // JSON/array columns would otherwise turn into "[object Object]"
+      const pageEmpty = new Set(headers);
+      const csvRows = rows.map(row => {
+        const flat: Record<string, any> = {};
+        for (const header of headers) {
+          const value = row[header];
+          if (value !== null && value !== undefined && value !== '') pageEmpty.delete(header);
+          flat[header] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+        }
+        return flat;
+      });
+      const csvFileName = `${tableName}_page_${pageCount}.csv`;
+      const source = csvFileName.replace(/'/g, "''");
+      await (database as any).registerFileBuffer(csvFileName, new TextEncoder().encode(stringifyCsv(headers, csvRows)));
+      try {
+        await conn.query(`
+          CREATE OR REPLACE TEMP TABLE "${pageTable}" AS
+          SELECT * FROM read_csv('${source}', header=true, auto_detect=true)
+        `);
+        const pageTypes = new Map<string, string>((await conn.query(`DESCRIBE "${pageTable}"`)).toArray().map((row: any) => [
+          String(row.column_name ?? row.get?.('column_name')),
+          String(row.column_type ?? row.get?.('column_type')),
+        ]));
+
+        if (columnTypes.size === 0) {
+          await conn.query(`CREATE OR REPLACE TABLE "${escapedTable}" AS SELECT * FROM "${pageTable}"`);
+          for (const header of headers) {
+            columnTypes.set(header, pageTypes.get(header) || 'VARCHAR');
+            if (pageEmpty.has(header)) emptyColumns.add(header);
+          }
+        } else {
+          for (const header of headers) {
+            const current = columnTypes.get(header) || 'VARCHAR';
+            const incoming = pageTypes.get(header) || 'VARCHAR';
+            if (pageEmpty.has(header)) continue;
+            const target = emptyColumns.has(header) ? incoming : widerColumnType(current, incoming);
+            emptyColumns.delete(header);
+            if (target !== current) {
+              await conn.query(`ALTER TABLE "${escapedTable}" ALTER COLUMN ${quote(header)} SET DATA TYPE ${target}`);
+              columnTypes.set(header, target);
+            }
+          }
+          await conn.query(`
+            INSERT INTO "${escapedTable}"
+            SELECT ${headers.map(header => `CAST(${quote(header)} AS ${columnTypes.get(header)})`).join(', ')} FROM "${pageTable}"
+          `);
+        }
+      } finally {
+        await conn.query(`DROP TABLE IF EXISTS temp."${pageTable}"`);
+        await (database as any).dropFile(csvFileName);
+      }
+
+      rowCount += rows.length;
+      pageCount++;
+      onProgress?.({ rows: rowCount, pages: pageCount });
+    }
+  } finally {
+    await conn.close();
+  }
+
+  if (columnTypes.size === 0) {
+    throw new Error(`No rows to load into ${tableName}`);
+  }
+  return { tableName, rowCount, headers };
+}
+
+// Build (or rebuild) the rally-level table for an action table: <table>_rallies
+export async function createRallyTable(actionTableName: string): Promise<{ tableName: string; rallyCount: number }> {
+  const database = await initDuckDB();
+  const { reconstructRallies, rallyTableName, RALLY_COLUMNS } = await import('./rallyReconstruction');
+  const targetTable = rallyTableName(actionTableName);
+  const escapedSource = actionTableName.replace(/"/g, '""');
+  const escapedTarget = targetTable.replace(/"/g, '""');
+
+  const conn = await database.connect();
+  try {
+    const columnsResult = await conn.query(`DESCRIBE "${escapedSource}"`);
+    const columns = columnsResult.toArray().map((row: any) => String(row.column_name ?? row.get?.('column_name')));
+    if (!columns.includes('point_id') || !columns.includes('skill_type')) {
+      throw new Error(`Table ${actionTableName} has no point_id/skill_type columns - rallies cannot be derived`);
+    }
+
+    const actionRows = (await conn.query(`SELECT * FROM "${escapedSource}"`)).toArray().map((row: any) => row.toJSON ? row.toJSON() : row);
+    const rallies = reconstructRallies(actionRows);
+
+    const { stringifyCsv } = await import('./csvUtils');
+    const csvText = stringifyCsv(RALLY_COLUMNS as string[], rallies);
+    const csvFileName = `${targetTable}.csv`;
+    await (database as any).registerFileBuffer(csvFileName, new TextEncoder().encode(csvText));
+
+    await conn.query(`
+      CREATE OR REPLACE TABLE "${escapedTarget}" AS
+      SELECT * FROM read_csv('${csvFileName.replace(/'/g, "''")}', header=true, auto_detect=true)
+    `);
+
+    return { tableName: targetTable, rallyCount: rallies.length };
+  } finally {
+    await conn.close();
+  }
+}
+
+// Return the rally table for an action table, deriving it if it does not exist yet
+export async function ensureRallyTable(actionTableName: string): Promise<string> {
+  const { rallyTableName } = await import('./rallyReconstruction');
+  const targetTable = rallyTableName(actionTableName);
+  if (await verifyTableExists(targetTable)) {
+    return targetTable;
+  }
+  return (await createRallyTable(actionTableName)).tableName;
+}
+
+// Season aggregates across several DVW-derived files; the aggregation runs in DuckDB over a UNION ALL of their tables
+export async function querySeasonStatsWithDuckDB(
+  csvIds: string[],
+  options: { minAttempts?: number } = {}
+): Promise<import('./seasonStats').SeasonReport> {
+  const { buildSeasonSql, buildSeasonReport, SEASON_REQUIRED_COLUMNS } = await import('./seasonStats');
+  if (csvIds.length === 0) {
+    throw new Error('No match files to aggregate');
+  }
+
+  // executeDuckDBSql recreates tables that are missing after a reload
+  const tableNames: string[] = [];
+  for (const csvId of csvIds) {
+    await executeDuckDBSql(csvId, 'SELECT 1 FROM csvData LIMIT 1');
+    tableNames.push(getDuckDBTableName(csvId)!);
+  }
+
+  const database = await initDuckDB();
+  const conn = await database.connect();
+  try {
+    const run = async (query: string) =>
+      convertBigIntToNumber((await conn.query(query)).toArray().map((row: any) => (row.toJSON ? row.toJSON() : row)));
+
+    // Parsed .dvw files carry match_date; files without it leave their matches undated
+    const dated = new Set((await run(`SELECT table_name FROM information_schema.columns WHERE column_name = 'match_date'
+      AND table_name IN (${tableNames.map(tableName => `'${tableName.replace(/'/g, "''")}'`).join(', ')})`)).map((row: any) => String(row.table_name)));
+    // Cast the shared columns so files with differently inferred types still union
+    const columns = SEASON_REQUIRED_COLUMNS.map(column => `CAST("${column}" AS VARCHAR) AS "${column}"`).join(', ');
+    const source = `(${tableNames
+      .map(tableName => `SELECT ${columns}, ${dated.has(tableName) ? 'CAST("match_date" AS VARCHAR)' : 'CAST(NULL AS VARCHAR)'} AS match_date FROM "${tableName.replace(/"/g, '""')}"`)
+      .join(' UNION ALL ')}) season`;
+    const sql = buildSeasonSql(source, 'match_date');
+
+    const rows = {
+      players: await run(sql.players),
+      teams: await run(sql.teams),
+      playerMatches: await run(sql.playerMatches),
+    };
+    return buildSeasonReport(rows, { source: `${csvIds.length} local file${csvIds.length === 1 ? '' : 's'}`, minAttempts: options.minAttempts });
+  } finally {
+    await conn.close();
+  }
+}
+
 // Close DuckDB connection
 export async function closeDuckDB(): Promise<void> {
   if (db) {
@@ -2446,6 +2725,8 @@ export async function cleanupDuckDBTable(csvId: string): Promise<void> {
       const escapedTableName = tableName.replace(/"/g, '""');
       try {
         await conn.query(`DROP TABLE IF EXISTS "${escapedTableName}"`);
+        const { rallyTableName } = await import('./rallyReconstruction');
+        await conn.query(`DROP TABLE IF EXISTS "${rallyTableName(tableName).replace(/"/g, '""')}"`);
       } catch (dropError: any) {
         // Table might not exist or already dropped - log but don't fail
       }
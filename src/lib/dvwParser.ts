@@ -0,0 +1,450 @@
+// DataVolley (.dvw) scouting file parser
+// Converts a native DataVolley export into the same action-row shape that loadMatchData
+// builds from the combined_dvw table (plus match_date), so local match files can be queried like remote matches.
+
+import { MATCH_ACTION_COLUMNS, MATCH_DATE_COLUMN } from './database';
+
+export interface DvwMatchInfo {
+  match_id: string;
+  home_team: string;
+  visiting_team: string;
+  date: string | null;
+  sets_played: number;
+  total_actions: number;
+}
+
+export interface ParsedDvwMatch {
+  matchInfo: DvwMatchInfo;
+  headers: string[];
+  rows: Record<string, any>[];
+}
+
+interface DvwPlayer {
+  number: number;
+  id: string | null;
+  name: string;
+}
+
+type TeamSide = 'home' | 'visiting';
+
+const SKILL_NAMES: Record<string, string> = {
+  S: 'Serve',
+  R: 'Reception',
+  E: 'Set',
+  A: 'Attack',
+  B: 'Block',
+  D: 'Dig',
+  F: 'Freeball',
+};
+
+// Evaluation descriptions per skill (same wording as the datavolley R package)
+const EVALUATIONS: Record<string, Record<string, string>> = {
+  S: { '=': 'Error', '/': 'Positive, no attack', '-': 'Negative, opponent free attack', '!': 'OK, no first tempo possible', '+': 'Positive, opponent some attack', '#': 'Ace' },
+  R: { '=': 'Error', '/': 'Poor, no attack', '-': 'Negative, limited attack', '!': 'OK, no first tempo possible', '+': 'Positive, attack', '#': 'Perfect pass' },
+  E: { '=': 'Error', '/': 'Poor', '-': 'Poor', '!': 'OK', '+': 'Positive', '#': 'Perfect' },
+  A: { '=': 'Error', '/': 'Blocked', '-': 'Poor, easily dug', '!': 'Blocked for reattack', '+': 'Positive, good attack', '#': 'Winning attack' },
+  B: { '=': 'Error', '/': 'Invasion', '-': 'Poor, opposition to replay', '!': 'Poor block', '+': 'Positive block', '#': 'Winning block' },
+  D: { '=': 'Error', '/': 'Ball directly back over net', '-': 'No structured attack possible', '!': 'OK, no first tempo possible', '+': 'Good dig', '#': 'Perfect dig' },
+  F: { '=': 'Error', '/': 'Poor', '-': 'OK, no first tempo possible', '!': 'OK, no first tempo possible', '+': 'OK, all attacks possible', '#': 'Perfect' },
+};
+
+// Hit type (5th character of a skill code)
+const SERVE_TYPES: Record<string, string> = {
+  Q: 'Jump serve', M: 'Jump-float serve', H: 'Float serve', T: 'Topspin serve', N: 'Hybrid serve', U: 'Underhand serve', O: 'Other serve',
+};
+const BALL_TYPES: Record<string, string> = {
+  H: 'High ball', M: 'Half ball', Q: 'Quick ball', T: 'Head ball', U: 'Super ball', F: 'Fast ball', N: 'Slide ball', O: 'Other',
+};
+
+// Skill subtype (13th character of a skill code)
+const SKILL_SUBTYPES: Record<string, Record<string, string>> = {
+  A: { H: 'Hard spike', P: 'Soft spike/topspin', T: 'Tip' },
+  B: { A: 'Block assist', T: 'Block attempt', P: 'Block on soft spike', E: 'Block error' },
+  R: { L: 'On left', R: 'On right', W: 'Low', O: 'Overhand', M: 'Middle line' },
+  D: { S: 'On spike', C: 'Spike cover', B: 'After block', E: 'Emergency' },
+};
+
+const BLOCKER_COUNTS: Record<string, string> = {
+  '0': 'No block', '1': 'Single block', '2': 'Double block', '3': 'Triple block', '4': 'Hole block',
+};
+
+/**
+ * Split a .dvw file into its bracketed sections ([3MATCH], [3TEAMS], [3SCOUT], ...)
+ */
+function splitSections(text: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  let current: string[] | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    const header = line.match(/^\[(3[A-Z0-9-]+)\]/);
+    if (header) {
+      current = [];
+      sections.set(header[1], current);
+      continue;
+    }
+    if (current && line.length > 0) {
+      current.push(line);
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Convert a DataVolley grid index (row * 100 + column) to court units.
+ * Uses the datavolley R package convention: the court spans x 0.5-3.5 and y 0.5-6.5, net at y = 3.5.
+ */
+function gridIndexToCourt(value: string | undefined): { x: number | null; y: number | null } {
+  const index = parseInt(value ?? '', 10);
+  if (!Number.isFinite(index) || index <= 0) {
+    return { x: null, y: null };
+  }
+  const column = index % 100 || 100;
+  const row = Math.floor((index - 1) / 100) + 1;
+  const x = 0.5 + ((column - 11) * 3) / 79;
+  const y = 0.5 + ((row - 11) * 6) / 80;
+  return { x: Math.round(x * 1000) / 1000, y: Math.round(y * 1000) / 1000 };
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function blankToNull(value: string | undefined): string | null {
+  if (value === undefined) return null;
+  const trimmed = value.trim();
+  return trimmed === '' || trimmed === '~' || /^~+$/.test(trimmed) ? null : trimmed;
+}
+
+function normalizeDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const dayFirst = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (dayFirst) {
+    return `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+  }
+  const yearFirst = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+  if (yearFirst) {
+    return `${yearFirst[1]}-${yearFirst[2].padStart(2, '0')}-${yearFirst[3].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+function parsePlayers(lines: string[] | undefined): Map<number, DvwPlayer> {
+  const players = new Map<number, DvwPlayer>();
+  (lines || []).forEach(line => {
+    const fields = line.split(';');
+    const number = parseInt(fields[1], 10);
+    if (!Number.isFinite(number)) return;
+    const lastName = (fields[9] || '').trim();
+    const firstName = (fields[10] || '').trim();
+    players.set(number, {
+      number,
+      id: blankToNull(fields[8]),
+      name: [firstName, lastName].filter(Boolean).join(' ') || `Player ${number}`,
+    });
+  });
+  return players;
+}
+
+function parseCodeDescriptions(lines: string[] | undefined, descriptionIndex: number): Map<string, string> {
+  const descriptions = new Map<string, string>();
+  (lines || []).forEach(line => {
+    const fields = line.split(';');
+    const code = (fields[0] || '').trim();
+    const description = (fields[descriptionIndex] || '').trim();
+    if (code && description) {
+      descriptions.set(code, description);
+    }
+  });
+  return descriptions;
+}
+
+/**
+ * Decode raw .dvw bytes. DataVolley writes files in the scout's system code page,
+ * so fall back to Windows-1252 when the content isn't valid UTF-8.
+ */
+export function decodeDvwBytes(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+/**
+ * Parse the text of a DataVolley .dvw file into match action rows
+ */
+export function parseDvw(text: string, fileName?: string): ParsedDvwMatch {
+  const sections = splitSections(text);
+  const scout = sections.get('3SCOUT');
+  if (!scout || scout.length === 0) {
+    throw new Error('Not a DataVolley file: missing [3SCOUT] section');
+  }
+
+  const teamLines = sections.get('3TEAMS') || [];
+  const homeTeam = (teamLines[0]?.split(';')[1] || '').trim() || 'Home';
+  const visitingTeam = (teamLines[1]?.split(';')[1] || '').trim() || 'Visiting';
+  const date = normalizeDate(sections.get('3MATCH')?.[0]?.split(';')[0]);
+
+  const baseName = (fileName || '').replace(/\.dvw$/i, '').trim();
+  const matchId = date
+    ? `${date}_${homeTeam}_${visitingTeam}`.replace(/\s+/g, '_')
+    : (baseName || `${homeTeam}_${visitingTeam}`.replace(/\s+/g, '_'));
+
+  const players: Record<TeamSide, Map<number, DvwPlayer>> = {
+    home: parsePlayers(sections.get('3PLAYERS-H')),
+    visiting: parsePlayers(sections.get('3PLAYERS-V')),
+  };
+  const attackDescriptions = parseCodeDescriptions(sections.get('3ATTACKCOMBINATION'), 4);
+  const setDescriptions = parseCodeDescriptions(sections.get('3SETTERCALL'), 2);
+
+  const teamName = (side: TeamSide) => (side === 'home' ? homeTeam : visitingTeam);
+  const sideOf = (marker: string): TeamSide => (marker === '*' ? 'home' : 'visiting');
+
+  const rows: Record<string, any>[] = [];
+  let pointId = 1;
+  let homeScore = 0;
+  let visitingScore = 0;
+  const setsSeen = new Set<number>();
+
+  // Rally state - reset after every point
+  let rallyRows: Record<string, any>[] = [];
+  let servingSide: TeamSide | null = null;
+  let receptionQuality: string | null = null;
+  let firstBallOpen = false; // True between the reception and the receiving team's first attack
+  let possessionStart: { side: TeamSide; skill: string } | null = null;
+
+  const resetRally = () => {
+    rallyRows = [];
+    servingSide = null;
+    receptionQuality = null;
+    firstBallOpen = false;
+    possessionStart = null;
+  };
+
+  const baseRow = (fields: string[]): Record<string, any> => {
+    const setNumber = parseNumber(fields[8]);
+    if (setNumber !== null) setsSeen.add(setNumber);
+    const start = gridIndexToCourt(fields[4]);
+    const mid = gridIndexToCourt(fields[5]);
+    const end = gridIndexToCourt(fields[6]);
+    const row: Record<string, any> = {};
+    MATCH_ACTION_COLUMNS.forEach(column => { row[column] = null; });
+    Object.assign(row, {
+      match_id: matchId,
+      [MATCH_DATE_COLUMN]: date,
+      point_id: pointId,
+      video_time: parseNumber(fields[12]) ?? 0,
+      set_number: setNumber,
+      home_team: homeTeam,
+      visiting_team: visitingTeam,
+      home_team_score: homeScore,
+      visiting_team_score: visitingScore,
+      home_score: homeScore,
+      visiting_score: visitingScore,
+      point_differential: homeScore - visitingScore,
+      point: 0,
+      winning_attack: 0,
+      timeout: 0,
+      end_of_set: 0,
+      substitution: 0,
+      home_setter_position: parseNumber(fields[9]),
+      visiting_setter_position: parseNumber(fields[10]),
+      start_coordinate_x: start.x,
+      start_coordinate_y: start.y,
+      mid_coordinate_x: mid.x,
+      mid_coordinate_y: mid.y,
+      end_coordinate_x: end.x,
+      end_coordinate_y: end.y,
+    });
+    for (let i = 0; i < 6; i++) {
+      row[`home_p${i + 1}`] = parseNumber(fields[14 + i]);
+      row[`visiting_p${i + 1}`] = parseNumber(fields[20 + i]);
+    }
+    return row;
+  };
+
+  for (const line of scout) {
+    const fields = line.split(';');
+    const code = (fields[0] || '').trim();
+    if (!code || code.startsWith('>')) continue;
+
+    // Point: *p25:23 / ap23:25
+    const pointMatch = code.match(/^([*a])p(\d{1,2}):(\d{1,2})$/);
+    if (pointMatch) {
+      const winner = sideOf(pointMatch[1]);
+      homeScore = parseInt(pointMatch[2], 10);
+      visitingScore = parseInt(pointMatch[3], 10);
+      const row = baseRow(fields);
+      row.team = teamName(winner);
+      row.point = 1;
+      rallyRows.push(row);
+
+      // Back-fill rally-level fields now that the outcome is known
+      const serving = servingSide ? teamName(servingSide) : null;
+      rallyRows.forEach(rallyRow => {
+        rallyRow.point_won_by = teamName(winner);
+        rallyRow.serving_team = serving;
+        rallyRow.home_team_score = homeScore;
+        rallyRow.visiting_team_score = visitingScore;
+        rallyRow.home_score = homeScore;
+        rallyRow.visiting_score = visitingScore;
+        rallyRow.point_differential = homeScore - visitingScore;
+        if (serving && rallyRow.team && rallyRow.point === 0) {
+          rallyRow.point_phase = rallyRow.team === serving ? 'Breakpoint' : 'Sideout';
+        }
+      });
+      rows.push(...rallyRows);
+      pointId++;
+      resetRally();
+      continue;
+    }
+
+    // End of set: **1set
+    if (/^\*\*\d+set$/i.test(code)) {
+      const row = baseRow(fields);
+      row.end_of_set = 1;
+      rows.push(...rallyRows, row);
+      resetRally();
+      homeScore = 0;
+      visitingScore = 0;
+      continue;
+    }
+
+    // Timeout: *T / aT
+    const timeoutMatch = code.match(/^([*a])T$/);
+    if (timeoutMatch) {
+      const row = baseRow(fields);
+      row.team = teamName(sideOf(timeoutMatch[1]));
+      row.timeout = 1;
+      rows.push(row);
+      continue;
+    }
+
+    // Substitution: *c07:12 (player out : player in)
+    const subMatch = code.match(/^([*a])c(\d{1,2}):(\d{1,2})$/);
+    if (subMatch) {
+      const side = sideOf(subMatch[1]);
+      const playerIn = parseInt(subMatch[3], 10);
+      const row = baseRow(fields);
+      row.team = teamName(side);
+      row.player_number = playerIn;
+      row.player_name = players[side].get(playerIn)?.name || `Player ${playerIn}`;
+      row.substitution = 1;
+      rows.push(row);
+      continue;
+    }
+
+    // Skill: *13SM+~~~15B... (team, player, skill, hit type, evaluation, combination, target, zones, ...)
+    const skillMatch = code.match(/^([*a])(\d{2})([SREABDF])(.?)(.?)(.{0,2})(.?)(.?)(.?)(.?)(.?)(.?)(.?)(.*)$/);
+    if (!skillMatch) {
+      // Rotation (z), setter declaration (P), green codes ($$&) and other markers carry no action
+      continue;
+    }
+
+    const [, marker, playerNumberText, skill, hitType, evaluationCode, combination, target,
+      startZone, endZone, endSubzone, subtype, blockers, special, custom] = skillMatch;
+    const side = sideOf(marker);
+    const playerNumber = parseInt(playerNumberText, 10);
+    const player = players[side].get(playerNumber);
+    const team = teamName(side);
+    const row = baseRow(fields);
+
+    Object.assign(row, {
+      team,
+      player_number: playerNumber,
+      player_name: player?.name || `Player ${playerNumber}`,
+      player_id: player?.id ?? null,
+      skill_type: SKILL_NAMES[skill],
+      evaluation_code: blankToNull(evaluationCode),
+      evaluation: EVALUATIONS[skill]?.[evaluationCode] ?? null,
+      start_zone: parseNumber(startZone),
+      end_zone: parseNumber(endZone),
+      end_subzone: blankToNull(endSubzone),
+      skill_subtype: SKILL_SUBTYPES[skill]?.[subtype]
+        ?? (skill === 'S' || skill === 'R' ? SERVE_TYPES[hitType] : BALL_TYPES[hitType])
+        ?? null,
+      special_code: blankToNull(special),
+      custom_code: blankToNull(custom),
+    });
+
+    if (skill === 'A') {
+      const attackCode = blankToNull(combination);
+      row.attack_code = attackCode;
+      row.attack_description = attackCode ? attackDescriptions.get(attackCode) ?? null : null;
+      const blockerCount = blankToNull(blockers);
+      row.num_players = blockerCount ? BLOCKER_COUNTS[blockerCount] ?? null : null;
+      row.num_players_numeric = parseNumber(blockerCount ?? undefined);
+      row.winning_attack = evaluationCode === '#' ? 1 : 0;
+    } else if (skill === 'E') {
+      const setCode = blankToNull(combination);
+      row.set_code = setCode;
+      row.set_description = setCode ? setDescriptions.get(setCode) ?? null : null;
+      row.set_type = blankToNull(target);
+    } else if (skill === 'B') {
+      const blockerCount = blankToNull(blockers);
+      row.num_players = blockerCount ? BLOCKER_COUNTS[blockerCount] ?? null : null;
+      row.num_players_numeric = parseNumber(blockerCount ?? undefined);
+    }
+
+    // Rally phase tracking
+    if (skill === 'S') {
+      servingSide = side;
+      row.phase = 'Serve';
+    } else if (skill === 'R') {
+      receptionQuality = row.evaluation_code;
+      firstBallOpen = true;
+      possessionStart = { side, skill };
+      row.phase = 'Reception';
+    } else {
+      const previous = rallyRows[rallyRows.length - 1];
+      if (skill === 'D' || skill === 'F') {
+        possessionStart = { side, skill };
+      }
+      if (firstBallOpen) {
+        row.phase = 'Reception';
+        // The reception phase closes with the receiving team's first attack (and the block on it)
+        if (skill === 'A' && servingSide && side !== servingSide) {
+          row.attack_phase = 'Reception';
+          firstBallOpen = false;
+        }
+      } else if (skill === 'B' && previous?.skill_type === 'Attack' && previous.attack_phase === 'Reception') {
+        row.phase = 'Reception';
+      } else {
+        row.phase = 'Transition';
+      }
+      if (skill === 'A' && !row.attack_phase) {
+        row.attack_phase = possessionStart?.side === side && possessionStart.skill === 'F' ? 'Freeball' : 'Transition';
+      }
+    }
+    row.reception_quality = receptionQuality;
+    rallyRows.push(row);
+  }
+
+  // Keep trailing actions from an unfinished rally (e.g. file cut off mid-set)
+  rows.push(...rallyRows);
+
+  return {
+    matchInfo: {
+      match_id: matchId,
+      home_team: homeTeam,
+      visiting_team: visitingTeam,
+      date,
+      sets_played: setsSeen.size,
+      total_actions: rows.filter(r => r.skill_type).length,
+    },
+    headers: [...MATCH_ACTION_COLUMNS, MATCH_DATE_COLUMN],
+    rows,
+  };
+}
+
+/**
+ * Read and parse a .dvw File object
+ */
+export async function parseDvwFile(file: File): Promise<ParsedDvwMatch> {
+  const buffer = await file.arrayBuffer();
+  return parseDvw(decodeDvwBytes(buffer), file.name);
+}
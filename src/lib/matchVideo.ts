@@ -0,0 +1,167 @@
+// Local match video linked to action rows through video_time (seconds into the recording)
+// The video file never leaves the browser: it is kept in OPFS per chat and played from an object URL.
+// Any component can ask the player to seek or play a playlist by dispatching a window event.
+
+import { toNumber } from './volleyballStats';
+
+export const MATCH_VIDEO_PLAY_EVENT = 'matchVideoPlay';
+
+const VIDEO_DIR = 'match-videos';
+const SETTINGS_PREFIX = 'match_video_';
+
+export interface MatchVideoSettings {
+  fileName: string;
+  offset: number; // Seconds added to video_time (recording started before/after the scout clock)
+  lead: number; // Seconds of video shown before each action
+  clipLength: number; // Seconds played per action in a playlist
+}
+
+export interface VideoClip {
+  start: number; // video_time of the action, before offset/lead
+  label: string;
+  row: any;
+}
+
+export interface MatchVideoPlayRequest {
+  title: string;
+  clips: VideoClip[];
+}
+
+export const DEFAULT_VIDEO_SETTINGS: Omit<MatchVideoSettings, 'fileName'> = {
+  offset: 0,
+  lead: 3,
+  clipLength: 8,
+};
+
+export function videoTimeOf(row: any): number | null {
+  if (!row || typeof row !== 'object') return null;
+  return toNumber(row.video_time ?? row.videoTime);
+}
+
+export function formatVideoTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(h > 0 ? 2 : 1, '0')}:${String(s).padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+// "S3 · #12 Smith Attack # (X5)"
+export function describeAction(row: any): string {
+  const parts: string[] = [];
+  if (row.set_number != null) parts.push(`S${row.set_number}`);
+  const player = [row.player_number != null ? `#${row.player_number}` : '', row.player_name || ''].join(' ').trim();
+  const action = [row.skill_type, row.evaluation_code, row.attack_code ? `(${row.attack_code})` : ''].filter(Boolean).join(' ');
+  return [parts.join(''), player || row.team || '', action].filter(Boolean).join(' · ');
+}
+
+/**
+ * Turn action rows into clips ordered by match and video time; rows without video_time are dropped
+ */
+export function buildVideoPlaylist(rows: any[]): VideoClip[] {
+  return (Array.isArray(rows) ? rows : [])
+    .filter(row => videoTimeOf(row) !== null)
+    .map(row => ({ start: videoTimeOf(row)!, label: describeAction(row), row }))
+    .sort((a, b) => String(a.row.match_id ?? '').localeCompare(String(b.row.match_id ?? '')) || a.start - b.start);
+}
+
+// Columns kept on playlist rows returned to the chat (enough to label each clip)
+const PLAYLIST_COLUMNS = [
+  'match_id', 'set_number', 'point_id', 'video_time', 'team', 'player_number', 'player_name',
+  'skill_type', 'evaluation_code', 'attack_code',
+];
+
+export const MAX_PLAYLIST_CLIPS = 300;
+
+/**
+ * Playlist payload for the sandbox helper: rows trimmed to PLAYLIST_COLUMNS, in play order
+ */
+export function toVideoPlaylist(rows: any[], title?: string): { title: string; rows: any[] } {
+  const clips = buildVideoPlaylist(rows).slice(0, MAX_PLAYLIST_CLIPS);
+  return {
+    title: title || `${clips.length} actions`,
+    rows: clips.map(clip => Object.fromEntries(PLAYLIST_COLUMNS.map(col => [col, clip.row[col] ?? null]))),
+  };
+}
+
+// First array of action rows carrying video_time inside an execution result (top level or one level down)
+export function findVideoRows(result: any): any[] | null {
+  const hasVideo = (value: any) => Array.isArray(value) && value.some(item => videoTimeOf(item) !== null);
+  if (hasVideo(result)) return result;
+  if (result && typeof result === 'object') {
+    for (const value of Object.values(result)) {
+      if (hasVideo(value)) return value as any[];
+    }
+  }
+  return null;
+}
+
+export function playMatchVideo(rows: any | any[], title?: string): void {
+  const list = Array.isArray(rows) ? rows : [rows];
+  const clips = buildVideoPlaylist(list);
+  if (clips.length === 0) return;
+  const detail: MatchVideoPlayRequest = { title: title || (clips.length === 1 ? clips[0].label : `${clips.length} actions`), clips };
+  window.dispatchEvent(new CustomEvent(MATCH_VIDEO_PLAY_EVENT, { detail }));
+}
+
+// ===== Per-chat persistence =====
+
+export function getVideoSettings(chatId: string): MatchVideoSettings | null {
+  try {
+    const saved = localStorage.getItem(`${SETTINGS_PREFIX}${chatId}`);
+    return saved ? { ...DEFAULT_VIDEO_SETTINGS, ...JSON.parse(saved) } : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function saveVideoSettings(chatId: string, settings: MatchVideoSettings): void {
+  localStorage.setItem(`${SETTINGS_PREFIX}${chatId}`, JSON.stringify(settings));
+}
+
+async function getVideoDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  if (!navigator.storage?.getDirectory) return null;
+  const root = await navigator.storage.getDirectory();
+  return await root.getDirectoryHandle(VIDEO_DIR, { create: true });
+}
+
+/**
+ * Keep a copy of the video in OPFS so it survives reloads. Returns false when OPFS is unavailable
+ * (the video still plays for this session from the object URL).
+ */
+export async function storeMatchVideo(chatId: string, file: File): Promise<boolean> {
+  try {
+    const dir = await getVideoDirectory();
+    if (!dir) return false;
+    const handle = await dir.getFileHandle(chatId, { create: true });
+    const writable = await (handle as any).createWritable();
+    await writable.write(file);
+    await writable.close();
+    return true;
+  } catch (error) {
+    console.warn('⚠️ Could not store match video in OPFS:', error);
+    return false;
+  }
+}
+
+export async function loadStoredMatchVideo(chatId: string): Promise<File | null> {
+  try {
+    const dir = await getVideoDirectory();
+    if (!dir) return null;
+    const handle = await dir.getFileHandle(chatId);
+    return await handle.getFile();
+  } catch (error) {
+    return null; // Not stored (NotFoundError) or OPFS unavailable
+  }
+}
+
+export async function removeMatchVideo(chatId: string): Promise<void> {
+  localStorage.removeItem(`${SETTINGS_PREFIX}${chatId}`);
+  try {
+    const dir = await getVideoDirectory();
+    await dir?.removeEntry(chatId);
+  } catch (error) {
+    // Nothing stored
+  }
+}
@@ -0,0 +1,374 @@
+// Momentum analysis over the point sequence of a match
+// Scoring runs (consecutive points by one team), momentum swings (runs that erase a deficit),
+// and timeout recovery (how long the team calling the timeout took to score again).
+// Score columns hold the score after each rally; the running tally from point_won_by is the fallback.
+
+import {
+  Rally,
+  groupRallies,
+  isFlagSet,
+  isPlayedRally,
+  rallyServingTeam,
+  rallyWinner,
+  sameTeam,
+  toNumber,
+} from './volleyballStats';
+
+export interface MomentumPoint {
+  index: number; // 1-based position in the match
+  setNumber: number;
+  pointInSet: number;
+  winner: string;
+  servingTeam: string | null;
+  homeScore: number;
+  visitingScore: number;
+  differential: number; // home - visiting after the point
+}
+
+export interface ScoringRun {
+  setNumber: number;
+  team: string;
+  length: number;
+  startIndex: number; // MomentumPoint.index of the first point of the run
+  endIndex: number;
+  scoreBefore: string; // "home-visiting" before the run
+  scoreAfter: string;
+  swing: boolean; // Team was trailing when the run started and tied or led at the end
+  opponentTimeout: boolean; // Opponent called a timeout during the run or right after it
+}
+
+export interface TimeoutRecovery {
+  setNumber: number;
+  team: string;
+  score: string; // "home-visiting" when the timeout was called
+  beforeIndex: number; // Index of the next point played
+  opponentRunBefore: number; // Consecutive opponent points right before the timeout
+  pointsToRecover: number | null; // Rallies until the team won a point (1 = won the next rally), null if it never did
+  nextFiveDifferential: number; // Team points minus opponent points over the next five rallies
+}
+
+export interface SetMomentum {
+  setNumber: number;
+  winner: string | null;
+  finalScore: string;
+  leadChanges: number;
+  ties: number;
+  maxHomeLead: number;
+  maxVisitingLead: number;
+  longestRun: { team: string; length: number } | null;
+}
+
+export interface MomentumEvent {
+  set: number;
+  point: number;
+  type: 'run' | 'swing' | 'timeout';
+  team: string;
+  detail: string;
+}
+
+export interface MomentumReport {
+  matchId: string | null;
+  homeTeam: string;
+  visitingTeam: string;
+  minRun: number;
+  points: MomentumPoint[];
+  runs: ScoringRun[];
+  timeouts: TimeoutRecovery[];
+  sets: SetMomentum[];
+  events: MomentumEvent[]; // Flat table of runs, swings and timeouts in match order
+}
+
+const scoreText = (home: number, visiting: number) => `${home}-${visiting}`;
+
+function maxColumn(rows: any[], column: string): number | null {
+  const values = rows.map(r => toNumber(r[column])).filter((v): v is number => v !== null);
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+/**
+ * Scan the point sequence of one match. Pass `matchId` when rows hold several matches
+ * (defaults to the first match found); runs shorter than `minRun` points are ignored.
+ */
+export function analyzeMomentum(rows: any[], options: { matchId?: string; minRun?: number } = {}): MomentumReport {
+  const minRun = Math.max(2, options.minRun ?? 3);
+  const allRows = Array.isArray(rows) ? rows : [];
+  const matchId = options.matchId ?? allRows.find(r => r?.match_id != null)?.match_id ?? null;
+  const matchRows = matchId == null ? allRows : allRows.filter(r => String(r?.match_id) === String(matchId));
+  const rallies = groupRallies(matchRows);
+  const homeTeam = rallies.find(r => r.homeTeam)?.homeTeam || '';
+  const visitingTeam = rallies.find(r => r.visitingTeam)?.visitingTeam || '';
+
+  const points: MomentumPoint[] = [];
+  // Timeouts are grouped with the rally that follows them
+  const pendingTimeouts: { rally: Rally; team: string }[] = [];
+  const timeoutBeforeIndex = new Map<number, string[]>();
+  let home = 0;
+  let visiting = 0;
+  let currentSet: number | null = null;
+  let pointInSet = 0;
+
+  for (const rally of rallies) {
+    rally.rows.filter(r => isFlagSet(r.timeout) && r.team).forEach(r => pendingTimeouts.push({ rally, team: r.team }));
+    if (!isPlayedRally(rally)) continue;
+
+    const setNumber: number = rally.setNumber ?? currentSet ?? 1;
+    if (setNumber !== currentSet) {
+      currentSet = setNumber;
+      home = 0;
+      visiting = 0;
+      pointInSet = 0;
+    }
+    const winner = rallyWinner(rally)!;
+    const homeWon = sameTeam(winner, homeTeam);
+    home += homeWon ? 1 : 0;
+    visiting += homeWon ? 0 : 1;
+    // Prefer the recorded score when it is consistent with the winner
+    const recordedHome = maxColumn(rally.rows, 'home_score');
+    const recordedVisiting = maxColumn(rally.rows, 'visiting_score');
+    if (recordedHome !== null && recordedVisiting !== null && recordedHome + recordedVisiting === home + visiting) {
+      home = recordedHome;
+      visiting = recordedVisiting;
+    }
+
+    pointInSet++;
+    const index = points.length + 1;
+    pendingTimeouts.splice(0).forEach(t => {
+      timeoutBeforeIndex.set(index, [...(timeoutBeforeIndex.get(index) || []), t.team]);
+    });
+    points.push({
+      index,
+      setNumber,
+      pointInSet,
+      winner: homeWon ? homeTeam : visitingTeam,
+      servingTeam: rallyServingTeam(rally),
+      homeScore: home,
+      visitingScore: visiting,
+      differential: home - visiting,
+    });
+  }
+
+  const runs = findRuns(points, homeTeam, minRun, timeoutBeforeIndex);
+  const timeouts = measureTimeouts(points, timeoutBeforeIndex);
+  const sets = summarizeSets(points, homeTeam, visitingTeam, runs);
+
+  const events: MomentumEvent[] = [
+    ...runs.map(run => ({
+      set: run.setNumber,
+      point: run.startIndex,
+      type: (run.swing ? 'swing' : 'run') as MomentumEvent['type'],
+      team: run.team,
+      detail: `${run.length}-0 run from ${run.scoreBefore} to ${run.scoreAfter}${run.swing ? ' (erased deficit)' : ''}${run.opponentTimeout ? ', opponent called timeout' : ''}`,
+    })),
+    ...timeouts.map(t => ({
+      set: t.setNumber,
+      point: t.beforeIndex,
+      type: 'timeout' as const,
+      team: t.team,
+      detail: `Timeout at ${t.score} after ${t.opponentRunBefore} straight opponent points; ${t.pointsToRecover === null ? 'did not score again in the set' : `scored after ${t.pointsToRecover} rall${t.pointsToRecover === 1 ? 'y' : 'ies'}`}; next 5: ${t.nextFiveDifferential >= 0 ? '+' : ''}${t.nextFiveDifferential}`,
+    })),
+  ].sort((a, b) => a.point - b.point);
+
+  return { matchId, homeTeam, visitingTeam, minRun, points, runs, timeouts, sets, events };
+}
+
+function findRuns(points: MomentumPoint[], homeTeam: string, minRun: number, timeoutBeforeIndex: Map<number, string[]>): ScoringRun[] {
+  const runs: ScoringRun[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= points.length; i++) {
+    const continues = i < points.length
+      && points[i].setNumber === points[start].setNumber
+      && points[i].winner === points[start].winner;
+    if (continues) continue;
+
+    const length = i - start;
+    if (length >= minRun) {
+      const first = points[start];
+      const last = points[i - 1];
+      const team = first.winner;
+      const sign = sameTeam(team, homeTeam) ? 1 : -1;
+      const homeBefore = first.homeScore - (sign === 1 ? 1 : 0);
+      const visitingBefore = first.visitingScore - (sign === 1 ? 0 : 1);
+      const leadBefore = sign * (homeBefore - visitingBefore);
+      const leadAfter = sign * last.differential;
+      // Timeouts are keyed by the point that follows them, so include the point after the run
+      const opponentTimeout = points.slice(start + 1, i + 1).some(p => (timeoutBeforeIndex.get(p.index) || []).some(t => !sameTeam(t, team)));
+      runs.push({
+        setNumber: first.setNumber,
+        team,
+        length,
+        startIndex: first.index,
+        endIndex: last.index,
+        scoreBefore: scoreText(homeBefore, visitingBefore),
+        scoreAfter: scoreText(last.homeScore, last.visitingScore),
+        swing: leadBefore < 0 && leadAfter >= 0,
+        opponentTimeout,
+      });
+    }
+    start = i;
+  }
+
+  return runs;
+}
+
+function measureTimeouts(points: MomentumPoint[], timeoutBeforeIndex: Map<number, string[]>): TimeoutRecovery[] {
+  const timeouts: TimeoutRecovery[] = [];
+
+  timeoutBeforeIndex.forEach((teams, beforeIndex) => {
+    const next = points[beforeIndex - 1];
+    if (!next) return;
+    const previous = points[beforeIndex - 2];
+    const sameSetPrevious = previous && previous.setNumber === next.setNumber ? previous : null;
+
+    teams.forEach(team => {
+      // Opponent streak leading into the timeout
+      let opponentRunBefore = 0;
+      for (let i = beforeIndex - 2; i >= 0; i--) {
+        const p = points[i];
+        if (p.setNumber !== next.setNumber || sameTeam(p.winner, team)) break;
+        opponentRunBefore++;
+      }
+
+      const remaining = points.slice(beforeIndex - 1).filter(p => p.setNumber === next.setNumber);
+      const recoverAt = remaining.findIndex(p => sameTeam(p.winner, team));
+      const nextFive = remaining.slice(0, 5);
+      const won = nextFive.filter(p => sameTeam(p.winner, team)).length;
+
+      timeouts.push({
+        setNumber: next.setNumber,
+        team,
+        score: sameSetPrevious ? scoreText(sameSetPrevious.homeScore, sameSetPrevious.visitingScore) : '0-0',
+        beforeIndex,
+        opponentRunBefore,
+        pointsToRecover: recoverAt === -1 ? null : recoverAt + 1,
+        nextFiveDifferential: won - (nextFive.length - won),
+      });
+    });
+  });
+
+  return timeouts.sort((a, b) => a.beforeIndex - b.beforeIndex);
+}
+
+function summarizeSets(points: MomentumPoint[], homeTeam: string, visitingTeam: string, runs: ScoringRun[]): SetMomentum[] {
+  const setNumbers = [...new Set(points.map(p => p.setNumber))];
+
+  return setNumbers.map(setNumber => {
+    const setPoints = points.filter(p => p.setNumber === setNumber);
+    const last = setPoints[setPoints.length - 1];
+    let leadChanges = 0;
+    let ties = 0;
+    let leader = 0; // Sign of the last non-tied differential
+    setPoints.forEach(p => {
+      const sign = Math.sign(p.differential);
+      if (sign === 0) ties++;
+      else {
+        if (leader !== 0 && sign !== leader) leadChanges++;
+        leader = sign;
+      }
+    });
+    const setRuns = runs.filter(r => r.setNumber === setNumber).sort((a, b) => b.length - a.length);
+
+    return {
+      setNumber,
+      winner: last.differential > 0 ? homeTeam : last.differential < 0 ? visitingTeam : null,
+      finalScore: scoreText(last.homeScore, last.visitingScore),
+      leadChanges,
+      ties,
+      maxHomeLead: Math.max(0, ...setPoints.map(p => p.differential)),
+      maxVisitingLead: Math.max(0, ...setPoints.map(p => -p.differential)),
+      longestRun: setRuns[0] ? { team: setRuns[0].team, length: setRuns[0].length } : null,
+    };
+  });
+}
+
+/**
+ * Point differential timeline (home minus visiting) with runs shaded in the scoring team's color
+ * and timeouts marked. Pass `setNumber` to show a single set.
+ */
+export function buildMomentumChartOption(report: MomentumReport, setNumber?: number | null): any {
+  const points = setNumber ? report.points.filter(p => p.setNumber === setNumber) : report.points;
+  const runs = setNumber ? report.runs.filter(r => r.setNumber === setNumber) : report.runs;
+  const timeouts = setNumber ? report.timeouts.filter(t => t.setNumber === setNumber) : report.timeouts;
+  const homeColor = '#3b82f6';
+  const visitingColor = '#ef4444';
+  const categories = points.map(p => (setNumber ? String(p.pointInSet) : `S${p.setNumber}·${p.pointInSet}`));
+  const labelFor = (index: number) => {
+    const p = report.points[index - 1];
+    return setNumber ? String(p.pointInSet) : `S${p.setNumber}·${p.pointInSet}`;
+  };
+
+  // Explicit coordinate pairs: vertical set separators and the zero line
+  const low = Math.min(0, ...points.map(p => p.differential)) - 1;
+  const high = Math.max(0, ...points.map(p => p.differential)) + 1;
+  const line = (from: [string, number], to: [string, number], color: string, type: string) => [
+    { coord: from, lineStyle: { color, type, width: 1 } },
+    { coord: to },
+  ];
+  const guideLines = categories.length === 0 ? [] : [
+    line([categories[0], 0], [categories[categories.length - 1], 0], '#6b7280', 'dashed'),
+    ...points
+      .filter((p, i) => i > 0 && p.pointInSet === 1)
+      .map(p => line([labelFor(p.index), low], [labelFor(p.index), high], '#94a3b8', 'solid')),
+  ];
+
+  return {
+    title: {
+      text: `Momentum: ${report.homeTeam} vs ${report.visitingTeam}${setNumber ? ` (set ${setNumber})` : ''}`,
+      subtext: `Point differential (${report.homeTeam} − ${report.visitingTeam}) · runs of ${report.minRun}+ shaded · ▼ timeouts`,
+      left: 'center',
+    },
+    grid: { left: 50, right: 30, top: 90, bottom: 80 },
+    legend: { top: 55, data: [report.homeTeam, report.visitingTeam] },
+    xAxis: { type: 'category', data: categories, boundaryGap: false, axisLabel: { color: '#fff' } },
+    yAxis: { type: 'value', name: 'Differential', min: low, max: high, axisLabel: { color: '#fff' }, splitLine: { lineStyle: { color: 'rgba(255,255,255,0.1)' } } },
+    series: [
+      {
+        name: 'Differential',
+        type: 'line',
+        step: 'end',
+        data: points.map(p => p.differential),
+        symbolSize: 5,
+        lineStyle: { color: '#e5e7eb', width: 2 },
+        itemStyle: { color: '#e5e7eb' },
+        markLine: {
+          symbol: ['none', 'none'],
+          silent: true,
+          label: { show: false },
+          data: guideLines,
+        },
+        markArea: {
+          silent: true,
+          data: runs.map(run => [
+            {
+              name: `${run.length}-0${run.swing ? ' swing' : ''}`,
+              xAxis: labelFor(run.startIndex),
+              itemStyle: { color: sameTeam(run.team, report.homeTeam) ? 'rgba(59,130,246,0.18)' : 'rgba(239,68,68,0.18)' },
+              label: { color: '#fff', fontSize: 10 },
+            },
+            { xAxis: labelFor(run.endIndex) },
+          ]),
+        },
+        markPoint: {
+          symbol: 'triangle',
+          symbolSize: 12,
+          symbolRotate: 180,
+          data: timeouts.map(t => {
+            // Differential when the timeout was called (0 at the start of a set)
+            const previous = report.points[t.beforeIndex - 2];
+            const differential = previous && previous.setNumber === t.setNumber ? previous.differential : 0;
+            return {
+              name: `Timeout ${t.team}`,
+              coord: [labelFor(t.beforeIndex), differential],
+              value: 'T',
+              itemStyle: { color: sameTeam(t.team, report.homeTeam) ? homeColor : visitingColor },
+              label: { show: false },
+            };
+          }),
+        },
+      },
+      // Empty series so the legend explains run colors
+      { name: report.homeTeam, type: 'line', data: [], itemStyle: { color: homeColor } },
+      { name: report.visitingTeam, type: 'line', data: [], itemStyle: { color: visitingColor } },
+    ],
+  };
+}
@@ -1,5 +1,6 @@
 // OpenRouter model management
 // Allows users to add, edit, and remove OpenRouter models
+import { getCustomModelsFormat } from './customProvider';
 
 export interface OpenRouterModel {
   id: string;
@@ -195,10 +196,10 @@ export function clearDefaultModelId(): void {
   }
 }
 
-// Convert to AVAILABLE_MODELS format
+// Convert to AVAILABLE_MODELS format (custom provider models are listed after the OpenRouter ones)
 export function getAvailableModelsFormat() {
   const models = getOpenRouterModels();
-  return models.map(model => {
+  const openRouterModels = models.map(model => {
     // Remove "(Free)" from model name if present
     const cleanName = model.name.replace(/\s*\(Free\)\s*/gi, '');
     const nameWithContext = model.contextLimit >= 1000000 
@@ -214,6 +215,7 @@ export function getAvailableModelsFormat() {
       disabled: model.disabled,
     };
   });
+  return [...openRouterModels, ...getCustomModelsFormat()];
 }
 
 // Get model context limits map for apiProviders.ts
@@ -0,0 +1,234 @@
+// Per-player match report cards
+// Player stats extend MatchData.summary to player granularity; trends compare a player's match
+// against their per-match history from the database (matches ordered by match date, else by match_id).
+
+import { AttackStats, isSkill, normalizeTeamName, ratio, summarizeAttacks } from './volleyballStats';
+
+export const RECEPTION_GRADES = ['#', '+', '!', '-', '/', '='] as const;
+
+export interface PlayerMatchStats {
+  team: string;
+  playerNumber: number | null;
+  playerName: string;
+  attack: AttackStats;
+  serve: { attempts: number; aces: number; errors: number };
+  reception: {
+    attempts: number;
+    grades: Record<string, number>; // Count per evaluation code (#, +, !, -, /, =)
+    positivePct: number; // # and +
+    perfectPct: number;
+    errors: number;
+  };
+  digs: number;
+  blocks: { attempts: number; points: number };
+  pointsScored: number; // Kills + aces + block points
+}
+
+// One row per player per previous match, as returned by the history query; match_date is absent when
+// the table has no date column and the history is in match_id order
+export interface PlayerHistoryRow {
+  match_id: string;
+  match_date?: string;
+  team: string;
+  player_name: string;
+  attacks: number;
+  kills: number;
+  attack_errors: number;
+  blocked: number;
+  aces: number;
+  serve_errors: number;
+  receptions: number;
+  positive_receptions: number;
+}
+
+export interface PlayerTrend {
+  matches: number;
+  orderedBy: 'match_date' | 'match_id'; // How "previous" was decided
+
+  attackEfficiency: number | null; // Average efficiency in previous matches (attempt-weighted)
+  killPct: number | null;
+  acesPerMatch: number | null;
+  positivePassPct: number | null;
+  attackEfficiencyDelta: number | null; // This match minus previous average
+  killPctDelta: number | null;
+  acesDelta: number | null;
+  positivePassPctDelta: number | null;
+}
+
+export interface PlayerReportCard {
+  matchId: string;
+  opponent: string;
+  stats: PlayerMatchStats;
+  trend: PlayerTrend;
+}
+
+const toCount = (value: unknown): number => Number(value) || 0;
+
+/**
+ * Aggregate action rows into per-player stats for one match
+ */
+export function computePlayerStats(data: any[]): PlayerMatchStats[] {
+  const byPlayer = new Map<string, any[]>();
+  for (const row of data) {
+    if (!row?.player_name || !row.team || !row.skill_type) continue;
+    const key = `${normalizeTeamName(row.team)}::${row.player_name}`;
+    const rows = byPlayer.get(key);
+    if (rows) rows.push(row);
+    else byPlayer.set(key, [row]);
+  }
+
+  return [...byPlayer.values()]
+    .map(rows => {
+      const first = rows[0];
+      const serves = rows.filter(r => isSkill(r, 'serve'));
+      const receptions = rows.filter(r => isSkill(r, 'reception'));
+      const blocks = rows.filter(r => isSkill(r, 'block'));
+      const attack = summarizeAttacks(rows);
+      const aces = serves.filter(s => s.evaluation_code === '#').length;
+      const blockPoints = blocks.filter(b => b.evaluation_code === '#').length;
+
+      const grades: Record<string, number> = {};
+      RECEPTION_GRADES.forEach(code => { grades[code] = 0; });
+      receptions.forEach(r => {
+        if (r.evaluation_code in grades) grades[r.evaluation_code]++;
+      });
+
+      return {
+        team: first.team,
+        playerNumber: first.player_number != null && first.player_number !== '' ? Number(first.player_number) : null,
+        playerName: first.player_name,
+        attack,
+        serve: { attempts: serves.length, aces, errors: serves.filter(s => s.evaluation_code === '=').length },
+        reception: {
+          attempts: receptions.length,
+          grades,
+          positivePct: ratio(grades['#'] + grades['+'], receptions.length),
+          perfectPct: ratio(grades['#'], receptions.length),
+          errors: grades['='],
+        },
+        digs: rows.filter(r => isSkill(r, 'dig')).length,
+        blocks: { attempts: blocks.length, points: blockPoints },
+        pointsScored: attack.kills + aces + blockPoints,
+      };
+    })
+    .sort((a, b) => a.team.localeCompare(b.team) || (a.playerNumber ?? 999) - (b.playerNumber ?? 999));
+}
+
+/**
+ * SQL for a team's per-player, per-match totals in matches before $2 (team is $1). Matches are ordered by
+ * dateColumn (earliest value per match) when given, else by match_id, and only dated rows carry match_date.
+ */
+export function buildPlayerHistorySql(tableName: string, dateColumn: string | null): string {
+  const table = `"${tableName.replace(/"/g, '""')}"`;
+  const orderKey = dateColumn ? `"${dateColumn.replace(/"/g, '""')}"` : 'CAST(match_id AS text)';
+  return `WITH match_order AS (
+      SELECT match_id, MIN(${orderKey}) AS match_key FROM ${table} GROUP BY match_id
+    )
+    SELECT a.match_id,${dateColumn ? ' d.match_key AS match_date,' : ''} a.team, a.player_name,
+      SUM(CASE WHEN LOWER(a.skill_type) LIKE '%attack%' THEN 1 ELSE 0 END) AS attacks,
+      SUM(CASE WHEN LOWER(a.skill_type) LIKE '%attack%' AND a.evaluation_code = '#' THEN 1 ELSE 0 END) AS kills,
+      SUM(CASE WHEN LOWER(a.skill_type) LIKE '%attack%' AND a.evaluation_code = '=' THEN 1 ELSE 0 END) AS attack_errors,
+      SUM(CASE WHEN LOWER(a.skill_type) LIKE '%attack%' AND a.evaluation_code = '/' THEN 1 ELSE 0 END) AS blocked,
+      SUM(CASE WHEN LOWER(a.skill_type) LIKE '%serve%' AND a.evaluation_code = '#' THEN 1 ELSE 0 END) AS aces,
+      SUM(CASE WHEN LOWER(a.skill_type) LIKE '%serve%' AND a.evaluation_code = '=' THEN 1 ELSE 0 END) AS serve_errors,
+      SUM(CASE WHEN LOWER(a.skill_type) LIKE '%reception%' THEN 1 ELSE 0 END) AS receptions,
+      SUM(CASE WHEN LOWER(a.skill_type) LIKE '%reception%' AND a.evaluation_code IN ('#', '+') THEN 1 ELSE 0 END) AS positive_receptions
+    FROM ${table} a
+    JOIN match_order d ON d.match_id = a.match_id
+    WHERE a.team = $1 AND a.player_name IS NOT NULL
+      AND d.match_key < (SELECT match_key FROM match_order WHERE match_id = $2)
+    GROUP BY a.match_id, d.match_key, a.team, a.player_name
+    ORDER BY d.match_key, a.match_id`;
+}
+
+function computeTrend(stats: PlayerMatchStats, history: PlayerHistoryRow[]): PlayerTrend {
+  const attacks = history.reduce((sum, h) => sum + toCount(h.attacks), 0);
+  const kills = history.reduce((sum, h) => sum + toCount(h.kills), 0);
+  const faults = history.reduce((sum, h) => sum + toCount(h.attack_errors) + toCount(h.blocked), 0);
+  const aces = history.reduce((sum, h) => sum + toCount(h.aces), 0);
+  const receptions = history.reduce((sum, h) => sum + toCount(h.receptions), 0);
+  const positive = history.reduce((sum, h) => sum + toCount(h.positive_receptions), 0);
+
+  const attackEfficiency = attacks > 0 ? ratio(kills - faults, attacks) : null;
+  const killPct = attacks > 0 ? ratio(kills, attacks) : null;
+  const acesPerMatch = history.length > 0 ? ratio(aces, history.length, 2) : null;
+  const positivePassPct = receptions > 0 ? ratio(positive, receptions) : null;
+  const delta = (current: number, previous: number | null, hasCurrent: boolean) =>
+    previous === null || !hasCurrent ? null : ratio(current - previous, 1);
+
+  return {
+    matches: history.length,
+    orderedBy: history.length > 0 && history.every(h => h.match_date) ? 'match_date' : 'match_id',
+    attackEfficiency,
+    killPct,
+    acesPerMatch,
+    positivePassPct,
+    attackEfficiencyDelta: delta(stats.attack.efficiency, attackEfficiency, stats.attack.attempts > 0),
+    killPctDelta: delta(stats.attack.killPct, killPct, stats.attack.attempts > 0),
+    acesDelta: delta(stats.serve.aces, acesPerMatch, stats.serve.attempts > 0),
+    positivePassPctDelta: delta(stats.reception.positivePct, positivePassPct, stats.reception.attempts > 0),
+  };
+}
+
+/**
+ * Combine this match's player stats with their previous-match history into report cards
+ */
+export function buildPlayerReportCards(
+  matchInfo: { match_id: string; home_team: string; visiting_team: string },
+  players: PlayerMatchStats[],
+  history: PlayerHistoryRow[] = []
+): PlayerReportCard[] {
+  return players.map(stats => {
+    const playerHistory = history.filter(h =>
+      h.player_name === stats.playerName &&
+      normalizeTeamName(h.team) === normalizeTeamName(stats.team) &&
+      h.match_id !== matchInfo.match_id
+    );
+    const opponent = normalizeTeamName(stats.team) === normalizeTeamName(matchInfo.home_team)
+      ? matchInfo.visiting_team
+      : matchInfo.home_team;
+    return { matchId: matchInfo.match_id, opponent, stats, trend: computeTrend(stats, playerHistory) };
+  });
+}
+
+// Qualifies "previous" when the table had no match date and history went by match_id
+export const trendOrderLabel = (trend: PlayerTrend) => (trend.orderedBy === 'match_id' ? ' (by match id)' : '');
+
+const escapeHtml = (text: unknown): string => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const pct = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+const signed = (value: number | null, asPct = false) => {
+  if (value === null) return '';
+  const text = asPct ? `${(value * 100).toFixed(1)}pp` : value.toFixed(3);
+  return value > 0 ? `+${text}` : text;
+};
+
+/**
+ * Render report cards as a standalone HTML fragment (used by the export dialog)
+ */
+export function renderPlayerReportCardsHtml(cards: PlayerReportCard[]): string {
+  if (cards.length === 0) return '<p><em>No player actions found for this match.</em></p>';
+
+  return `<div class="report-cards">${cards.map(({ stats, trend, opponent }) => {
+    const grades = RECEPTION_GRADES.map(code => `${escapeHtml(code)} ${stats.reception.grades[code] || 0}`).join(' · ');
+    return `
+      <div class="report-card" style="break-inside: avoid; border: 1px solid rgba(128,128,128,0.4); border-radius: 8px; padding: 12px 16px; margin: 12px 0;">
+        <h3 style="margin: 0 0 4px 0;">${stats.playerNumber !== null ? `#${stats.playerNumber} ` : ''}${escapeHtml(stats.playerName)}</h3>
+        <p class="meta" style="margin: 0 0 8px 0;">${escapeHtml(stats.team)} vs ${escapeHtml(opponent)} · ${stats.pointsScored} points</p>
+        <table style="width: 100%; border-collapse: collapse; font-size: 0.9rem;">
+          <tr><td>Attack</td><td>${stats.attack.kills} K / ${stats.attack.errors + stats.attack.blocked} E / ${stats.attack.attempts} TA</td><td>Eff ${stats.attack.efficiency.toFixed(3)} ${escapeHtml(signed(trend.attackEfficiencyDelta))}</td></tr>
+          <tr><td>Serve</td><td>${stats.serve.aces} aces / ${stats.serve.errors} errors / ${stats.serve.attempts} att</td><td>${escapeHtml(signed(trend.acesDelta))}</td></tr>
+          <tr><td>Reception</td><td>${grades}</td><td>Pos ${pct(stats.reception.positivePct)} ${escapeHtml(signed(trend.positivePassPctDelta, true))}</td></tr>
+          <tr><td>Defense</td><td>${stats.digs} digs · ${stats.blocks.points} block points</td><td></td></tr>
+        </table>
+        <p class="meta" style="margin: 8px 0 0 0;">${trend.matches > 0
+          ? `Previous ${trend.matches} match${trend.matches === 1 ? '' : 'es'}${trendOrderLabel(trend)}: eff ${trend.attackEfficiency === null ? '–' : trend.attackEfficiency.toFixed(3)}, K% ${pct(trend.killPct)}, aces/match ${trend.acesPerMatch ?? '–'}, pos pass ${pct(trend.positivePassPct)}`
+          : 'No previous matches'}</p>
+      </div>`;
+  }).join('')}</div>`;
+}
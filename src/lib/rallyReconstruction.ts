@@ -0,0 +1,137 @@
+// Rally reconstruction: one row per rally derived from action rows grouped by match_id + point_id
+// The resulting table sits next to the action table in DuckDB (<table>_rallies) so rallies
+// can be joined back to their actions on match_id + point_id.
+
+import {
+  groupRallies,
+  isPlayedRally,
+  isSkill,
+  rallyServingTeam,
+  rallyWinner,
+  sameTeam,
+  toNumber,
+} from './volleyballStats';
+
+export interface RallyRow {
+  match_id: string | null;
+  set_number: number | null;
+  point_id: number | string | null;
+  rally_number: number; // 1-based rally index within the set
+  home_team: string | null;
+  visiting_team: string | null;
+  serving_team: string | null;
+  receiving_team: string | null;
+  server_name: string | null;
+  serve_evaluation: string | null;
+  reception_quality: string | null;
+  reception_player: string | null;
+  first_ball_attack_player: string | null;
+  first_ball_attack_code: string | null;
+  first_ball_attack_outcome: string | null; // Evaluation code of the receiving team's first attack
+  first_ball_kill: boolean;
+  transitions: number; // Attacks after the first-ball attack (either team)
+  num_actions: number;
+  point_won_by: string | null;
+  point_phase: 'Sideout' | 'Breakpoint' | null;
+  end_type: 'winner' | 'opponent_error' | null;
+  winning_skill: string | null; // Skill of the winning action, or 'Opponent error'
+  winning_player: string | null;
+  end_skill: string | null; // Skill of the last contact, whoever made it
+  end_player: string | null;
+  home_score_before: number | null;
+  visiting_score_before: number | null;
+  home_score_after: number | null;
+  visiting_score_after: number | null;
+}
+
+export const RALLY_COLUMNS: (keyof RallyRow)[] = [
+  'match_id', 'set_number', 'point_id', 'rally_number', 'home_team', 'visiting_team',
+  'serving_team', 'receiving_team', 'server_name', 'serve_evaluation', 'reception_quality', 'reception_player',
+  'first_ball_attack_player', 'first_ball_attack_code', 'first_ball_attack_outcome', 'first_ball_kill',
+  'transitions', 'num_actions', 'point_won_by', 'point_phase', 'end_type', 'winning_skill', 'winning_player',
+  'end_skill', 'end_player', 'home_score_before', 'visiting_score_before', 'home_score_after', 'visiting_score_after',
+];
+
+const isContact = (row: any) => String(row?.skill_type ?? '').trim() !== '';
+
+const playerLabel = (row: any): string | null =>
+  row ? (row.player_name || (row.player_number != null ? String(row.player_number) : null)) : null;
+
+function maxScore(rows: any[], column: string): number | null {
+  const values = rows.map(r => toNumber(r[column])).filter((v): v is number => v !== null);
+  return values.length > 0 ? Math.max(...values) : null;
+}
+
+/**
+ * Group action rows into rallies and summarize each one.
+ * Scores in the action rows are taken as the score after the rally; the score before
+ * is derived by removing the point from the winning side.
+ */
+export function reconstructRallies(rows: any[]): RallyRow[] {
+  const rallies = groupRallies(Array.isArray(rows) ? rows : []).filter(isPlayedRally);
+  const rallyCounters = new Map<string, number>();
+
+  return rallies.map(rally => {
+    const contacts = rally.rows.filter(isContact);
+    const servingTeam = rallyServingTeam(rally);
+    const winner = rallyWinner(rally);
+    const receivingTeam = sameTeam(servingTeam, rally.homeTeam) ? rally.visitingTeam
+      : sameTeam(servingTeam, rally.visitingTeam) ? rally.homeTeam
+      : null;
+
+    const serve = contacts.find(r => isSkill(r, 'serve'));
+    const reception = contacts.find(r => isSkill(r, 'reception'));
+    const attacks = contacts.filter(r => isSkill(r, 'attack'));
+    const firstBallIndex = attacks.findIndex(a => sameTeam(a.team, receivingTeam));
+    const firstBall = firstBallIndex >= 0 ? attacks[firstBallIndex] : null;
+    const transitions = firstBallIndex >= 0 ? attacks.length - firstBallIndex - 1 : attacks.length;
+
+    const last = contacts[contacts.length - 1] || null;
+    const endType = !last || !winner ? null : sameTeam(last.team, winner) ? 'winner' : 'opponent_error';
+
+    const homeWon = sameTeam(winner, rally.homeTeam);
+    const homeAfter = maxScore(rally.rows, 'home_team_score');
+    const visitingAfter = maxScore(rally.rows, 'visiting_team_score');
+
+    const setKey = `${rally.matchId ?? ''}::${rally.setNumber ?? ''}`;
+    const rallyNumber = (rallyCounters.get(setKey) || 0) + 1;
+    rallyCounters.set(setKey, rallyNumber);
+
+    return {
+      match_id: rally.matchId,
+      set_number: rally.setNumber,
+      point_id: rally.pointId,
+      rally_number: rallyNumber,
+      home_team: rally.homeTeam,
+      visiting_team: rally.visitingTeam,
+      serving_team: servingTeam,
+      receiving_team: receivingTeam,
+      server_name: playerLabel(serve),
+      serve_evaluation: serve?.evaluation_code ?? null,
+      reception_quality: reception?.evaluation_code ?? null,
+      reception_player: playerLabel(reception),
+      first_ball_attack_player: playerLabel(firstBall),
+      first_ball_attack_code: firstBall?.attack_code ?? null,
+      first_ball_attack_outcome: firstBall?.evaluation_code ?? null,
+      first_ball_kill: firstBall?.evaluation_code === '#',
+      transitions,
+      num_actions: contacts.length,
+      point_won_by: winner,
+      point_phase: winner ? (sameTeam(winner, servingTeam) ? 'Breakpoint' : 'Sideout') : null,
+      end_type: endType,
+      winning_skill: endType === 'winner' ? last.skill_type : endType === 'opponent_error' ? 'Opponent error' : null,
+      winning_player: endType === 'winner' ? playerLabel(last) : null,
+      end_skill: last?.skill_type ?? null,
+      end_player: playerLabel(last),
+      home_score_before: homeAfter === null ? null : homeAfter - (homeWon ? 1 : 0),
+      visiting_score_before: visitingAfter === null ? null : visitingAfter - (!homeWon && winner ? 1 : 0),
+      home_score_after: homeAfter,
+      visiting_score_after: visitingAfter,
+    };
+  });
+}
+
+// DuckDB table holding the rallies of an action table
+export function rallyTableName(actionTableName: string): string {
+  return `${actionTableName}_rallies`;
+}
@@ -0,0 +1,231 @@
+// Serve-receive grading with configurable scales
+// DataVolley grades receptions with # + ! - / =; teams translate those into their own pass scores
+// (3-point, 4-point, perfect %...). Scales are stored per team in localStorage.
+// Reports keep raw code counts everywhere so any scale can be applied after the fact.
+
+import { RECEPTION_GRADES } from './playerReports';
+import { groupRallies, isSkill, normalizeTeamName, ratio, sameTeam, toNumber } from './volleyballStats';
+
+export type ReceptionCode = typeof RECEPTION_GRADES[number];
+export type CodeCounts = Record<ReceptionCode, number>;
+
+export interface GradingScale {
+  id: string; // Preset id, or 'custom'
+  label: string;
+  max: number; // Score of a perfect pass, used to express averages as a percentage
+  scores: Record<ReceptionCode, number>;
+}
+
+export const GRADING_PRESETS: GradingScale[] = [
+  { id: '3-point', label: '3-point', max: 3, scores: { '#': 3, '+': 2, '!': 1, '-': 1, '/': 0, '=': 0 } },
+  { id: '4-point', label: '4-point (DataVolley)', max: 4, scores: { '#': 4, '+': 3, '!': 2, '-': 1, '/': 0, '=': 0 } },
+  { id: 'perfect', label: 'Perfect %', max: 1, scores: { '#': 1, '+': 0, '!': 0, '-': 0, '/': 0, '=': 0 } },
+  { id: 'positive', label: 'Positive % (# and +)', max: 1, scores: { '#': 1, '+': 1, '!': 0, '-': 0, '/': 0, '=': 0 } },
+];
+
+export const DEFAULT_GRADING_SCALE = GRADING_PRESETS[0];
+
+const GRADING_STORAGE_KEY = 'reception_grading_scales';
+
+function loadStoredScales(): Record<string, GradingScale> {
+  try {
+    const stored = localStorage.getItem(GRADING_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading reception grading scales:', error);
+    return {};
+  }
+}
+
+// Grading scale saved for a team, or the default 3-point scale
+export function getTeamGradingScale(team: string | null | undefined): GradingScale {
+  const stored = loadStoredScales()[normalizeTeamName(team)];
+  return stored ? { ...stored, scores: { ...DEFAULT_GRADING_SCALE.scores, ...stored.scores } } : DEFAULT_GRADING_SCALE;
+}
+
+// Teams with a saved scale, keyed by normalized team name
+export function getStoredGradingScales(): Record<string, GradingScale> {
+  return loadStoredScales();
+}
+
+export function saveTeamGradingScale(team: string, scale: GradingScale): void {
+  const scales = loadStoredScales();
+  scales[normalizeTeamName(team)] = scale;
+  localStorage.setItem(GRADING_STORAGE_KEY, JSON.stringify(scales));
+}
+
+export function resetTeamGradingScale(team: string): void {
+  const scales = loadStoredScales();
+  delete scales[normalizeTeamName(team)];
+  localStorage.setItem(GRADING_STORAGE_KEY, JSON.stringify(scales));
+}
+
+export interface PassSummary {
+  attempts: number;
+  counts: CodeCounts;
+  average: number; // Mean pass score on the team's scale
+  averagePct: number; // average / scale.max
+  perfectPct: number;
+  positivePct: number;
+  errorPct: number; // Reception errors (=) only; overpasses (/) are counted in counts['/']
+}
+
+export interface PasserSummary extends PassSummary {
+  player: string;
+  playerNumber: number | null;
+}
+
+export interface ServeZoneSummary extends PassSummary {
+  zone: number; // start_zone of the serve (1, 5, 6 = serving positions; 7-9 when coded)
+}
+
+export interface ServeZoneCell extends PassSummary {
+  zone: number;
+  player: string;
+}
+
+export interface ReceptionRotationSummary extends PassSummary {
+  rotation: number;
+  sideOuts: number;
+  sideOutPct: number; // Share of these receptions that ended in a side-out
+}
+
+export interface TeamReception extends PassSummary {
+  team: string;
+  scale: GradingScale;
+  passers: PasserSummary[];
+  serveZones: ServeZoneSummary[];
+  zoneByPasser: ServeZoneCell[]; // Serve zone x passer breakdown
+  rotations: ReceptionRotationSummary[];
+}
+
+export interface ReceptionReport {
+  teams: TeamReception[];
+  totalReceptions: number;
+}
+
+const emptyCounts = (): CodeCounts => ({ '#': 0, '+': 0, '!': 0, '-': 0, '/': 0, '=': 0 });
+
+/**
+ * Summarize code counts on a grading scale
+ */
+export function gradeCounts(counts: CodeCounts, scale: GradingScale): PassSummary {
+  const attempts = RECEPTION_GRADES.reduce((sum, code) => sum + counts[code], 0);
+  const total = RECEPTION_GRADES.reduce((sum, code) => sum + counts[code] * (scale.scores[code] ?? 0), 0);
+  const average = ratio(total, attempts, 2);
+  return {
+    attempts,
+    counts,
+    average,
+    averagePct: ratio(average, scale.max),
+    perfectPct: ratio(counts['#'], attempts),
+    positivePct: ratio(counts['#'] + counts['+'], attempts),
+    errorPct: ratio(counts['='], attempts),
+  };
+}
+
+/**
+ * Re-grade a report with another scale (e.g. after the user switches scales in the dashboard)
+ */
+export function regradeTeam(team: TeamReception, scale: GradingScale): TeamReception {
+  return {
+    ...team,
+    ...gradeCounts(team.counts, scale),
+    scale,
+    passers: team.passers.map(p => ({ ...p, ...gradeCounts(p.counts, scale) })),
+    serveZones: team.serveZones.map(z => ({ ...z, ...gradeCounts(z.counts, scale) })),
+    zoneByPasser: team.zoneByPasser.map(c => ({ ...c, ...gradeCounts(c.counts, scale) })),
+    rotations: team.rotations.map(r => ({ ...r, ...gradeCounts(r.counts, scale) })),
+  };
+}
+
+interface TeamBucket {
+  team: string;
+  counts: CodeCounts;
+  passers: Map<string, { player: string; playerNumber: number | null; counts: CodeCounts }>;
+  zones: Map<number, CodeCounts>;
+  cells: Map<string, { zone: number; player: string; counts: CodeCounts }>;
+  rotations: Map<number, { counts: CodeCounts; sideOuts: number }>;
+}
+
+/**
+ * Grade every reception in the given rows, per team, passer, serve zone and rotation.
+ * Each team is graded on its saved scale unless `scale` is passed.
+ */
+export function analyzeReception(rows: any[], options: { team?: string; scale?: GradingScale } = {}): ReceptionReport {
+  const rallies = groupRallies(Array.isArray(rows) ? rows : []);
+  const buckets = new Map<string, TeamBucket>();
+  let totalReceptions = 0;
+
+  for (const rally of rallies) {
+    const serve = rally.rows.find(r => isSkill(r, 'serve'));
+    const winner = rally.rows.find(r => r.point_won_by)?.point_won_by ?? null;
+
+    for (const row of rally.rows) {
+      if (!isSkill(row, 'reception')) continue;
+      const code = row.evaluation_code as ReceptionCode;
+      if (!RECEPTION_GRADES.includes(code) || !row.team) continue;
+      if (options.team && !sameTeam(row.team, options.team)) continue;
+      totalReceptions++;
+
+      const key = normalizeTeamName(row.team);
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = { team: row.team, counts: emptyCounts(), passers: new Map(), zones: new Map(), cells: new Map(), rotations: new Map() };
+        buckets.set(key, bucket);
+      }
+      bucket.counts[code]++;
+
+      const playerNumber = toNumber(row.player_number);
+      const player = row.player_name || (playerNumber !== null ? `#${playerNumber}` : 'Unknown');
+      if (!bucket.passers.has(player)) bucket.passers.set(player, { player, playerNumber, counts: emptyCounts() });
+      bucket.passers.get(player)!.counts[code]++;
+
+      // The serve row carries the serving zone; DataVolley copies it onto the reception too
+      const zone = toNumber(serve?.start_zone) ?? toNumber(row.start_zone);
+      if (zone !== null) {
+        if (!bucket.zones.has(zone)) bucket.zones.set(zone, emptyCounts());
+        bucket.zones.get(zone)![code]++;
+        const cellKey = `${zone}::${player}`;
+        if (!bucket.cells.has(cellKey)) bucket.cells.set(cellKey, { zone, player, counts: emptyCounts() });
+        bucket.cells.get(cellKey)!.counts[code]++;
+      }
+
+      const side = sameTeam(row.team, row.home_team ?? rally.homeTeam) ? 'home' : 'visiting';
+      const rotation = toNumber(row[`${side}_setter_position`]);
+      if (rotation !== null && rotation >= 1 && rotation <= 6) {
+        if (!bucket.rotations.has(rotation)) bucket.rotations.set(rotation, { counts: emptyCounts(), sideOuts: 0 });
+        const entry = bucket.rotations.get(rotation)!;
+        entry.counts[code]++;
+        if (sameTeam(winner, row.team)) entry.sideOuts++;
+      }
+    }
+  }
+
+  const teams = [...buckets.values()]
+    .sort((a, b) => a.team.localeCompare(b.team))
+    .map(bucket => {
+      const scale = options.scale || getTeamGradingScale(bucket.team);
+      return {
+        team: bucket.team,
+        scale,
+        ...gradeCounts(bucket.counts, scale),
+        passers: [...bucket.passers.values()]
+          .map(p => ({ player: p.player, playerNumber: p.playerNumber, ...gradeCounts(p.counts, scale) }))
+          .sort((a, b) => b.attempts - a.attempts),
+        serveZones: [...bucket.zones.entries()]
+          .map(([zone, counts]) => ({ zone, ...gradeCounts(counts, scale) }))
+          .sort((a, b) => a.zone - b.zone),
+        zoneByPasser: [...bucket.cells.values()]
+          .map(c => ({ zone: c.zone, player: c.player, ...gradeCounts(c.counts, scale) })),
+        rotations: [...bucket.rotations.entries()]
+          .map(([rotation, entry]) => {
+            const summary = gradeCounts(entry.counts, scale);
+            return { rotation, ...summary, sideOuts: entry.sideOuts, sideOutPct: ratio(entry.sideOuts, summary.attempts) };
+          })
+          .sort((a, b) => a.rotation - b.rotation),
+      };
+    });
+
+  return { teams, totalReceptions };
+}
@@ -0,0 +1,167 @@
+// Rotation analysis built on setter positions and on-court lineups
+// A team's rotation for a rally is its setter position (1-6) at the time of the serve:
+// home_setter_position for the home team, visiting_setter_position for the visiting team.
+
+import {
+  AttackStats,
+  Rally,
+  groupRallies,
+  isPlayedRally,
+  isSkill,
+  rallyServingTeam,
+  rallyWinner,
+  ratio,
+  sameTeam,
+  summarizeAttacks,
+  toNumber,
+} from './volleyballStats';
+
+export interface RotationStats {
+  team: string;
+  rotation: number;
+  rallies: number;
+  serveRallies: number;
+  breakPoints: number;
+  breakPointPct: number;
+  receiveRallies: number;
+  sideOuts: number;
+  sideOutPct: number;
+  pointsWon: number;
+  pointsLost: number;
+  pointDifferential: number;
+  attack: AttackStats;
+  serve: { attempts: number; aces: number; errors: number; acePct: number; errorPct: number };
+  reception: { attempts: number; perfect: number; positive: number; errors: number; perfectPct: number; positivePct: number };
+  lineup: (number | null)[]; // Most common p1..p6 for this rotation (setter stands at position `rotation`)
+}
+
+export interface RotationReport {
+  teams: string[];
+  totalRallies: number;
+  rotations: RotationStats[];
+}
+
+interface RotationBucket {
+  team: string;
+  rotation: number;
+  rallies: Rally[];
+  lineups: Map<string, { lineup: (number | null)[]; count: number }>;
+  serveRallies: number;
+  breakPoints: number;
+  receiveRallies: number;
+  sideOuts: number;
+  pointsWon: number;
+}
+
+type Side = 'home' | 'visiting';
+
+function rallyRotation(rally: Rally, side: Side): { rotation: number | null; lineup: (number | null)[] } {
+  // Prefer the serve row (rotation at the start of the rally), fall back to any row carrying positions
+  const source = rally.rows.find(r => isSkill(r, 'serve') && r[`${side}_setter_position`] != null)
+    || rally.rows.find(r => r[`${side}_setter_position`] != null);
+  if (!source) {
+    return { rotation: null, lineup: [] };
+  }
+  const rotation = toNumber(source[`${side}_setter_position`]);
+  const lineup = [1, 2, 3, 4, 5, 6].map(p => toNumber(source[`${side}_p${p}`]));
+  return { rotation: rotation !== null && rotation >= 1 && rotation <= 6 ? rotation : null, lineup };
+}
+
+/**
+ * Compute side-out %, break-point %, point differential and skill efficiencies
+ * for every rotation (P1-P6) of every team in the given action rows.
+ * Pass `team` to restrict the report to one team.
+ */
+export function analyzeRotations(rows: any[], options: { team?: string } = {}): RotationReport {
+  const rallies = groupRallies(Array.isArray(rows) ? rows : []).filter(isPlayedRally);
+  const buckets = new Map<string, RotationBucket>();
+
+  const bucketFor = (team: string, rotation: number): RotationBucket => {
+    const key = `${team}::${rotation}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { team, rotation, rallies: [], lineups: new Map(), serveRallies: 0, breakPoints: 0, receiveRallies: 0, sideOuts: 0, pointsWon: 0 };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  for (const rally of rallies) {
+    const servingTeam = rallyServingTeam(rally);
+    const winner = rallyWinner(rally);
+
+    (['home', 'visiting'] as Side[]).forEach(side => {
+      const team = side === 'home' ? rally.homeTeam : rally.visitingTeam;
+      if (!team) return;
+      if (options.team && !sameTeam(team, options.team)) return;
+
+      const { rotation, lineup } = rallyRotation(rally, side);
+      if (rotation === null) return;
+
+      const bucket = bucketFor(team, rotation);
+      bucket.rallies.push(rally);
+
+      const lineupKey = lineup.join(',');
+      const seen = bucket.lineups.get(lineupKey);
+      if (seen) seen.count++;
+      else bucket.lineups.set(lineupKey, { lineup, count: 1 });
+
+      const won = sameTeam(winner, team);
+      if (won) bucket.pointsWon++;
+      if (sameTeam(servingTeam, team)) {
+        bucket.serveRallies++;
+        if (won) bucket.breakPoints++;
+      } else {
+        bucket.receiveRallies++;
+        if (won) bucket.sideOuts++;
+      }
+    });
+  }
+
+  const rotations: RotationStats[] = [...buckets.values()]
+    .sort((a, b) => a.team.localeCompare(b.team) || a.rotation - b.rotation)
+    .map(bucket => {
+      const teamRows = bucket.rallies.flatMap(r => r.rows).filter(r => sameTeam(r.team, bucket.team));
+      const serves = teamRows.filter(r => isSkill(r, 'serve'));
+      const receptions = teamRows.filter(r => isSkill(r, 'reception'));
+      const aces = serves.filter(s => s.evaluation_code === '#').length;
+      const serveErrors = serves.filter(s => s.evaluation_code === '=').length;
+      const perfect = receptions.filter(r => r.evaluation_code === '#').length;
+      const positive = receptions.filter(r => r.evaluation_code === '#' || r.evaluation_code === '+').length;
+      const receptionErrors = receptions.filter(r => r.evaluation_code === '=').length;
+      const mostCommon = [...bucket.lineups.values()].sort((a, b) => b.count - a.count)[0];
+      const pointsLost = bucket.rallies.length - bucket.pointsWon;
+
+      return {
+        team: bucket.team,
+        rotation: bucket.rotation,
+        rallies: bucket.rallies.length,
+        serveRallies: bucket.serveRallies,
+        breakPoints: bucket.breakPoints,
+        breakPointPct: ratio(bucket.breakPoints, bucket.serveRallies),
+        receiveRallies: bucket.receiveRallies,
+        sideOuts: bucket.sideOuts,
+        sideOutPct: ratio(bucket.sideOuts, bucket.receiveRallies),
+        pointsWon: bucket.pointsWon,
+        pointsLost,
+        pointDifferential: bucket.pointsWon - pointsLost,
+        attack: summarizeAttacks(teamRows),
+        serve: { attempts: serves.length, aces, errors: serveErrors, acePct: ratio(aces, serves.length), errorPct: ratio(serveErrors, serves.length) },
+        reception: {
+          attempts: receptions.length,
+          perfect,
+          positive,
+          errors: receptionErrors,
+          perfectPct: ratio(perfect, receptions.length),
+          positivePct: ratio(positive, receptions.length),
+        },
+        lineup: mostCommon?.lineup || [],
+      };
+    });
+
+  return {
+    teams: [...new Set(rotations.map(r => r.team))],
+    totalRallies: rallies.length,
+    rotations,
+  };
+}
@@ -0,0 +1,223 @@
+// Opponent scouting report across every match a team played
+// Sections: setter distribution by rotation and reception quality, attack tendencies by hitter,
+// and serve target zones. The markdown rendering is what gets handed to the LLM as context.
+
+import {
+  AttackStats,
+  Rally,
+  groupRallies,
+  isPlayedRally,
+  isSkill,
+  ratio,
+  sameTeam,
+  summarizeAttacks,
+  toNumber,
+} from './volleyballStats';
+
+export interface ScoutedMatch {
+  matchInfo: { match_id: string; home_team: string; visiting_team: string };
+  data: any[];
+}
+
+// Counts per zone (start zone for attacks, end zone for serves)
+export type ZoneCounts = Record<string, number>;
+
+export interface DistributionCell {
+  rotation: number;
+  receptionQuality: string; // Reception evaluation code (#, +, !, -) or 'Transition'
+  attempts: number;
+  zones: ZoneCounts;
+}
+
+export interface HitterTendency {
+  player: string;
+  playerNumber: number | null;
+  attack: AttackStats;
+  startZones: ZoneCounts;
+  endZones: ZoneCounts;
+  topCombinations: { code: string; attempts: number }[];
+}
+
+export interface ServerTendency {
+  player: string;
+  playerNumber: number | null;
+  attempts: number;
+  aces: number;
+  errors: number;
+  endZones: ZoneCounts;
+}
+
+export interface ScoutingReport {
+  team: string;
+  matches: { match_id: string; opponent: string }[];
+  totalRallies: number;
+  setterDistribution: DistributionCell[];
+  hitters: HitterTendency[];
+  servers: ServerTendency[];
+  serveTargets: ZoneCounts;
+}
+
+const RECEPTION_ORDER = ['#', '+', '!', '-', 'Transition'];
+
+const zoneKey = (value: unknown): string | null => {
+  const zone = toNumber(value);
+  return zone === null ? null : String(zone);
+};
+
+const addZone = (zones: ZoneCounts, value: unknown) => {
+  const key = zoneKey(value);
+  if (key) zones[key] = (zones[key] || 0) + 1;
+};
+
+const playerLabel = (row: any): string => row.player_name || (row.player_number != null ? `#${row.player_number}` : 'Unknown');
+
+function teamSide(rally: Rally, team: string): 'home' | 'visiting' | null {
+  if (sameTeam(rally.homeTeam, team)) return 'home';
+  if (sameTeam(rally.visitingTeam, team)) return 'visiting';
+  return null;
+}
+
+// Team's rotation for the rally: its setter position on the serve row (or first row carrying it)
+function rallyRotation(rally: Rally, side: 'home' | 'visiting'): number | null {
+  const column = `${side}_setter_position`;
+  const source = rally.rows.find(r => isSkill(r, 'serve') && r[column] != null) || rally.rows.find(r => r[column] != null);
+  const rotation = source ? toNumber(source[column]) : null;
+  return rotation !== null && rotation >= 1 && rotation <= 6 ? rotation : null;
+}
+
+/**
+ * Build a scouting report for `team` from all of its loaded matches
+ */
+export function buildScoutingReport(team: string, matches: ScoutedMatch[]): ScoutingReport {
+  const cells = new Map<string, DistributionCell>();
+  const hitterRows = new Map<string, any[]>();
+  const serverRows = new Map<string, any[]>();
+  const serveTargets: ZoneCounts = {};
+  let totalRallies = 0;
+
+  for (const match of matches) {
+    for (const rally of groupRallies(match.data).filter(isPlayedRally)) {
+      const side = teamSide(rally, team);
+      if (!side) continue;
+      totalRallies++;
+
+      const teamRows = rally.rows.filter(r => sameTeam(r.team, team));
+      const rotation = rallyRotation(rally, side);
+      const reception = teamRows.find(r => isSkill(r, 'reception'));
+      const receptionIndex = reception ? teamRows.indexOf(reception) : -1;
+      let firstBallTaken = false;
+
+      teamRows.forEach((row, index) => {
+        if (isSkill(row, 'attack')) {
+          const key = playerLabel(row);
+          hitterRows.set(key, [...(hitterRows.get(key) || []), row]);
+
+          if (rotation !== null) {
+            const isFirstBall = !firstBallTaken && receptionIndex >= 0 && index > receptionIndex;
+            if (isFirstBall) firstBallTaken = true;
+            const quality = isFirstBall && RECEPTION_ORDER.includes(reception.evaluation_code) ? reception.evaluation_code : 'Transition';
+            const cellKey = `${rotation}::${quality}`;
+            const cell = cells.get(cellKey) || { rotation, receptionQuality: quality, attempts: 0, zones: {} };
+            cell.attempts++;
+            addZone(cell.zones, row.start_zone);
+            cells.set(cellKey, cell);
+          }
+        } else if (isSkill(row, 'serve')) {
+          const key = playerLabel(row);
+          serverRows.set(key, [...(serverRows.get(key) || []), row]);
+          addZone(serveTargets, row.end_zone);
+        }
+      });
+    }
+  }
+
+  const hitters: HitterTendency[] = [...hitterRows.entries()].map(([player, rows]) => {
+    const startZones: ZoneCounts = {};
+    const endZones: ZoneCounts = {};
+    const combos = new Map<string, number>();
+    rows.forEach(r => {
+      addZone(startZones, r.start_zone);
+      addZone(endZones, r.end_zone);
+      if (r.attack_code) combos.set(r.attack_code, (combos.get(r.attack_code) || 0) + 1);
+    });
+    return {
+      player,
+      playerNumber: toNumber(rows[0].player_number),
+      attack: summarizeAttacks(rows),
+      startZones,
+      endZones,
+      topCombinations: [...combos.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([code, attempts]) => ({ code, attempts })),
+    };
+  }).sort((a, b) => b.attack.attempts - a.attack.attempts);
+
+  const servers: ServerTendency[] = [...serverRows.entries()].map(([player, rows]) => {
+    const endZones: ZoneCounts = {};
+    rows.forEach(r => addZone(endZones, r.end_zone));
+    return {
+      player,
+      playerNumber: toNumber(rows[0].player_number),
+      attempts: rows.length,
+      aces: rows.filter(r => r.evaluation_code === '#').length,
+      errors: rows.filter(r => r.evaluation_code === '=').length,
+      endZones,
+    };
+  }).sort((a, b) => b.attempts - a.attempts);
+
+  return {
+    team,
+    matches: matches.map(m => ({
+      match_id: m.matchInfo.match_id,
+      opponent: sameTeam(m.matchInfo.home_team, team) ? m.matchInfo.visiting_team : m.matchInfo.home_team,
+    })),
+    totalRallies,
+    setterDistribution: [...cells.values()].sort((a, b) =>
+      a.rotation - b.rotation || RECEPTION_ORDER.indexOf(a.receptionQuality) - RECEPTION_ORDER.indexOf(b.receptionQuality)
+    ),
+    hitters,
+    servers,
+    serveTargets,
+  };
+}
+
+// "4: 45% · 3: 20% ..." sorted by share
+export function formatZoneShares(zones: ZoneCounts): string {
+  const total = Object.values(zones).reduce((a, b) => a + b, 0);
+  if (total === 0) return '–';
+  return Object.entries(zones)
+    .sort((a, b) => b[1] - a[1])
+    .map(([zone, count]) => `${zone}: ${Math.round(ratio(count, total) * 100)}%`)
+    .join(' · ');
+}
+
+/**
+ * Render the report as markdown, compact enough to be used as LLM context
+ */
+export function formatScoutingReport(report: ScoutingReport): string {
+  const lines: string[] = [];
+  lines.push(`# Scouting report: ${report.team}`);
+  lines.push(`${report.matches.length} matches (${report.matches.map(m => `vs ${m.opponent}`).join(', ')}), ${report.totalRallies} rallies`);
+
+  lines.push('', '## Setter distribution (attack start zone share) by rotation and reception quality');
+  for (const rotation of [1, 2, 3, 4, 5, 6]) {
+    const rotationCells = report.setterDistribution.filter(c => c.rotation === rotation);
+    if (rotationCells.length === 0) continue;
+    lines.push(`- P${rotation}: ${rotationCells.map(c => `[${c.receptionQuality}, n=${c.attempts}] ${formatZoneShares(c.zones)}`).join(' | ')}`);
+  }
+
+  lines.push('', '## Hitters (start zones → landing zones)');
+  report.hitters.slice(0, 10).forEach(h => {
+    const combos = h.topCombinations.map(c => `${c.code}×${c.attempts}`).join(', ');
+    lines.push(`- ${h.player}: ${h.attack.attempts} att, K% ${(h.attack.killPct * 100).toFixed(0)}, eff ${h.attack.efficiency.toFixed(3)}; from ${formatZoneShares(h.startZones)}; to ${formatZoneShares(h.endZones)}${combos ? `; top ${combos}` : ''}`);
+  });
+
+  lines.push('', '## Serve targets');
+  lines.push(`- Team: ${formatZoneShares(report.serveTargets)}`);
+  report.servers.slice(0, 10).forEach(s => {
+    lines.push(`- ${s.player}: ${s.attempts} serves, ${s.aces} aces, ${s.errors} errors; to ${formatZoneShares(s.endZones)}`);
+  });
+
+  return lines.join('\n');
+}
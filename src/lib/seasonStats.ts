@@ -0,0 +1,330 @@
+// Season aggregation across every match of a source
+// Aggregation happens in SQL (Neon Postgres for combined_dvw, DuckDB for local DVW-derived files),
+// so only per-player, per-team and per-player-per-match totals reach the browser.
+// The SQL sticks to CASE/SUM/COUNT so the same text runs on both engines.
+
+import { ratio, toNumber } from './volleyballStats';
+
+// Columns a table needs to be aggregated as match actions
+export const SEASON_REQUIRED_COLUMNS = ['match_id', 'team', 'player_name', 'skill_type', 'evaluation_code'];
+
+export function isMatchActionTable(headers: string[] | undefined): boolean {
+  if (!Array.isArray(headers)) return false;
+  const lower = headers.map(h => String(h).toLowerCase());
+  return SEASON_REQUIRED_COLUMNS.every(column => lower.includes(column));
+}
+
+// Uploaded files (CSV or DVW) that carry match actions and can be aggregated in DuckDB
+export function getMatchActionFiles(): { id: string; name: string }[] {
+  try {
+    const saved = localStorage.getItem('db_csv_files');
+    const files = saved ? JSON.parse(saved) : [];
+    return (Array.isArray(files) ? files : [])
+      .filter((f: any) => !f.isDatabaseTable && isMatchActionTable(f.headers))
+      .map((f: any) => ({ id: f.id, name: f.name }));
+  } catch (error) {
+    console.error('Error reading uploaded files:', error);
+    return [];
+  }
+}
+
+export interface SeasonTotals {
+  matches: number;
+  attackAttempts: number;
+  kills: number;
+  attackErrors: number;
+  attackBlocked: number;
+  killPct: number;
+  attackEfficiency: number;
+  serveAttempts: number;
+  aces: number;
+  serveErrors: number;
+  acePct: number;
+  blocks: number;
+  receptionAttempts: number;
+  receptionPositive: number;
+  receptionErrors: number;
+  positivePassPct: number;
+  digs: number;
+  points: number; // kills + aces + blocks
+}
+
+export interface SeasonPlayerTotals extends SeasonTotals {
+  team: string;
+  player: string;
+}
+
+export interface SeasonTeamTotals extends SeasonTotals {
+  team: string;
+}
+
+export interface SeasonPlayerMatch {
+  match_id: string;
+  match_date: string | null;
+  team: string;
+  player: string;
+  attackAttempts: number;
+  kills: number;
+  attackEfficiency: number;
+  aces: number;
+  blocks: number;
+  points: number;
+}
+
+export type SeasonMetric = 'kills' | 'aces' | 'blocks' | 'points' | 'attackEfficiency' | 'killPct' | 'acePct' | 'positivePassPct' | 'digs';
+
+export interface LeaderboardEntry {
+  rank: number;
+  team: string;
+  player: string;
+  value: number;
+  attempts: number | null; // Attempts behind a rate metric
+  matches: number;
+}
+
+export interface Leaderboard {
+  id: SeasonMetric;
+  label: string;
+  minAttempts: number | null; // Threshold applied to rate metrics
+  entries: LeaderboardEntry[];
+}
+
+export interface SeasonReport {
+  source: string;
+  matches: string[]; // match_ids in order
+  matchOrder: 'match_date' | 'match_id'; // By date when every match has one, else by match_id
+  minAttempts: number;
+  players: SeasonPlayerTotals[];
+  teams: SeasonTeamTotals[];
+  leaderboards: Leaderboard[];
+  playerMatches: SeasonPlayerMatch[];
+}
+
+export interface SeasonQueryRows {
+  players: any[];
+  teams: any[];
+  playerMatches: any[];
+}
+
+const LEADERBOARDS: { id: SeasonMetric; label: string; attempts?: keyof SeasonTotals }[] = [
+  { id: 'points', label: 'Points (kills + aces + blocks)' },
+  { id: 'kills', label: 'Kills' },
+  { id: 'aces', label: 'Aces' },
+  { id: 'blocks', label: 'Blocks' },
+  { id: 'digs', label: 'Digs' },
+  { id: 'attackEfficiency', label: 'Attack efficiency', attempts: 'attackAttempts' },
+  { id: 'killPct', label: 'Kill %', attempts: 'attackAttempts' },
+  { id: 'acePct', label: 'Ace %', attempts: 'serveAttempts' },
+  { id: 'positivePassPct', label: 'Positive pass %', attempts: 'receptionAttempts' },
+];
+
+export const DEFAULT_MIN_ATTEMPTS = 20;
+const LEADERBOARD_SIZE = 10;
+
+const skill = (name: string) => `LOWER(skill_type) LIKE '%${name}%'`;
+const count = (condition: string) => `SUM(CASE WHEN ${condition} THEN 1 ELSE 0 END)`;
+const evaluated = (name: string, codes: string[]) =>
+  count(`${skill(name)} AND evaluation_code IN (${codes.map(c => `'${c}'`).join(', ')})`);
+
+// Aggregate columns shared by the player, team and per-match queries
+const TOTAL_COLUMNS = [
+  `COUNT(DISTINCT match_id) AS matches`,
+  `${count(skill('attack'))} AS attack_attempts`,
+  `${evaluated('attack', ['#'])} AS kills`,
+  `${evaluated('attack', ['='])} AS attack_errors`,
+  `${evaluated('attack', ['/'])} AS attack_blocked`,
+  `${count(skill('serve'))} AS serve_attempts`,
+  `${evaluated('serve', ['#'])} AS aces`,
+  `${evaluated('serve', ['='])} AS serve_errors`,
+  `${evaluated('block', ['#'])} AS blocks`,
+  `${count(skill('reception'))} AS reception_attempts`,
+  `${evaluated('reception', ['#', '+'])} AS reception_positive`,
+  `${evaluated('reception', ['='])} AS reception_errors`,
+  `${count(`${skill('dig')} AND evaluation_code <> '='`)} AS digs`,
+].join(',\n    ');
+
+/**
+ * SQL for the three season aggregates over `source` (a quoted table name or a parenthesized subquery with alias).
+ * With a dateColumn the per-match rows carry the match's earliest date as match_date.
+ */
+export function buildSeasonSql(source: string, dateColumn: string | null = null): { players: string; teams: string; playerMatches: string } {
+  const where = `WHERE team IS NOT NULL AND skill_type IS NOT NULL`;
+  return {
+    players: `SELECT team, player_name,
+    ${TOTAL_COLUMNS}
+  FROM ${source}
+  ${where} AND player_name IS NOT NULL
+  GROUP BY team, player_name`,
+    teams: `SELECT team,
+    ${TOTAL_COLUMNS}
+  FROM ${source}
+  ${where}
+  GROUP BY team`,
+    playerMatches: `SELECT match_id, team, player_name,
+    ${dateColumn ? `CAST(MIN("${dateColumn.replace(/"/g, '""')}") AS VARCHAR) AS match_date` : 'NULL AS match_date'},
+    ${count(skill('attack'))} AS attack_attempts,
+    ${evaluated('attack', ['#'])} AS kills,
+    ${evaluated('attack', ['=', '/'])} AS attack_faults,
+    ${evaluated('serve', ['#'])} AS aces,
+    ${evaluated('block', ['#'])} AS blocks
+  FROM ${source}
+  ${where} AND player_name IS NOT NULL
+  GROUP BY match_id, team, player_name
+  ORDER BY match_id`,
+  };
+}
+
+const num = (value: unknown) => toNumber(value) ?? 0;
+
+function shapeTotals(row: any): SeasonTotals {
+  const attackAttempts = num(row.attack_attempts);
+  const kills = num(row.kills);
+  const attackErrors = num(row.attack_errors);
+  const attackBlocked = num(row.attack_blocked);
+  const serveAttempts = num(row.serve_attempts);
+  const aces = num(row.aces);
+  const blocks = num(row.blocks);
+  const receptionAttempts = num(row.reception_attempts);
+  const receptionPositive = num(row.reception_positive);
+  return {
+    matches: num(row.matches),
+    attackAttempts,
+    kills,
+    attackErrors,
+    attackBlocked,
+    killPct: ratio(kills, attackAttempts),
+    attackEfficiency: ratio(kills - attackErrors - attackBlocked, attackAttempts),
+    serveAttempts,
+    aces,
+    serveErrors: num(row.serve_errors),
+    acePct: ratio(aces, serveAttempts),
+    blocks,
+    receptionAttempts,
+    receptionPositive,
+    receptionErrors: num(row.reception_errors),
+    positivePassPct: ratio(receptionPositive, receptionAttempts),
+    digs: num(row.digs),
+    points: kills + aces + blocks,
+  };
+}
+
+// Leaderboards over the season totals; rate boards only rank players with at least `minAttempts` attempts
+function buildLeaderboards(players: SeasonPlayerTotals[], minAttempts: number): Leaderboard[] {
+  return LEADERBOARDS.map(board => {
+    const eligible = board.attempts ? players.filter(p => (p[board.attempts!] as number) >= minAttempts) : players;
+    const entries = [...eligible]
+      .filter(p => board.attempts || p[board.id] > 0)
+      .sort((a, b) => b[board.id] - a[board.id])
+      .slice(0, LEADERBOARD_SIZE)
+      .map((p, index) => ({
+        rank: index + 1,
+        team: p.team,
+        player: p.player,
+        value: p[board.id],
+        attempts: board.attempts ? (p[board.attempts] as number) : null,
+        matches: p.matches,
+      }));
+    return { id: board.id, label: board.label, minAttempts: board.attempts ? minAttempts : null, entries };
+  });
+}
+
+// Re-rank a loaded report for another threshold without querying again
+export function applyMinAttempts(report: SeasonReport, minAttempts: number): SeasonReport {
+  if (report.minAttempts === minAttempts) return report;
+  return { ...report, minAttempts, leaderboards: buildLeaderboards(report.players, minAttempts) };
+}
+
+/**
+ * Turn the aggregate rows into totals and leaderboards.
+ * Rate leaderboards only rank players with at least `minAttempts` attempts.
+ */
+export function buildSeasonReport(rows: SeasonQueryRows, options: { source?: string; minAttempts?: number } = {}): SeasonReport {
+  const minAttempts = options.minAttempts ?? DEFAULT_MIN_ATTEMPTS;
+  const players: SeasonPlayerTotals[] = rows.players.map(row => ({ team: String(row.team), player: String(row.player_name), ...shapeTotals(row) }));
+  const teams: SeasonTeamTotals[] = rows.teams
+    .map(row => ({ team: String(row.team), ...shapeTotals(row) }))
+    .sort((a, b) => b.points - a.points);
+  const playerMatches: SeasonPlayerMatch[] = rows.playerMatches.map(row => {
+    const attackAttempts = num(row.attack_attempts);
+    const kills = num(row.kills);
+    const aces = num(row.aces);
+    const blocks = num(row.blocks);
+    return {
+      match_id: String(row.match_id),
+      match_date: row.match_date ? String(row.match_date) : null,
+      team: String(row.team),
+      player: String(row.player_name),
+      attackAttempts,
+      kills,
+      attackEfficiency: ratio(kills - num(row.attack_faults), attackAttempts),
+      aces,
+      blocks,
+      points: kills + aces + blocks,
+    };
+  });
+
+  const leaderboards = buildLeaderboards(players, minAttempts);
+
+  // Chronological when every match is dated (ISO dates sort as text); match_id order otherwise
+  const matchDates = new Map<string, string | null>();
+  playerMatches.forEach(m => {
+    const date = matchDates.get(m.match_id);
+    if (date === undefined || (m.match_date && (date === null || m.match_date < date))) matchDates.set(m.match_id, m.match_date);
+  });
+  const matchOrder = matchDates.size > 0 && [...matchDates.values()].every(Boolean) ? 'match_date' : 'match_id';
+  const matches = [...matchDates.keys()].sort((a, b) =>
+    (matchOrder === 'match_date' ? matchDates.get(a)!.localeCompare(matchDates.get(b)!) : 0) ||
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+
+  return {
+    source: options.source || 'season',
+    matches,
+    matchOrder,
+    minAttempts,
+    players,
+    teams,
+    leaderboards,
+    playerMatches,
+  };
+}
+
+export const TREND_METRICS: { id: keyof Pick<SeasonPlayerMatch, 'points' | 'kills' | 'aces' | 'blocks' | 'attackEfficiency'>; label: string }[] = [
+  { id: 'points', label: 'Points' },
+  { id: 'kills', label: 'Kills' },
+  { id: 'aces', label: 'Aces' },
+  { id: 'blocks', label: 'Blocks' },
+  { id: 'attackEfficiency', label: 'Attack efficiency' },
+];
+
+/**
+ * Per-match trend lines of one metric for the given players ("team::player" keys)
+ */
+export function buildSeasonTrendOption(report: SeasonReport, metric: typeof TREND_METRICS[number]['id'], playerKeys: string[]): any {
+  const label = TREND_METRICS.find(m => m.id === metric)?.label || metric;
+  return {
+    title: {
+      text: `${label} per match`,
+      subtext: `${report.matches.length} matches · ${report.source}${report.matchOrder === 'match_id' ? ' · ordered by match id (no match dates)' : ''}`,
+      left: 'center',
+    },
+    tooltip: { trigger: 'axis' },
+    legend: { top: 55 },
+    grid: { left: 60, right: 30, top: 90, bottom: 80 },
+    xAxis: { type: 'category', data: report.matches, name: 'Match', axisLabel: { color: '#fff', rotate: report.matches.length > 12 ? 45 : 0 } },
+    yAxis: { type: 'value', name: label, axisLabel: { color: '#fff' }, splitLine: { lineStyle: { color: 'rgba(255,255,255,0.1)' } } },
+    series: playerKeys.map(key => {
+      const [team, player] = key.split('::');
+      const byMatch = new Map(
+        report.playerMatches.filter(m => m.team === team && m.player === player).map(m => [m.match_id, m[metric]])
+      );
+      return {
+        name: player,
+        type: 'line',
+        symbolSize: 5,
+        // Matches the player did not appear in stay empty
+        data: report.matches.map(id => byMatch.get(id) ?? null),
+      };
+    }),
+  };
+}
@@ -0,0 +1,289 @@
+// Setter distribution analysis: where the setter sends the ball, conditioned on game situation
+// Every team attack is one setter decision. The target is the attack start zone, the attack
+// combination (attack_code) or the set type of the preceding set row (F/B/C/P/S).
+// Predictability is 1 - normalized Shannon entropy of the target distribution.
+
+import {
+  Rally,
+  groupRallies,
+  isPlayedRally,
+  isSkill,
+  rallyWinner,
+  ratio,
+  sameTeam,
+  toNumber,
+} from './volleyballStats';
+
+export type SetterCondition = 'reception' | 'rotation' | 'score' | 'phase';
+export type SetterTarget = 'zone' | 'attack_code' | 'set_type';
+
+export const SETTER_CONDITIONS: { id: SetterCondition; label: string }[] = [
+  { id: 'reception', label: 'Reception quality' },
+  { id: 'rotation', label: 'Rotation' },
+  { id: 'score', label: 'Score situation' },
+  { id: 'phase', label: 'Phase' },
+];
+
+export const SETTER_TARGETS: { id: SetterTarget; label: string }[] = [
+  { id: 'zone', label: 'Attack zone' },
+  { id: 'attack_code', label: 'Attack code' },
+  { id: 'set_type', label: 'Set type' },
+];
+
+export interface SetterDistributionRow {
+  condition: string;
+  attempts: number;
+  counts: Record<string, number>;
+  entropy: number; // Shannon entropy in bits
+  predictability: number; // 0 = spread evenly over every target, 1 = always the same target
+}
+
+export interface SetterDistributionMatrix {
+  condition: SetterCondition;
+  rows: SetterDistributionRow[];
+}
+
+export interface TeamSetterDistribution {
+  team: string;
+  attempts: number;
+  targets: string[]; // Targets ordered by overall frequency
+  overall: SetterDistributionRow;
+  matrices: SetterDistributionMatrix[];
+}
+
+export interface SetterDistributionReport {
+  target: SetterTarget;
+  teams: TeamSetterDistribution[];
+}
+
+// One setter decision with its situation labels
+interface SetterChoice {
+  team: string;
+  target: string;
+  reception: string;
+  rotation: string | null;
+  score: string | null;
+  phase: string;
+}
+
+const CONDITION_ORDER: Record<SetterCondition, string[]> = {
+  reception: ['Pass #', 'Pass +', 'Pass !', 'Pass -', 'Pass /', 'Transition', 'Freeball'],
+  rotation: ['P1', 'P2', 'P3', 'P4', 'P5', 'P6'],
+  score: ['Trailing 3+', 'Trailing 1-2', 'Tied', 'Leading 1-2', 'Leading 3+'],
+  phase: ['Reception', 'Transition', 'Freeball'],
+};
+
+const SET_TYPE_LABELS: Record<string, string> = {
+  F: 'Front (F)',
+  B: 'Back (B)',
+  C: 'Center (C)',
+  P: 'Pipe (P)',
+  S: 'Setter (S)',
+};
+
+function entropyBits(counts: Record<string, number>): number {
+  const values = Object.values(counts).filter(v => v > 0);
+  const total = values.reduce((a, b) => a + b, 0);
+  if (total === 0) return 0;
+  return -values.reduce((sum, count) => {
+    const p = count / total;
+    return sum + p * Math.log2(p);
+  }, 0);
+}
+
+function summarizeChoices(condition: string, choices: SetterChoice[], targetCount: number): SetterDistributionRow {
+  const counts: Record<string, number> = {};
+  choices.forEach(c => { counts[c.target] = (counts[c.target] || 0) + 1; });
+  const entropy = entropyBits(counts);
+  const maxEntropy = targetCount > 1 ? Math.log2(targetCount) : 0;
+  return {
+    condition,
+    attempts: choices.length,
+    counts,
+    entropy: ratio(entropy, 1),
+    predictability: maxEntropy > 0 ? ratio(maxEntropy - entropy, maxEntropy) : 1,
+  };
+}
+
+function targetOf(attack: any, set: any | null, target: SetterTarget): string | null {
+  if (target === 'attack_code') return attack.attack_code || null;
+  if (target === 'set_type') {
+    const code = set?.set_type;
+    return code ? SET_TYPE_LABELS[code] || String(code) : null;
+  }
+  const zone = toNumber(attack.start_zone);
+  return zone === null ? null : `Zone ${zone}`;
+}
+
+function scoreSituation(rally: Rally, team: string): string | null {
+  // Row scores are the score after the rally; step back one point for the winner
+  const side = sameTeam(rally.homeTeam, team) ? 'home' : 'visiting';
+  const scored = rally.rows.find(r => toNumber(r.home_score) !== null && toNumber(r.visiting_score) !== null);
+  if (!scored) return null;
+  const winner = rallyWinner(rally);
+  const homeBefore = toNumber(scored.home_score)! - (sameTeam(winner, rally.homeTeam) ? 1 : 0);
+  const visitingBefore = toNumber(scored.visiting_score)! - (sameTeam(winner, rally.visitingTeam) ? 1 : 0);
+  const diff = side === 'home' ? homeBefore - visitingBefore : visitingBefore - homeBefore;
+  if (diff === 0) return 'Tied';
+  if (diff > 0) return diff >= 3 ? 'Leading 3+' : 'Leading 1-2';
+  return diff <= -3 ? 'Trailing 3+' : 'Trailing 1-2';
+}
+
+function collectChoices(rows: any[], target: SetterTarget, teamFilter?: string): SetterChoice[] {
+  const choices: SetterChoice[] = [];
+
+  for (const rally of groupRallies(rows).filter(isPlayedRally)) {
+    for (const team of [rally.homeTeam, rally.visitingTeam]) {
+      if (!team || (teamFilter && !sameTeam(team, teamFilter))) continue;
+      const side = sameTeam(rally.homeTeam, team) ? 'home' : 'visiting';
+      const teamRows = rally.rows.filter(r => sameTeam(r.team, team));
+      const serve = rally.rows.find(r => isSkill(r, 'serve'));
+      const rotationValue = toNumber((serve || teamRows[0])?.[`${side}_setter_position`]);
+      const rotation = rotationValue !== null && rotationValue >= 1 && rotationValue <= 6 ? `P${rotationValue}` : null;
+      const score = scoreSituation(rally, team);
+      const reception = teamRows.find(r => isSkill(r, 'reception'));
+      let firstBallTaken = false;
+
+      teamRows.forEach((row, index) => {
+        if (!isSkill(row, 'attack')) return;
+        const previous = teamRows[index - 1];
+        const set = previous && isSkill(previous, 'set') ? previous : null;
+        const value = targetOf(row, set, target);
+
+        // attack_phase comes from the DVW import; otherwise the first attack after our reception is first ball
+        const isFirstBall = row.attack_phase
+          ? row.attack_phase === 'Reception'
+          : !firstBallTaken && !!reception && index > teamRows.indexOf(reception);
+        if (isFirstBall) firstBallTaken = true;
+        const phase = isFirstBall ? 'Reception' : row.attack_phase === 'Freeball' ? 'Freeball' : 'Transition';
+        const passCode = reception?.evaluation_code || row.reception_quality;
+
+        if (value === null) return;
+        choices.push({
+          team,
+          target: value,
+          reception: phase === 'Reception' ? (passCode ? `Pass ${passCode}` : 'Reception') : phase,
+          rotation,
+          score,
+          phase,
+        });
+      });
+    }
+  }
+
+  return choices;
+}
+
+const orderIndex = (condition: SetterCondition, label: string) => {
+  const index = CONDITION_ORDER[condition].indexOf(label);
+  return index === -1 ? CONDITION_ORDER[condition].length : index;
+};
+
+/**
+ * Analyze setter distribution for every team in the action rows (or only `team`).
+ * Returns, per team, a matrix of target shares for each condition plus entropy and predictability.
+ */
+export function analyzeSetterDistribution(
+  rows: any[],
+  options: { team?: string; target?: SetterTarget } = {}
+): SetterDistributionReport {
+  const target = options.target || 'zone';
+  const choices = collectChoices(Array.isArray(rows) ? rows : [], target, options.team);
+  const teamNames = [...new Set(choices.map(c => c.team))];
+
+  const teams = teamNames.map(team => {
+    const teamChoices = choices.filter(c => c.team === team);
+    const overall = summarizeChoices('All', teamChoices, 0);
+    const targets = Object.entries(overall.counts)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], undefined, { numeric: true }))
+      .map(([name]) => name);
+    // Normalize every row against the full set of targets this team used
+    const summarize = (label: string, subset: SetterChoice[]) => summarizeChoices(label, subset, targets.length);
+
+    const matrices = SETTER_CONDITIONS.map(({ id }) => {
+      const groups = new Map<string, SetterChoice[]>();
+      teamChoices.forEach(choice => {
+        const label = choice[id];
+        if (label === null) return;
+        groups.set(label, [...(groups.get(label) || []), choice]);
+      });
+      return {
+        condition: id,
+        rows: [...groups.entries()]
+          .sort((a, b) => orderIndex(id, a[0]) - orderIndex(id, b[0]) || a[0].localeCompare(b[0]))
+          .map(([label, subset]) => summarize(label, subset)),
+      };
+    });
+
+    return { team, attempts: teamChoices.length, targets, overall: summarize('All', teamChoices), matrices };
+  }).sort((a, b) => b.attempts - a.attempts);
+
+  return { target, teams };
+}
+
+/**
+ * Heatmap of target share (%) per condition row; row labels carry sample size and predictability
+ */
+export function buildSetterHeatmapOption(
+  distribution: TeamSetterDistribution,
+  condition: SetterCondition,
+  target: SetterTarget
+): any {
+  const matrix = distribution.matrices.find(m => m.condition === condition);
+  const rows = [...(matrix?.rows || []), distribution.overall];
+  const targets = distribution.targets;
+  const conditionLabel = SETTER_CONDITIONS.find(c => c.id === condition)?.label || condition;
+  const targetLabel = SETTER_TARGETS.find(t => t.id === target)?.label || target;
+
+  const data: [number, number, number][] = [];
+  rows.forEach((row, y) => {
+    targets.forEach((name, x) => {
+      const count = row.counts[name] || 0;
+      if (count > 0) data.push([x, y, Math.round(ratio(count, row.attempts) * 100)]);
+    });
+  });
+
+  return {
+    title: {
+      text: `${distribution.team}: setter distribution by ${conditionLabel.toLowerCase()}`,
+      subtext: `${targetLabel} share (%) · ${distribution.attempts} attacks · predictability ${(distribution.overall.predictability * 100).toFixed(0)}%`,
+      left: 'center',
+    },
+    tooltip: { trigger: 'item', axisPointer: { type: 'none' } },
+    grid: { left: 170, right: 40, top: 80, bottom: 90 },
+    xAxis: {
+      type: 'category',
+      data: targets,
+      name: targetLabel,
+      nameLocation: 'middle',
+      nameGap: 28,
+      axisLabel: { color: '#fff', interval: 0, rotate: targets.length > 10 ? 45 : 0 },
+      splitArea: { show: true },
+    },
+    yAxis: {
+      type: 'category',
+      inverse: true,
+      data: rows.map(r => `${r.condition} (n=${r.attempts}, ${(r.predictability * 100).toFixed(0)}%)`),
+      axisLabel: { color: '#fff' },
+      splitArea: { show: true },
+    },
+    visualMap: {
+      min: 0,
+      max: 100,
+      calculable: true,
+      orient: 'horizontal',
+      left: 'center',
+      bottom: 10,
+      textStyle: { color: '#fff' },
+      inRange: { color: ['#1e293b', '#3b82f6', '#facc15', '#ef4444'] },
+    },
+    series: [
+      {
+        type: 'heatmap',
+        data,
+        label: { show: true, color: '#fff' },
+        emphasis: { itemStyle: { shadowBlur: 10, shadowColor: 'rgba(0, 0, 0, 0.5)' } },
+      },
+    ],
+  };
+}
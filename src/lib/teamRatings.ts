@@ -0,0 +1,279 @@
+// Team ratings over the match list, processed in match_id order
+// Elo variants:
+// - match: one update per match on the result
+// - set: one update per set, in set order
+// - point: one update per match on the share of points won (larger K, since shares sit near 0.5)
+// Matchup predictions turn the rating gap into set and match win probabilities.
+
+import { matchWinProbability, setWinProbability } from './winProbability';
+
+export type RatingVariant = 'match' | 'set' | 'point';
+
+export interface MatchResult {
+  match_id: string;
+  home_team: string;
+  visiting_team: string;
+  sets: { set_number: number; home: number; visiting: number }[];
+}
+
+export interface RatingOptions {
+  variant?: RatingVariant;
+  k?: number; // Defaults per variant (see DEFAULT_K)
+  initialRating?: number;
+  homeAdvantage?: number; // Rating points added to the home team when computing expectations
+  setsToWin?: number;
+}
+
+export interface TeamStanding {
+  rank: number;
+  team: string;
+  rating: number;
+  matches: number;
+  wins: number;
+  losses: number;
+  setsWon: number;
+  setsLost: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  change: number; // Rating change over the team's last match
+}
+
+export interface RatingHistoryEntry {
+  match_id: string;
+  opponent: string;
+  rating: number;
+}
+
+export interface RatingReport {
+  variant: RatingVariant;
+  k: number;
+  homeAdvantage: number;
+  setsToWin: number;
+  matches: number;
+  standings: TeamStanding[];
+  history: Record<string, RatingHistoryEntry[]>;
+  ratings: Record<string, number>;
+}
+
+export interface MatchupPrediction {
+  teamA: string;
+  teamB: string;
+  ratingA: number;
+  ratingB: number;
+  variant: RatingVariant;
+  setWinProbability: number; // Team A wins a given set
+  matchWinProbability: number; // Team A wins the match
+  likeliestScore: string; // Sets, team A first
+}
+
+export const DEFAULT_K: Record<RatingVariant, number> = { match: 32, set: 16, point: 96 };
+const DEFAULT_RATING = 1500;
+
+const expectedScore = (rating: number, opponent: number) => 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function setWinner(set: { home: number; visiting: number }): 'home' | 'visiting' | null {
+  if (set.home === set.visiting) return null;
+  return set.home > set.visiting ? 'home' : 'visiting';
+}
+
+/**
+ * Rate every team over the given results (sorted by match_id before processing)
+ */
+export function computeRatings(results: MatchResult[], options: RatingOptions = {}): RatingReport {
+  const variant = options.variant || 'match';
+  const k = options.k ?? DEFAULT_K[variant];
+  const initial = options.initialRating ?? DEFAULT_RATING;
+  const homeAdvantage = options.homeAdvantage ?? 0;
+  const setsToWin = options.setsToWin ?? 3;
+
+  const ratings = new Map<string, number>();
+  const stats = new Map<string, Omit<TeamStanding, 'rank' | 'team' | 'rating'>>();
+  const history: Record<string, RatingHistoryEntry[]> = {};
+  const ratingOf = (team: string) => ratings.get(team) ?? initial;
+  const statsOf = (team: string) => {
+    if (!stats.has(team)) {
+      stats.set(team, { matches: 0, wins: 0, losses: 0, setsWon: 0, setsLost: 0, pointsFor: 0, pointsAgainst: 0, change: 0 });
+    }
+    return stats.get(team)!;
+  };
+
+  const ordered = [...results]
+    .filter(r => r.home_team && r.visiting_team && r.sets.length > 0)
+    .sort((a, b) => String(a.match_id).localeCompare(String(b.match_id), undefined, { numeric: true }));
+  let rated = 0;
+
+  for (const match of ordered) {
+    const { home_team: home, visiting_team: visiting } = match;
+    const homeBefore = ratingOf(home);
+    const visitingBefore = ratingOf(visiting);
+    const homeSets = match.sets.filter(s => setWinner(s) === 'home').length;
+    const visitingSets = match.sets.filter(s => setWinner(s) === 'visiting').length;
+    const homePoints = match.sets.reduce((sum, s) => sum + s.home, 0);
+    const visitingPoints = match.sets.reduce((sum, s) => sum + s.visiting, 0);
+    if (homeSets === visitingSets && homePoints === visitingPoints) continue; // No decided result
+
+    let homeRating = homeBefore;
+    let visitingRating = visitingBefore;
+    const update = (actual: number, factor: number = k) => {
+      const expected = expectedScore(homeRating + homeAdvantage, visitingRating);
+      const delta = factor * (actual - expected);
+      homeRating += delta;
+      visitingRating -= delta;
+    };
+
+    if (variant === 'set') {
+      match.sets.forEach(set => {
+        const winner = setWinner(set);
+        if (winner) update(winner === 'home' ? 1 : 0);
+      });
+    } else if (variant === 'point') {
+      update(homePoints / Math.max(1, homePoints + visitingPoints));
+    } else {
+      update(homeSets === visitingSets ? (homePoints > visitingPoints ? 1 : 0) : homeSets > visitingSets ? 1 : 0);
+    }
+
+    ratings.set(home, homeRating);
+    ratings.set(visiting, visitingRating);
+    rated++;
+
+    const homeWon = homeSets > visitingSets || (homeSets === visitingSets && homePoints > visitingPoints);
+    [
+      { team: home, opponent: visiting, won: homeWon, sf: homeSets, sa: visitingSets, pf: homePoints, pa: visitingPoints, before: homeBefore, after: homeRating },
+      { team: visiting, opponent: home, won: !homeWon, sf: visitingSets, sa: homeSets, pf: visitingPoints, pa: homePoints, before: visitingBefore, after: visitingRating },
+    ].forEach(entry => {
+      const s = statsOf(entry.team);
+      s.matches++;
+      if (entry.won) s.wins++;
+      else s.losses++;
+      s.setsWon += entry.sf;
+      s.setsLost += entry.sa;
+      s.pointsFor += entry.pf;
+      s.pointsAgainst += entry.pa;
+      s.change = round1(entry.after - entry.before);
+      (history[entry.team] = history[entry.team] || []).push({ match_id: match.match_id, opponent: entry.opponent, rating: round1(entry.after) });
+    });
+  }
+
+  const standings = [...stats.entries()]
+    .map(([team, s]) => ({ rank: 0, team, rating: round1(ratingOf(team)), ...s }))
+    .sort((a, b) => b.rating - a.rating)
+    .map((s, i) => ({ ...s, rank: i + 1 }));
+
+  return {
+    variant,
+    k,
+    homeAdvantage,
+    setsToWin,
+    matches: rated,
+    standings,
+    history,
+    ratings: Object.fromEntries(standings.map(s => [s.team, s.rating])),
+  };
+}
+
+// Probability of winning a best-of-(2n-1) match when every set is won with probability p
+function matchFromSetProbability(p: number, setsToWin: number): number {
+  const memo = new Map<string, number>();
+  const from = (a: number, b: number): number => {
+    if (a >= setsToWin) return 1;
+    if (b >= setsToWin) return 0;
+    const key = `${a}:${b}`;
+    if (!memo.has(key)) memo.set(key, p * from(a + 1, b) + (1 - p) * from(a, b + 1));
+    return memo.get(key)!;
+  };
+  return from(0, 0);
+}
+
+// Most likely set score for team A given a per-set win probability
+function likeliestSetScore(p: number, setsToWin: number): string {
+  let best = { score: '', probability: -1 };
+  const choose = (n: number, r: number) => {
+    let result = 1;
+    for (let i = 1; i <= r; i++) result = (result * (n - r + i)) / i;
+    return result;
+  };
+  for (let lost = 0; lost < setsToWin; lost++) {
+    // The winner of the match takes the last set
+    const aWins = choose(setsToWin - 1 + lost, lost) * Math.pow(p, setsToWin) * Math.pow(1 - p, lost);
+    const bWins = choose(setsToWin - 1 + lost, lost) * Math.pow(1 - p, setsToWin) * Math.pow(p, lost);
+    if (aWins > best.probability) best = { score: `${setsToWin}-${lost}`, probability: aWins };
+    if (bWins > best.probability) best = { score: `${lost}-${setsToWin}`, probability: bWins };
+  }
+  return best.score;
+}
+
+/**
+ * Predict a matchup between two rated teams. Pass `homeTeam` to apply the report's home advantage.
+ */
+export function predictMatchup(report: RatingReport, teamA: string, teamB: string, options: { homeTeam?: string } = {}): MatchupPrediction {
+  const ratingA = report.ratings[teamA] ?? DEFAULT_RATING;
+  const ratingB = report.ratings[teamB] ?? DEFAULT_RATING;
+  const bonus = options.homeTeam === teamA ? report.homeAdvantage : options.homeTeam === teamB ? -report.homeAdvantage : 0;
+  const expected = expectedScore(ratingA + bonus, ratingB);
+  let setProbability: number;
+  let matchProbability: number;
+
+  if (report.variant === 'point') {
+    // Expected share of rallies won, regardless of who serves
+    const set = (setWinProbability(0, 0, true, 25, expected, 1 - expected) + setWinProbability(0, 0, false, 25, expected, 1 - expected)) / 2;
+    setProbability = set;
+    matchProbability = matchWinProbability(0, 0, set, expected, 1 - expected, report.setsToWin);
+  } else if (report.variant === 'set') {
+    setProbability = expected;
+    matchProbability = matchFromSetProbability(expected, report.setsToWin);
+  } else {
+    // Invert the match probability to the per-set probability that produces it
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 50; i++) {
+      const mid = (low + high) / 2;
+      if (matchFromSetProbability(mid, report.setsToWin) < expected) low = mid;
+      else high = mid;
+    }
+    setProbability = (low + high) / 2;
+    matchProbability = expected;
+  }
+
+  return {
+    teamA,
+    teamB,
+    ratingA,
+    ratingB,
+    variant: report.variant,
+    setWinProbability: Math.round(setProbability * 1000) / 1000,
+    matchWinProbability: Math.round(matchProbability * 1000) / 1000,
+    likeliestScore: likeliestSetScore(setProbability, report.setsToWin),
+  };
+}
+
+/**
+ * Rating after each match for the given teams (defaults to the top five)
+ */
+export function buildRatingHistoryOption(report: RatingReport, teams?: string[]): any {
+  const selected = teams && teams.length > 0 ? teams : report.standings.slice(0, 5).map(s => s.team);
+  const matchIds = [...new Set(selected.flatMap(team => (report.history[team] || []).map(h => h.match_id)))]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+  return {
+    title: {
+      text: `Rating history (${report.variant} Elo)`,
+      subtext: `K=${report.k} · ${report.matches} matches in match_id order`,
+      left: 'center',
+    },
+    grid: { left: 60, right: 30, top: 90, bottom: 80 },
+    legend: { top: 55 },
+    xAxis: { type: 'category', data: matchIds, name: 'Match', axisLabel: { color: '#fff', rotate: matchIds.length > 12 ? 45 : 0 } },
+    yAxis: { type: 'value', scale: true, name: 'Rating', axisLabel: { color: '#fff' }, splitLine: { lineStyle: { color: 'rgba(255,255,255,0.1)' } } },
+    series: selected.map(team => {
+      const byMatch = new Map((report.history[team] || []).map(h => [h.match_id, h.rating]));
+      return {
+        name: team,
+        type: 'line',
+        connectNulls: true,
+        symbolSize: 5,
+        data: matchIds.map(id => byMatch.get(id) ?? null),
+      };
+    }),
+  };
+}
@@ -0,0 +1,143 @@
+// Shared volleyball statistics primitives for action-level match rows
+// Rows follow the combined_dvw shape (see MATCH_ACTION_COLUMNS in database.ts)
+//
+// Evaluation code mapping:
+// # = really good action (4 grade) - kill/ace when used with attacks or serves
+// + = positive action (3 grade)
+// ! = medium action (2 grade)
+// - = poor action (1 grade)
+// / = blocked attack / overpass
+// = = error
+
+export type SkillName = 'serve' | 'reception' | 'set' | 'attack' | 'block' | 'dig' | 'freeball';
+
+export interface AttackStats {
+  attempts: number;
+  kills: number;
+  errors: number;
+  blocked: number;
+  killPct: number;
+  errorPct: number;
+  efficiency: number; // (kills - errors - blocked) / attempts
+}
+
+export interface Rally {
+  key: string;
+  matchId: string | null;
+  setNumber: number | null;
+  pointId: number | string | null;
+  homeTeam: string | null;
+  visitingTeam: string | null;
+  rows: any[];
+}
+
+// Normalize team names for comparison (case-insensitive, trim whitespace)
+export function normalizeTeamName(name: unknown): string {
+  return String(name ?? '').trim().toLowerCase();
+}
+
+export function sameTeam(a: unknown, b: unknown): boolean {
+  const left = normalizeTeamName(a);
+  return left !== '' && left === normalizeTeamName(b);
+}
+
+// Match skill_type case-insensitively and allow partial matches (same rules as generateMatchSummary)
+export function isSkill(row: any, skill: SkillName): boolean {
+  const skillType = String(row?.skill_type ?? '').toLowerCase();
+  if (!skillType) return false;
+  if (skill === 'set') {
+    return skillType.includes('set') && !skillType.includes('attack');
+  }
+  return skillType.includes(skill);
+}
+
+export function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Truthy check for boolean-ish columns stored as 1/0, true/false or 'true'/'false'
+export function isFlagSet(value: unknown): boolean {
+  return value === true || value === 1 || value === '1' || value === 'true' || value === 'TRUE';
+}
+
+export function ratio(numerator: number, denominator: number, digits: number = 3): number {
+  if (!denominator) return 0;
+  const factor = Math.pow(10, digits);
+  return Math.round((numerator / denominator) * factor) / factor;
+}
+
+export function summarizeAttacks(rows: any[]): AttackStats {
+  const attacks = rows.filter(r => isSkill(r, 'attack'));
+  const kills = attacks.filter(a => a.evaluation_code === '#').length;
+  const errors = attacks.filter(a => a.evaluation_code === '=').length;
+  const blocked = attacks.filter(a => a.evaluation_code === '/').length;
+  return {
+    attempts: attacks.length,
+    kills,
+    errors,
+    blocked,
+    killPct: ratio(kills, attacks.length),
+    errorPct: ratio(errors + blocked, attacks.length),
+    efficiency: ratio(kills - errors - blocked, attacks.length),
+  };
+}
+
+/**
+ * Group action rows into rallies keyed by match_id + point_id, preserving row order.
+ * Rows without a point_id are attached to the rally that precedes them.
+ */
+export function groupRallies(rows: any[]): Rally[] {
+  const rallies: Rally[] = [];
+  const byKey = new Map<string, Rally>();
+  let previous: Rally | null = null;
+
+  for (const row of rows) {
+    const matchId = row?.match_id ?? null;
+    const pointId = row?.point_id ?? null;
+    if (pointId === null || pointId === undefined || pointId === '') {
+      previous?.rows.push(row);
+      continue;
+    }
+    const key = `${matchId ?? ''}::${pointId}`;
+    let rally = byKey.get(key);
+    if (!rally) {
+      rally = {
+        key,
+        matchId,
+        setNumber: toNumber(row.set_number),
+        pointId,
+        homeTeam: row.home_team ?? null,
+        visitingTeam: row.visiting_team ?? null,
+        rows: [],
+      };
+      byKey.set(key, rally);
+      rallies.push(rally);
+    }
+    if (rally.setNumber === null) rally.setNumber = toNumber(row.set_number);
+    rally.rows.push(row);
+    previous = rally;
+  }
+
+  return rallies;
+}
+
+// Team that served the rally (serving_team column, falling back to the team of the serve action)
+export function rallyServingTeam(rally: Rally): string | null {
+  const withServingTeam = rally.rows.find(r => r.serving_team);
+  if (withServingTeam) return withServingTeam.serving_team;
+  const serve = rally.rows.find(r => isSkill(r, 'serve'));
+  return serve?.team ?? null;
+}
+
+// Team that won the rally (point_won_by column)
+export function rallyWinner(rally: Rally): string | null {
+  const withWinner = rally.rows.find(r => r.point_won_by);
+  return withWinner?.point_won_by ?? null;
+}
+
+// Rallies that were actually played (have both a serve and a winner)
+export function isPlayedRally(rally: Rally): boolean {
+  return rallyServingTeam(rally) !== null && rallyWinner(rally) !== null;
+}
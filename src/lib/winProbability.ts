@@ -0,0 +1,397 @@
+// In-browser win-probability model
+// Each rally is a Bernoulli trial: the receiving team sides out with its (shrunk) side-out rate,
+// otherwise the serving team scores. Set WP is solved exactly over the score grid (win by two,
+// deuce handled as a closed loop); match WP combines the current set with neutral future sets.
+// Rates are calibrated from rally outcomes, either in loaded action rows or aggregated history.
+
+import {
+  groupRallies,
+  isPlayedRally,
+  rallyServingTeam,
+  rallyWinner,
+  ratio,
+  sameTeam,
+  toNumber,
+} from './volleyballStats';
+
+// One aggregated outcome bucket: rallies served by serving_team in home vs visiting matches
+export interface RallyOutcomeCount {
+  home_team: string;
+  visiting_team: string;
+  serving_team: string;
+  point_won_by: string;
+  rallies: number;
+}
+
+export interface WinProbabilityModel {
+  rallies: number; // Rallies the model was calibrated on
+  sideOutRate: number; // League-wide probability that the receiving team wins the rally
+  teams: Record<string, { sideOutRate: number; receiveRallies: number }>; // Keyed by normalized team name
+  setsToWin: number;
+}
+
+export interface WinProbabilityPoint {
+  index: number;
+  setNumber: number;
+  pointInSet: number;
+  servingTeam: string | null;
+  winner: string;
+  homeScoreBefore: number;
+  visitingScoreBefore: number;
+  homeSetsBefore: number;
+  visitingSetsBefore: number;
+  homeSetWP: number; // Probability the home team wins the set, after the rally
+  homeMatchWP: number; // Probability the home team wins the match, after the rally
+  homeMatchWPBefore: number;
+  wpAdded: number; // Change in home match WP caused by the rally
+}
+
+export interface ActionWPCredit {
+  match_id: string | null;
+  set_number: number;
+  point_id: any;
+  team: string | null;
+  player_number: number | null;
+  player_name: string | null;
+  skill_type: string | null;
+  evaluation_code: string | null;
+  wpAdded: number; // Match WP gained by the action's team (negative for errors)
+}
+
+export interface PlayerWPTotal {
+  team: string;
+  player: string;
+  actions: number;
+  wpAdded: number;
+}
+
+export interface WinProbabilityTimeline {
+  matchId: string | null;
+  homeTeam: string;
+  visitingTeam: string;
+  model: { rallies: number; sideOutRate: number; homeSideOutRate: number; visitingSideOutRate: number };
+  points: WinProbabilityPoint[];
+  actions: ActionWPCredit[]; // Rally-ending actions, largest swings first
+  players: PlayerWPTotal[];
+}
+
+// Rallies worth of league average mixed into each team's side-out rate
+const SHRINKAGE_RALLIES = 100;
+const DEFAULT_SIDE_OUT_RATE = 0.6;
+
+const teamKey = (team: unknown) => String(team ?? '').trim().toLowerCase();
+
+/**
+ * Calibrate side-out rates from aggregated rally outcomes (see loadWinProbabilityModel)
+ */
+export function calibrateFromRallyCounts(counts: RallyOutcomeCount[], setsToWin: number = 3): WinProbabilityModel {
+  const teams = new Map<string, { sideOuts: number; receiveRallies: number }>();
+  let rallies = 0;
+  let sideOuts = 0;
+
+  counts.forEach(row => {
+    const n = toNumber(row.rallies) || 0;
+    const receiving = sameTeam(row.serving_team, row.home_team) ? row.visiting_team
+      : sameTeam(row.serving_team, row.visiting_team) ? row.home_team
+      : null;
+    if (!receiving || n <= 0) return;
+    const sidedOut = sameTeam(row.point_won_by, receiving);
+    rallies += n;
+    sideOuts += sidedOut ? n : 0;
+    const bucket = teams.get(teamKey(receiving)) || { sideOuts: 0, receiveRallies: 0 };
+    bucket.receiveRallies += n;
+    bucket.sideOuts += sidedOut ? n : 0;
+    teams.set(teamKey(receiving), bucket);
+  });
+
+  const league = rallies > 0 ? sideOuts / rallies : DEFAULT_SIDE_OUT_RATE;
+  return {
+    rallies,
+    sideOutRate: ratio(league, 1, 4),
+    teams: Object.fromEntries([...teams.entries()].map(([team, t]) => [team, {
+      sideOutRate: ratio((t.sideOuts + SHRINKAGE_RALLIES * league) / (t.receiveRallies + SHRINKAGE_RALLIES), 1, 4),
+      receiveRallies: t.receiveRallies,
+    }])),
+    setsToWin,
+  };
+}
+
+/**
+ * Calibrate from action rows already in memory (one or many matches)
+ */
+export function calibrateWinProbability(rows: any[], setsToWin: number = 3): WinProbabilityModel {
+  const buckets = new Map<string, RallyOutcomeCount>();
+  groupRallies(Array.isArray(rows) ? rows : []).filter(isPlayedRally).forEach(rally => {
+    const serving = rallyServingTeam(rally)!;
+    const winner = rallyWinner(rally)!;
+    const key = [rally.homeTeam, rally.visitingTeam, serving, winner].join('::');
+    const bucket = buckets.get(key) || {
+      home_team: rally.homeTeam || '', visiting_team: rally.visitingTeam || '', serving_team: serving, point_won_by: winner, rallies: 0,
+    };
+    bucket.rallies++;
+    buckets.set(key, bucket);
+  });
+  return calibrateFromRallyCounts([...buckets.values()], setsToWin);
+}
+
+export function teamSideOutRate(model: WinProbabilityModel, team: string): number {
+  return model.teams[teamKey(team)]?.sideOutRate ?? model.sideOutRate;
+}
+
+/**
+ * Probability that team A wins the set from score a:b.
+ * aServing: A serves the next rally. soA/soB: side-out rates of A and B when receiving.
+ */
+export function setWinProbability(a: number, b: number, aServing: boolean, target: number, soA: number, soB: number): number {
+  // Deuce loop (both teams at target - 1 or more): tied or one point ahead, the leader always serving
+  const deuce = (() => {
+    let tieA = 0.5, tieB = 0.5, advA = 0.5, advB = 0.5;
+    for (let i = 0; i < 500; i++) {
+      advA = (1 - soB) + soB * tieB; // A serving, one up: hold serve to win or B sides out to tie
+      advB = soA * tieA; // B serving, one up: A must side out to tie
+      tieA = (1 - soB) * advA + soB * advB;
+      tieB = soA * advA + (1 - soA) * advB;
+    }
+    return { tieA, tieB, advA, advB };
+  })();
+
+  const memo = new Map<string, number>();
+  const solve = (x: number, y: number, serving: boolean): number => {
+    if (x >= target && x - y >= 2) return 1;
+    if (y >= target && y - x >= 2) return 0;
+    if (x >= target - 1 && y >= target - 1) {
+      if (x === y) return serving ? deuce.tieA : deuce.tieB;
+      return x > y ? deuce.advA : deuce.advB;
+    }
+    const key = `${x}:${y}:${serving ? 1 : 0}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    const pA = serving ? 1 - soB : soA; // A wins the rally
+    const value = pA * solve(x + 1, y, true) + (1 - pA) * solve(x, y + 1, false);
+    memo.set(key, value);
+    return value;
+  };
+
+  return solve(a, b, aServing);
+}
+
+// Deciding set (set number setsToWin * 2 - 1) is played to 15
+const setTarget = (setNumber: number, setsToWin: number) => (setNumber >= setsToWin * 2 - 1 ? 15 : 25);
+
+// Set WP from 0:0 by target and side-out rates, shared across calls
+const freshSetCache = new Map<string, number>();
+
+/**
+ * Probability that A wins the match given sets won and the probability of winning the current set
+ */
+export function matchWinProbability(
+  setsA: number,
+  setsB: number,
+  currentSetWP: number,
+  soA: number,
+  soB: number,
+  setsToWin: number = 3
+): number {
+  const memo = new Map<string, number>();
+  // Future sets start 0:0 with either team serving first
+  const freshSet = (setNumber: number) => {
+    const target = setTarget(setNumber, setsToWin);
+    const key = `${target}:${soA}:${soB}`;
+    if (!freshSetCache.has(key)) {
+      freshSetCache.set(key, (setWinProbability(0, 0, true, target, soA, soB) + setWinProbability(0, 0, false, target, soA, soB)) / 2);
+    }
+    return freshSetCache.get(key)!;
+  };
+  const fromSets = (x: number, y: number): number => {
+    if (x >= setsToWin) return 1;
+    if (y >= setsToWin) return 0;
+    const key = `${x}:${y}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    const p = freshSet(x + y + 1);
+    const value = p * fromSets(x + 1, y) + (1 - p) * fromSets(x, y + 1);
+    memo.set(key, value);
+    return value;
+  };
+  if (setsA >= setsToWin) return 1;
+  if (setsB >= setsToWin) return 0;
+  return currentSetWP * fromSets(setsA + 1, setsB) + (1 - currentSetWP) * fromSets(setsA, setsB + 1);
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Win probability before and after every rally of one match, with each rally-ending
+ * action credited with the match WP its team gained (or lost, for errors).
+ */
+export function computeWinProbability(
+  rows: any[],
+  model: WinProbabilityModel,
+  options: { matchId?: string } = {}
+): WinProbabilityTimeline {
+  const allRows = Array.isArray(rows) ? rows : [];
+  const matchId = options.matchId ?? allRows.find(r => r?.match_id != null)?.match_id ?? null;
+  const matchRows = matchId == null ? allRows : allRows.filter(r => String(r?.match_id) === String(matchId));
+  const rallies = groupRallies(matchRows).filter(isPlayedRally);
+  const homeTeam = rallies.find(r => r.homeTeam)?.homeTeam || '';
+  const visitingTeam = rallies.find(r => r.visitingTeam)?.visitingTeam || '';
+  const soHome = teamSideOutRate(model, homeTeam);
+  const soVisiting = teamSideOutRate(model, visitingTeam);
+  const { setsToWin } = model;
+
+  const points: WinProbabilityPoint[] = [];
+  const actions: ActionWPCredit[] = [];
+  let currentSet: number | null = null;
+  let home = 0;
+  let visiting = 0;
+  let homeSets = 0;
+  let visitingSets = 0;
+  let pointInSet = 0;
+
+  const homeMatchWP = (h: number, v: number, homeServing: boolean, setNumber: number, hs: number, vs: number) => {
+    const target = setTarget(setNumber, setsToWin);
+    const setWP = setWinProbability(h, v, homeServing, target, soHome, soVisiting);
+    return { setWP, matchWP: matchWinProbability(hs, vs, setWP, soHome, soVisiting, setsToWin) };
+  };
+
+  for (const rally of rallies) {
+    const setNumber: number = rally.setNumber ?? currentSet ?? 1;
+    if (setNumber !== currentSet) {
+      // Close the previous set on its final score
+      if (currentSet !== null) {
+        if (home > visiting) homeSets++;
+        else if (visiting > home) visitingSets++;
+      }
+      currentSet = setNumber;
+      home = 0;
+      visiting = 0;
+      pointInSet = 0;
+    }
+
+    const serving = rallyServingTeam(rally);
+    const winner = rallyWinner(rally)!;
+    const homeServing = sameTeam(serving, homeTeam);
+    const homeWon = sameTeam(winner, homeTeam);
+    const before = homeMatchWP(home, visiting, homeServing, setNumber, homeSets, visitingSets);
+
+    const homeBefore = home;
+    const visitingBefore = visiting;
+    home += homeWon ? 1 : 0;
+    visiting += homeWon ? 0 : 1;
+    pointInSet++;
+
+    // After the rally the winner serves; a finished set counts as won
+    const target = setTarget(setNumber, setsToWin);
+    const setOver = (home >= target || visiting >= target) && Math.abs(home - visiting) >= 2;
+    const after = setOver
+      ? {
+        setWP: homeWon ? 1 : 0,
+        matchWP: matchWinProbability(homeSets, visitingSets, homeWon ? 1 : 0, soHome, soVisiting, setsToWin),
+      }
+      : homeMatchWP(home, visiting, homeWon, setNumber, homeSets, visitingSets);
+    const wpAdded = after.matchWP - before.matchWP;
+
+    points.push({
+      index: points.length + 1,
+      setNumber,
+      pointInSet,
+      servingTeam: serving,
+      winner,
+      homeScoreBefore: homeBefore,
+      visitingScoreBefore: visitingBefore,
+      homeSetsBefore: homeSets,
+      visitingSetsBefore: visitingSets,
+      homeSetWP: round(after.setWP),
+      homeMatchWP: round(after.matchWP),
+      homeMatchWPBefore: round(before.matchWP),
+      wpAdded: round(wpAdded),
+    });
+
+    // Credit the rally-ending contact: winners gain the swing, errors give it away
+    const contacts = rally.rows.filter(r => r.skill_type);
+    const last = contacts[contacts.length - 1];
+    if (last) {
+      const homeAction = sameTeam(last.team, homeTeam);
+      actions.push({
+        match_id: rally.matchId,
+        set_number: setNumber,
+        point_id: rally.pointId,
+        team: last.team ?? null,
+        player_number: toNumber(last.player_number),
+        player_name: last.player_name ?? null,
+        skill_type: last.skill_type ?? null,
+        evaluation_code: last.evaluation_code ?? null,
+        wpAdded: round(homeAction ? wpAdded : -wpAdded),
+      });
+    }
+  }
+
+  const playerTotals = new Map<string, PlayerWPTotal>();
+  actions.forEach(action => {
+    const player = action.player_name || (action.player_number != null ? `#${action.player_number}` : null);
+    if (!player || !action.team) return;
+    const key = `${action.team}::${player}`;
+    const total = playerTotals.get(key) || { team: action.team, player, actions: 0, wpAdded: 0 };
+    total.actions++;
+    total.wpAdded = round(total.wpAdded + action.wpAdded);
+    playerTotals.set(key, total);
+  });
+
+  return {
+    matchId,
+    homeTeam,
+    visitingTeam,
+    model: { rallies: model.rallies, sideOutRate: model.sideOutRate, homeSideOutRate: soHome, visitingSideOutRate: soVisiting },
+    points,
+    actions: actions.sort((a, b) => Math.abs(b.wpAdded) - Math.abs(a.wpAdded)),
+    players: [...playerTotals.values()].sort((a, b) => b.wpAdded - a.wpAdded),
+  };
+}
+
+/**
+ * Home match and set WP (%) after every rally, with set boundaries and a 50% guide
+ */
+export function buildWinProbabilityChartOption(timeline: WinProbabilityTimeline): any {
+  const categories = timeline.points.map(p => `S${p.setNumber}·${p.homeScoreBefore + (sameTeam(p.winner, timeline.homeTeam) ? 1 : 0)}-${p.visitingScoreBefore + (sameTeam(p.winner, timeline.homeTeam) ? 0 : 1)}`);
+  const line = (from: [string, number], to: [string, number], color: string, type: string) => [
+    { coord: from, lineStyle: { color, type, width: 1 } },
+    { coord: to },
+  ];
+  const guides = categories.length === 0 ? [] : [
+    line([categories[0], 50], [categories[categories.length - 1], 50], '#6b7280', 'dashed'),
+    ...timeline.points
+      .filter((p, i) => i > 0 && p.pointInSet === 1)
+      .map(p => line([categories[p.index - 1], 0], [categories[p.index - 1], 100], '#94a3b8', 'solid')),
+  ];
+
+  return {
+    title: {
+      text: `Win probability: ${timeline.homeTeam} vs ${timeline.visitingTeam}`,
+      subtext: `${timeline.homeTeam} WP after each rally · side-out ${(timeline.model.homeSideOutRate * 100).toFixed(1)}% vs ${(timeline.model.visitingSideOutRate * 100).toFixed(1)}% · calibrated on ${timeline.model.rallies.toLocaleString()} rallies`,
+      left: 'center',
+    },
+    grid: { left: 50, right: 30, top: 90, bottom: 80 },
+    xAxis: { type: 'category', data: categories, boundaryGap: false, axisLabel: { color: '#fff' } },
+    yAxis: { type: 'value', min: 0, max: 100, name: 'WP %', axisLabel: { color: '#fff' }, splitLine: { lineStyle: { color: 'rgba(255,255,255,0.1)' } } },
+    series: [
+      {
+        name: 'Match WP',
+        type: 'line',
+        data: timeline.points.map(p => Math.round(p.homeMatchWP * 1000) / 10),
+        symbolSize: 4,
+        lineStyle: { color: '#3b82f6', width: 2 },
+        itemStyle: { color: '#3b82f6' },
+        areaStyle: { color: 'rgba(59,130,246,0.12)' },
+        markLine: { symbol: ['none', 'none'], silent: true, label: { show: false }, data: guides },
+      },
+      {
+        name: 'Set WP',
+        type: 'line',
+        data: timeline.points.map(p => Math.round(p.homeSetWP * 1000) / 10),
+        symbol: 'none',
+        lineStyle: { color: '#facc15', width: 1, type: 'dashed' },
+        itemStyle: { color: '#facc15' },
+      },
+    ],
+  };
+}
@@ -5,7 +5,7 @@ import ChatSidebar from "@/components/chat/ChatSidebar";
 import ChatMain from "@/components/chat/ChatMain";
 import Settings from "@/components/settings/Settings";
 import { Chat, Message } from "@/types/chat";
-import { initVolleyballDB } from "@/lib/database";
+import { databaseTableNames, getDatabaseSession, initVolleyballDB, logoutFromDatabase } from "@/lib/database";
 import { cleanupUnusedDuckDBTables } from "@/lib/duckdb";
 import { loadAllChats, saveAllChats, saveChat, deleteChat as deleteChatFromDB, migrateFromLocalStorage } from "@/lib/chatStorage";
 import { CommandPalette, useCommandPalette, Command } from "@/components/ui/command-palette";
@@ -37,6 +37,7 @@ const Index = () => {
   const [settingsTab, setSettingsTab] = useState<'api' | 'database'>('api');
   const [isLoading, setIsLoading] = useState(true);
   const [chatsLoaded, setChatsLoaded] = useState(false);
+  const [dbUser, setDbUser] = useState<string | null>(() => getDatabaseSession()?.user ?? null);
   
   // Get chart state from Zustand store
   const { 
@@ -81,6 +82,13 @@ const Index = () => {
     init();
   }, []);
 
+  // Track team database sign-in for the sidebar
+  useEffect(() => {
+    const handleAuthChanged = () => setDbUser(getDatabaseSession()?.user ?? null);
+    window.addEventListener('databaseAuthChanged', handleAuthChanged);
+    return () => window.removeEventListener('databaseAuthChanged', handleAuthChanged);
+  }, []);
+
   // Load chats from IndexedDB on mount (only once when authenticated)
   useEffect(() => {
     if (isAuthenticated && !chatsLoaded) {
@@ -274,6 +282,14 @@ const Index = () => {
         console.warn('Failed to clear LangChain memory for deleted chat:', error);
       }
 
+      // Drop the chat's local match video (OPFS copy and player settings)
+      try {
+        const { removeMatchVideo } = await import('@/lib/matchVideo');
+        await removeMatchVideo(chatId);
+      } catch (error) {
+        console.warn('Failed to remove match video for deleted chat:', error);
+      }
+
       // NOTE: Value info is NOT deleted when chats are deleted
       // Value info should only be deleted by explicit user action
       
@@ -426,6 +442,7 @@ const Index = () => {
               csvDisplayValues: filters.csvDisplayValues,
               selectedCsvIds: filters.selectedCsvIds,
               selectedCsvFileNames: filters.selectedCsvFileNames,
+              attachedTables: databaseTableNames(filters.selectedCsvIds || []),
               selectedContextSectionId: filters.selectedContextSectionId,
             }
           : chat
@@ -576,6 +593,8 @@ const Index = () => {
           isOpen={sidebarOpen}
           onToggle={() => setSidebarOpen(!sidebarOpen)}
           onSettings={() => setShowSettings(true)}
+          userInfo={dbUser ? `Signed in as ${dbUser}` : undefined}
+          onLogout={dbUser ? logoutFromDatabase : undefined}
         />
 
         <div className="flex-1 flex flex-col overflow-hidden relative">
@@ -664,6 +683,7 @@ const Index = () => {
               chatHistory={currentChat.messages}
               charts={charts}
               chatTitle={currentChat.title}
+              selectedMatch={currentChat.selectedMatch}
             />
           </div>
         )}
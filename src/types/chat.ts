@@ -1,3 +1,5 @@
+import type { PlayerMatchStats } from "@/lib/playerReports";
+
 export interface Message {
   role: "user" | "assistant";
   content: string;
@@ -32,6 +34,7 @@ export interface Chat {
   csvDisplayValues?: Record<string, string | null>; // Display values for the selected CSV group
   selectedCsvIds?: string[]; // Array of CSV IDs to combine into a table
   selectedCsvFileNames?: string[]; // Array of CSV file names corresponding to selectedCsvIds
+  attachedTables?: string[]; // Remote database tables among selectedCsvIds; SQL in this chat may join any of them
   selectedContextSectionId?: string | null; // Selected context section ID for this chat
   maxFollowupDepth?: number; // Maximum number of followup exchanges (default: 0 = no limit)
 }
@@ -52,7 +55,8 @@ export interface MatchData {
     total_actions: number;
     sets_played: number;
   };
-  data: any[];
+  rowCount: number;
+  tableName: string; // DuckDB table (remote_match_<id>) holding the match's raw rows; readMatchActions reads them
   summary: {
     totalActions: number;
     totalSets: number;
@@ -83,6 +87,7 @@ export interface MatchData {
     totalDigs: number;
     totalSetSkills: number;
     setScores: Record<string, { home: number; visiting: number }>;
+    players: PlayerMatchStats[]; // Per-player breakdown of the team totals above
   };
 }
 
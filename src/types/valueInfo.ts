@@ -5,6 +5,8 @@ export interface ColumnInfo {
   type: string;
   uniqueValues?: any[];
   nullCount?: number;
+  dbType?: string; // Postgres data_type for remote database tables
+  nullable?: boolean;
 }
 
 export interface ValueInfo {
@@ -27,6 +29,7 @@ export interface ValueInfo {
   uniqueId?: string;
   usedByChats?: string[];
   generatedAt?: number;
+  totalRowCount?: number; // Rows in the source table, when only a sample was inspected
 }
 
 export interface DataInfo {
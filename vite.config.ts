@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { copyFileSync, existsSync, mkdirSync } from "fs";
+import { localApi } from "./dev/localApi";
 
 // Plugin to copy DuckDB WASM files from node_modules to public folder
 const copyDuckDBFiles = () => {
@@ -47,7 +48,7 @@ export default defineConfig({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), copyDuckDBFiles()],
+  plugins: [react(), copyDuckDBFiles(), localApi()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Tests run in Node without the app's Vite plugins (DuckDB asset copy, local /api)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["functions/**/*.test.ts", "dev/**/*.test.ts", "src/**/*.test.ts"],
+  },
+});